@@ -0,0 +1,57 @@
+/**
+ * This block of code defines a client-side component for requesting a password reset email.
+ * - Shows the same confirmation whether or not the email has an account.
+ */
+
+"use client"; // Declares that this code is intended to run on the client side (browser).
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Link from "next/link";
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { requestPasswordReset } from "@/lib/actions/user.actions"; // Imports the action sending the password reset email.
+
+const ForgotPasswordForm = () => {
+  // Defines a state for managing the form data and action status.
+  const [data, action] = useActionState(requestPasswordReset, {
+    message: "",
+    success: false
+  });
+
+  const SendButton = () => {
+    const { pending } = useFormStatus(); // Retrieves the pending status of the form submission.
+    return (
+      <Button disabled={pending} className="w-full" variant="default">
+        {pending ? "Sending..." : "Send reset link"}
+      </Button>
+    );
+  };
+
+  return (
+    <form action={action}>
+      <div className="space-y-6">
+        <div>
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" name="email" required type="email" autoComplete="email" />
+        </div>
+        <div>
+          <SendButton />
+        </div>
+
+        {/* Displays the confirmation, or the error when the email is invalid. */}
+        {data.message && <div className={data.success ? "text-center text-muted-foreground" : "text-center text-destructive"}>{data.message}</div>}
+
+        <div className="text-sm text-center text-muted-foreground">
+          Remembered your password?{" "}
+          <Link target="_self" className="link" href="/sign-in">
+            Sign In
+          </Link>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default ForgotPasswordForm;
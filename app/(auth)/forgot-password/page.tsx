@@ -0,0 +1,37 @@
+/**
+ * This block of code defines a Next.js page for requesting a password reset email.
+ * - Linked from the sign-in form, for users who forgot their password.
+ * - Renders the forgot password form, which emails a link to the reset password page.
+ */
+
+import { Metadata } from "next"; // Imports the Metadata type from Next.js for page metadata.
+import Image from "next/image"; // Imports the Image component from Next.js for optimized image rendering.
+import Link from "next/link"; // Imports the Link component from Next.js for client-side navigation.
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Imports custom Card components for UI structure.
+import { APP_NAME } from "@/lib/constants"; // Imports a constant for the application name.
+import ForgotPasswordForm from "./forgot-password-form"; // Imports the ForgotPasswordForm component.
+
+export const metadata: Metadata = {
+  title: "Forgot Password"
+};
+
+const ForgotPassword = () => {
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <Card>
+        <CardHeader className="space-y-4">
+          <Link href="/" className="flex-center">
+            <Image priority={true} src="/images/logo.svg" width={100} height={100} alt={`${APP_NAME} logo`} />
+          </Link>
+          <CardTitle className="text-center">Forgot Password</CardTitle>
+          <CardDescription className="text-center">Enter the email of your account and we&apos;ll send you a link to reset your password</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ForgotPasswordForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ForgotPassword;
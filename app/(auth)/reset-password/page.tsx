@@ -0,0 +1,53 @@
+/**
+ * This block of code defines a Next.js page for choosing a new password, opened from the link of a password reset email.
+ * - Reads the email and token of the link from the search parameters and passes them to the form.
+ * - A link without them points back to the forgot password page.
+ */
+
+import { Metadata } from "next"; // Imports the Metadata type from Next.js for page metadata.
+import Image from "next/image"; // Imports the Image component from Next.js for optimized image rendering.
+import Link from "next/link"; // Imports the Link component from Next.js for client-side navigation.
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Imports custom Card components for UI structure.
+import { APP_NAME } from "@/lib/constants"; // Imports a constant for the application name.
+import ResetPasswordForm from "./reset-password-form"; // Imports the ResetPasswordForm component.
+
+export const metadata: Metadata = {
+  title: "Reset Password"
+};
+
+const ResetPassword = async (props: {
+  searchParams: Promise<{
+    email?: string;
+    token?: string;
+  }>;
+}) => {
+  const { email, token } = await props.searchParams; // Retrieves the email and token of the reset link.
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <Card>
+        <CardHeader className="space-y-4">
+          <Link href="/" className="flex-center">
+            <Image priority={true} src="/images/logo.svg" width={100} height={100} alt={`${APP_NAME} logo`} />
+          </Link>
+          <CardTitle className="text-center">Reset Password</CardTitle>
+          <CardDescription className="text-center">Choose a new password for your account</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {email && token ? (
+            <ResetPasswordForm email={email} token={token} />
+          ) : (
+            <div className="text-sm text-center text-muted-foreground">
+              This reset link is invalid.{" "}
+              <Link className="link" href="/forgot-password">
+                Request a new one
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
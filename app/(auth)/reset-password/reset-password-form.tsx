@@ -0,0 +1,77 @@
+/**
+ * This block of code defines a client-side component for choosing a new password with the token of a password reset email.
+ * - Once the password is reset, points to the sign-in page, as every session of the user was signed out.
+ */
+
+"use client"; // Declares that this code is intended to run on the client side (browser).
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { resetPasswordDefaultValues } from "@/lib/constants"; // Imports default values for the reset password form fields.
+import Link from "next/link";
+import { useActionState } from "react";
+import { useFormStatus } from "react-dom";
+import { resetPassword } from "@/lib/actions/user.actions"; // Imports the action setting the new password.
+
+const ResetPasswordForm = ({ email, token }: { email: string; token: string }) => {
+  // Defines a state for managing the form data and action status.
+  const [data, action] = useActionState(resetPassword, {
+    message: "",
+    success: false
+  });
+
+  const ResetButton = () => {
+    const { pending } = useFormStatus(); // Retrieves the pending status of the form submission.
+    return (
+      <Button disabled={pending} className="w-full" variant="default">
+        {pending ? "Resetting..." : "Reset password"}
+      </Button>
+    );
+  };
+
+  // The token is used up once the password is reset, so the form is replaced by a link to sign in.
+  if (data.success) {
+    return (
+      <div className="space-y-6 text-center">
+        <div className="text-muted-foreground">{data.message}</div>
+        <Button asChild className="w-full">
+          <Link href="/sign-in">Sign In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form action={action}>
+      {/* Sends the email and token of the reset link with the new password */}
+      <input type="hidden" name="email" value={email} />
+      <input type="hidden" name="token" value={token} />
+      <div className="space-y-6">
+        <div>
+          <Label htmlFor="password">New Password</Label>
+          <Input id="password" name="password" required type="password" defaultValue={resetPasswordDefaultValues.password} autoComplete="new-password" />
+        </div>
+        <div>
+          <Label htmlFor="confirmPassword">Confirm Password</Label>
+          <Input id="confirmPassword" name="confirmPassword" required type="password" defaultValue={resetPasswordDefaultValues.confirmPassword} autoComplete="new-password" />
+        </div>
+        <div>
+          <ResetButton />
+        </div>
+
+        {/* Displays an error message if the reset fails (e.g. an expired link). */}
+        {data.message && <div className="text-center text-destructive">{data.message}</div>}
+
+        <div className="text-sm text-center text-muted-foreground">
+          Link expired?{" "}
+          <Link target="_self" className="link" href="/forgot-password">
+            Request a new one
+          </Link>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default ResetPasswordForm;
@@ -4,6 +4,7 @@
  * - Integrates form validation and state management.
  * - Provides feedback to the user during the sign-in process and handles redirection to sign-up.
  * - Handles callback URLs for post-sign-in redirection.
+ * - Asks users with two-factor authentication for the code of their authenticator app in a second step.
  */
 
 "use client"; // Declares that this code is intended to run on the client side (browser).
@@ -13,7 +14,7 @@ import { Input } from "@/components/ui/input"; // Imports a custom Input compone
 import { Label } from "@/components/ui/label"; // Imports a custom Label component from the specified path.
 import { signInDefaultValues } from "@/lib/constants"; // Imports default values for the sign-in form fields.
 import Link from "next/link"; // Imports the Link component from Next.js for client-side navigation.
-import { useActionState } from "react"; // Imports useActionState hook from React for managing state.
+import { useActionState, useState } from "react"; // Imports useActionState and useState hooks from React for managing state.
 import { useFormStatus } from "react-dom"; // Imports useFormStatus hook from React DOM for form status management.
 import { signInWithCredentials } from "@/lib/actions/user.actions"; // Imports the signInWithCredentials function for handling sign-in actions.
 import { useSearchParams } from "next/navigation"; // Imports the useSearchParams hook from Next.js for managing URL search parameters.
@@ -25,9 +26,14 @@ const CredentialsSignInForm = () => {
   // Defines a state for managing the form data and action status.
   const [data, action] = useActionState(signInWithCredentials, {
     message: "",
-    success: false
+    success: false,
+    twoFactorRequired: false
   });
 
+  // Keeps the email and password, as the form is cleared after each submission and the second step sends them again with the code.
+  const [email, setEmail] = useState(signInDefaultValues.email);
+  const [password, setPassword] = useState(signInDefaultValues.password);
+
   const SignInButton = () => {
     const { pending } = useFormStatus(); // Retrieves the pending status of the form submission.
     return (
@@ -43,14 +49,33 @@ const CredentialsSignInForm = () => {
       {/* Stores the callback URL as a hidden input field to be used during sign-in */}
       <input type="hidden" name="callbackUrl" value={callbackUrl} />
       <div className="space-y-6">
-        <div>
-          <Label htmlFor="email">Email</Label>
-          <Input id="email" name="email" required type="email" defaultValue={signInDefaultValues.email} autoComplete="email" />
-        </div>
-        <div>
-          <Label htmlFor="password">Password</Label>
-          <Input id="password" name="password" required type="password" defaultValue={signInDefaultValues.password} autoComplete="current-password" />
-        </div>
+        {data.twoFactorRequired ? (
+          // Second step: the email and password are sent again with the code
+          <div>
+            <input type="hidden" name="email" value={email} />
+            <input type="hidden" name="password" value={password} />
+            <Label htmlFor="code">Authentication code</Label>
+            <Input id="code" name="code" required autoFocus autoComplete="one-time-code" inputMode="numeric" placeholder="123456" />
+            <p className="mt-2 text-sm text-muted-foreground">Enter the code of your authenticator app, or one of your recovery codes.</p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" name="email" required type="email" value={email} onChange={e => setEmail(e.target.value)} autoComplete="email" />
+            </div>
+            <div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                {/* Links to the page sending a password reset email */}
+                <Link className="text-sm link" href="/forgot-password">
+                  Forgot password?
+                </Link>
+              </div>
+              <Input id="password" name="password" required type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" />
+            </div>
+          </>
+        )}
         <div>
           <SignInButton />
         </div>
@@ -0,0 +1,58 @@
+/**
+ * This block of code defines a Next.js page for verifying an email address, opened from the link of a verification email.
+ * - Verifies the email with the token of the link and shows the result.
+ * - An invalid or expired link points to the profile page, where a new link can be sent.
+ */
+
+import { Metadata } from "next"; // Imports the Metadata type from Next.js for page metadata.
+import Image from "next/image"; // Imports the Image component from Next.js for optimized image rendering.
+import Link from "next/link"; // Imports the Link component from Next.js for client-side navigation.
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Imports custom Card components for UI structure.
+import { APP_NAME } from "@/lib/constants"; // Imports a constant for the application name.
+import { verifyEmail } from "@/lib/actions/user.actions"; // Imports the action verifying the email address.
+
+export const metadata: Metadata = {
+  title: "Verify Email"
+};
+
+const VerifyEmail = async (props: {
+  searchParams: Promise<{
+    email?: string;
+    token?: string;
+  }>;
+}) => {
+  const { email, token } = await props.searchParams; // Retrieves the email and token of the verification link.
+
+  const res = email && token ? await verifyEmail(email, token) : { success: false, message: "Invalid or expired verification link" };
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <Card>
+        <CardHeader className="space-y-4">
+          <Link href="/" className="flex-center">
+            <Image priority={true} src="/images/logo.svg" width={100} height={100} alt={`${APP_NAME} logo`} />
+          </Link>
+          <CardTitle className="text-center">Verify Email</CardTitle>
+          <CardDescription className={res.success ? "text-center" : "text-center text-destructive"}>{res.message}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {res.success ? (
+            <Button asChild className="w-full">
+              <Link href="/">Continue shopping</Link>
+            </Button>
+          ) : (
+            <div className="text-sm text-center text-muted-foreground">
+              Need a new link? Send one from{" "}
+              <Link className="link" href="/user/profile">
+                your profile
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyEmail;
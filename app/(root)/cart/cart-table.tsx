@@ -8,14 +8,15 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-import { useTransition } from "react";
-import { addItemToCart, removeItemFromCart } from "@/lib/actions/cart.actions";
-import { ArrowRight, Loader, Minus, Plus } from "lucide-react";
+import { useState, useTransition } from "react";
+import { addItemToCart, applyCouponToCart, removeCouponFromCart, removeItemFromCart } from "@/lib/actions/cart.actions";
+import { ArrowRight, Loader, Minus, Plus, X } from "lucide-react";
 import { Cart, CartItem } from "@/types";
 import Link from "next/link";
 import Image from "next/image";
 import { Table, TableBody, TableHead, TableHeader, TableRow, TableCell } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { formatCurrency } from "@/lib/utils";
 import { toast } from "sonner";
@@ -59,7 +60,7 @@ function RemoveButton({ item }: { item: CartItem }) {
       type="button"
       onClick={() =>
         startTransition(async () => {
-          const res = await removeItemFromCart(item.productId); // Removes the item from the cart.
+          const res = await removeItemFromCart(item.productId, item.variantId); // Removes the item (or the selected variant) from the cart.
 
           // Shows an error toast if removing from the cart fails.
           if (!res.success) {
@@ -74,6 +75,61 @@ function RemoveButton({ item }: { item: CartItem }) {
   );
 }
 
+// Component for applying a coupon code to the cart, or removing the applied one
+function CouponForm({ cart }: { cart: Cart }) {
+  const [code, setCode] = useState(""); // Holds the code typed by the customer.
+  const [isPending, startTransition] = useTransition(); // Manages the transition state for the buttons.
+
+  // Shows the applied coupon with a button to remove it.
+  if (cart.couponCode) {
+    return (
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          Coupon <span className="font-bold">{cart.couponCode}</span> applied
+        </span>
+        <Button
+          disabled={isPending}
+          variant="ghost"
+          size="sm"
+          type="button"
+          onClick={() =>
+            startTransition(async () => {
+              const res = await removeCouponFromCart(); // Removes the coupon from the cart.
+              if (!res.success) toast.error(res.message);
+            })
+          }
+        >
+          {isPending ? <Loader className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex gap-2"
+      onSubmit={e => {
+        e.preventDefault();
+        startTransition(async () => {
+          const res = await applyCouponToCart(code); // Applies the coupon to the cart.
+
+          // Shows an error toast if the coupon can't be applied.
+          if (!res.success) {
+            toast.error(res.message);
+            return;
+          }
+          setCode("");
+        });
+      }}
+    >
+      <Input placeholder="Coupon code" value={code} onChange={e => setCode(e.target.value)} />
+      <Button variant="outline" type="submit" disabled={isPending || !code.trim()}>
+        {isPending ? <Loader className="w-4 h-4 animate-spin" /> : "Apply"}
+      </Button>
+    </form>
+  );
+}
+
 // Component for the cart table - It accepts a `cart` prop of type `Cart` or `undefined`.
 const CartTable = ({ cart }: { cart?: Cart }) => {
   const router = useRouter(); // Initializes the router for navigation.
@@ -101,7 +157,7 @@ const CartTable = ({ cart }: { cart?: Cart }) => {
               <TableBody>
                 {/* Maps through the cart items and displays them in the table */}
                 {cart.items.map(item => (
-                  <TableRow key={item.slug}>
+                  <TableRow key={`${item.productId}-${item.variantId ?? ""}`}>
                     <TableCell>
                       <Link href={`/product/${item.slug}`} className="flex items-center">
                         <Image src={item.image} alt={item.name} width={50} height={50} />
@@ -127,6 +183,15 @@ const CartTable = ({ cart }: { cart?: Cart }) => {
                 Subtotal ({cart.items.reduce((a, c) => a + c.qty, 0)}):
                 <span className="font-bold">{formatCurrency(cart.itemsPrice)}</span>
               </div>
+              {/* Displays the discount of the applied coupon */}
+              {Number(cart.discountPrice) > 0 && (
+                <div className="pb-3">
+                  Discount: <span className="font-bold">-{formatCurrency(cart.discountPrice)}</span>
+                </div>
+              )}
+              <div className="pb-3">
+                <CouponForm cart={cart} />
+              </div>
               <Button className="w-full" disabled={isPending} onClick={() => startTransition(() => router.push("/shipping-address"))}>
                 {/* Displays a loading spinner while the action is pending, otherwise shows an arrow icon. */}
                 {isPending ? <Loader className="w-4 h-4 animate-spin" /> : <ArrowRight className="w-4 h-4" />} Proceed to Checkout
@@ -8,14 +8,33 @@ import { Order } from "@/types";
 import Image from "next/image";
 import Link from "next/link";
 import { PayPalButtons, PayPalScriptProvider, usePayPalScriptReducer } from "@paypal/react-paypal-js";
-import { approvePayPalOrder, createPayPalOrder, deliverOrder, updateOrderToPaidByCOD } from "@/lib/actions/order.actions";
+import { capturePayment, createPaymentIntent, deliverOrder, updateOrderStatus, updateOrderToPaidByCOD } from "@/lib/actions/order.actions";
+import { canTransitionOrderStatus, isOrderRefundable } from "@/lib/order-status";
 import { toast } from "sonner";
 import { useTransition } from "react";
 import { Button } from "@/components/ui/button";
 import StripePayment from "./stripe-payment";
+import RefundForm from "./refund-form";
+import ReservationCountdown from "./reservation-countdown";
 
-const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret }: { order: Omit<Order, "paymentResult">; paypalClientId: string; isAdmin: boolean; stripeClientSecret: string | null }) => {
-  const { shippingAddress, orderitems, itemsPrice, taxPrice, shippingPrice, totalPrice, paymentMethod, isPaid, paidAt, isDelivered, deliveredAt } = order;
+const OrderDetailsTable = ({
+  order,
+  paypalClientId,
+  isAdmin,
+  canRefund,
+  clientSecret
+}: {
+  order: Omit<Order, "paymentResult">;
+  paypalClientId: string;
+  isAdmin: boolean; // Whether the user can fulfil orders (orders:fulfil).
+  canRefund: boolean; // Whether the user can refund orders (orders:refund).
+  clientSecret: string | null;
+}) => {
+  const { shippingAddress, orderitems, itemsPrice, discountPrice, couponCode, taxPrice, shippingPrice, shippingMethod, pricesIncludeTax, totalPrice, paymentMethod, status, statusHistory = [], refunds = [], paidAt, deliveredAt, reservationExpiresAt } = order;
+
+  // The amount refunded so far and what is left to refund
+  const refundedPrice = refunds.reduce((acc, refund) => acc + Number(refund.amount), 0);
+  const remainingPrice = Math.max(Number(totalPrice) - refundedPrice, 0);
 
   const PrintLoadingState = () => {
     const [{ isPending, isRejected }] = usePayPalScriptReducer();
@@ -32,14 +51,14 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
 
   // Creates a PayPal order
   const handleCreatePayPalOrder = async () => {
-    const res = await createPayPalOrder(order.id);
+    const res = await createPaymentIntent(order.id);
     if (!res.success) toast.error(res.message);
-    return res.data; //
+    return res.data ?? ""; //
   };
 
   // Approves a PayPal order
   const handleApprovePayPalOrder = async (data: { orderID: string }) => {
-    const res = await approvePayPalOrder(order.id, data);
+    const res = await capturePayment(order.id, { intentId: data.orderID });
 
     //
     if (res.success) {
@@ -49,6 +68,32 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
     }
   };
 
+  // Button To pay the order with the offline TestPay provider
+  const TestPayButton = () => {
+    const [isPending, startTransition] = useTransition();
+
+    return (
+      <Button
+        type="button"
+        className="w-full"
+        disabled={isPending}
+        onClick={() =>
+          startTransition(async () => {
+            const res = await capturePayment(order.id);
+
+            if (res.success) {
+              toast.success(res.message);
+            } else {
+              toast.error(res.message);
+            }
+          })
+        }
+      >
+        {isPending ? "processing..." : "Pay With TestPay"}
+      </Button>
+    );
+  };
+
   // Button To mark the order as paid
   const MarkAsPaidButton = () => {
     const [isPending, startTransition] = useTransition();
@@ -99,9 +144,40 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
     );
   };
 
+  // Button To move the order to another status (e.g. processing, shipped or cancelled)
+  const UpdateStatusButton = ({ to, label }: { to: string; label: string }) => {
+    const [isPending, startTransition] = useTransition();
+
+    return (
+      <Button
+        type="button"
+        variant={to === "cancelled" ? "destructive" : "default"}
+        disabled={isPending}
+        onClick={() =>
+          startTransition(async () => {
+            const res = await updateOrderStatus(order.id, to);
+
+            if (res.success) {
+              toast.success(res.message);
+            } else {
+              toast.error(res.message);
+            }
+          })
+        }
+      >
+        {isPending ? "processing..." : label}
+      </Button>
+    );
+  };
+
   return (
     <>
-      <h1 className="py-4 text-2xl"> Order {formatId(order.id)}</h1>
+      <h1 className="py-4 text-2xl">
+        Order {formatId(order.id)}{" "}
+        <Badge variant="outline" className="capitalize align-middle">
+          {status}
+        </Badge>
+      </h1>
       <div className="grid md:grid-cols-3 md:gap-5">
         <div className="overflow-x-auto md:col-span-2 space-y-4">
           <Card>
@@ -109,7 +185,7 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
               <h2 className="text-xl pb-4">Payment Method</h2>
               <p>{paymentMethod}</p>
               {/* Shows a badge indicating the payment status. */}
-              {isPaid ? <Badge variant="secondary">Paid at {formatDateTime(paidAt!).dateTime}</Badge> : <Badge variant="destructive">Not paid</Badge>}
+              {paidAt ? <Badge variant="secondary">Paid at {formatDateTime(paidAt).dateTime}</Badge> : <Badge variant="destructive">Not paid</Badge>}
             </CardContent>
           </Card>
           <Card>
@@ -117,10 +193,10 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
               <h2 className="text-xl pb-4">Shipping Address</h2>
               <p>{shippingAddress.fullName}</p>
               <p>
-                {shippingAddress.streetAddress}, {shippingAddress.city}, {shippingAddress.postalCode}, {shippingAddress.country}{" "}
+                {shippingAddress.streetAddress}, {shippingAddress.city}, {shippingAddress.postalCode}, {shippingAddress.region ? `${shippingAddress.region}, ` : ""}{shippingAddress.country}{" "}
               </p>
               {/* Shows a badge indicating the delivery status. */}
-              {isDelivered ? <Badge variant="secondary">Delivered at {formatDateTime(deliveredAt!).dateTime}</Badge> : <Badge variant="destructive">Not delivered</Badge>}
+              {deliveredAt ? <Badge variant="secondary">Delivered at {formatDateTime(deliveredAt).dateTime}</Badge> : status === "shipped" ? <Badge variant="secondary">Shipped</Badge> : <Badge variant="destructive">Not delivered</Badge>}
             </CardContent>
           </Card>
           <Card>
@@ -137,12 +213,18 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
                 <TableBody>
                   {/* Maps through the order items to render table rows for each item. */}
                   {orderitems.map(item => (
-                    <TableRow key={item.slug}>
+                    <TableRow key={`${item.productId}-${item.variantId ?? ""}`}>
                       <TableCell>
                         <Link href={`/product/${item.slug}`} className="flex items-center">
                           <Image src={item.image} alt={item.name} width={50} height={50}></Image>
                           <span className="px-2">{item.name}</span>
                         </Link>
+                        {/* The tax of the line, after its share of the discount */}
+                        {Number(item.taxRate) > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Tax {Number(item.taxRate)}%: {formatCurrency(item.taxAmount)}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <span className="px-2">{item.qty}</span>
@@ -154,6 +236,24 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
               </Table>
             </CardContent>
           </Card>
+          <Card>
+            <CardContent className="p-4 gap-4">
+              <h2 className="text-xl pb-4">Status History</h2>
+              {/* Shows the timeline of the status changes, oldest first. */}
+              <ol className="space-y-2">
+                {statusHistory.map(entry => (
+                  <li key={entry.id} className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="outline" className="capitalize">
+                      {entry.toStatus}
+                    </Badge>
+                    <span>{formatDateTime(entry.createdAt).dateTime}</span>
+                    <span className="text-muted-foreground">by {entry.changedBy?.name ?? "System"}</span>
+                    {entry.note && <span className="text-muted-foreground">&mdash; {entry.note}</span>}
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
         </div>
         <div>
           <Card>
@@ -163,20 +263,39 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
                 <div>Items</div>
                 <div>{formatCurrency(itemsPrice)}</div>
               </div>
+              {/* Displays the discount of the redeemed coupon */}
+              {Number(discountPrice) > 0 && (
+                <div className="flex justify-between">
+                  <div>Discount{couponCode ? ` (${couponCode})` : ""}</div>
+                  <div>-{formatCurrency(discountPrice)}</div>
+                </div>
+              )}
               <div className="flex justify-between">
-                <div>Tax</div>
+                <div>Tax{pricesIncludeTax ? " (included)" : ""}</div>
                 <div>{formatCurrency(taxPrice)}</div>
               </div>
               <div className="flex justify-between">
-                <div>Shipping</div>
+                <div>Shipping{shippingMethod ? ` (${shippingMethod})` : ""}</div>
                 <div>{formatCurrency(shippingPrice)}</div>
               </div>
               <div className="flex justify-between">
                 <div>Total</div>
                 <div>{formatCurrency(totalPrice)}</div>
               </div>
+              {/* Displays the refunds issued for the order */}
+              {refunds.map(refund => (
+                <div key={refund.id} className="flex justify-between text-sm text-muted-foreground">
+                  <div>
+                    Refunded {formatDateTime(refund.createdAt).dateOnly}
+                    {refund.reason ? ` (${refund.reason})` : ""}
+                  </div>
+                  <div>-{formatCurrency(refund.amount)}</div>
+                </div>
+              ))}
+              {/* Time left to pay before the reserved items are released */}
+              {status === "pending" && reservationExpiresAt && <ReservationCountdown expiresAt={reservationExpiresAt} />}
               {/* PayPal Payment */}
-              {!isPaid && paymentMethod === "PayPal" && (
+              {status === "pending" && paymentMethod === "PayPal" && (
                 <div>
                   <PayPalScriptProvider options={{ clientId: paypalClientId }}>
                     <PrintLoadingState />
@@ -185,10 +304,18 @@ const OrderDetailsTable = ({ order, paypalClientId, isAdmin, stripeClientSecret
                 </div>
               )}
               {/* Stripe Payment */}
-              {!isPaid && paymentMethod === "Stripe" && stripeClientSecret && <StripePayment priceInCents={Number(order.totalPrice) * 100} orderId={order.id} clientSecret={stripeClientSecret} />}
+              {status === "pending" && paymentMethod === "Stripe" && clientSecret && <StripePayment priceInCents={Number(order.totalPrice) * 100} orderId={order.id} clientSecret={clientSecret} />}
+              {/* TestPay Payment */}
+              {status === "pending" && paymentMethod === "TestPay" && <TestPayButton />}
               {/* Cash On Delivery */}
-              {isAdmin && !isPaid && paymentMethod === "CashOnDelivery" && <MarkAsPaidButton />}
-              {isAdmin && isPaid && !isDelivered && <MarkAsDeliveredButton />}
+              {isAdmin && status === "pending" && paymentMethod === "CashOnDelivery" && <MarkAsPaidButton />}
+              {/* Order fulfilment, limited to the transitions allowed from the current status */}
+              {isAdmin && canTransitionOrderStatus(status, "processing") && <UpdateStatusButton to="processing" label="Mark As Processing" />}
+              {isAdmin && canTransitionOrderStatus(status, "shipped") && <UpdateStatusButton to="shipped" label="Mark As Shipped" />}
+              {isAdmin && canTransitionOrderStatus(status, "delivered") && <MarkAsDeliveredButton />}
+              {isAdmin && canTransitionOrderStatus(status, "cancelled") && <UpdateStatusButton to="cancelled" label="Cancel Order" />}
+              {/* Refunds */}
+              {canRefund && isOrderRefundable(status) && remainingPrice > 0 && <RefundForm orderId={order.id} remaining={remainingPrice} canRestock={!refunds.some(refund => refund.restocked)} />}
             </CardContent>
           </Card>
         </div>
@@ -2,8 +2,10 @@ import { getOrderById } from "@/lib/actions/order.actions";
 import { notFound } from "next/navigation";
 import OrderDetailsTable from "./order-details-table";
 import { ShippingAddress } from "@/types";
-import { auth } from "@/auth";
-import Stripe from "stripe";
+import { getPaymentProvider } from "@/lib/payments";
+import { isOrderReservationExpired } from "@/lib/order-status";
+import { getMyPermissions } from "@/lib/auth-guard";
+import { hasPermission } from "@/lib/permissions";
 
 export const metadata = {
   title: "Order Details"
@@ -29,22 +31,11 @@ const OrderDetailsPage = async (props: {
   //   return redirect("/unauthorized");
   // }
 
-  const session = await auth();
+  const permissions = await getMyPermissions();
 
-  let client_secret = null;
-
-  // Check if using Stripe and not paid
-  if (order.paymentMethod === "Stripe" && !order.isPaid) {
-    // Initialize Stripe instance
-    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string);
-    // Create a new payment intent
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(Number(order.totalPrice) * 100),
-      currency: "USD",
-      metadata: { orderId: order.id }
-    });
-    client_secret = paymentIntent.client_secret;
-  }
+  // Providers whose payment form needs the payment started first (e.g. Stripe Elements) create it while the order is not paid
+  const provider = getPaymentProvider(order.paymentMethod);
+  const intent = order.status === "pending" && !isOrderReservationExpired(order) && provider.createsIntentOnLoad && provider.createIntent ? await provider.createIntent(order) : null;
 
   return (
     // Renders the order details table, passing the fetched order data as a prop.
@@ -53,9 +44,10 @@ const OrderDetailsPage = async (props: {
         ...order, // Spreads the order data to include all existing properties.
         shippingAddress: order.shippingAddress as ShippingAddress // Ensures `shippingAddress` is correctly typed as `ShippingAddress`.
       }}
-      stripeClientSecret={client_secret}
+      clientSecret={intent?.clientSecret ?? null}
       paypalClientId={process.env.PAYPAL_CLIENT_ID || "sb"}
-      isAdmin={session?.user.role === "admin" || false}
+      isAdmin={hasPermission(permissions, "orders:fulfil")}
+      canRefund={hasPermission(permissions, "orders:refund")}
     />
   );
 };
@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { refundOrder } from "@/lib/actions/order.actions";
+import { FormEvent, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+// Form for admins to refund an order, in full or in part, and optionally put its items back in stock
+const RefundForm = ({ orderId, remaining, canRestock }: { orderId: string; remaining: number; canRestock: boolean }) => {
+  const [amount, setAmount] = useState(remaining.toFixed(2)); // Defaults to refunding what is left of the order.
+  const [reason, setReason] = useState("");
+  const [restock, setRestock] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const isFullRefund = Number(amount) >= remaining;
+
+  // Handle refund form submission
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    startTransition(async () => {
+      const res = await refundOrder({ orderId, amount, reason, restock: restock && isFullRefund });
+
+      if (res.success) {
+        toast.success(res.message);
+      } else {
+        toast.error(res.message);
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+      <h3 className="font-bold">Refund</h3>
+      <div className="space-y-1">
+        <Label htmlFor="refund-amount">Amount</Label>
+        <Input id="refund-amount" value={amount} onChange={e => setAmount(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="refund-reason">Reason</Label>
+        <Input id="refund-reason" placeholder="Optional" value={reason} onChange={e => setReason(e.target.value)} />
+      </div>
+      {/* Items can only be put back in stock once per order, by refunding what is left of it */}
+      {canRestock && isFullRefund && (
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={restock} onCheckedChange={checked => setRestock(!!checked)} />
+          Put items back in stock
+        </label>
+      )}
+      <Button type="submit" variant="destructive" className="w-full" disabled={isPending}>
+        {isPending ? "processing..." : isFullRefund ? "Refund Order" : "Refund Partially"}
+      </Button>
+    </form>
+  );
+};
+
+export default RefundForm;
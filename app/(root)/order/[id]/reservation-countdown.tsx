@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+
+// Formats the remaining time as minutes and seconds (e.g. "29:05")
+const formatTimeRemaining = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
+// Displays how long the customer has left to pay before the order is cancelled and its items released
+const ReservationCountdown = ({ expiresAt }: { expiresAt: Date }) => {
+  const [remaining, setRemaining] = useState<number>(); // Manages the remaining time in milliseconds
+
+  useEffect(() => {
+    const update = () => setRemaining(Math.max(new Date(expiresAt).getTime() - Date.now(), 0));
+
+    // Initializes the countdown on mount and updates it every second
+    update();
+    const timerInterval = setInterval(update, 1000);
+
+    return () => clearInterval(timerInterval); // Cleans up interval when component unmounts
+  }, [expiresAt]);
+
+  // Renders nothing until the countdown initializes, to avoid a hydration mismatch
+  if (remaining === undefined) return null;
+
+  if (remaining === 0) {
+    return <p className="text-sm text-destructive">Your reservation has expired. Please place a new order.</p>;
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      Your items are reserved for <span className="font-bold">{formatTimeRemaining(remaining)}</span>. Complete your payment before the reservation expires.
+    </p>
+  );
+};
+
+export default ReservationCountdown;
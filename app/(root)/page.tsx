@@ -1,24 +1,14 @@
-import { ProductCarousel } from "@/components/shared/product/product-carousel";
-import ProductList from "@/components/shared/product/product-list";
-import { getLatestProducts, getFeaturedProducts } from "@/lib/actions/product.actions";
-import ViewAllProductsButton from "@/components/view-all-products-button";
-import IconBoxes from "@/components/icon-boxes";
-import DealCountdown from "@/components/deal-countdown";
+import HomepageSections from "@/components/shared/homepage/homepage-sections";
+import { getHomepageSections } from "@/lib/actions/homepage.actions";
+import { getMyWishlistProductIds } from "@/lib/actions/wishlist.actions";
 
+// The homepage renders the published sections configured on the admin Homepage page, in their order and schedule.
 const HomePage = async () => {
-  const latestProducts = await getLatestProducts();
+  const sections = await getHomepageSections();
 
-  const featuredProducts = await getFeaturedProducts();
+  const savedProductIds = await getMyWishlistProductIds();
 
-  return (
-    <div className="space-y-8">
-      {featuredProducts.length > 0 && <ProductCarousel data={featuredProducts} />}
-      <ProductList title="Newest Arrivals" data={latestProducts} limit={4} />
-      <ViewAllProductsButton />
-      <DealCountdown />
-      <IconBoxes />
-    </div>
-  );
+  return <HomepageSections sections={sections} savedProductIds={savedProductIds} />;
 };
 
 export default HomePage;
@@ -32,7 +32,7 @@ const PaymentMethodPage = async () => {
   return (
     <>
       {/* Displays the checkout steps with the current step highlighted. */}
-      <CheckoutSteps current={2} />
+      <CheckoutSteps current={3} />
       {/* Renders the PaymentMethodForm component, passing the user's preferred payment method as a prop. */}
       <PaymentMethodForm preferredPaymentMethod={user.paymentMethod} />
     </>
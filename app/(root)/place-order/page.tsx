@@ -1,7 +1,7 @@
 /**
  * This component, placeOrderPage, handles the display and functionality for placing an order.
  * It fetches the user's cart and user information, validates the information, and displays the order details,
- * including the shipping address, payment method, and order items. The user can review and edit these details before placing the order.
+ * including the shipping address, shipping method, payment method, and order items. The user can review and edit these details before placing the order.
  */
 
 import Image from "next/image"; // Imports the Image component from next/image for optimized images.
@@ -13,9 +13,11 @@ import CheckoutSteps from "@/components/shared/checkout-steps"; // Imports the C
 import { Button } from "@/components/ui/button"; // Imports the Button component from the UI library.
 import { Card, CardContent } from "@/components/ui/card"; // Imports Card and CardContent components from the UI library.
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"; // Imports Table components from the UI library.
-import { getMyCart } from "@/lib/actions/cart.actions"; // Imports the getMyCart function to fetch the user's cart.
+import { getMyCart, getMyShippingOptions } from "@/lib/actions/cart.actions"; // Imports the getMyCart and getMyShippingOptions functions to fetch the user's cart and its shipping options.
 import { getUserById } from "@/lib/actions/user.actions"; // Imports the getUserById function to fetch the user by ID.
 import { formatCurrency } from "@/lib/utils"; // Imports the formatCurrency function to format currency values.
+import { PRICES_INCLUDE_TAX } from "@/lib/constants"; // Imports the PRICES_INCLUDE_TAX flag to label tax that is part of the item prices.
+import { formatDeliveryDays, selectShippingOption } from "@/lib/shipping"; // Imports the shipping helpers to display the selected shipping method.
 import { ShippingAddress } from "@/types"; // Imports the ShippingAddress type.
 import PlaceOrderForm from "./place-order-form"; // Imports the PlaceOrderForm component for placing the order.
 
@@ -45,6 +47,11 @@ const placeOrderPage = async () => {
   // Redirects to the shipping address page if the user address is not found.
   if (!user.address) redirect("/shipping-address");
 
+  // Redirects to the shipping method page if no shipping rate is offered for the address, so the customer can pick another address.
+  const { options, selectedRateId } = await getMyShippingOptions();
+  const shippingMethod = selectShippingOption(options, selectedRateId);
+  if (!shippingMethod) redirect("/shipping-method");
+
   // Redirects to the payment method page if the user's payment method is not found.
   if (!user.paymentMethod) redirect("/payment-method");
 
@@ -52,7 +59,7 @@ const placeOrderPage = async () => {
 
   return (
     <>
-      <CheckoutSteps current={3} /> {/* Displays the checkout steps with the current step highlighted. */}
+      <CheckoutSteps current={4} /> {/* Displays the checkout steps with the current step highlighted. */}
       <h1 className="py-4 text-2xl">Place Order</h1>
       <div className="grid md:grid-cols-3 md:gap-5">
         <div className="overflow-x-auto md:col-span-2 space-y-4">
@@ -61,7 +68,7 @@ const placeOrderPage = async () => {
               <h2 className="text-xl pb-4">Shipping Address</h2>
               <p>{userAddress.fullName}</p>
               <p>
-                {userAddress.streetAddress}, {userAddress.city}, {userAddress.postalCode}, {userAddress.country}{" "}
+                {userAddress.streetAddress}, {userAddress.city}, {userAddress.postalCode}, {userAddress.region ? `${userAddress.region}, ` : ""}{userAddress.country}{" "}
               </p>
               <div className="mt-3">
                 <Link href="/shipping-address">
@@ -71,6 +78,20 @@ const placeOrderPage = async () => {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardContent className="p-4 gap-4">
+              <h2 className="text-xl pb-4">Shipping Method</h2>
+              <p>
+                {shippingMethod.name} {formatDeliveryDays(shippingMethod) && <span className="text-muted-foreground">({formatDeliveryDays(shippingMethod)})</span>}
+              </p>
+              <div className="mt-3">
+                <Link href="/shipping-method">
+                  <Button variant="outline">Edit</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardContent className="p-4 gap-4">
               <h2 className="text-xl pb-4">Payment Method</h2>
@@ -97,7 +118,7 @@ const placeOrderPage = async () => {
                 <TableBody>
                   {/* Maps through the items in the cart to render table rows for each item. */}
                   {cart.items.map(item => (
-                    <TableRow key={item.slug}>
+                    <TableRow key={`${item.productId}-${item.variantId ?? ""}`}>
                       <TableCell>
                         <Link href={`/product/${item.slug}`} className="flex items-center">
                           <Image src={item.image} alt={item.name} width={50} height={50}></Image>
@@ -125,8 +146,15 @@ const placeOrderPage = async () => {
                 <div>Items</div>
                 <div>{formatCurrency(cart.itemsPrice)}</div>
               </div>
+              {/* Displays the discount of the redeemed coupon */}
+              {Number(cart.discountPrice) > 0 && (
+                <div className="flex justify-between">
+                  <div>Discount{cart.couponCode ? ` (${cart.couponCode})` : ""}</div>
+                  <div>-{formatCurrency(cart.discountPrice)}</div>
+                </div>
+              )}
               <div className="flex justify-between">
-                <div>Tax</div>
+                <div>Tax{PRICES_INCLUDE_TAX ? " (included)" : ""}</div>
                 <div>{formatCurrency(cart.taxPrice)}</div>
               </div>
               <div className="flex justify-between">
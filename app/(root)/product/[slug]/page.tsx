@@ -2,6 +2,7 @@
  * This code block defines the `ProductDetailsPage` component,
  * which fetches and displays detailed information about a product
  * including images, price, brand, category, rating, description, and stock status.
+ * Products on sale show their sale price, the struck-through regular price and when the sale ends.
  **/
 
 import { notFound } from "next/navigation"; // Imports the notFound function for handling cases where a product is not found.
@@ -11,10 +12,15 @@ import { getProductBySlug } from "@/lib/actions/product.actions"; // Imports the
 import { Badge } from "@/components/ui/badge"; // Imports the Badge component from the UI library.
 import ProductImages from "@/components/shared/product/product-images"; // Imports the ProductImages component for displaying product images.
 import AddToCart from "@/components/shared/product/add-to-cart";
+import VariantPicker from "@/components/shared/product/variant-picker"; // Imports the VariantPicker component for choosing a product variant.
 import { getMyCart } from "@/lib/actions/cart.actions";
 import { auth } from "@/auth";
 import ReviewList from "./review-list";
 import Rating from "@/components/shared/product/rating";
+import WishlistButton from "@/components/shared/product/wishlist-button"; // Imports the heart toggle saving the product to the wishlist.
+import NotifyMe from "@/components/shared/product/notify-me"; // Imports the "Notify me" button of out-of-stock products.
+import { getMyWishlistProductIds } from "@/lib/actions/wishlist.actions";
+import { formatDateTime } from "@/lib/utils";
 
 /**
  * This function `ProductDetailsPage` fetches and displays details about a specific product.
@@ -29,6 +35,8 @@ const ProductDetailsPage = async (props: { params: Promise<{ slug: string }> })
 
   const cart = await getMyCart();
 
+  const savedProductIds = await getMyWishlistProductIds();
+
   const session = await auth();
   const userId = session?.user?.id;
 
@@ -45,9 +53,12 @@ const ProductDetailsPage = async (props: { params: Promise<{ slug: string }> })
           <div className="col-span-2 p-5">
             <div className="flex flex-col gap-6">
               <p>
-                {product.brand} {product.category}
+                {product.brand} {product.category.name}
               </p>
-              <h1 className="h3-bold">{product.name}</h1>
+              <div className="flex items-start justify-between gap-2">
+                <h1 className="h3-bold">{product.name}</h1>
+                <WishlistButton productId={product.id} saved={savedProductIds.includes(product.id)} />
+              </div>
 
               <Rating value={Number(product.rating)} />
               <p>
@@ -55,7 +66,9 @@ const ProductDetailsPage = async (props: { params: Promise<{ slug: string }> })
               </p>
 
               <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
-                <ProductPrice value={Number(product.price)} className="w-24 rounded-full bg-green-100 text-green-700 px-5 py-2" />
+                <ProductPrice value={product.pricing.price} compareAt={product.pricing.compareAtPrice} className="w-fit rounded-full bg-green-100 text-green-700 px-5 py-2" />
+                {/* Displays when the sale price ends */}
+                {product.pricing.endsAt && <Badge variant="destructive">Sale ends {formatDateTime(product.pricing.endsAt).dateTime}</Badge>}
               </div>
             </div>
             <div className="mt-10">
@@ -67,32 +80,41 @@ const ProductDetailsPage = async (props: { params: Promise<{ slug: string }> })
           <div>
             <Card>
               <CardContent className="p-4">
-                <div className="mb-2 flex justify-between">
-                  <div>Price</div>
-                  <div>
-                    <ProductPrice value={Number(product.price)} />
-                  </div>
-                </div>
-                <div className="mb-2 flex justify-between">
-                  <div>Status</div>
-                  {/* Displays the product stock */}
-                  {product.stock > 0 ? <Badge variant="outline">In stock</Badge> : <Badge variant="destructive">Unavailable</Badge>}
-                </div>
-                {/* Displays the "Add to cart" button if the product is in stock. */}
-                {product.stock > 0 && (
-                  <div className=" flex-center">
-                    <AddToCart
-                      cart={cart}
-                      item={{
-                        productId: product.id,
-                        name: product.name,
-                        slug: product.slug,
-                        price: product.price,
-                        qty: 1,
-                        image: product.images![0]
-                      }}
-                    />
-                  </div>
+                {/* Products sold in variants let the customer pick the options before adding to the cart. */}
+                {product.variants.length > 0 ? (
+                  <VariantPicker cart={cart} email={session?.user?.email ?? undefined} variants={product.variants} product={{ id: product.id, name: product.name, slug: product.slug, image: product.images![0] }} />
+                ) : (
+                  <>
+                    <div className="mb-2 flex justify-between">
+                      <div>Price</div>
+                      <div>
+                        <ProductPrice value={product.pricing.price} compareAt={product.pricing.compareAtPrice} />
+                      </div>
+                    </div>
+                    <div className="mb-2 flex justify-between">
+                      <div>Status</div>
+                      {/* Displays the product stock */}
+                      {product.stock > 0 ? <Badge variant="outline">In stock</Badge> : <Badge variant="destructive">Unavailable</Badge>}
+                    </div>
+                    {/* Displays the "Notify me" button if the product is out of stock. */}
+                    {product.stock <= 0 && <NotifyMe productId={product.id} email={session?.user?.email ?? undefined} className="w-full" />}
+                    {/* Displays the "Add to cart" button if the product is in stock. */}
+                    {product.stock > 0 && (
+                      <div className=" flex-center">
+                        <AddToCart
+                          cart={cart}
+                          item={{
+                            productId: product.id,
+                            name: product.name,
+                            slug: product.slug,
+                            price: product.pricing.price.toFixed(2), // The cart reprices the item with the running sales too
+                            qty: 1,
+                            image: product.images![0]
+                          }}
+                        />
+                      </div>
+                    )}
+                  </>
                 )}
               </CardContent>
             </Card>
@@ -1,38 +1,15 @@
 import Pagination from "@/components/shared/pagination";
 import ProductCard from "@/components/shared/product/product-card";
 import { Button } from "@/components/ui/button";
-import { getAllCategories, getAllProducts } from "@/lib/actions/product.actions";
+import { getAllProducts, getSearchFacets } from "@/lib/actions/product.actions";
+import { getCategoryBySlug } from "@/lib/actions/category.actions";
+import { formatBrands, parseBrands, toggleBrand } from "@/lib/facets";
+import { getMyWishlistProductIds } from "@/lib/actions/wishlist.actions";
 import Link from "next/link";
+import React from "react";
 
-// Array representing different price ranges for filtering products
-const prices = [
-  {
-    name: "$1 to $50",
-    value: "1-50"
-  },
-  {
-    name: "$51 to $100",
-    value: "51-100"
-  },
-  {
-    name: "$101 to $200",
-    value: "101-200"
-  },
-  {
-    name: "$201 to $500",
-    value: "201-500"
-  },
-  {
-    name: "$501 to $1000",
-    value: "501-1000"
-  }
-];
-
-// Array of ratings representing minimum ratings for filtering products by customer reviews
-const ratings = [4, 3, 2, 1];
-
-// Array of sorting options available for sorting products
-const sortOrders = ["newest", "lowest", "highest", "rating"];
+// Array of sorting options available for sorting products. "relevance" ranks the matches of a search query, so it is only offered when searching.
+const sortOrders = ["newest", "lowest", "highest", "rating", "relevance"];
 
 /*
   Generates metadata for the search page based on provided search parameters.
@@ -43,6 +20,7 @@ const sortOrders = ["newest", "lowest", "highest", "rating"];
     - `category`: Selected category filter.
     - `price`: Price range filter.
     - `rating`: Minimum rating filter.
+    - `brand`: Comma separated list of selected brands.
 
   Returns:
   - An object containing the `title` property, dynamically constructed based on the applied filters.
@@ -53,24 +31,31 @@ export async function generateMetadata(props: {
     category: string;
     price: string;
     rating: string;
+    brand: string;
   }>;
 }) {
   // Waits for searchParams to resolve and sets default values if not provided.
-  const { q = "all", category = "all", price = "all", rating = "all" } = await props.searchParams;
+  const { q = "all", category = "all", price = "all", rating = "all", brand = "all" } = await props.searchParams;
 
   // Checks if each search parameter is set (not "all" and not empty after trimming whitespace).
   const isQuerySet = q && q !== "all" && q.trim() !== "";
   const isCategorySet = category && category !== "all" && category.trim() !== "";
   const isPriceSet = price && price !== "all" && price.trim() !== "";
   const isRatingSet = rating && rating !== "all" && rating.trim() !== "";
+  const brands = parseBrands(brand);
+  const isBrandSet = brands.length > 0;
+
+  // Shows the name of the selected category rather than its slug.
+  const selectedCategory = isCategorySet ? await getCategoryBySlug(category) : null;
 
   // If at least one filter is applied, generate a dynamic title based on selected filters.
-  if (isQuerySet || isCategorySet || isPriceSet || isRatingSet) {
+  if (isQuerySet || isCategorySet || isPriceSet || isRatingSet || isBrandSet) {
     return {
       title: `Search ${isQuerySet ? q : ""}
-      ${isCategorySet ? `: Category ${category}` : ""}
+      ${isCategorySet ? `: Category ${selectedCategory?.name ?? category}` : ""}
       ${isPriceSet ? `: Price ${price}` : ""}
-      ${isRatingSet ? `: Rating ${rating}` : ""}`
+      ${isRatingSet ? `: Rating ${rating}` : ""}
+      ${isBrandSet ? `: Brand ${brands.join(", ")}` : ""}`
     };
   } else {
     // Default title when no filters are applied.
@@ -85,9 +70,11 @@ export async function generateMetadata(props: {
 
   Parameters:
   - `q`: An optional search query string used to filter products by name or description.
-  - `category`: An optional filter to narrow down products to a specific category.
+  - `category`: An optional filter to narrow down products to a specific category (by its slug), including its subcategories.
   - `price`: An optional filter to specify a price range for the products (e.g., "1-50", "51-100").
   - `rating`: An optional filter to filter products based on customer ratings (e.g., "4" for 4 stars or higher).
+  - `brand`: An optional comma separated list of brands. Products of any of the selected brands are shown (e.g., "Nike,Polo").
+  - `stock`: An optional availability filter. "in" only shows the products in stock.
   - `sort`: An optional parameter to define the sorting order of the products (e.g., "newest", "lowest", "highest", "rating").
   - `page`: An optional parameter to specify which page of results to display, useful for pagination (default is "1").
 
@@ -100,12 +87,15 @@ const SearchPage = async (props: {
     category?: string;
     price?: string;
     rating?: string;
+    brand?: string;
+    stock?: string;
     sort?: string;
     page?: string;
   }>;
 }) => {
   // Destructure and assign default values to the resolved `searchParams` object
-  const { q = "all", category = "all", price = "all", rating = "all", sort = "newest", page = "1" } = await props.searchParams;
+  const { q = "all", category = "all", price = "all", rating = "all", brand = "all", stock = "all", sort = "newest", page = "1" } = await props.searchParams;
+  const brands = parseBrands(brand);
 
   // console.log(q, category, price, rating, sort, page);
 
@@ -117,17 +107,24 @@ const SearchPage = async (props: {
   - `s` (optional): Sorting option (e.g., "lowest", "highest", "rating").
   - `p` (optional): Price range filter (e.g., "1-50").
   - `r` (optional): Minimum rating filter.
+  - `b` (optional): Selected brands, comma separated.
+  - `st` (optional): Availability filter ("in" or "all").
   - `pg` (optional): Page number for pagination.
 
+  Changing a filter goes back to the first page, as the filtered results may have fewer pages.
+
   Returns:
   - A string representing the filtered search URL with the specified query parameters.
 */
-  const getFilterUrl = ({ c, s, p, r, pg }: { c?: string; s?: string; p?: string; r?: string; pg?: string }) => {
-    const params = { q, category, price, rating, sort, page }; // Initializes query parameters with existing values.
+  const getFilterUrl = ({ c, s, p, r, b, st, pg }: { c?: string; s?: string; p?: string; r?: string; b?: string; st?: string; pg?: string }) => {
+    const params = { q, category, price, rating, brand, stock, sort, page }; // Initializes query parameters with existing values.
 
+    if (c || p || r || b || st) params.page = "1"; // Resets pagination when a filter changes.
     if (c) params.category = c; // Updates category filter if provided.
     if (p) params.price = p; // Updates price filter if provided.
     if (r) params.rating = r; // Updates rating filter if provided.
+    if (b) params.brand = b; // Updates brand filter if provided.
+    if (st) params.stock = st; // Updates availability filter if provided.
     if (pg) params.page = pg; // Updates pagination if provided.
     if (s) params.sort = s; // Updates sorting option if provided.
 
@@ -138,10 +135,12 @@ const SearchPage = async (props: {
   Retrieves a list of products using the `getAllProducts` function with various filters applied. This query pulls products from the database, applies necessary filters based on search parameters, and returns the filtered results.
 
   Parameters passed to `getAllProducts`:
-  - `category`: The selected category for filtering products. Filters products based on the category value. If `category` is "all", no filter is applied.
+  - `category`: The slug of the selected category for filtering products. Products of its subcategories are included. If `category` is "all", no filter is applied.
   - `query`: A search string used to filter products by name or description. If `q` is "all", no filter is applied.
   - `price`: A price range filter in the format "min-max" (e.g., "1-50", "51-100"). If `price` is "all", no filter is applied.
   - `rating`: A minimum rating filter, used to filter products based on the rating value. If `rating` is "all", no filter is applied.
+  - `brand`: A comma separated list of brands. If `brand` is "all", no filter is applied.
+  - `stock`: "in" to only fetch the products in stock. If `stock` is "all", no filter is applied.
   - `page`: The current page number, used to paginate the results. It is passed as a number, and the products are fetched accordingly.
   - `sort`: Defines the sorting criteria for the product list. The possible values are:
     - "newest": Sorts by the creation date of the product (latest products first).
@@ -159,23 +158,31 @@ const SearchPage = async (props: {
     query: q,
     price,
     rating,
+    brand,
+    stock,
     page: Number(page),
     sort
   });
 
   /*
-  Retrieves a list of all product categories along with their respective product counts by calling the `getAllCategories` function.
+  Retrieves the facet counts of the current search by calling the `getSearchFacets` function.
+  Each facet is counted with all the other filters applied, so a count is the number of products selecting that value would show.
 
-  This function queries the database to retrieve unique product categories and the number of products in each category. It returns an array of objects where each object contains:
-  - `category`: The unique name of the product category.
-  - `_count`: The total number of products within that category.
+  The facets contain:
+  - `categories`: The category tree, in display order, with the `depth` of each category and the `productCount` of its branch.
+  - `brands`: The brands of the matching products with their counts.
+  - `prices` and `ratings`: The price buckets and minimum ratings with their counts.
+  - `inStock`: The number of matching products in stock.
 
-  The function does not require any parameters and it is typically used to populate category filters or display a list of categories on the page with the associated product count.
-
-  Example usage:
-  - This function is called to get all categories and their product counts, which can then be used to display filters or menus.
+  The selected category is loaded with its path from the top-level category, which is used for the breadcrumbs.
+  Top-level categories are listed when they have matching products, subcategories only when their parent is on the path of the selected category.
+  Categories on the path are always listed, so the selection can be changed back.
 */
-  const categories = await getAllCategories();
+  const facets = await getSearchFacets({ query: q, category, price, rating, brand, stock });
+  const selectedCategory = category !== "all" && category !== "" ? await getCategoryBySlug(category) : null;
+  const savedProductIds = await getMyWishlistProductIds(); // The products in the customer's wishlist, shown with a filled heart.
+  const selectedPathIds = selectedCategory?.path.map(x => x.id) ?? [];
+  const visibleCategories = facets.categories.filter(x => (!x.parentId || selectedPathIds.includes(x.parentId)) && (x.productCount > 0 || selectedPathIds.includes(x.id)));
 
   return (
     <div className="grid md:grid-cols-5 md:gap-5">
@@ -190,11 +197,32 @@ const SearchPage = async (props: {
                 Any
               </Link>
             </li>
-            {/* Loop through categories and generate links for each */}
-            {categories.map(x => (
-              <li key={x.category}>
-                <Link className={`${x.category === category && "font-bold"}`} href={getFilterUrl({ c: x.category })}>
-                  {x.category}
+            {/* Loop through the visible categories and generate links for each, indented by their depth in the tree */}
+            {visibleCategories.map(x => (
+              <li key={x.id} style={{ paddingLeft: `${x.depth * 0.75}rem` }}>
+                <Link className={`${x.slug === category && "font-bold"}`} href={getFilterUrl({ c: x.slug })}>
+                  {x.name} <span className="text-muted-foreground">({x.productCount})</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+        {/* Brand Links */}
+        <div>
+          <div className="text-xl mt-8 mb-2">Brand</div>
+          <ul className="space-y-1">
+            <li>
+              {/* Link to show all brands; bold if no brand is selected */}
+              <Link className={`${brands.length === 0 && "font-bold"}`} href={getFilterUrl({ b: "all" })}>
+                Any
+              </Link>
+            </li>
+            {/* Loop through the brands and generate links adding or removing each brand from the selection */}
+            {facets.brands.map(x => (
+              <li key={x.value}>
+                <Link className={`${brands.includes(x.value) && "font-bold"}`} href={getFilterUrl({ b: formatBrands(toggleBrand(brands, x.value)) })}>
+                  <input type="checkbox" className="mr-2 pointer-events-none" checked={brands.includes(x.value)} readOnly tabIndex={-1} aria-hidden />
+                  {x.value} <span className="text-muted-foreground">({x.count})</span>
                 </Link>
               </li>
             ))}
@@ -211,10 +239,10 @@ const SearchPage = async (props: {
               </Link>
             </li>
             {/* Loop through price ranges and generate links for each */}
-            {prices.map(p => (
+            {facets.prices.map(p => (
               <li key={p.value}>
                 <Link href={getFilterUrl({ p: p.value })} className={`${p.value === price && "font-bold"}`}>
-                  {p.name}
+                  {p.name} <span className="text-muted-foreground">({p.count})</span>
                 </Link>
               </li>
             ))}
@@ -232,15 +260,33 @@ const SearchPage = async (props: {
               </Link>
             </li>
             {/* Loop through rating values and generate links for each */}
-            {ratings.map(r => (
-              <li key={r}>
-                <Link href={getFilterUrl({ r: `${r}` })} className={`${r.toString() === rating && "font-bold"}`}>
-                  {`${r} stars & up`}
+            {facets.ratings.map(r => (
+              <li key={r.value}>
+                <Link href={getFilterUrl({ r: `${r.value}` })} className={`${r.value.toString() === rating && "font-bold"}`}>
+                  {`${r.value} stars & up`} <span className="text-muted-foreground">({r.count})</span>
                 </Link>
               </li>
             ))}
           </ul>
         </div>
+
+        {/* Availability Links */}
+        <div>
+          <div className="text-xl mt-8 mb-2">Availability</div>
+          <ul className="space-y-1">
+            <li>
+              {/* Link to show all products; bold if out of stock products are shown */}
+              <Link href={getFilterUrl({ st: "all" })} className={`${"in" !== stock && "font-bold"}`}>
+                Any
+              </Link>
+            </li>
+            <li>
+              <Link href={getFilterUrl({ st: "in" })} className={`${"in" === stock && "font-bold"}`}>
+                In stock <span className="text-muted-foreground">({facets.inStock})</span>
+              </Link>
+            </li>
+          </ul>
+        </div>
       </div>
 
       <div className="md:col-span-4 space-y-4">
@@ -248,15 +294,31 @@ const SearchPage = async (props: {
           <div className="flex items-center">
             {/* Display search query if it exists */}
             {q !== "all" && q !== "" && "Query : " + q}
-            {/* Display selected category if it's not 'all' */}
-            {category !== "all" && category !== "" && "   Category : " + category}
+            {/* Display the breadcrumbs of the selected category if it's not 'all' */}
+            {selectedCategory && (
+              <nav aria-label="Breadcrumb" className="flex items-center gap-1 mr-2">
+                <Link href={getFilterUrl({ c: "all" })}>All</Link>
+                {selectedCategory.path.map(x => (
+                  <React.Fragment key={x.id}>
+                    <span className="text-muted-foreground">/</span>
+                    <Link href={getFilterUrl({ c: x.slug })} className={x.id === selectedCategory.id ? "font-bold" : ""}>
+                      {x.name}
+                    </Link>
+                  </React.Fragment>
+                ))}
+              </nav>
+            )}
             {/* Display selected price range if it's not 'all' */}
             {price !== "all" && "    Price: " + price}
             {/* Display selected rating if it's not 'all' */}
             {rating !== "all" && "    Rating: " + rating + " & up"}
+            {/* Display selected brands if any */}
+            {brands.length > 0 && "    Brand: " + brands.join(", ")}
+            {/* Display the availability filter if only products in stock are shown */}
+            {stock === "in" && "    In stock"}
             &nbsp;
             {/* Render clear filters button only if any filter is active */}
-            {(q !== "all" && q !== "") || (category !== "all" && category !== "") || rating !== "all" || price !== "all" ? (
+            {(q !== "all" && q !== "") || (category !== "all" && category !== "") || rating !== "all" || price !== "all" || brands.length > 0 || stock === "in" ? (
               <Button variant={"link"} asChild>
                 <Link href="/search">Clear</Link>
               </Button>
@@ -265,11 +327,13 @@ const SearchPage = async (props: {
           <div>
             Sort by
             {/* Loop through sorting options and generate links */}
-            {sortOrders.map(s => (
-              <Link key={s} className={`mx-2   ${sort == s && "font-bold"} `} href={getFilterUrl({ s })}>
-                {s}
-              </Link>
-            ))}
+            {sortOrders
+              .filter(s => s !== "relevance" || (q !== "all" && q !== ""))
+              .map(s => (
+                <Link key={s} className={`mx-2   ${sort == s && "font-bold"} `} href={getFilterUrl({ s })}>
+                  {s}
+                </Link>
+              ))}
           </div>
         </div>
         <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
@@ -277,9 +341,11 @@ const SearchPage = async (props: {
           {products!.data.length === 0 && <div>No product found</div>}
           {/* Loop through and display each product */}
           {products!.data.map(product => (
-            <ProductCard key={product.id} product={product} />
+            <ProductCard key={product.id} product={product} highlight={product.highlight} saved={savedProductIds.includes(product.id)} />
           ))}
         </div>
+        {/* Show the number of products matching the filters */}
+        {products.totalCount > 0 && <div className="text-sm text-muted-foreground">{products.totalCount} results</div>}
         {/* Render pagination only if there are multiple pages */}
         {products!.totalPages! > 1 && <Pagination page={page} totalPages={products!.totalPages} />}
       </div>
@@ -47,7 +47,7 @@ const ShippingAddressForm = ({ address }: { address: ShippingAddress | null }) =
         return;
       }
 
-      router.push("/payment-method"); // Navigates to the payment method page upon successful address update.
+      router.push("/shipping-method"); // Navigates to the shipping method page upon successful address update.
     });
   };
 
@@ -129,6 +129,22 @@ const ShippingAddressForm = ({ address }: { address: ShippingAddress | null }) =
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control} // Passes the form control to the FormField component.
+                name="region"
+                // Renders the optional form field for the state or province, used for regional tax rates.
+                render={({ field }: { field: ControllerRenderProps<z.infer<typeof shippingAddressSchema>, "region"> }) => (
+                  <FormItem className="w-full">
+                    <FormLabel>State / Province</FormLabel>
+                    <FormControl>
+                      {/* Renders the input field for the region. */}
+                      <Input placeholder="Optional" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    {/* Displays the form message for validation errors. */}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control} // Passes the form control to the FormField component.
                 name="postalCode"
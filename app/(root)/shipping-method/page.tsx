@@ -0,0 +1,39 @@
+/**
+ * This component, ShippingMethodPage, handles the display of the shipping method form.
+ * It fetches the shipping options of the user's cart for their shipping address and passes them to the ShippingMethodForm component,
+ * together with the currently selected rate.
+ */
+
+import { Metadata } from "next"; // Imports the Metadata type for defining page metadata.
+import { redirect } from "next/navigation"; // Imports the redirect function for navigation.
+import { getMyCart, getMyShippingOptions } from "@/lib/actions/cart.actions"; // Imports the getMyCart and getMyShippingOptions functions to fetch the cart and its shipping options.
+import ShippingMethodForm from "./shipping-method-form"; // Imports the ShippingMethodForm component for displaying the shipping method form.
+import CheckoutSteps from "@/components/shared/checkout-steps"; // Imports the CheckoutSteps component for displaying the checkout progress.
+import { selectShippingOption } from "@/lib/shipping"; // Imports the helper that resolves the selected shipping option.
+
+// Defines the metadata for the page.
+export const metadata: Metadata = {
+  title: "Shipping Method" // Sets the title of the page to "Shipping Method".
+};
+
+// Defines the ShippingMethodPage component as an asynchronous function.
+const ShippingMethodPage = async () => {
+  const cart = await getMyCart(); // Fetches the user's cart.
+
+  // Redirects to the cart page if the cart is empty or not found.
+  if (!cart || cart.items.length === 0) redirect("/cart");
+
+  // Fetches the shipping options of the cart for the user's shipping address.
+  const { options, selectedRateId } = await getMyShippingOptions();
+
+  return (
+    <>
+      {/* Displays the checkout steps with the current step highlighted. */}
+      <CheckoutSteps current={2} />
+      {/* Renders the ShippingMethodForm component, passing the shipping options and the selected rate as props. */}
+      <ShippingMethodForm options={options} selectedRateId={selectShippingOption(options, selectedRateId)?.rateId ?? null} />
+    </>
+  );
+};
+
+export default ShippingMethodPage;
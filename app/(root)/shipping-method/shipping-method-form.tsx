@@ -0,0 +1,113 @@
+/**
+ * This component, ShippingMethodForm, handles the display and submission of a form for selecting a shipping method.
+ * It lists the shipping options of the cart with their price and delivery time, and selects the chosen rate on the cart.
+ * When no zone ships to the user's address, it asks the user to change the address instead.
+ */
+
+"use client"; // Indicates that this code is intended to run on the client side.
+
+import { Button } from "@/components/ui/button"; // Imports the Button component.
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"; // Imports form components.
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"; // Imports RadioGroup components for radio button input.
+import { toast } from "sonner"; // Imports the toast function from Sonner for displaying notifications.
+import { updateCartShippingRate } from "@/lib/actions/cart.actions"; // Imports the updateCartShippingRate function to select the shipping rate of the cart.
+import { formatDeliveryDays, ShippingOption } from "@/lib/shipping"; // Imports the shipping option type and the delivery time formatter.
+import { formatCurrency } from "@/lib/utils"; // Imports the formatCurrency function to format prices.
+import { shippingMethodSchema } from "@/lib/validator"; // Imports the shipping method validation schema.
+import { zodResolver } from "@hookform/resolvers/zod"; // Imports the Zod resolver for react-hook-form.
+import { ArrowRight, Loader } from "lucide-react"; // Imports icons from lucide-react.
+import Link from "next/link"; // Imports the Link component for navigation links.
+import { useRouter } from "next/navigation"; // Imports the useRouter hook for navigation.
+import { useTransition } from "react"; // Imports the useTransition hook from React for managing state transitions.
+import { useForm } from "react-hook-form"; // Imports necessary functions from react-hook-form for form handling.
+import { z } from "zod"; // Imports Zod for schema validation.
+
+const ShippingMethodForm = ({ options, selectedRateId }: { options: ShippingOption[]; selectedRateId: string | null }) => {
+  const router = useRouter(); // Initializes the router for navigation.
+
+  // Initializes the form with the Zod resolver, defaulting to the selected (or cheapest) rate.
+  const form = useForm<z.infer<typeof shippingMethodSchema>>({
+    resolver: zodResolver(shippingMethodSchema),
+    defaultValues: {
+      rateId: selectedRateId ?? ""
+    }
+  });
+
+  const [isPending, startTransition] = useTransition(); // Manages the transition state.
+
+  // Handles form submission.
+  async function onSubmit(values: z.infer<typeof shippingMethodSchema>) {
+    startTransition(async () => {
+      const res = await updateCartShippingRate(values.rateId);
+
+      // Displays an error toast if the shipping method update fails.
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      router.push("/payment-method"); // Navigates to the payment method page upon successful shipping method update.
+    });
+  }
+
+  return (
+    <>
+      <div className="max-w-md mx-auto">
+        <Form {...form}>
+          <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <h1 className="h2-bold mt-4">Shipping Method</h1>
+            {options.length === 0 ? (
+              // No zone ships to the address of the user
+              <p className="text-sm text-muted-foreground">
+                We don&apos;t ship to your address yet.{" "}
+                <Link href="/shipping-address" className="underline">
+                  Change your shipping address
+                </Link>
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">Please select how you want your order shipped</p>
+                <FormField
+                  control={form.control}
+                  name="rateId"
+                  render={({ field }) => (
+                    <FormItem className="space-y-3">
+                      <FormControl>
+                        <RadioGroup onValueChange={field.onChange} className="flex flex-col space-y-2">
+                          {/* Maps through the shipping options to render a radio button for each rate. */}
+                          {options.map(option => (
+                            <FormItem key={option.rateId} className="flex items-center space-x-3 space-y-0">
+                              <FormControl>
+                                <RadioGroupItem value={option.rateId} checked={field.value === option.rateId} />
+                              </FormControl>
+                              <FormLabel className="font-normal flex-1 flex justify-between gap-4">
+                                <span>
+                                  {option.name} {formatDeliveryDays(option) && <span className="text-muted-foreground">({formatDeliveryDays(option)})</span>}
+                                </span>
+                                <span>{option.price === 0 ? "Free" : formatCurrency(option.price)}</span>
+                              </FormLabel>
+                            </FormItem>
+                          ))}
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={isPending}>
+                    {/* Displays a loading spinner or an arrow icon based on the transition state. */}
+                    {isPending ? <Loader className="animate-spin w-4 h-4" /> : <ArrowRight className="w-4 h-4" />}
+                    Continue
+                  </Button>
+                </div>
+              </>
+            )}
+          </form>
+        </Form>
+      </div>
+    </>
+  );
+};
+
+export default ShippingMethodForm;
@@ -0,0 +1,25 @@
+import { Metadata } from "next";
+import { Button } from "@/components/ui/button";
+import { confirmStockNotificationUnsubscribe } from "@/lib/actions/stock-notification.actions";
+
+export const metadata: Metadata = {
+  title: "Unsubscribe"
+};
+
+// Opened by the unsubscribe link of a back-in-stock email. Nothing changes until the customer confirms, as mail scanners follow the links of emails.
+const UnsubscribePage = async (props: { searchParams: Promise<{ token?: string }> }) => {
+  const { token } = await props.searchParams;
+
+  return (
+    <div className="container mx-auto flex flex-col items-center justify-center space-y-4 h-[50vh]">
+      <h1 className="h2-bold">Unsubscribe from back-in-stock emails?</h1>
+      <p className="text-muted-foreground">You won&apos;t receive the back-in-stock emails of your earlier requests.</p>
+      <form action={confirmStockNotificationUnsubscribe}>
+        <input type="hidden" name="token" value={token ?? ""} />
+        <Button type="submit">Unsubscribe</Button>
+      </form>
+    </div>
+  );
+};
+
+export default UnsubscribePage;
@@ -0,0 +1,24 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+export const metadata: Metadata = {
+  title: "Unsubscribed"
+};
+
+// Shown after following the unsubscribe link of a back-in-stock email
+const UnsubscribedPage = async (props: { searchParams: Promise<{ invalid?: string }> }) => {
+  const { invalid } = await props.searchParams;
+
+  return (
+    <div className="container mx-auto flex flex-col items-center justify-center space-y-4 h-[50vh]">
+      <h1 className="h2-bold">{invalid ? "Link not found" : "You're unsubscribed"}</h1>
+      <p className="text-muted-foreground">{invalid ? "This unsubscribe link is invalid or has expired." : "You won't receive any more back-in-stock emails for your earlier requests."}</p>
+      <Button asChild>
+        <Link href="/">Continue shopping</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default UnsubscribedPage;
@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import CategoryForm from "@/components/shared/admin/category-form";
+import { getAllCategories, getCategoryById } from "@/lib/actions/category.actions";
+
+export const metadata: Metadata = {
+  title: "Update category"
+};
+
+const UpdateCategoryPage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("products:write");
+  const { id } = await props.params;
+
+  const [category, categories] = await Promise.all([getCategoryById(id), getAllCategories()]);
+
+  if (!category) return notFound();
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <h1 className="h2-bold">Update Category</h1>
+      <CategoryForm type="Update" category={category} categoryId={category.id} categories={categories} />
+    </div>
+  );
+};
+
+export default UpdateCategoryPage;
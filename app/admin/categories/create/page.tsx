@@ -0,0 +1,24 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import CategoryForm from "@/components/shared/admin/category-form";
+import { getAllCategories } from "@/lib/actions/category.actions";
+
+export const metadata: Metadata = {
+  title: "Create category"
+};
+
+const CreateCategoryPage = async () => {
+  await requirePermission("products:write");
+
+  const categories = await getAllCategories();
+
+  return (
+    <>
+      <h2 className="h2-bold">Create Category</h2>
+      <div className="my-8">
+        <CategoryForm type="Create" categories={categories} />
+      </div>
+    </>
+  );
+};
+export default CreateCategoryPage;
@@ -0,0 +1,64 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { deleteCategory, getAllCategories } from "@/lib/actions/category.actions";
+import DeleteDialog from "@/components/shared/delete-dialog";
+
+export const metadata: Metadata = {
+  title: "Admin Categories"
+};
+
+const AdminCategoriesPage = async () => {
+  await requirePermission("products:write");
+
+  const categories = await getAllCategories();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Categories</h1>
+        <Button asChild variant="default">
+          <Link href="/admin/categories/create">Create Category</Link>
+        </Button>
+      </div>
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>NAME</TableHead>
+              <TableHead>SLUG</TableHead>
+              <TableHead>SORT ORDER</TableHead>
+              <TableHead>PRODUCTS</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {/* Categories are listed in tree order, with subcategories indented under their parent */}
+            {categories.map(category => (
+              <TableRow key={category.id}>
+                <TableCell className={category.depth === 0 ? "font-bold" : ""} style={{ paddingLeft: `${0.5 + category.depth * 1.5}rem` }}>
+                  {category.name}
+                </TableCell>
+                <TableCell>{category.slug}</TableCell>
+                <TableCell>{category.sortOrder}</TableCell>
+                {/* Includes the products of the subcategories */}
+                <TableCell>{category.productCount}</TableCell>
+                <TableCell className="flex gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/categories/${category.id}`}>Edit</Link>
+                  </Button>
+                  <DeleteDialog id={category.id} action={deleteCategory} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {categories.length === 0 && <p className="text-sm text-muted-foreground py-4">No categories yet. Create a category before adding products.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AdminCategoriesPage;
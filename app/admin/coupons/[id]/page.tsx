@@ -0,0 +1,35 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import CouponForm from "@/components/shared/admin/coupon-form";
+import { getCouponById } from "@/lib/actions/coupon.actions";
+import { getAllProductNames } from "@/lib/actions/product.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
+
+export const metadata: Metadata = {
+  title: "Update coupon"
+};
+
+const UpdateCouponPage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("promotions:write");
+  const { id } = await props.params;
+
+  const coupon = await getCouponById(id);
+
+  if (!coupon) return notFound();
+
+  const [products, categories] = await Promise.all([getAllProductNames(), getAllCategories()]);
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <h1 className="h2-bold">Update Coupon</h1>
+      <CouponForm type="Update" coupon={coupon} couponId={coupon.id} products={products} categories={categories} />
+    </div>
+  );
+};
+
+export default UpdateCouponPage;
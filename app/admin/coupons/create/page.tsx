@@ -0,0 +1,25 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import CouponForm from "@/components/shared/admin/coupon-form";
+import { getAllProductNames } from "@/lib/actions/product.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
+
+export const metadata: Metadata = {
+  title: "Create coupon"
+};
+
+const CreateCouponPage = async () => {
+  await requirePermission("promotions:write");
+
+  const [products, categories] = await Promise.all([getAllProductNames(), getAllCategories()]);
+
+  return (
+    <>
+      <h2 className="h2-bold">Create Coupon</h2>
+      <div className="my-8">
+        <CouponForm type="Create" products={products} categories={categories} />
+      </div>
+    </>
+  );
+};
+export default CreateCouponPage;
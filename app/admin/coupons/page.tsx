@@ -0,0 +1,78 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import Pagination from "@/components/shared/pagination";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getAllCoupons, deleteCoupon } from "@/lib/actions/coupon.actions";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+import DeleteDialog from "@/components/shared/delete-dialog";
+
+export const metadata: Metadata = {
+  title: "Admin Coupons"
+};
+
+const AdminCouponsPage = async (props: {
+  searchParams: Promise<{
+    page: string;
+  }>;
+}) => {
+  await requirePermission("promotions:write");
+  const searchParams = await props.searchParams;
+
+  const page = Number(searchParams.page) || 1;
+
+  const coupons = await getAllCoupons({ page });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Coupons</h1>
+        <Button asChild variant="default">
+          <Link href="/admin/coupons/create">Create Coupon</Link>
+        </Button>
+      </div>
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>CODE</TableHead>
+              <TableHead>DISCOUNT</TableHead>
+              <TableHead>MIN SPEND</TableHead>
+              <TableHead>EXPIRES</TableHead>
+              <TableHead>REDEEMED</TableHead>
+              <TableHead>STATUS</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {coupons.data.map(coupon => (
+              <TableRow key={coupon.id}>
+                <TableCell className="font-bold">{coupon.code}</TableCell>
+                <TableCell>{coupon.type === "percentage" ? `${Number(coupon.value)}%` : coupon.type === "fixed" ? formatCurrency(coupon.value) : "Free shipping"}</TableCell>
+                <TableCell>{coupon.minSpend ? formatCurrency(coupon.minSpend) : "-"}</TableCell>
+                <TableCell>{coupon.expiresAt ? formatDateTime(coupon.expiresAt).dateTime : "Never"}</TableCell>
+                {/* Displays how often the coupon was redeemed, out of its usage limit */}
+                <TableCell>
+                  {coupon._count.redemptions}
+                  {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ""}
+                </TableCell>
+                <TableCell>{coupon.isActive ? <Badge variant="outline">Active</Badge> : <Badge variant="secondary">Inactive</Badge>}</TableCell>
+                <TableCell className="flex gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/coupons/${coupon.id}`}>Edit</Link>
+                  </Button>
+                  <DeleteDialog id={coupon.id} action={deleteCoupon} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {coupons.totalPages > 1 && <Pagination page={page} totalPages={coupons.totalPages} />}
+      </div>
+    </div>
+  );
+};
+
+export default AdminCouponsPage;
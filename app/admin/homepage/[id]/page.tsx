@@ -0,0 +1,35 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import HomepageSectionForm from "@/components/shared/admin/homepage-section-form";
+import { getHomepageSectionById } from "@/lib/actions/homepage.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
+import { getAllSales } from "@/lib/actions/sale.actions";
+
+export const metadata: Metadata = {
+  title: "Update homepage section"
+};
+
+const UpdateHomepageSectionPage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("content:write");
+  const { id } = await props.params;
+
+  const section = await getHomepageSectionById(id);
+
+  if (!section) return notFound();
+
+  const [categories, sales] = await Promise.all([getAllCategories(), getAllSales({ page: 1, limit: 100 })]);
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <h1 className="h2-bold">Update Section</h1>
+      <HomepageSectionForm type="Update" section={section} sectionId={section.id} categories={categories} sales={sales.data} />
+    </div>
+  );
+};
+
+export default UpdateHomepageSectionPage;
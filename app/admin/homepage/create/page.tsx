@@ -0,0 +1,25 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import HomepageSectionForm from "@/components/shared/admin/homepage-section-form";
+import { getAllCategories } from "@/lib/actions/category.actions";
+import { getAllSales } from "@/lib/actions/sale.actions";
+
+export const metadata: Metadata = {
+  title: "Create homepage section"
+};
+
+const CreateHomepageSectionPage = async () => {
+  await requirePermission("content:write");
+
+  const [categories, sales] = await Promise.all([getAllCategories(), getAllSales({ page: 1, limit: 100 })]);
+
+  return (
+    <>
+      <h2 className="h2-bold">Create Section</h2>
+      <div className="my-8">
+        <HomepageSectionForm type="Create" categories={categories} sales={sales.data} />
+      </div>
+    </>
+  );
+};
+export default CreateHomepageSectionPage;
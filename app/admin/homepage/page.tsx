@@ -0,0 +1,83 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { deleteHomepageSection, getAllHomepageSections } from "@/lib/actions/homepage.actions";
+import { HOMEPAGE_SECTION_LABELS, isSectionScheduled } from "@/lib/homepage";
+import { formatDateTime } from "@/lib/utils";
+import DeleteDialog from "@/components/shared/delete-dialog";
+import HomepageSectionActions from "@/components/shared/admin/homepage-section-actions";
+
+export const metadata: Metadata = {
+  title: "Admin Homepage"
+};
+
+const AdminHomepagePage = async () => {
+  await requirePermission("content:write");
+
+  const sections = await getAllHomepageSections();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Homepage</h1>
+        <div className="flex gap-2">
+          {/* Shows the homepage with the drafts, before publishing them */}
+          <Button asChild variant="outline">
+            <Link href="/admin/homepage/preview">Preview</Link>
+          </Button>
+          <Button asChild variant="default">
+            <Link href="/admin/homepage/create">Create Section</Link>
+          </Button>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">Sections are shown on the homepage from top to bottom while they are published and within their schedule.</p>
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>TYPE</TableHead>
+              <TableHead>TITLE</TableHead>
+              <TableHead>SCHEDULE</TableHead>
+              <TableHead>STATUS</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sections.map((section, index) => (
+              <TableRow key={section.id}>
+                <TableCell className="font-bold">{HOMEPAGE_SECTION_LABELS[section.type]}</TableCell>
+                <TableCell>{section.title ?? "-"}</TableCell>
+                <TableCell>
+                  {section.startsAt || section.endsAt ? `${section.startsAt ? formatDateTime(section.startsAt).dateTime : "Now"} – ${section.endsAt ? formatDateTime(section.endsAt).dateTime : "No end"}` : "Always"}
+                </TableCell>
+                <TableCell>
+                  {!section.isPublished ? (
+                    <Badge variant="secondary">Draft</Badge>
+                  ) : isSectionScheduled(section) ? (
+                    <Badge variant="default">Live</Badge>
+                  ) : section.startsAt && new Date(section.startsAt) > new Date() ? (
+                    <Badge variant="outline">Scheduled</Badge>
+                  ) : (
+                    <Badge variant="secondary">Ended</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="flex gap-1">
+                  <HomepageSectionActions id={section.id} isPublished={section.isPublished} isFirst={index === 0} isLast={index === sections.length - 1} />
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/homepage/${section.id}`}>Edit</Link>
+                  </Button>
+                  <DeleteDialog id={section.id} action={deleteHomepageSection} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AdminHomepagePage;
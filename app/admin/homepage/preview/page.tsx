@@ -0,0 +1,51 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { requirePermission } from "@/lib/auth-guard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import HomepageSections from "@/components/shared/homepage/homepage-sections";
+import { getHomepageSections } from "@/lib/actions/homepage.actions";
+import { toDateTimeLocal } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Preview homepage"
+};
+
+/*
+  Previews the homepage with the draft sections, so they can be checked before publishing.
+  The preview can be shown at a later time (`at`), to check scheduled sections.
+*/
+const PreviewHomepagePage = async (props: {
+  searchParams: Promise<{
+    at?: string;
+  }>;
+}) => {
+  await requirePermission("content:write");
+  const { at } = await props.searchParams;
+
+  const date = at && !isNaN(new Date(at).getTime()) ? new Date(at) : new Date();
+
+  const sections = await getHomepageSections({ includeDrafts: true, at: date });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex-between flex-wrap gap-2">
+        <h1 className="h2-bold">Preview Homepage</h1>
+        {/* Picks the time the homepage is previewed at */}
+        <form className="flex items-center gap-2">
+          <Input type="datetime-local" name="at" defaultValue={toDateTimeLocal(date)} />
+          <Button type="submit" variant="outline">
+            Preview
+          </Button>
+          <Button asChild variant="default">
+            <Link href="/admin/homepage">Back to sections</Link>
+          </Button>
+        </form>
+      </div>
+      <p className="text-sm text-muted-foreground">Drafts are shown with the published sections. Publish them on the Homepage page to show them on the storefront.</p>
+      {sections.length > 0 ? <HomepageSections sections={sections} preview /> : <p>No section is shown at this time.</p>}
+    </div>
+  );
+};
+
+export default PreviewHomepagePage;
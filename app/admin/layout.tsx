@@ -4,8 +4,15 @@ import Link from "next/link";
 import Menu from "@/components/shared/header/menu";
 import { MainNav } from "./main-nav";
 import AdminSearch from "@/components/shared/admin/admin-search";
+import { getMyPermissions } from "@/lib/auth-guard";
+import { getAdminPages, hasAdminAccess } from "@/lib/permissions";
+import { redirect } from "next/navigation";
 
 export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  // Only users whose role has a permission get into the admin area. Each page then checks the permission it needs.
+  const permissions = await getMyPermissions();
+  if (!hasAdminAccess(permissions)) redirect("/unauthorized");
+
   return (
     <>
       <div className="flex flex-col">
@@ -14,7 +21,7 @@ export default async function AdminLayout({ children }: { children: React.ReactN
             <Link href="/" className="w-22">
               <Image src="/images/logo.svg" width={48} height={48} alt={`${APP_NAME} logo`} />
             </Link>
-            <MainNav className="mx-6" />
+            <MainNav className="mx-6" links={getAdminPages(permissions)} />
             <div className="ml-auto flex items-center space-x-4">
               <AdminSearch />
               <Menu />
@@ -4,26 +4,8 @@ import { cn } from "@/lib/utils";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 
-const links = [
-  {
-    title: "Overview",
-    href: "/admin/overview"
-  },
-  {
-    title: "Products",
-    href: "/admin/products"
-  },
-  {
-    title: "Orders",
-    href: "/admin/orders"
-  },
-  {
-    title: "Users",
-    href: "/admin/users"
-  }
-];
-
-export function MainNav({ className, ...props }: React.HTMLAttributes<HTMLElement>) {
+// The links of the admin navigation, filtered by the admin layout to the pages the user has the permission to open (see ADMIN_PAGES).
+export function MainNav({ className, links, ...props }: React.HTMLAttributes<HTMLElement> & { links: { title: string; href: string }[] }) {
   const pathname = usePathname();
 
   return (
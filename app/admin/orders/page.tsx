@@ -1,7 +1,7 @@
-import { auth } from "@/auth";
 import { deleteOrder, getAllOrders } from "@/lib/actions/order.actions";
 import { Metadata } from "next";
-import { requireAdmin } from "@/lib/auth-guard";
+import { getMyPermissions, requirePermission } from "@/lib/auth-guard";
+import { hasPermission } from "@/lib/permissions";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { formatCurrency, formatDateTime, formatId } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -14,11 +14,9 @@ export const metadata: Metadata = {
 };
 
 const OrdersPage = async (props: { searchParams: Promise<{ page: string; query: string }> }) => {
-  await requireAdmin();
+  await requirePermission("orders:view");
   const { page = "1", query: searchText } = await props.searchParams;
-
-  const session = await auth();
-  if (session?.user.role !== "admin") throw new Error("admin permission required");
+  const canDelete = hasPermission(await getMyPermissions(), "orders:refund"); // Deleting an order needs the refund permission.
 
   const orders = await getAllOrders({
     page: Number(page),
@@ -50,6 +48,7 @@ const OrdersPage = async (props: { searchParams: Promise<{ page: string; query:
               <TableHead>DATE</TableHead>
               <TableHead>BUYER</TableHead>
               <TableHead>TOTAL</TableHead>
+              <TableHead>STATUS</TableHead>
               <TableHead>PAID</TableHead>
               <TableHead>DELIVERED</TableHead>
               <TableHead>ACTIONS</TableHead>
@@ -62,13 +61,14 @@ const OrdersPage = async (props: { searchParams: Promise<{ page: string; query:
                 <TableCell>{formatDateTime(order.createdAt).dateTime}</TableCell>
                 <TableCell>{order.user.name}</TableCell>
                 <TableCell>{formatCurrency(order.totalPrice)}</TableCell>
-                <TableCell>{order.isPaid && order.paidAt ? formatDateTime(order.paidAt).dateTime : "Not Paid"}</TableCell>
-                <TableCell>{order.isDelivered && order.deliveredAt ? formatDateTime(order.deliveredAt).dateTime : "Not Delivered"}</TableCell>
+                <TableCell className="capitalize">{order.status}</TableCell>
+                <TableCell>{order.paidAt ? formatDateTime(order.paidAt).dateTime : "Not Paid"}</TableCell>
+                <TableCell>{order.deliveredAt ? formatDateTime(order.deliveredAt).dateTime : "Not Delivered"}</TableCell>
                 <TableCell className="flex gap-1">
                   <Button asChild variant="outline" size="sm">
                     <Link href={`/order/${order.id}`}>Details</Link>
                   </Button>
-                  <DeleteDialog id={order.id} action={deleteOrder} />
+                  {canDelete && <DeleteDialog id={order.id} action={deleteOrder} />}
                 </TableCell>
               </TableRow>
             ))}
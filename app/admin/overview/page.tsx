@@ -1,4 +1,3 @@
-import { auth } from "@/auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { getOrderSummary } from "@/lib/actions/order.actions";
 import { formatCurrency, formatDateTime, formatNumber } from "@/lib/utils";
@@ -7,19 +6,14 @@ import { Metadata } from "next";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import Link from "next/link";
 import Charts from "./charts";
-import { requireAdmin } from "@/lib/auth-guard";
+import { requirePermission } from "@/lib/auth-guard";
 
 export const metadata: Metadata = {
   title: "Admin Dashboard"
 };
 
 const AdminOverviewPage = async () => {
-  await requireAdmin();
-  const session = await auth();
-
-  // Make sure the user is an admin
-  if (session?.user.role !== "admin") throw new Error("admin permission required");
-
+  await requirePermission("reports:view");
   // Get order summary
   const summary = await getOrderSummary();
 
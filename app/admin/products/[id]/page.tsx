@@ -3,6 +3,8 @@ import { notFound } from "next/navigation";
 
 import ProductForm from "@/components/shared/admin/product-form";
 import { getProductById } from "@/lib/actions/product.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
+import { requirePermission } from "@/lib/auth-guard";
 
 export const metadata: Metadata = {
   title: "Update product"
@@ -13,16 +15,17 @@ const UpdateProductPage = async (props: {
     id: string;
   }>;
 }) => {
+  await requirePermission("products:write");
   const { id } = await props.params;
 
-  const product = await getProductById(id);
+  const [product, categories] = await Promise.all([getProductById(id), getAllCategories()]);
 
   if (!product) return notFound();
 
   return (
     <div className="space-y-8 max-w-5xl mx-auto">
       <h1 className="h2-bold">Update Product</h1>
-      <ProductForm type="Update" product={product} productId={product.id} />
+      <ProductForm type="Update" product={product} productId={product.id} categories={categories} />
     </div>
   );
 };
@@ -0,0 +1,87 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import Pagination from "@/components/shared/pagination";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getProductById } from "@/lib/actions/product.actions";
+import { getInventoryMovements } from "@/lib/actions/inventory.actions";
+import { LOW_STOCK_THRESHOLD } from "@/lib/constants";
+import { formatDateTime, formatId, formatVariantOptions } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Stock History"
+};
+
+// Lists every recorded stock change of a product: the reason, the change, the stock after it, the order and who made it
+const ProductStockPage = async (props: { params: Promise<{ id: string }>; searchParams: Promise<{ page: string }> }) => {
+  await requirePermission(["products:write", "inventory:write"]);
+
+  const { id } = await props.params;
+  const page = Number((await props.searchParams).page) || 1;
+
+  const product = await getProductById(id);
+  if (!product) return notFound();
+
+  const movements = await getInventoryMovements({ productId: id, page });
+  const threshold = product.lowStockThreshold ?? LOW_STOCK_THRESHOLD;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <div>
+          <h1 className="h2-bold">Stock History</h1>
+          <p className="text-muted-foreground">
+            {product.name}: {product.stock} in stock, low-stock threshold {threshold} {product.stock <= threshold && <Badge variant="destructive">Low stock</Badge>}
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <Link href={`/admin/products/${id}`}>Edit Product</Link>
+        </Button>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>DATE</TableHead>
+              <TableHead>REASON</TableHead>
+              <TableHead>VARIANT</TableHead>
+              <TableHead className="text-right">CHANGE</TableHead>
+              <TableHead className="text-right">STOCK AFTER</TableHead>
+              <TableHead>ORDER</TableHead>
+              <TableHead>BY</TableHead>
+              <TableHead>NOTE</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {movements.data.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8}>No stock changes recorded</TableCell>
+              </TableRow>
+            )}
+            {movements.data.map(movement => (
+              <TableRow key={movement.id}>
+                <TableCell>{formatDateTime(movement.createdAt).dateTime}</TableCell>
+                <TableCell className="capitalize">{movement.reason}</TableCell>
+                <TableCell>{movement.variantOptions ? formatVariantOptions(movement.variantOptions) : movement.variantId ? "Removed variant" : ""}</TableCell>
+                <TableCell className={`text-right ${movement.quantity < 0 ? "text-destructive" : ""}`}>
+                  {movement.quantity > 0 ? "+" : ""}
+                  {movement.quantity}
+                </TableCell>
+                <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                <TableCell>{movement.orderId && <Link href={`/order/${movement.orderId}`}>{formatId(movement.orderId)}</Link>}</TableCell>
+                <TableCell>{movement.actor?.name ?? "System"}</TableCell>
+                <TableCell>{movement.note}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {movements.totalPages > 1 && <Pagination page={page} totalPages={movements.totalPages} />}
+      </div>
+    </div>
+  );
+};
+
+export default ProductStockPage;
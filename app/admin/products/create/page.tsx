@@ -1,18 +1,22 @@
 import { Metadata } from "next";
-import { requireAdmin } from "@/lib/auth-guard";
+import { requirePermission } from "@/lib/auth-guard";
 import ProductForm from "@/components/shared/admin/product-form";
+import { getAllCategories } from "@/lib/actions/category.actions";
 
 export const metadata: Metadata = {
   title: "Create product"
 };
 
 const CreateProductPage = async () => {
-  await requireAdmin();
+  await requirePermission("products:write");
+
+  const categories = await getAllCategories();
+
   return (
     <>
       <h2 className="h2-bold">Create Product</h2>
       <div className="my-8">
-        <ProductForm type="Create" />
+        <ProductForm type="Create" categories={categories} />
       </div>
     </>
   );
@@ -0,0 +1,27 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import ProductImportForm from "@/components/shared/admin/product-import-form";
+import { PRODUCT_CSV_COLUMNS, REQUIRED_PRODUCT_CSV_COLUMNS } from "@/lib/product-csv";
+
+export const metadata: Metadata = {
+  title: "Import Products"
+};
+
+const ImportProductsPage = async () => {
+  await requirePermission("products:write");
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <div className="space-y-2">
+        <h1 className="h2-bold">Import Products</h1>
+        <p className="text-muted-foreground">
+          Upload a CSV file with the columns <code>{PRODUCT_CSV_COLUMNS.join(", ")}</code> (required: {REQUIRED_PRODUCT_CSV_COLUMNS.join(", ")}). Products are matched by slug: existing products are updated and new slugs
+          are created. <code>category</code> is the category slug and <code>images</code> are separated by &quot;|&quot;. The export of the products page has this format.
+        </p>
+      </div>
+      <ProductImportForm />
+    </div>
+  );
+};
+
+export default ImportProductsPage;
@@ -1,4 +1,4 @@
-import { requireAdmin } from "@/lib/auth-guard";
+import { requirePermission } from "@/lib/auth-guard";
 import Link from "next/link";
 import Pagination from "@/components/shared/pagination";
 import { Button } from "@/components/ui/button";
@@ -6,6 +6,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { getAllProducts, deleteProduct } from "@/lib/actions/product.actions";
 import { formatCurrency, formatId } from "@/lib/utils";
 import DeleteDialog from "@/components/shared/delete-dialog";
+import { Badge } from "@/components/ui/badge";
+import { LOW_STOCK_THRESHOLD } from "@/lib/constants";
 
 const AdminProductsPage = async (props: {
   searchParams: Promise<{
@@ -14,7 +16,7 @@ const AdminProductsPage = async (props: {
     category: string;
   }>;
 }) => {
-  await requireAdmin();
+  await requirePermission("products:write");
   const searchParams = await props.searchParams;
 
   const page = Number(searchParams.page) || 1;
@@ -45,9 +47,20 @@ const AdminProductsPage = async (props: {
             </div>
           )}
         </div>
-        <Button asChild variant="default">
-          <Link href="/admin/products/create">Create Product</Link>
-        </Button>
+        <div className="flex gap-2">
+          {/* Exports the catalog in the format the import reads back */}
+          <Button asChild variant="outline">
+            <a href="/api/admin/products/export" download>
+              Export CSV
+            </a>
+          </Button>
+          <Button asChild variant="outline">
+            <Link href="/admin/products/import">Import CSV</Link>
+          </Button>
+          <Button asChild variant="default">
+            <Link href="/admin/products/create">Create Product</Link>
+          </Button>
+        </div>
       </div>
       <div>
         <Table>
@@ -68,13 +81,19 @@ const AdminProductsPage = async (props: {
                 <TableCell>{formatId(product.id)}</TableCell>
                 <TableCell>{product.name}</TableCell>
                 <TableCell className="text-right">{formatCurrency(product.price)}</TableCell>
-                <TableCell>{product.category}</TableCell>
-                <TableCell>{product.stock}</TableCell>
+                <TableCell>{product.category.name}</TableCell>
+                <TableCell>
+                  {product.stock} {/* Products at or below their low-stock threshold are flagged */}
+                  {product.stock <= (product.lowStockThreshold ?? LOW_STOCK_THRESHOLD) && <Badge variant="destructive">Low</Badge>}
+                </TableCell>
                 <TableCell>{product.rating}</TableCell>
                 <TableCell className="flex gap-1">
                   <Button asChild variant="outline" size="sm">
                     <Link href={`/admin/products/${product.id}`}>Edit</Link>
                   </Button>
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/products/${product.id}/stock`}>Stock</Link>
+                  </Button>
                   <DeleteDialog id={product.id} action={deleteProduct} />
                 </TableCell>
               </TableRow>
@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getMyPermissions, requirePermission } from "@/lib/auth-guard";
+import RoleForm from "@/components/shared/admin/role-form";
+import { getRoleById } from "@/lib/actions/role.actions";
+
+export const metadata: Metadata = {
+  title: "Update role"
+};
+
+const UpdateRolePage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("roles:manage");
+  const { id } = await props.params;
+
+  const [role, permissions] = await Promise.all([getRoleById(id), getMyPermissions()]);
+
+  if (!role) return notFound();
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <h1 className="h2-bold">Update Role</h1>
+      <RoleForm type="Update" role={role} roleId={role.id} allowed={permissions} />
+    </div>
+  );
+};
+
+export default UpdateRolePage;
@@ -0,0 +1,22 @@
+import { Metadata } from "next";
+import { getMyPermissions, requirePermission } from "@/lib/auth-guard";
+import RoleForm from "@/components/shared/admin/role-form";
+
+export const metadata: Metadata = {
+  title: "Create role"
+};
+
+const CreateRolePage = async () => {
+  await requirePermission("roles:manage");
+  const permissions = await getMyPermissions();
+
+  return (
+    <>
+      <h2 className="h2-bold">Create Role</h2>
+      <div className="my-8">
+        <RoleForm type="Create" allowed={permissions} />
+      </div>
+    </>
+  );
+};
+export default CreateRolePage;
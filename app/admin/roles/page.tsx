@@ -0,0 +1,64 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getAllRoles, deleteRole } from "@/lib/actions/role.actions";
+import { resolveRolePermissions } from "@/lib/permissions";
+import DeleteDialog from "@/components/shared/delete-dialog";
+
+export const metadata: Metadata = {
+  title: "Admin Roles"
+};
+
+const AdminRolesPage = async () => {
+  await requirePermission("roles:manage");
+
+  const roles = await getAllRoles();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Roles</h1>
+        <Button asChild variant="default">
+          <Link href="/admin/roles/create">Create Role</Link>
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">A role bundles the permissions of the admin area. Users are given a role on the admin users page.</p>
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>NAME</TableHead>
+              <TableHead>DESCRIPTION</TableHead>
+              <TableHead>PERMISSIONS</TableHead>
+              <TableHead>USERS</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roles.map(role => (
+              <TableRow key={role.id}>
+                <TableCell className="font-bold">
+                  {role.name} {role.isSystem && <Badge variant="secondary">Built-in</Badge>}
+                </TableCell>
+                <TableCell>{role.description}</TableCell>
+                <TableCell className="font-mono text-xs">{resolveRolePermissions(role.name, role).join(", ") || "None"}</TableCell>
+                <TableCell>{role.userCount}</TableCell>
+                <TableCell className="flex gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/roles/${role.id}`}>Edit</Link>
+                  </Button>
+                  {!role.isSystem && <DeleteDialog id={role.id} action={deleteRole} />}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AdminRolesPage;
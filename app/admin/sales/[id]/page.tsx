@@ -0,0 +1,34 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import SaleForm from "@/components/shared/admin/sale-form";
+import { getSaleById } from "@/lib/actions/sale.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
+
+export const metadata: Metadata = {
+  title: "Update sale"
+};
+
+const UpdateSalePage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("promotions:write");
+  const { id } = await props.params;
+
+  const sale = await getSaleById(id);
+
+  if (!sale) return notFound();
+
+  const categories = await getAllCategories();
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <h1 className="h2-bold">Update Sale</h1>
+      <SaleForm type="Update" sale={sale} saleId={sale.id} categories={categories} />
+    </div>
+  );
+};
+
+export default UpdateSalePage;
@@ -0,0 +1,24 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import SaleForm from "@/components/shared/admin/sale-form";
+import { getAllCategories } from "@/lib/actions/category.actions";
+
+export const metadata: Metadata = {
+  title: "Create sale"
+};
+
+const CreateSalePage = async () => {
+  await requirePermission("promotions:write");
+
+  const categories = await getAllCategories();
+
+  return (
+    <>
+      <h2 className="h2-bold">Create Sale</h2>
+      <div className="my-8">
+        <SaleForm type="Create" categories={categories} />
+      </div>
+    </>
+  );
+};
+export default CreateSalePage;
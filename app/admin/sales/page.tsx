@@ -0,0 +1,88 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import Pagination from "@/components/shared/pagination";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getAllSales, deleteSale } from "@/lib/actions/sale.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
+import { formatDateTime } from "@/lib/utils";
+import { isSaleRunning } from "@/lib/sale";
+import DeleteDialog from "@/components/shared/delete-dialog";
+
+export const metadata: Metadata = {
+  title: "Admin Sales"
+};
+
+const AdminSalesPage = async (props: {
+  searchParams: Promise<{
+    page: string;
+  }>;
+}) => {
+  await requirePermission("promotions:write");
+  const searchParams = await props.searchParams;
+
+  const page = Number(searchParams.page) || 1;
+
+  const [sales, categories] = await Promise.all([getAllSales({ page }), getAllCategories()]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Sales</h1>
+        <Button asChild variant="default">
+          <Link href="/admin/sales/create">Create Sale</Link>
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">The running sale that ends soonest drives the deal countdown of the home page. Sale prices of single products are set in the product form.</p>
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>NAME</TableHead>
+              <TableHead>DISCOUNT</TableHead>
+              <TableHead>CATEGORIES</TableHead>
+              <TableHead>STARTS</TableHead>
+              <TableHead>ENDS</TableHead>
+              <TableHead>STATUS</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sales.data.map(sale => (
+              <TableRow key={sale.id}>
+                <TableCell className="font-bold">{sale.name}</TableCell>
+                <TableCell>{Number(sale.discountPercent)}%</TableCell>
+                {/* A sale without categories is storewide */}
+                <TableCell>{sale.categoryIds.length > 0 ? categories.filter(x => sale.categoryIds.includes(x.id)).map(x => x.name).join(", ") : "All products"}</TableCell>
+                <TableCell>{formatDateTime(sale.startsAt).dateTime}</TableCell>
+                <TableCell>{formatDateTime(sale.endsAt).dateTime}</TableCell>
+                <TableCell>
+                  {!sale.isActive ? (
+                    <Badge variant="secondary">Inactive</Badge>
+                  ) : isSaleRunning(sale) ? (
+                    <Badge variant="default">Running</Badge>
+                  ) : new Date(sale.startsAt) > new Date() ? (
+                    <Badge variant="outline">Scheduled</Badge>
+                  ) : (
+                    <Badge variant="secondary">Ended</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="flex gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/sales/${sale.id}`}>Edit</Link>
+                  </Button>
+                  <DeleteDialog id={sale.id} action={deleteSale} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {sales.totalPages > 1 && <Pagination page={page} totalPages={sales.totalPages} />}
+      </div>
+    </div>
+  );
+};
+
+export default AdminSalesPage;
@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import ShippingZoneForm from "@/components/shared/admin/shipping-zone-form";
+import { getShippingZoneById } from "@/lib/actions/shipping.actions";
+
+export const metadata: Metadata = {
+  title: "Update shipping zone"
+};
+
+const UpdateShippingZonePage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("settings:write");
+  const { id } = await props.params;
+
+  const zone = await getShippingZoneById(id);
+
+  if (!zone) return notFound();
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <h1 className="h2-bold">Update Shipping Zone</h1>
+      <ShippingZoneForm type="Update" zone={zone} zoneId={zone.id} />
+    </div>
+  );
+};
+
+export default UpdateShippingZonePage;
@@ -0,0 +1,21 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import ShippingZoneForm from "@/components/shared/admin/shipping-zone-form";
+
+export const metadata: Metadata = {
+  title: "Create shipping zone"
+};
+
+const CreateShippingZonePage = async () => {
+  await requirePermission("settings:write");
+
+  return (
+    <>
+      <h2 className="h2-bold">Create Shipping Zone</h2>
+      <div className="my-8">
+        <ShippingZoneForm type="Create" />
+      </div>
+    </>
+  );
+};
+export default CreateShippingZonePage;
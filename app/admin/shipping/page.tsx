@@ -0,0 +1,80 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { deleteShippingZone, getAllShippingZones } from "@/lib/actions/shipping.actions";
+import { formatCurrency } from "@/lib/utils";
+import { formatDeliveryDays, ShippingTier } from "@/lib/shipping";
+import DeleteDialog from "@/components/shared/delete-dialog";
+
+export const metadata: Metadata = {
+  title: "Admin Shipping"
+};
+
+// Describes how the price of a rate is calculated (e.g. "$10.00" or "2 tiers by weight")
+const describeRate = (rate: { type: string; price: string; tiers: unknown }) => {
+  if (rate.type === "flat") return formatCurrency(rate.price);
+  const tiers = rate.tiers as ShippingTier[];
+  return `${tiers.length} ${tiers.length === 1 ? "tier" : "tiers"} by ${rate.type === "weight" ? "weight" : "items price"}`;
+};
+
+const AdminShippingPage = async () => {
+  await requirePermission("settings:write");
+
+  const zones = await getAllShippingZones();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Shipping</h1>
+        <Button asChild variant="default">
+          <Link href="/admin/shipping/create">Create Zone</Link>
+        </Button>
+      </div>
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ZONE</TableHead>
+              <TableHead>COUNTRIES</TableHead>
+              <TableHead>RATES</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {zones.map(zone => (
+              <TableRow key={zone.id}>
+                <TableCell className="font-bold">{zone.name}</TableCell>
+                {/* A zone without countries ships to every country without its own zone */}
+                <TableCell>{zone.countries.length > 0 ? zone.countries.join(", ") : "Every other country"}</TableCell>
+                <TableCell className="space-y-1">
+                  {zone.rates.map(rate => (
+                    <div key={rate.id} className="flex gap-2 items-center">
+                      <span>{rate.name}</span>
+                      <span className="text-muted-foreground">
+                        {describeRate(rate)}
+                        {formatDeliveryDays(rate) ? `, ${formatDeliveryDays(rate)}` : ""}
+                      </span>
+                      {!rate.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                  ))}
+                </TableCell>
+                <TableCell className="flex gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/shipping/${zone.id}`}>Edit</Link>
+                  </Button>
+                  <DeleteDialog id={zone.id} action={deleteShippingZone} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {zones.length === 0 && <p className="text-sm text-muted-foreground py-4">No shipping zones yet. Customers can&apos;t place orders until a zone ships to their country.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AdminShippingPage;
@@ -0,0 +1,62 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { requirePermission } from "@/lib/auth-guard";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getStockNotificationDemand } from "@/lib/actions/stock-notification.actions";
+import { formatDateTime } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Admin Back in Stock"
+};
+
+// Lists the products and variants customers are waiting for, most requested first, to help decide what to restock
+const AdminStockNotificationsPage = async () => {
+  await requirePermission("inventory:write");
+
+  const demand = await getStockNotificationDemand();
+
+  return (
+    <div className="space-y-2">
+      <h1 className="h2-bold">Back in Stock Requests</h1>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>PRODUCT</TableHead>
+              <TableHead>STOCK</TableHead>
+              <TableHead>WAITING</TableHead>
+              <TableHead>QUEUED</TableHead>
+              <TableHead>OLDEST REQUEST</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {demand.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6}>No pending requests</TableCell>
+              </TableRow>
+            )}
+            {demand.map(row => (
+              <TableRow key={`${row.productId}-${row.variantId ?? ""}`}>
+                <TableCell>{row.name}</TableCell>
+                <TableCell>{row.stock > 0 ? row.stock : <Badge variant="destructive">Out of stock</Badge>}</TableCell>
+                <TableCell>{row.requests}</TableCell>
+                {/* Queued requests are emailed by the next run of the scheduled job */}
+                <TableCell>
+                  {row.queued} {row.failed > 0 && <Badge variant="destructive">{row.failed} failed</Badge>}
+                </TableCell>
+                <TableCell>{row.since ? formatDateTime(row.since).dateOnly : ""}</TableCell>
+                <TableCell>
+                  <Link href={`/admin/products/${row.productId}`}>Edit stock</Link>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AdminStockNotificationsPage;
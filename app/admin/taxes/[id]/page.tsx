@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import TaxRateForm from "@/components/shared/admin/tax-rate-form";
+import { getTaxRateById } from "@/lib/actions/tax.actions";
+
+export const metadata: Metadata = {
+  title: "Update tax rate"
+};
+
+const UpdateTaxRatePage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("settings:write");
+  const { id } = await props.params;
+
+  const taxRate = await getTaxRateById(id);
+
+  if (!taxRate) return notFound();
+
+  return (
+    <div className="space-y-8 max-w-5xl mx-auto">
+      <h1 className="h2-bold">Update Tax Rate</h1>
+      <TaxRateForm type="Update" taxRate={taxRate} taxRateId={taxRate.id} />
+    </div>
+  );
+};
+
+export default UpdateTaxRatePage;
@@ -0,0 +1,21 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import TaxRateForm from "@/components/shared/admin/tax-rate-form";
+
+export const metadata: Metadata = {
+  title: "Create tax rate"
+};
+
+const CreateTaxRatePage = async () => {
+  await requirePermission("settings:write");
+
+  return (
+    <>
+      <h2 className="h2-bold">Create Tax Rate</h2>
+      <div className="my-8">
+        <TaxRateForm type="Create" />
+      </div>
+    </>
+  );
+};
+export default CreateTaxRatePage;
@@ -0,0 +1,65 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { deleteTaxRate, getAllTaxRates } from "@/lib/actions/tax.actions";
+import { DEFAULT_TAX_RATE, PRICES_INCLUDE_TAX } from "@/lib/constants";
+import DeleteDialog from "@/components/shared/delete-dialog";
+
+export const metadata: Metadata = {
+  title: "Admin Taxes"
+};
+
+const AdminTaxesPage = async () => {
+  await requirePermission("settings:write");
+
+  const rates = await getAllTaxRates();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Taxes</h1>
+        <Button asChild variant="default">
+          <Link href="/admin/taxes/create">Create Rate</Link>
+        </Button>
+      </div>
+      {/* The pricing mode and the default rate are configured with environment variables */}
+      <p className="text-sm text-muted-foreground">
+        Prices {PRICES_INCLUDE_TAX ? "include" : "exclude"} tax. Addresses without a matching rate are taxed at {DEFAULT_TAX_RATE}%.
+      </p>
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>COUNTRY</TableHead>
+              <TableHead>REGION</TableHead>
+              <TableHead>CATEGORY</TableHead>
+              <TableHead>RATE</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map(rate => (
+              <TableRow key={rate.id}>
+                <TableCell className="font-bold">{rate.country}</TableCell>
+                <TableCell>{rate.region ?? "Whole country"}</TableCell>
+                <TableCell className="capitalize">{rate.category}</TableCell>
+                <TableCell>{Number(rate.rate)}%</TableCell>
+                <TableCell className="flex gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/taxes/${rate.id}`}>Edit</Link>
+                  </Button>
+                  <DeleteDialog id={rate.id} action={deleteTaxRate} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {rates.length === 0 && <p className="text-sm text-muted-foreground py-4">No tax rates yet. Every address is taxed at the default rate.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AdminTaxesPage;
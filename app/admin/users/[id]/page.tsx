@@ -1,7 +1,13 @@
 import { Metadata } from "next";
 import { notFound } from "next/navigation";
 import { getUserById } from "@/lib/actions/user.actions";
+import { getAllRoles } from "@/lib/actions/role.actions";
+import { getLoginThrottle } from "@/lib/login-attempts";
+import { getMyPermissions, requirePermission } from "@/lib/auth-guard";
+import { resolveRolePermissions } from "@/lib/permissions";
+import { formatDateTime } from "@/lib/utils";
 import UpdateUserForm from "./update-user-form";
+import UnlockUserButton from "./unlock-user-button";
 
 export const metadata: Metadata = {
   title: "Update user"
@@ -12,6 +18,7 @@ const UpdateUserPage = async (props: {
     id: string;
   }>;
 }) => {
+  await requirePermission("users:manage");
   const { id } = await props.params;
 
   const user = await getUserById(id);
@@ -20,10 +27,32 @@ const UpdateUserPage = async (props: {
 
   // console.log(user);
 
+  // The failed sign-in attempts of the user, shown with the unlock button while the user is locked out or has recent failures.
+  const throttle = await getLoginThrottle(user.email);
+  const isLocked = !!throttle?.lockedUntil && throttle.lockedUntil > new Date();
+
+  // Only the roles with permissions the admin has can be given, the role of the user is listed anyway to keep it.
+  const [roles, permissions] = await Promise.all([getAllRoles(), getMyPermissions()]);
+  const roleNames = roles.filter(x => x.name === user.role || resolveRolePermissions(x.name, x).every(p => permissions.includes(p))).map(x => x.name);
+
   return (
     <div className="space-y-8 max-w-lg mx-auto">
       <h1 className="h2-bold">Update User</h1>
-      <UpdateUserForm user={user} />
+      {throttle && (isLocked || throttle.failedAttempts > 0) && (
+        <div className="flex-between gap-4 rounded-lg border p-4 text-sm">
+          <div>
+            {isLocked ? (
+              <span className="text-destructive">Locked out of sign-in until {formatDateTime(throttle.lockedUntil!).dateTime}</span>
+            ) : (
+              <span>
+                {throttle.failedAttempts} failed sign-in {throttle.failedAttempts === 1 ? "attempt" : "attempts"}, last on {formatDateTime(throttle.lastFailedAt!).dateTime}
+              </span>
+            )}
+          </div>
+          <UnlockUserButton userId={user.id} isLocked={isLocked} />
+        </div>
+      )}
+      <UpdateUserForm user={user} roles={roleNames} />
     </div>
   );
 };
@@ -0,0 +1,36 @@
+"use client";
+
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { unlockUserLogin } from "@/lib/actions/user.actions";
+
+/**
+ * The button unlocking the sign-in of a user locked out after too many failed attempts, or forgetting their failed attempts.
+ * @param userId - The id of the user.
+ * @param isLocked - Whether the user is locked out now.
+ **/
+const UnlockUserButton = ({ userId, isLocked }: { userId: string; isLocked: boolean }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleUnlock = () => {
+    startTransition(async () => {
+      const res = await unlockUserLogin(userId);
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      toast.success(res.message);
+    });
+  };
+
+  return (
+    <Button type="button" size="sm" variant={isLocked ? "default" : "outline"} disabled={isPending} onClick={handleUnlock}>
+      {isLocked ? "Unlock" : "Reset attempts"}
+    </Button>
+  );
+};
+
+export default UnlockUserButton;
@@ -5,7 +5,6 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { USER_ROLES } from "@/lib/constants";
 import { updateUserSchema } from "@/lib/validator";
 import { ControllerRenderProps, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -13,7 +12,8 @@ import { z } from "zod";
 import { updateUser } from "@/lib/actions/user.actions";
 import { useRouter } from "next/navigation";
 
-const UpdateUserPage = ({ user }: { user: z.infer<typeof updateUserSchema> }) => {
+// `roles`: the names of the roles the user can be given, see the admin roles page.
+const UpdateUserPage = ({ user, roles }: { user: z.infer<typeof updateUserSchema>; roles: string[] }) => {
   const router = useRouter();
 
   const form = useForm<z.infer<typeof updateUserSchema>>({
@@ -90,7 +90,7 @@ const UpdateUserPage = ({ user }: { user: z.infer<typeof updateUserSchema> }) =>
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    {USER_ROLES.map(role => (
+                    {roles.map(role => (
                       <SelectItem key={role} value={role}>
                         {role}
                       </SelectItem>
@@ -1,4 +1,5 @@
-import { requireAdmin } from "@/lib/auth-guard";
+import { requirePermission } from "@/lib/auth-guard";
+import { DEFAULT_ROLE } from "@/lib/permissions";
 import DeleteDialog from "@/components/shared/delete-dialog";
 import Pagination from "@/components/shared/pagination";
 import { Button } from "@/components/ui/button";
@@ -19,7 +20,7 @@ const AdminUserPage = async (props: {
     query: string;
   }>;
 }) => {
-  await requireAdmin();
+  await requirePermission("users:manage");
   const searchParams = await props.searchParams;
 
   const { page = "1", query: searchText } = searchParams;
@@ -58,7 +59,11 @@ const AdminUserPage = async (props: {
                 <TableCell>{formatId(user.id)}</TableCell>
                 <TableCell>{user.name}</TableCell>
                 <TableCell>{user.email}</TableCell>
-                <TableCell>{user.role === "user" ? <Badge variant="secondary">User</Badge> : <Badge variant="default">Admin</Badge>}</TableCell>
+                <TableCell>
+                  <Badge variant={user.role === DEFAULT_ROLE ? "secondary" : "default"} className="capitalize">
+                    {user.role}
+                  </Badge>
+                </TableCell>
                 <TableCell className="flex gap-1">
                   <Button asChild variant="outline" size="sm">
                     <Link href={`/admin/users/${user.id}`}>Edit</Link>
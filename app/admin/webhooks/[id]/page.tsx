@@ -0,0 +1,59 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth-guard";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { getWebhookEventById } from "@/lib/actions/webhook.actions";
+import { formatDateTime } from "@/lib/utils";
+import ReplayButton from "../replay-button";
+
+export const metadata: Metadata = {
+  title: "Webhook Event"
+};
+
+const WebhookEventPage = async (props: {
+  params: Promise<{
+    id: string;
+  }>;
+}) => {
+  await requirePermission("settings:write");
+  const { id } = await props.params;
+
+  const event = await getWebhookEventById(id);
+
+  if (!event) return notFound();
+
+  return (
+    <div className="space-y-4 max-w-5xl mx-auto">
+      <div className="flex-between">
+        <h1 className="h2-bold">{event.type}</h1>
+        <ReplayButton id={event.id} />
+      </div>
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          <div>
+            Status:{" "}
+            <Badge variant={event.status === "failed" ? "destructive" : "outline"} className="capitalize">
+              {event.status}
+            </Badge>
+          </div>
+          <div>
+            Provider: <span className="capitalize">{event.provider}</span> ({event.eventId})
+          </div>
+          <div>Received: {formatDateTime(event.createdAt).dateTime}</div>
+          <div>Processed: {event.processedAt ? formatDateTime(event.processedAt).dateTime : "-"}</div>
+          <div>Attempts: {event.attempts}</div>
+          {event.error && <div className="text-destructive">Error: {event.error}</div>}
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent className="p-4">
+          <h2 className="text-xl pb-4">Payload</h2>
+          <pre className="overflow-x-auto text-xs">{JSON.stringify(event.payload, null, 2)}</pre>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WebhookEventPage;
@@ -0,0 +1,87 @@
+import { Metadata } from "next";
+import { requirePermission } from "@/lib/auth-guard";
+import Link from "next/link";
+import Pagination from "@/components/shared/pagination";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getAllWebhookEvents } from "@/lib/actions/webhook.actions";
+import { formatDateTime } from "@/lib/utils";
+import ReplayButton from "./replay-button";
+
+export const metadata: Metadata = {
+  title: "Admin Webhooks"
+};
+
+// The processing statuses the events can be filtered by
+const statuses = ["all", "failed", "processed", "ignored", "processing", "received"];
+
+const AdminWebhooksPage = async (props: {
+  searchParams: Promise<{
+    page: string;
+    status: string;
+  }>;
+}) => {
+  await requirePermission("settings:write");
+  const searchParams = await props.searchParams;
+
+  const page = Number(searchParams.page) || 1;
+  const status = searchParams.status || "all";
+
+  const events = await getAllWebhookEvents({ page, status });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex-between">
+        <h1 className="h2-bold">Webhooks</h1>
+        <div className="flex gap-1">
+          {statuses.map(x => (
+            <Button key={x} asChild size="sm" variant={x === status ? "default" : "outline"} className="capitalize">
+              <Link href={`/admin/webhooks?status=${x}`}>{x}</Link>
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>RECEIVED</TableHead>
+              <TableHead>PROVIDER</TableHead>
+              <TableHead>TYPE</TableHead>
+              <TableHead>STATUS</TableHead>
+              <TableHead>ATTEMPTS</TableHead>
+              <TableHead>ERROR</TableHead>
+              <TableHead className="w-[100px]">ACTIONS</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.data.map(event => (
+              <TableRow key={event.id}>
+                <TableCell>{formatDateTime(event.createdAt).dateTime}</TableCell>
+                <TableCell className="capitalize">{event.provider}</TableCell>
+                <TableCell>{event.type}</TableCell>
+                <TableCell>
+                  <Badge variant={event.status === "failed" ? "destructive" : "outline"} className="capitalize">
+                    {event.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{event.attempts}</TableCell>
+                <TableCell className="max-w-xs truncate">{event.error}</TableCell>
+                <TableCell className="flex gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/admin/webhooks/${event.id}`}>Details</Link>
+                  </Button>
+                  {event.status === "failed" && <ReplayButton id={event.id} />}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {events.totalPages > 1 && <Pagination page={page} totalPages={events.totalPages} />}
+      </div>
+    </div>
+  );
+};
+
+export default AdminWebhooksPage;
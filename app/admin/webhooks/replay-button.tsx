@@ -0,0 +1,35 @@
+"use client";
+
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { replayWebhookEvent } from "@/lib/actions/webhook.actions";
+
+// Button to process a recorded webhook event again
+const ReplayButton = ({ id }: { id: string }) => {
+  const [isPending, startTransition] = useTransition();
+
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant="outline"
+      disabled={isPending}
+      onClick={() =>
+        startTransition(async () => {
+          const res = await replayWebhookEvent(id);
+
+          if (res.success) {
+            toast.success(res.message);
+          } else {
+            toast.error(res.message);
+          }
+        })
+      }
+    >
+      {isPending ? "Replaying..." : "Replay"}
+    </Button>
+  );
+};
+
+export default ReplayButton;
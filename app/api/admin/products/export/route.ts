@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/db/prisma";
+import { toCsv } from "@/lib/csv";
+import { getPermittedSession } from "@/lib/auth-guard";
+import { PRODUCT_CSV_COLUMNS, productToCsvRow } from "@/lib/product-csv";
+
+// Define the GET handler function downloading the whole catalog as a CSV file, in the format the import reads back
+export async function GET() {
+  // Only users with the products:write permission can export the catalog, once they turned on two-factor authentication
+  if (!(await getPermittedSession("products:write"))) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const products = await prisma.product.findMany({
+    include: { category: { select: { slug: true } } },
+    orderBy: { name: "asc" }
+  });
+
+  const csv = toCsv([PRODUCT_CSV_COLUMNS, ...products.map(productToCsvRow)]);
+
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="products-${new Date().toISOString().slice(0, 10)}.csv"`
+    }
+  });
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelExpiredOrders } from "@/lib/orders";
+
+// Define the GET handler function for the scheduled job that cancels the unpaid orders whose stock reservation expired (see vercel.json)
+export async function GET(req: NextRequest) {
+  // Only the scheduler may run the job. Vercel sends the CRON_SECRET environment variable as a bearer token.
+  if (!process.env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const cancelled = await cancelExpiredOrders();
+
+  return NextResponse.json({ message: `Cancelled ${cancelled} expired orders` });
+}
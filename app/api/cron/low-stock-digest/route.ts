@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendLowStockDigestToAdmins } from "@/lib/inventory";
+
+// Define the GET handler function for the daily scheduled job that emails the low-stock digest to the admins (see vercel.json)
+export async function GET(req: NextRequest) {
+  // Only the scheduler may run the job. Vercel sends the CRON_SECRET environment variable as a bearer token.
+  if (!process.env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const reported = await sendLowStockDigestToAdmins();
+
+  return NextResponse.json({ message: `Reported ${reported} products low on stock` });
+}
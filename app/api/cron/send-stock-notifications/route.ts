@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendQueuedStockNotifications } from "@/lib/stock-notifications";
+
+// Define the GET handler function for the scheduled job that sends the queued back-in-stock emails (see vercel.json)
+export async function GET(req: NextRequest) {
+  // Only the scheduler may run the job. Vercel sends the CRON_SECRET environment variable as a bearer token.
+  if (!process.env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const sent = await sendQueuedStockNotifications();
+
+  return NextResponse.json({ message: `Sent ${sent} back-in-stock emails` });
+}
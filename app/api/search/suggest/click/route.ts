@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordSuggestionClick } from "@/lib/search-suggestions";
+import { formatError } from "@/lib/utils";
+
+// Define the POST handler function that records a clicked search suggestion, sent by the search box with `navigator.sendBeacon`
+export async function POST(req: NextRequest) {
+  try {
+    await recordSuggestionClick(await req.json());
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return NextResponse.json({ message: formatError(error) }, { status: 400 });
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSearchSuggestions } from "@/lib/search-suggestions";
+
+// Define the GET handler function that returns the search suggestions for what the customer is typing (`?q=`)
+export async function GET(req: NextRequest) {
+  const suggestions = await getSearchSuggestions(req.nextUrl.searchParams.get("q") ?? "");
+
+  // Lets the CDN and the browser reuse the suggestions of a prefix for a minute
+  return NextResponse.json(suggestions, {
+    headers: { "Cache-Control": "public, max-age=60, s-maxage=60, stale-while-revalidate=300" }
+  });
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { unsubscribeStockNotifications } from "@/lib/stock-notifications";
+
+// Define the GET handler function for the unsubscribe links of the emails sent before the confirmation page. Mail scanners follow links, so it only opens the page.
+export async function GET(req: NextRequest) {
+  return NextResponse.redirect(new URL(`/stock-notifications/unsubscribe?token=${encodeURIComponent(req.nextUrl.searchParams.get("token") ?? "")}`, req.url));
+}
+
+// Define the POST handler function for the one-click unsubscribe of mail clients (List-Unsubscribe-Post header, RFC 8058)
+export async function POST(req: NextRequest) {
+  const unsubscribed = await unsubscribeStockNotifications(req.nextUrl.searchParams.get("token") ?? "");
+
+  return NextResponse.json({ message: unsubscribed ? "Unsubscribed" : "Invalid token" }, { status: unsubscribed ? 200 : 404 });
+}
@@ -1,13 +1,14 @@
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { UploadThingError } from "uploadthing/server";
-import { auth } from "@/auth";
+import { getPermittedSession } from "@/lib/auth-guard";
 
 const f = createUploadthing();
 
 export const ourFileRouter = {
   imageUploader: f({ image: { maxFileSize: "4MB" } })
     .middleware(async () => {
-      const session = await auth();
+      // Only staff editing the catalog or the homepage upload images
+      const session = await getPermittedSession(["products:write", "content:write"]);
 
       if (!session) throw new UploadThingError("Unauthorized");
 
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPaymentProviderBySlug } from "@/lib/payments";
+import { isWebhookEventPending, processWebhookEvent, recordWebhookEvent } from "@/lib/webhooks";
+import { formatError } from "@/lib/utils";
+
+// Define the POST handler function for the payment provider webhooks, e.g. /api/webhooks/stripe or /api/webhooks/paypal
+export async function POST(req: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider: slug } = await params;
+
+  const provider = getPaymentProviderBySlug(slug);
+  if (!provider?.parseWebhook) {
+    return NextResponse.json({ message: "Webhook not found" }, { status: 404 });
+  }
+
+  // Verify and parse the event with the provider. This ensures that the request is indeed from the provider and has not been tampered with.
+  let event;
+  try {
+    event = await provider.parseWebhook(req);
+  } catch (error) {
+    return NextResponse.json({ message: `Webhook signature verification failed: ${formatError(error)}` }, { status: 400 });
+  }
+
+  // Record the event. Providers retry events, so an event that was already processed is acknowledged without processing it again.
+  const webhookEvent = await recordWebhookEvent({ provider: provider.slug, ...event });
+  if (!isWebhookEventPending(webhookEvent.status)) {
+    return NextResponse.json({
+      message: "Event already processed"
+    });
+  }
+
+  // Process the event. A failure returns a 500 so the provider retries it later.
+  const result = await processWebhookEvent(webhookEvent.id);
+
+  return NextResponse.json({ message: result.message }, { status: result.success ? 200 : 500 });
+}
@@ -13,6 +13,10 @@ const links = [
   {
     title: "Orders",
     href: "/user/orders"
+  },
+  {
+    title: "Wishlist",
+    href: "/user/wishlist"
   }
 ];
 
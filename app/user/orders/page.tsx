@@ -30,6 +30,7 @@ const OrdersPage = async (props: { searchParams: Promise<{ page: string }> }) =>
               <TableHead>ID</TableHead>
               <TableHead>DATE</TableHead>
               <TableHead>TOTAL</TableHead>
+              <TableHead>STATUS</TableHead>
               <TableHead>PAID</TableHead>
               <TableHead>DELIVERED</TableHead>
               <TableHead>ACTIONS</TableHead>
@@ -42,8 +43,9 @@ const OrdersPage = async (props: { searchParams: Promise<{ page: string }> }) =>
                 <TableCell>{formatId(order.id)}</TableCell>
                 <TableCell> {formatCurrency(order.totalPrice)}</TableCell>
                 <TableCell>{formatCurrency(order.totalPrice)}</TableCell>
-                <TableCell>{order.isPaid && order.paidAt ? formatDateTime(order.paidAt).dateTime : "not paid"}</TableCell>
-                <TableCell>{order.isDelivered && order.deliveredAt ? formatDateTime(order.deliveredAt).dateTime : "not delivered"}</TableCell>
+                <TableCell className="capitalize">{order.status}</TableCell>
+                <TableCell>{order.paidAt ? formatDateTime(order.paidAt).dateTime : "not paid"}</TableCell>
+                <TableCell>{order.deliveredAt ? formatDateTime(order.deliveredAt).dateTime : "not delivered"}</TableCell>
                 <TableCell>
                   <Link href={`/order/${order.id}`}>
                     <span className="px-2">Details</span>
@@ -2,19 +2,35 @@ import { Metadata } from "next";
 import { SessionProvider } from "next-auth/react";
 import { auth } from "@/auth";
 import ProfileForm from "./profile-form";
+import TwoFactorSettings from "./two-factor-settings";
+import { getUserById } from "@/lib/actions/user.actions";
+import EmailVerificationNotice from "@/components/shared/email-verification-notice";
+import { REQUIRE_EMAIL_VERIFICATION } from "@/lib/constants";
+import { isTwoFactorRequired } from "@/lib/two-factor";
+import { getMyPermissions } from "@/lib/auth-guard";
 
 export const metadata: Metadata = {
   title: "Customer Profile"
 };
 
-const Profile = async () => {
+const Profile = async (props: { searchParams: Promise<{ twoFactor?: string }> }) => {
+  const { twoFactor } = await props.searchParams;
   const session = await auth();
+  const user = session?.user?.id ? await getUserById(session.user.id) : null;
+  const permissions = await getMyPermissions();
 
   return (
     <SessionProvider session={session}>
       <div className="max-w-md  mx-auto space-y-4">
         <h2 className="h2-bold">Profile</h2>
+        {/* Until the email is verified, offers to send a new verification link */}
+        {user && !user.emailVerified && <EmailVerificationNotice email={user.email} isRequired={REQUIRE_EMAIL_VERIFICATION} />}
+        {/* Staff are sent here by requirePermission until they turn on two-factor authentication */}
+        {twoFactor === "required" && user && !user.twoFactorEnabledAt && (
+          <div className="rounded-lg border border-destructive p-4 text-sm text-destructive">Turn on two-factor authentication to access the admin area.</div>
+        )}
         <ProfileForm />
+        {user && <TwoFactorSettings isEnabled={!!user.twoFactorEnabledAt} recoveryCodesLeft={user.twoFactorRecoveryCodes.length} isRequired={isTwoFactorRequired(permissions)} />}
       </div>
     </SessionProvider>
   );
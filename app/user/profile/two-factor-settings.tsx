@@ -0,0 +1,147 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader, ShieldCheck } from "lucide-react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { disableTwoFactor, enableTwoFactor, regenerateRecoveryCodes, startTwoFactorSetup } from "@/lib/actions/user.actions";
+
+/**
+ * The two-factor authentication settings of the profile page.
+ * - Off: sets it up by scanning a QR code with an authenticator app and confirming one of its codes.
+ * - On: generates new recovery codes, or turns it off (except for the roles that must keep it on).
+ * The recovery codes are shown once, right after they are generated.
+ * @param isEnabled - Whether two-factor authentication is on.
+ * @param recoveryCodesLeft - The number of unused recovery codes.
+ * @param isRequired - Whether the role of the user must keep two-factor authentication on (staff with access to the admin area).
+ **/
+const TwoFactorSettings = ({ isEnabled, recoveryCodesLeft, isRequired }: { isEnabled: boolean; recoveryCodesLeft: number; isRequired: boolean }) => {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [setup, setSetup] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const handleStart = () => {
+    startTransition(async () => {
+      const res = await startTwoFactorSetup();
+      if (!res.success || !res.secret || !res.qrCode) {
+        toast.error(res.message);
+        return;
+      }
+
+      setSetup({ secret: res.secret, qrCode: res.qrCode });
+    });
+  };
+
+  // Runs an action confirmed by a code, then shows the new recovery codes when it returns some.
+  const handleConfirm = (action: (code: string) => Promise<{ success: boolean; message: string; recoveryCodes?: string[] }>) => {
+    startTransition(async () => {
+      const res = await action(code);
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      toast.success(res.message);
+      setCode("");
+      setSetup(null);
+      setRecoveryCodes(res.recoveryCodes ?? null);
+      router.refresh();
+    });
+  };
+
+  // Saves the recovery codes to a text file.
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([recoveryCodes!.join("\n")], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const codeField = (
+    <div className="space-y-2">
+      <Label htmlFor="twoFactorCode">{setup ? "Code from the app" : "Authentication code or recovery code"}</Label>
+      <Input id="twoFactorCode" value={code} onChange={e => setCode(e.target.value)} autoComplete="one-time-code" placeholder="123456" />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" /> Two-factor authentication
+        </CardTitle>
+        <CardDescription>
+          {isEnabled
+            ? `On. You have ${recoveryCodesLeft} recovery ${recoveryCodesLeft === 1 ? "code" : "codes"} left.`
+            : "Protect your account with a code from an authenticator app when you sign in."}
+          {isRequired && !isEnabled && " It is required for your account."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          // The recovery codes are only shown now, so they must be saved before leaving
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.</p>
+            <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+              {recoveryCodes.map(x => (
+                <span key={x}>{x}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={handleDownload}>
+                Download
+              </Button>
+              <Button type="button" onClick={() => setRecoveryCodes(null)}>
+                I saved them
+              </Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Scan the QR code with your authenticator app, or enter the key by hand, then enter the code it shows.</p>
+            <Image src={setup.qrCode} alt="QR code of the authenticator app" width={180} height={180} unoptimized />
+            <div className="break-all rounded-md bg-muted p-2 font-mono text-sm">{setup.secret}</div>
+            {codeField}
+            <div className="flex gap-2">
+              <Button type="button" disabled={isPending} onClick={() => handleConfirm(enableTwoFactor)}>
+                {isPending ? <Loader className="w-4 h-4 animate-spin" /> : "Turn on"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : isEnabled ? (
+          <div className="space-y-4">
+            {codeField}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" disabled={isPending} onClick={() => handleConfirm(regenerateRecoveryCodes)}>
+                New recovery codes
+              </Button>
+              {!isRequired && (
+                <Button type="button" variant="destructive" disabled={isPending} onClick={() => handleConfirm(disableTwoFactor)}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <Button type="button" disabled={isPending} onClick={handleStart}>
+            {isPending ? <Loader className="w-4 h-4 animate-spin" /> : "Set up"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,66 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getMyWishlist } from "@/lib/actions/wishlist.actions";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+import { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import WishlistItemActions from "./wishlist-item-actions";
+
+export const metadata: Metadata = {
+  title: "My Wishlist"
+};
+
+const WishlistPage = async () => {
+  // The products the customer saved for later, newest first
+  const wishlist = await getMyWishlist();
+
+  return (
+    <div className="space-y-2">
+      <h2 className="h2-bold">Wishlist</h2>
+      {wishlist.length === 0 ? (
+        <div>
+          Your wishlist is empty. <Link href="/search">Browse products</Link>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PRODUCT</TableHead>
+                <TableHead>PRICE</TableHead>
+                <TableHead>STATUS</TableHead>
+                <TableHead>SAVED</TableHead>
+                <TableHead>ACTIONS</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {wishlist.map(({ id, product, createdAt }) => (
+                <TableRow key={id}>
+                  <TableCell>
+                    <Link href={`/product/${product.slug}`} className="flex items-center">
+                      <Image src={product.images[0]} alt={product.name} width={50} height={50} />
+                      <span className="px-2">{product.name}</span>
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {formatCurrency(product.pricing.price)}
+                    {/* Displays the regular price struck through while the product is on sale */}
+                    {product.pricing.compareAtPrice && <span className="ml-2 text-muted-foreground line-through">{formatCurrency(product.pricing.compareAtPrice)}</span>}
+                  </TableCell>
+                  <TableCell>{product.stock > 0 ? "In stock" : "Out of stock"}</TableCell>
+                  <TableCell>{formatDateTime(createdAt).dateOnly}</TableCell>
+                  <TableCell>
+                    {/* Products sold in variants are moved to the cart from the product page, once the options are picked */}
+                    <WishlistItemActions productId={product.id} slug={product.slug} canMoveToCart={product.stock > 0} hasVariants={product.variants.length > 0} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WishlistPage;
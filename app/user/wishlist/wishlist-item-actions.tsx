@@ -0,0 +1,70 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { moveWishlistItemToCart, toggleWishlistItem } from "@/lib/actions/wishlist.actions";
+import { Loader } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+
+/**
+ * The actions of a wishlist item: moving it to the cart, or removing it from the wishlist.
+ * Products sold in variants link to the product page instead, where the options are picked.
+ **/
+const WishlistItemActions = ({ productId, slug, canMoveToCart, hasVariants }: { productId: string; slug: string; canMoveToCart: boolean; hasVariants: boolean }) => {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  // Moves the product to the cart
+  const handleMoveToCart = () => {
+    startTransition(async () => {
+      const res = await moveWishlistItemToCart(productId);
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      toast.success(res.message, {
+        action: {
+          label: "Go to Cart",
+          onClick: () => router.push("/cart")
+        }
+      });
+    });
+  };
+
+  // Removes the product from the wishlist
+  const handleRemove = () => {
+    startTransition(async () => {
+      const res = await toggleWishlistItem(productId);
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      toast.success(res.message);
+    });
+  };
+
+  return (
+    <div className="flex gap-2">
+      {hasVariants ? (
+        <Button asChild size="sm" variant="outline">
+          <Link href={`/product/${slug}`}>Choose options</Link>
+        </Button>
+      ) : (
+        <Button type="button" size="sm" onClick={handleMoveToCart} disabled={isPending || !canMoveToCart}>
+          {isPending ? <Loader className="w-4 h-4 animate-spin" /> : "Move to cart"}
+        </Button>
+      )}
+      <Button type="button" size="sm" variant="outline" onClick={handleRemove} disabled={isPending}>
+        Remove
+      </Button>
+    </div>
+  );
+};
+
+export default WishlistItemActions;
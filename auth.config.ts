@@ -39,7 +39,7 @@ export const authConfig: NextAuthConfig = {
      */
     authorized({ request, auth }) {
       // A list of paths (expressed as regex patterns) that require authentication.
-      const protectedPaths = [/\/shipping-address/, /\/payment-method/, /\/place-order/, /\/profile/, /\/user\/(.*)/, /\/order\/(.*)/, /\/admin/];
+      const protectedPaths = [/\/shipping-address/, /\/shipping-method/, /\/payment-method/, /\/place-order/, /\/profile/, /\/user\/(.*)/, /\/order\/(.*)/, /\/admin/];
 
       // Extracts the pathname (e.g., "/profile", "/order/123") from the request URL.
       const { pathname } = request.nextUrl;
@@ -11,6 +11,10 @@ import { cookies } from "next/headers"; // Imports the cookies function from nex
 import { prisma } from "@/db/prisma"; // Imports the Prisma client for interacting with the database.
 import { PrismaAdapter } from "@auth/prisma-adapter"; // Imports the Prisma adapter to integrate Prisma with NextAuth.js.
 import { authConfig } from "./auth.config"; // Imports additional authentication configuration.
+import { TwoFactorRequiredError, verifySecondFactor } from "@/lib/two-factor"; // Imports the check of the second factor of two-factor authentication.
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin } from "@/lib/login-attempts"; // Imports the throttling of the sign-in attempts.
+import { getClientIp } from "@/lib/login-throttle"; // Imports the helper reading the IP address of the client.
+import { CLIENT_IP_HEADER, TRUSTED_PROXY_COUNT } from "@/lib/constants"; // Imports where the IP address of the client is read from.
 
 export const config = {
   // Configures the custom pages for NextAuth.js, specifying routes for the sign-in page and error handling.
@@ -33,34 +37,53 @@ export const config = {
     CredentialsProvider({
       credentials: {
         email: { type: "email" }, // Defines the email field as a credential for authentication.
-        password: { type: "password" } // Defines the password field as a credential for authentication.
+        password: { type: "password" }, // Defines the password field as a credential for authentication.
+        code: { type: "text" } // Defines the code of the authenticator app (or a recovery code), for users with two-factor authentication.
       },
       // Defines the authorization logic for the credentials provider.
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         if (credentials == null) return null; // Returns null if no credentials are provided.
 
+        const email = credentials.email as string;
+        const ip = getClientIp(request.headers, { header: CLIENT_IP_HEADER, proxies: TRUSTED_PROXY_COUNT }); // The IP address of the client, to throttle the attempts per IP address too.
+
+        // Refuses the attempt, before checking the password, while the email or IP address must wait after failed attempts.
+        await assertLoginAllowed(email, ip);
+
         // Find user in the database by email.
         const user = await prisma.user.findFirst({
           where: {
-            email: credentials.email as string // Matches the email with the credentials provided.
+            email // Matches the email with the credentials provided.
           }
         });
 
         // Check if user exists and if the password is correct.
         if (user && user.password) {
-          const isMatch = compareSync(credentials.password as string, user.password); // Compares the input password with the stored hashed password.
-          // If the password matches, return a simplified user object.
+          let isMatch = compareSync(credentials.password as string, user.password); // Compares the input password with the stored hashed password.
+
+          // Users with two-factor authentication must also give a valid code of their authenticator app or a recovery code.
+          // Without a code, the form is asked for one in a second step, which isn't a failed attempt.
+          if (isMatch && user.twoFactorEnabledAt) {
+            if (!credentials.code) throw new TwoFactorRequiredError();
+            isMatch = await verifySecondFactor(user, credentials.code as string);
+          }
+
+          // If the password matches, forget the failed attempts and return a simplified user object.
           if (isMatch) {
+            await clearFailedLogins(email);
+
             return {
               id: user.id, // Returns the user's ID.
               name: user.name, // Returns the user's name.
               email: user.email, // Returns the user's email.
-              role: user.role // Includes the user's role for authorization purposes.
+              role: user.role, // Includes the user's role for authorization purposes.
+              sessionVersion: user.sessionVersion // Includes the session version, to reject the session once the user is signed out everywhere.
             };
           }
         }
 
-        // Return null if the user doesn't exist or the password is incorrect.
+        // Count the failed attempt and return null if the user doesn't exist or the password is incorrect.
+        await recordFailedLogin(email, ip);
         return null;
       }
     })
@@ -86,6 +109,7 @@ export const config = {
       if (user) {
         token.id = user.id; // Adds the user ID to the token.
         token.role = user.role; // Adds the user role to the token.
+        token.sessionVersion = user.sessionVersion ?? 0; // Adds the session version of the user to the token.
 
         // If user has no name, use email as their default name.
         // Example: if email is tom@gmail.com, then "tom" will be used as the name.
@@ -122,10 +146,45 @@ export const config = {
                 data: { userId: user.id }
               });
             }
+
+            // Move the products saved as a guest to the user's wishlist, skipping the ones already saved.
+            const guestWishlist = await prisma.wishlistItem.findMany({
+              where: { sessionCartId, userId: null }
+            });
+
+            if (guestWishlist.length > 0) {
+              const savedItems = await prisma.wishlistItem.findMany({
+                where: { userId: user.id, productId: { in: guestWishlist.map(x => x.productId) } }
+              });
+
+              await prisma.$transaction([
+                prisma.wishlistItem.deleteMany({
+                  where: { id: { in: guestWishlist.filter(x => savedItems.some(s => s.productId === x.productId)).map(x => x.id) } }
+                }),
+                prisma.wishlistItem.updateMany({
+                  where: { id: { in: guestWishlist.filter(x => !savedItems.some(s => s.productId === x.productId)).map(x => x.id) } },
+                  data: { userId: user.id, sessionCartId: null }
+                })
+              ]);
+            }
           }
         }
       }
 
+      // Reject the session when the user was signed out everywhere (e.g. after a password reset) or deleted since signing in.
+      // Returning null clears the session cookie.
+      if (!user && token.sub) {
+        const currentUser = await prisma.user.findFirst({
+          where: { id: token.sub },
+          select: { sessionVersion: true, role: true }
+        });
+
+        if (!currentUser || currentUser.sessionVersion !== (token.sessionVersion ?? 0)) return null;
+
+        // Keeps the role of the session up to date when an admin changes it. The guards load the permissions from the database anyway.
+        token.role = currentUser.role;
+      }
+
       // Handle session updates (e.g., name change).
       if (session?.user.name && trigger === "update") {
         token.name = session.user.name;
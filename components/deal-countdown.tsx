@@ -1,5 +1,5 @@
 /**
- * This React component, `DealCountdown`, displays a countdown timer until a target date (March 25, 2025).
+ * This React component, `DealCountdown`, displays a countdown timer until the end of the sale running now, configured on the admin Sales page.
  * It calculates the remaining time dynamically and updates every second using `useEffect` and `useState`.
  * If the countdown reaches zero, it displays a message indicating that the deal has ended.
  * The countdown UI consists of dynamically updated time values (days, hours, minutes, seconds) and a promotional image.
@@ -13,9 +13,6 @@ import { Button } from "./ui/button";
 import Image from "next/image";
 import { useEffect, useState } from "react";
 
-// Defines the target date for the countdown (March 25, 2025, at midnight)
-const TARGET_DATE = new Date("2025-03-25T00:00:00");
-
 // Function to calculate the remaining time until the target date
 const calculateTimeRemaining = (targetDate: Date) => {
   const currentTime = new Date(); // Gets the current date and time
@@ -29,17 +26,20 @@ const calculateTimeRemaining = (targetDate: Date) => {
   };
 };
 
-// Main countdown component
-const DealCountdown = () => {
+// Main countdown component, counting down to the end of the sale
+const DealCountdown = ({ sale }: { sale: { name: string; description: string | null; endsAt: Date } }) => {
   const [time, setTime] = useState<ReturnType<typeof calculateTimeRemaining>>(); // Manages the countdown state
+  const endsAt = new Date(sale.endsAt).getTime();
 
   useEffect(() => {
+    const targetDate = new Date(endsAt); // The end of the sale
+
     // Initializes countdown on component mount
-    setTime(calculateTimeRemaining(TARGET_DATE));
+    setTime(calculateTimeRemaining(targetDate));
 
     // Updates countdown every second
     const timerInterval = setInterval(() => {
-      const newTime = calculateTimeRemaining(TARGET_DATE);
+      const newTime = calculateTimeRemaining(targetDate);
       setTime(newTime);
 
       // Stops the countdown when it reaches zero
@@ -49,7 +49,7 @@ const DealCountdown = () => {
     }, 1000);
 
     return () => clearInterval(timerInterval); // Cleans up interval when component unmounts
-  }, []);
+  }, [endsAt]);
 
   // Displays a loading message while the countdown initializes
   if (!time) {
@@ -85,8 +85,8 @@ const DealCountdown = () => {
   return (
     <section className="grid grid-cols-1 md:grid-cols-2 my-20">
       <div className="flex flex-col gap-2 justify-center">
-        <h3 className="text-3xl font-bold">Deal Of The Month</h3>
-        <p>Get ready for a shopping experience like never before with our Deals of the Month! Every purchase comes with exclusive perks and offers, making this month a celebration of savvy choices and amazing deals. Don&apos;t miss out! 🎁🛒</p>
+        <h3 className="text-3xl font-bold">{sale.name}</h3>
+        <p>{sale.description ?? "Get ready for a shopping experience like never before! Every purchase comes with exclusive perks and offers, making this a celebration of savvy choices and amazing deals. Don't miss out! 🎁🛒"}</p>
         <ul className="grid grid-cols-4">
           <StatBox label="Days" value={time.days} />
           <StatBox label="Hours" value={time.hours} />
@@ -0,0 +1,181 @@
+"use client";
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { createCategory, updateCategory } from "@/lib/actions/category.actions";
+import { categoryDefaultValues } from "@/lib/constants";
+import { insertCategorySchema, updateCategorySchema } from "@/lib/validator";
+import { SubmitHandler, useForm } from "react-hook-form";
+import { Category } from "@/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { UploadButton } from "@/lib/uploadthing";
+import Image from "next/image";
+import slugify from "slugify";
+import { z } from "zod";
+
+// The value of the parent select for top-level categories, as select items can't have an empty value.
+const NO_PARENT = "none";
+
+const CategoryForm = ({ type, category, categoryId, categories }: { type: "Create" | "Update"; category?: Category; categoryId?: string; categories: { id: string; name: string; depth: number }[] }) => {
+  const router = useRouter();
+
+  const form = useForm<z.infer<typeof insertCategorySchema>>({
+    resolver: zodResolver(type === "Create" ? insertCategorySchema : updateCategorySchema),
+    defaultValues: category && type === "Update" ? category : categoryDefaultValues
+  });
+
+  // Handle form submit
+  const onSubmit: SubmitHandler<z.infer<typeof insertCategorySchema>> = async values => {
+    const res = type === "Create" ? await createCategory(values) : await updateCategory({ ...values, id: categoryId ?? "" });
+
+    if (!res.success) {
+      toast.error(res.message);
+    } else {
+      toast.success(res.message);
+      router.push(`/admin/categories`);
+    }
+  };
+
+  const image = form.watch("image");
+
+  return (
+    <Form {...form}>
+      <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Name */}
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter category name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Slug */}
+          <FormField
+            control={form.control}
+            name="slug"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Slug</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <Input placeholder="Enter slug" {...field} />
+                    <button
+                      type="button"
+                      className="bg-gray-500 text-white px-4 py-1 mt-2 hover:bg-gray-600"
+                      onClick={() => {
+                        form.setValue("slug", slugify(form.getValues("name"), { lower: true, strict: true }));
+                      }}
+                    >
+                      Generate
+                    </button>
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Parent */}
+          <FormField
+            control={form.control}
+            name="parentId"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Parent Category</FormLabel>
+                <Select onValueChange={value => field.onChange(value === NO_PARENT ? null : value)} value={field.value || NO_PARENT}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a parent category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None (top-level category)</SelectItem>
+                    {/* A category can't be its own parent */}
+                    {categories
+                      .filter(x => x.id !== categoryId)
+                      .map(x => (
+                        <SelectItem key={x.id} value={x.id} style={{ paddingLeft: `${0.5 + x.depth}rem` }}>
+                          {x.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Sort Order */}
+          <FormField
+            control={form.control}
+            name="sortOrder"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Sort Order</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* Description */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem className="w-full">
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Optional" className="resize-none" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {/* Image */}
+        <div className="space-y-2">
+          <FormLabel>Image</FormLabel>
+          {image ? (
+            <div className="flex items-center gap-4">
+              <Image src={image} alt="category image" className="w-20 h-20 object-cover object-center rounded-sm" width={100} height={100} />
+              <Button type="button" variant="outline" size="sm" onClick={() => form.setValue("image", null)}>
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <UploadButton
+              endpoint="imageUploader"
+              onClientUploadComplete={(res: { url: string }[]) => {
+                form.setValue("image", res[0].url);
+              }}
+              onUploadError={(error: Error) => {
+                toast.error(`ERROR! ${error.message}`);
+              }}
+            />
+          )}
+        </div>
+        <div>
+          <Button type="submit" size="lg" disabled={form.formState.isSubmitting} className="button col-span-2 w-full">
+            {form.formState.isSubmitting ? "Submitting" : `${type} Category`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default CategoryForm;
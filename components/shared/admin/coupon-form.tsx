@@ -0,0 +1,227 @@
+"use client";
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { createCoupon, updateCoupon } from "@/lib/actions/coupon.actions";
+import { COUPON_TYPES, couponDefaultValues } from "@/lib/constants";
+import { insertCouponSchema, updateCouponSchema } from "@/lib/validator";
+import { SubmitHandler, useForm } from "react-hook-form";
+import { Coupon } from "@/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { z } from "zod";
+import { toDateTimeLocal } from "@/lib/utils";
+
+// Toggles a value in a list, used by the product and category restriction checkboxes.
+const toggle = (list: string[], value: string, checked: boolean) => (checked ? [...list, value] : list.filter(x => x !== value));
+
+const CouponForm = ({ type, coupon, couponId, products, categories }: { type: "Create" | "Update"; coupon?: Coupon; couponId?: string; products: { id: string; name: string }[]; categories: { id: string; name: string; depth: number }[] }) => {
+  const router = useRouter();
+
+  const form = useForm<z.infer<typeof insertCouponSchema>>({
+    resolver: zodResolver(type === "Create" ? insertCouponSchema : updateCouponSchema),
+    defaultValues: coupon && type === "Update" ? coupon : couponDefaultValues
+  });
+
+  // Handle form submit
+  const onSubmit: SubmitHandler<z.infer<typeof insertCouponSchema>> = async values => {
+    const res = type === "Create" ? await createCoupon(values) : await updateCoupon({ ...values, id: couponId ?? "" });
+
+    if (!res.success) {
+      toast.error(res.message);
+    } else {
+      toast.success(res.message);
+      router.push(`/admin/coupons`);
+    }
+  };
+
+  const couponType = form.watch("type");
+
+  return (
+    <Form {...form}>
+      <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Code */}
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Code</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. SUMMER10" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Type */}
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {COUPON_TYPES.map(x => (
+                      <SelectItem key={x} value={x}>
+                        {x.replace("_", " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Value, which isn't used by free shipping coupons */}
+          {couponType !== "free_shipping" && (
+            <FormField
+              control={form.control}
+              name="value"
+              render={({ field }) => (
+                <FormItem className="w-full">
+                  <FormLabel>{couponType === "percentage" ? "Percentage" : "Amount"}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={couponType === "percentage" ? "e.g. 10" : "e.g. 5.00"} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Minimum spend */}
+          <FormField
+            control={form.control}
+            name="minSpend"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Minimum Spend</FormLabel>
+                <FormControl>
+                  <Input placeholder="No minimum" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Expiry date */}
+          <FormField
+            control={form.control}
+            name="expiresAt"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Expires At</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} value={field.value ? toDateTimeLocal(field.value) : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Global usage limit */}
+          <FormField
+            control={form.control}
+            name="usageLimit"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Usage Limit</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="Unlimited" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Per user usage limit */}
+          <FormField
+            control={form.control}
+            name="perUserLimit"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Per User Limit</FormLabel>
+                <FormControl>
+                  <Input type="number" placeholder="Unlimited" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* Restrictions. A coupon without restrictions applies to every product. */}
+        <div className="flex flex-col gap-5 md:flex-row">
+          <FormField
+            control={form.control}
+            name="categoryIds"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Restrict to Categories</FormLabel>
+                {/* Restricting to a category includes its subcategories, which are indented under it */}
+                <div className="max-h-60 space-y-2 overflow-y-auto rounded-md border p-4">
+                  {categories.map(category => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm" style={{ paddingLeft: `${category.depth}rem` }}>
+                      <Checkbox checked={field.value.includes(category.id)} onCheckedChange={checked => field.onChange(toggle(field.value, category.id, !!checked))} />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="productIds"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Restrict to Products</FormLabel>
+                <div className="max-h-60 space-y-2 overflow-y-auto rounded-md border p-4">
+                  {products.map(product => (
+                    <label key={product.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox checked={field.value.includes(product.id)} onCheckedChange={checked => field.onChange(toggle(field.value, product.id, !!checked))} />
+                      {product.name}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* Active */}
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="space-x-2 items-center">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+              <FormLabel>Is Active?</FormLabel>
+            </FormItem>
+          )}
+        />
+        <div>
+          <Button type="submit" size="lg" disabled={form.formState.isSubmitting} className="button col-span-2 w-full">
+            {form.formState.isSubmitting ? "Submitting" : `${type} Coupon`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default CouponForm;
@@ -0,0 +1,45 @@
+"use client";
+
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { moveHomepageSection, setHomepageSectionPublished } from "@/lib/actions/homepage.actions";
+
+/**
+ * The actions of a row of the admin homepage sections: moving the section up or down, and publishing or unpublishing it.
+ * @param id - The id of the section.
+ * @param isPublished - Whether the section is published.
+ * @param isFirst - Whether the section is the first one, which can't move up.
+ * @param isLast - Whether the section is the last one, which can't move down.
+ **/
+const HomepageSectionActions = ({ id, isPublished, isFirst, isLast }: { id: string; isPublished: boolean; isFirst: boolean; isLast: boolean }) => {
+  const [isPending, startTransition] = useTransition();
+
+  // Runs an action, reporting its error
+  const run = (action: () => Promise<{ success: boolean; message: string }>) => {
+    startTransition(async () => {
+      const res = await action();
+
+      if (!res.success) {
+        toast.error(res.message);
+      }
+    });
+  };
+
+  return (
+    <>
+      <Button type="button" variant="outline" size="sm" aria-label="Move up" disabled={isPending || isFirst} onClick={() => run(() => moveHomepageSection(id, "up"))}>
+        <ArrowUp className="w-4 h-4" />
+      </Button>
+      <Button type="button" variant="outline" size="sm" aria-label="Move down" disabled={isPending || isLast} onClick={() => run(() => moveHomepageSection(id, "down"))}>
+        <ArrowDown className="w-4 h-4" />
+      </Button>
+      <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={() => run(() => setHomepageSectionPublished(id, !isPublished))}>
+        {isPublished ? "Unpublish" : "Publish"}
+      </Button>
+    </>
+  );
+};
+
+export default HomepageSectionActions;
@@ -0,0 +1,412 @@
+"use client";
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { toast } from "sonner";
+import { createHomepageSection, updateHomepageSection } from "@/lib/actions/homepage.actions";
+import { homepageSectionDefaultValues } from "@/lib/constants";
+import { HOMEPAGE_SECTION_LABELS, HOMEPAGE_SECTION_TYPES, PRODUCT_ROW_RULES, VALUE_PROP_ICONS } from "@/lib/homepage";
+import { insertHomepageSectionSchema, updateHomepageSectionSchema } from "@/lib/validator";
+import { Control, Path, SubmitHandler, useFieldArray, useForm } from "react-hook-form";
+import { HomepageSection } from "@/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { z } from "zod";
+import { Trash2 } from "lucide-react";
+import { toDateTimeLocal } from "@/lib/utils";
+
+type HomepageSectionFormValues = z.infer<typeof insertHomepageSectionSchema>;
+
+// The labels of the product row rules shown in the rule select.
+const RULE_LABELS: Record<string, string> = { latest: "Newest products", featured: "Featured products", top_rated: "Top rated products", on_sale: "Products on sale", category: "Products of a category" };
+
+// The value of the countdown sale select counting down to the running sale ending soonest, as select items can't have an empty value.
+const RUNNING_SALE = "running";
+
+// A text input of the section content.
+const TextField = ({ control, name, label, placeholder }: { control: Control<HomepageSectionFormValues>; name: Path<HomepageSectionFormValues>; label: string; placeholder?: string }) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem className="w-full">
+        <FormLabel className="text-xs">{label}</FormLabel>
+        <FormControl>
+          <Input placeholder={placeholder} {...field} value={(field.value as string | null) ?? ""} />
+        </FormControl>
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+// Edits the slides of a hero carousel.
+const SlideFields = ({ control }: { control: Control<HomepageSectionFormValues> }) => {
+  const { fields, append, remove } = useFieldArray({ control, name: "content.slides" });
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Slides</FormLabel>
+      {fields.map((slideField, index) => (
+        <div key={slideField.id} className="flex flex-col gap-2 md:flex-row md:items-end">
+          <TextField control={control} name={`content.slides.${index}.image`} label="Image" placeholder="e.g. /images/banner-1.jpg" />
+          <TextField control={control} name={`content.slides.${index}.title`} label="Title" />
+          <TextField control={control} name={`content.slides.${index}.subtitle`} label="Subtitle" placeholder="Optional" />
+          <TextField control={control} name={`content.slides.${index}.href`} label="Link" placeholder="e.g. /search?category=men" />
+          <Button type="button" variant="outline" onClick={() => remove(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ image: "", title: "", subtitle: null, href: "" })}>
+        Add Slide
+      </Button>
+    </div>
+  );
+};
+
+// Edits the collections of a featured collections grid.
+const CollectionFields = ({ control }: { control: Control<HomepageSectionFormValues> }) => {
+  const { fields, append, remove } = useFieldArray({ control, name: "content.collections" });
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Collections</FormLabel>
+      {fields.map((collectionField, index) => (
+        <div key={collectionField.id} className="flex flex-col gap-2 md:flex-row md:items-end">
+          <TextField control={control} name={`content.collections.${index}.image`} label="Image" placeholder="e.g. /images/sample-products/p1-1.jpg" />
+          <TextField control={control} name={`content.collections.${index}.title`} label="Title" />
+          <TextField control={control} name={`content.collections.${index}.href`} label="Link" placeholder="e.g. /search?category=men" />
+          <Button type="button" variant="outline" onClick={() => remove(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ image: "", title: "", href: "" })}>
+        Add Collection
+      </Button>
+    </div>
+  );
+};
+
+// Edits the boxes of the value propositions.
+const ValuePropFields = ({ control }: { control: Control<HomepageSectionFormValues> }) => {
+  const { fields, append, remove } = useFieldArray({ control, name: "content.valueProps" });
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Value Propositions</FormLabel>
+      {fields.map((valuePropField, index) => (
+        <div key={valuePropField.id} className="flex flex-col gap-2 md:flex-row md:items-end">
+          <FormField
+            control={control}
+            name={`content.valueProps.${index}.icon`}
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel className="text-xs">Icon</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an icon" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {VALUE_PROP_ICONS.map(icon => (
+                      <SelectItem key={icon} value={icon}>
+                        {icon}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <TextField control={control} name={`content.valueProps.${index}.title`} label="Title" placeholder="e.g. Worldwide Shipping" />
+          <TextField control={control} name={`content.valueProps.${index}.text`} label="Text" placeholder="e.g. Standard and express delivery to your door" />
+          <Button type="button" variant="outline" onClick={() => remove(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ icon: VALUE_PROP_ICONS[0], title: "", text: "" })}>
+        Add Value Proposition
+      </Button>
+    </div>
+  );
+};
+
+const HomepageSectionForm = ({
+  type,
+  section,
+  sectionId,
+  categories,
+  sales
+}: {
+  type: "Create" | "Update";
+  section?: HomepageSection;
+  sectionId?: string;
+  categories: { id: string; name: string; depth: number }[];
+  sales: { id: string; name: string }[];
+}) => {
+  const router = useRouter();
+
+  const form = useForm<HomepageSectionFormValues>({
+    resolver: zodResolver(type === "Create" ? insertHomepageSectionSchema : updateHomepageSectionSchema),
+    defaultValues: section && type === "Update" ? section : homepageSectionDefaultValues
+  });
+
+  // Handle form submit
+  const onSubmit: SubmitHandler<HomepageSectionFormValues> = async values => {
+    const res = type === "Create" ? await createHomepageSection(values) : await updateHomepageSection({ ...values, id: sectionId ?? "" });
+
+    if (!res.success) {
+      toast.error(res.message);
+    } else {
+      toast.success(res.message);
+      router.push(`/admin/homepage`);
+    }
+  };
+
+  const sectionType = form.watch("type");
+  const rule = form.watch("content.rule");
+
+  return (
+    <Form {...form}>
+      <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Type */}
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {HOMEPAGE_SECTION_TYPES.map(x => (
+                      <SelectItem key={x} value={x}>
+                        {HOMEPAGE_SECTION_LABELS[x]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Title */}
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Title</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional title shown above the section" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Content of the selected type */}
+        <Card>
+          <CardContent className="space-y-4 mt-4">
+            {sectionType === "hero" && (
+              <>
+                <SlideFields control={form.control} />
+                <FormField
+                  control={form.control}
+                  name="content.includeFeaturedProducts"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Add the banners of the featured products after the slides</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+            {sectionType === "collections" && <CollectionFields control={form.control} />}
+            {sectionType === "value_props" && <ValuePropFields control={form.control} />}
+            {sectionType === "countdown" && (
+              <FormField
+                control={form.control}
+                name="content.saleId"
+                render={({ field }) => (
+                  <FormItem className="w-full">
+                    <FormLabel>Sale</FormLabel>
+                    <Select onValueChange={value => field.onChange(value === RUNNING_SALE ? null : value)} value={field.value ?? RUNNING_SALE}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a sale" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={RUNNING_SALE}>The running sale ending soonest</SelectItem>
+                        {sales.map(sale => (
+                          <SelectItem key={sale.id} value={sale.id}>
+                            {sale.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {/* The countdown is hidden while its sale isn't running */}
+                    <p className="text-sm text-muted-foreground">The countdown is only shown while the sale is running.</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {sectionType === "product_row" && (
+              <div className="flex flex-col gap-5 md:flex-row">
+                {/* Rule */}
+                <FormField
+                  control={form.control}
+                  name="content.rule"
+                  render={({ field }) => (
+                    <FormItem className="w-full">
+                      <FormLabel>Products</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a rule" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PRODUCT_ROW_RULES.map(x => (
+                            <SelectItem key={x} value={x}>
+                              {RULE_LABELS[x]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {/* Category, including its subcategories */}
+                {rule === "category" && (
+                  <FormField
+                    control={form.control}
+                    name="content.categoryId"
+                    render={({ field }) => (
+                      <FormItem className="w-full">
+                        <FormLabel>Category</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a category" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {categories.map(category => (
+                              <SelectItem key={category.id} value={category.id}>
+                                {"— ".repeat(category.depth)}
+                                {category.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {/* Number of products */}
+                <FormField
+                  control={form.control}
+                  name="content.limit"
+                  render={({ field }) => (
+                    <FormItem className="w-full">
+                      <FormLabel>Number of Products</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="content.showViewAll"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 w-full md:mt-8">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Show &quot;View All Products&quot;</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Schedule. Sections are only shown between these dates, when set. */}
+        <div className="flex flex-col gap-5 md:flex-row">
+          <FormField
+            control={form.control}
+            name="startsAt"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Show From</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} value={field.value ? toDateTimeLocal(field.value) : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="endsAt"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Show Until</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} value={field.value ? toDateTimeLocal(field.value) : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* Published. Drafts are only shown by the preview. */}
+        <FormField
+          control={form.control}
+          name="isPublished"
+          render={({ field }) => (
+            <FormItem className="space-x-2 items-center">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+              <FormLabel>Is Published?</FormLabel>
+            </FormItem>
+          )}
+        />
+        <div>
+          <Button type="submit" size="lg" disabled={form.formState.isSubmitting} className="button col-span-2 w-full">
+            {form.formState.isSubmitting ? "Submitting" : `${type} Section`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default HomepageSectionForm;
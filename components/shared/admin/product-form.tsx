@@ -2,11 +2,12 @@
 
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { createProduct, updateProduct } from "@/lib/actions/product.actions";
-import { productDefaultValues } from "@/lib/constants";
+import { productDefaultValues, TAX_CATEGORIES, VARIANT_OPTIONS } from "@/lib/constants";
 import { insertProductSchema, updateProductSchema } from "@/lib/validator";
-import { ControllerRenderProps, SubmitHandler } from "react-hook-form";
+import { ControllerRenderProps, SubmitHandler, useFieldArray } from "react-hook-form";
 import { Product } from "@/types";
 import { zodResolver } from "@hookform/resolvers/zod";
 import slugify from "slugify";
@@ -19,8 +20,10 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { UploadButton } from "@/lib/uploadthing";
+import { Trash2 } from "lucide-react";
+import { toDateTimeLocal } from "@/lib/utils";
 
-const ProductForm = ({ type, product, productId }: { type: "Create" | "Update"; product?: Product; productId?: string }) => {
+const ProductForm = ({ type, product, productId, categories }: { type: "Create" | "Update"; product?: Product; productId?: string; categories: { id: string; name: string; depth: number }[] }) => {
   const router = useRouter();
 
   const form = useForm<z.infer<typeof insertProductSchema>>({
@@ -47,7 +50,9 @@ const ProductForm = ({ type, product, productId }: { type: "Create" | "Update";
         return;
       }
 
-      const res = await updateProduct({ ...values, id: productId });
+      // The stock shown when the form was opened, so orders placed meanwhile keep their stock.
+      const stockBefore = { stock: product?.stock ?? 0, variants: Object.fromEntries((product?.variants ?? []).map(x => [x.id ?? "", x.stock])) };
+      const res = await updateProduct({ ...values, id: productId, stockBefore });
 
       if (!res.success) {
         toast.error(res.message);
@@ -57,6 +62,12 @@ const ProductForm = ({ type, product, productId }: { type: "Create" | "Update";
     }
   };
 
+  // Manages the list of variants (size/color SKUs) of the product
+  const { fields: variantFields, append: appendVariant, remove: removeVariant } = useFieldArray({
+    control: form.control,
+    name: "variants"
+  });
+
   const images = form.watch("images");
   const isFeatured = form.watch("isFeatured");
   const banner = form.watch("banner");
@@ -109,13 +120,25 @@ const ProductForm = ({ type, product, productId }: { type: "Create" | "Update";
           {/* Category */}
           <FormField
             control={form.control}
-            name="category"
-            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "category"> }) => (
+            name="categoryId"
+            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "categoryId"> }) => (
               <FormItem className="w-full">
                 <FormLabel>Category</FormLabel>
-                <FormControl>
-                  <Input placeholder="Enter category" {...field} />
-                </FormControl>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {/* Subcategories are indented under their parent */}
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id} style={{ paddingLeft: `${0.5 + category.depth}rem` }}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <FormMessage />
               </FormItem>
             )}
@@ -158,12 +181,186 @@ const ProductForm = ({ type, product, productId }: { type: "Create" | "Update";
               <FormItem className="w-full">
                 <FormLabel>Stock</FormLabel>
                 <FormControl>
-                  <Input type="number" placeholder="Enter product stock" {...field} />
+                  {/* The stock of a product sold in variants is the sum of the variant stocks. */}
+                  <Input type="number" placeholder="Enter product stock" disabled={variantFields.length > 0} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Low Stock Threshold */}
+          <FormField
+            control={form.control}
+            name="lowStockThreshold"
+            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "lowStockThreshold"> }) => (
+              <FormItem className="w-full">
+                <FormLabel>Low Stock Threshold</FormLabel>
+                <FormControl>
+                  {/* Left empty, the default threshold applies. */}
+                  <Input type="number" placeholder="Use the default threshold" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Weight */}
+          <FormField
+            control={form.control}
+            name="weight"
+            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "weight"> }) => (
+              <FormItem className="w-full">
+                <FormLabel>Weight (kg)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter shipping weight" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Tax Category */}
+          <FormField
+            control={form.control}
+            name="taxCategory"
+            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "taxCategory"> }) => (
+              <FormItem className="w-full">
+                <FormLabel>Tax Category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="capitalize">
+                      <SelectValue placeholder="Select a tax category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TAX_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category} className="capitalize">
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* Sale price, shown next to the struck-through price between its dates. Category and storewide sales are managed on the Sales page. */}
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Sale Price */}
+          <FormField
+            control={form.control}
+            name="salePrice"
+            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "salePrice"> }) => (
+              <FormItem className="w-full">
+                <FormLabel>Sale Price</FormLabel>
+                <FormControl>
+                  <Input placeholder="Not on sale" {...field} value={field.value ?? ""} />
                 </FormControl>
                 <FormMessage />
               </FormItem>
             )}
           />
+          {/* Sale Starts At */}
+          <FormField
+            control={form.control}
+            name="saleStartsAt"
+            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "saleStartsAt"> }) => (
+              <FormItem className="w-full">
+                <FormLabel>Sale Starts At</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} value={field.value ? toDateTimeLocal(field.value) : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Sale Ends At */}
+          <FormField
+            control={form.control}
+            name="saleEndsAt"
+            render={({ field }: { field: ControllerRenderProps<z.infer<typeof insertProductSchema>, "saleEndsAt"> }) => (
+              <FormItem className="w-full">
+                <FormLabel>Sale Ends At</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} value={field.value ? toDateTimeLocal(field.value) : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div>
+          {/* Variants */}
+          <FormLabel>Variants</FormLabel>
+          <Card className="mt-2">
+            <CardContent className="space-y-4 mt-4">
+              {variantFields.length === 0 && <p className="text-sm text-muted-foreground">This product is sold without variants.</p>}
+              {variantFields.map((variantField, index) => (
+                <div key={variantField.id} className="flex flex-col gap-2 md:flex-row md:items-end">
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.sku`}
+                    render={({ field }) => (
+                      <FormItem className="w-full">
+                        <FormLabel>SKU</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter SKU" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {VARIANT_OPTIONS.map(option => (
+                    <FormField
+                      key={option}
+                      control={form.control}
+                      name={`variants.${index}.options.${option}`}
+                      render={({ field }) => (
+                        <FormItem className="w-full">
+                          <FormLabel>{option}</FormLabel>
+                          <FormControl>
+                            <Input placeholder={`Enter ${option.toLowerCase()}`} {...field} value={field.value ?? ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.price`}
+                    render={({ field }) => (
+                      <FormItem className="w-full">
+                        <FormLabel>Price override</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Product price" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`variants.${index}.stock`}
+                    render={({ field }) => (
+                      <FormItem className="w-full">
+                        <FormLabel>Stock</FormLabel>
+                        <FormControl>
+                          <Input type="number" placeholder="Enter stock" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="outline" onClick={() => removeVariant(index)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" onClick={() => appendVariant({ sku: "", options: Object.fromEntries(VARIANT_OPTIONS.map(option => [option, ""])), price: null, stock: 0 })}>
+                Add Variant
+              </Button>
+            </CardContent>
+          </Card>
         </div>
         <div className="upload-field flex flex-col gap-5 md:flex-row">
           {/* Images */}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { Loader } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { applyProductImport, previewProductImport } from "@/lib/actions/product-import.actions";
+import { toCsv } from "@/lib/csv";
+
+type PreviewRow = Awaited<ReturnType<typeof previewProductImport>>["rows"][number];
+type ReportRow = Awaited<ReturnType<typeof applyProductImport>>["report"][number];
+
+/*
+  The catalog CSV import: the admin picks a file, reviews the dry run with the errors of each row, then applies it.
+  Once applied, the report of every row can be downloaded as a CSV file.
+*/
+const ProductImportForm = () => {
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [report, setReport] = useState<ReportRow[]>([]);
+  const [isPending, startTransition] = useTransition();
+
+  // Reads the file and runs the dry run
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview([]);
+    setReport([]);
+    if (!file) return;
+
+    const text = await file.text();
+    setCsv(text);
+
+    startTransition(async () => {
+      const res = await previewProductImport(text);
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      setPreview(res.rows);
+    });
+  };
+
+  // Applies the import, saving the valid rows
+  const handleApply = () => {
+    startTransition(async () => {
+      const res = await applyProductImport(csv);
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      toast.success(res.message);
+      setPreview([]);
+      setReport(res.report);
+    });
+  };
+
+  // Downloads the report as a CSV file
+  const handleDownloadReport = () => {
+    const blob = new Blob([toCsv([["line", "slug", "status", "message"], ...report.map(x => [x.line, x.slug, x.status, x.message])])], { type: "text/csv" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = "product-import-report.csv";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const validCount = preview.filter(x => x.errors.length === 0).length;
+
+  return (
+    <div className="space-y-4">
+      <Input type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isPending} />
+
+      {isPending && <Loader className="w-4 h-4 animate-spin" />}
+
+      {/* Dry run: what each row would do, and why invalid rows would be skipped */}
+      {preview.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex-between">
+            <p>
+              {preview.filter(x => x.errors.length === 0 && x.action === "create").length} to create, {preview.filter(x => x.errors.length === 0 && x.action === "update").length} to update, {preview.length - validCount} with errors
+            </p>
+            <Button type="button" onClick={handleApply} disabled={isPending || validCount === 0}>
+              Import {validCount} products
+            </Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>LINE</TableHead>
+                <TableHead>SLUG</TableHead>
+                <TableHead>NAME</TableHead>
+                <TableHead>ACTION</TableHead>
+                <TableHead>ERRORS</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.map(row => (
+                <TableRow key={row.line}>
+                  <TableCell>{row.line}</TableCell>
+                  <TableCell>{row.slug}</TableCell>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell>{row.errors.length > 0 ? <Badge variant="destructive">Skip</Badge> : <Badge variant="outline">{row.action === "create" ? "Create" : "Update"}</Badge>}</TableCell>
+                  <TableCell className="text-destructive">{row.errors.join("; ")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Report of the applied import */}
+      {report.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex-between">
+            <h2 className="h3-bold">Import Report</h2>
+            <Button type="button" variant="outline" onClick={handleDownloadReport}>
+              Download report
+            </Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>LINE</TableHead>
+                <TableHead>SLUG</TableHead>
+                <TableHead>STATUS</TableHead>
+                <TableHead>MESSAGE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.map(row => (
+                <TableRow key={row.line}>
+                  <TableCell>{row.line}</TableCell>
+                  <TableCell>{row.slug}</TableCell>
+                  <TableCell>
+                    <Badge variant={row.status === "failed" || row.status === "skipped" ? "destructive" : "outline"} className="capitalize">
+                      {row.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{row.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductImportForm;
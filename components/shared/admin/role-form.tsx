@@ -0,0 +1,113 @@
+"use client";
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { createRole, updateRole } from "@/lib/actions/role.actions";
+import { roleDefaultValues } from "@/lib/constants";
+import { ADMIN_ROLE, DEFAULT_ROLE, PERMISSION_LIST, PERMISSIONS } from "@/lib/permissions";
+import { insertRoleSchema, updateRoleSchema } from "@/lib/validator";
+import { SubmitHandler, useForm } from "react-hook-form";
+import { Role } from "@/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { z } from "zod";
+
+// Toggles a value in a list, used by the permission checkboxes.
+const toggle = (list: string[], value: string, checked: boolean) => (checked ? [...list, value] : list.filter(x => x !== value));
+
+const RoleForm = ({ type, role, roleId, allowed }: { type: "Create" | "Update"; role?: Role; roleId?: string; allowed: string[] }) => {
+  const router = useRouter();
+
+  const form = useForm<z.infer<typeof insertRoleSchema>>({
+    resolver: zodResolver(type === "Create" ? insertRoleSchema : updateRoleSchema),
+    defaultValues: role && type === "Update" ? role : roleDefaultValues
+  });
+
+  // The built-in roles keep their name, "admin" always has every permission and "user" (customers) has none.
+  const isSystem = !!role?.isSystem;
+  const isFixed = role?.name === ADMIN_ROLE || role?.name === DEFAULT_ROLE;
+
+  // Handle form submit
+  const onSubmit: SubmitHandler<z.infer<typeof insertRoleSchema>> = async values => {
+    const res = type === "Create" ? await createRole(values) : await updateRole({ ...values, id: roleId ?? "" });
+
+    if (!res.success) {
+      toast.error(res.message);
+    } else {
+      toast.success(res.message);
+      router.push(`/admin/roles`);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        {/* Name, stored on the users of the role */}
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem className="w-full">
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. warehouse" readOnly={isSystem} {...field} />
+              </FormControl>
+              <p className="text-sm text-muted-foreground">Lowercase letters, digits, dashes and underscores.</p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {/* Description */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem className="w-full">
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Who the role is for" className="resize-none" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {/* Permissions, only the ones of the admin can be given (see `assertCanEditRole`) */}
+        <FormField
+          control={form.control}
+          name="permissions"
+          render={({ field }) => (
+            <FormItem className="w-full">
+              <FormLabel>Permissions</FormLabel>
+              <div className="space-y-2 rounded-md border p-4">
+                {PERMISSION_LIST.map(permission => (
+                  <label key={permission} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      disabled={isFixed || !allowed.includes(permission)}
+                      checked={role?.name === ADMIN_ROLE || field.value.includes(permission)}
+                      onCheckedChange={checked => field.onChange(toggle(field.value, permission, !!checked))}
+                    />
+                    <span className="font-mono">{permission}</span>
+                    <span className="text-muted-foreground">{PERMISSIONS[permission]}</span>
+                  </label>
+                ))}
+              </div>
+              {isFixed && <p className="text-sm text-muted-foreground">{role?.name === ADMIN_ROLE ? "The admin role always has every permission." : "Customers have no permissions."}</p>}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div>
+          <Button type="submit" size="lg" disabled={form.formState.isSubmitting} className="button col-span-2 w-full">
+            {form.formState.isSubmitting ? "Submitting" : `${type} Role`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default RoleForm;
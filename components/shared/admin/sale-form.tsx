@@ -0,0 +1,163 @@
+"use client";
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { createSale, updateSale } from "@/lib/actions/sale.actions";
+import { saleDefaultValues } from "@/lib/constants";
+import { insertSaleSchema, updateSaleSchema } from "@/lib/validator";
+import { SubmitHandler, useForm } from "react-hook-form";
+import { Sale } from "@/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { z } from "zod";
+import { toDateTimeLocal } from "@/lib/utils";
+
+// Toggles a value in a list, used by the category checkboxes.
+const toggle = (list: string[], value: string, checked: boolean) => (checked ? [...list, value] : list.filter(x => x !== value));
+
+const SaleForm = ({ type, sale, saleId, categories }: { type: "Create" | "Update"; sale?: Sale; saleId?: string; categories: { id: string; name: string; depth: number }[] }) => {
+  const router = useRouter();
+
+  const form = useForm<z.infer<typeof insertSaleSchema>>({
+    resolver: zodResolver(type === "Create" ? insertSaleSchema : updateSaleSchema),
+    defaultValues: sale && type === "Update" ? sale : saleDefaultValues
+  });
+
+  // Handle form submit
+  const onSubmit: SubmitHandler<z.infer<typeof insertSaleSchema>> = async values => {
+    const res = type === "Create" ? await createSale(values) : await updateSale({ ...values, id: saleId ?? "" });
+
+    if (!res.success) {
+      toast.error(res.message);
+    } else {
+      toast.success(res.message);
+      router.push(`/admin/sales`);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Name */}
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Summer Sale" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Discount */}
+          <FormField
+            control={form.control}
+            name="discountPercent"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Discount (%)</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. 20" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* Description, shown by the deal countdown */}
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem className="w-full">
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Shown by the deal countdown of the home page" className="resize-none" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Start date */}
+          <FormField
+            control={form.control}
+            name="startsAt"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Starts At</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} value={field.value ? toDateTimeLocal(field.value) : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* End date */}
+          <FormField
+            control={form.control}
+            name="endsAt"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Ends At</FormLabel>
+                <FormControl>
+                  <Input type="datetime-local" {...field} value={field.value ? toDateTimeLocal(field.value) : ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {/* Categories on sale. A sale without categories puts the whole store on sale. */}
+        <FormField
+          control={form.control}
+          name="categoryIds"
+          render={({ field }) => (
+            <FormItem className="w-full">
+              <FormLabel>Categories</FormLabel>
+              {/* Putting a category on sale includes its subcategories, which are indented under it */}
+              <div className="max-h-60 space-y-2 overflow-y-auto rounded-md border p-4">
+                {categories.map(category => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm" style={{ paddingLeft: `${category.depth}rem` }}>
+                    <Checkbox checked={field.value.includes(category.id)} onCheckedChange={checked => field.onChange(toggle(field.value, category.id, !!checked))} />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">Leave every category unchecked for a storewide sale.</p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {/* Active */}
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="space-x-2 items-center">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+              <FormLabel>Is Active?</FormLabel>
+            </FormItem>
+          )}
+        />
+        <div>
+          <Button type="submit" size="lg" disabled={form.formState.isSubmitting} className="button col-span-2 w-full">
+            {form.formState.isSubmitting ? "Submitting" : `${type} Sale`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default SaleForm;
@@ -0,0 +1,269 @@
+"use client";
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { toast } from "sonner";
+import { createShippingZone, updateShippingZone } from "@/lib/actions/shipping.actions";
+import { SHIPPING_RATE_TYPES, shippingZoneDefaultValues } from "@/lib/constants";
+import { insertShippingZoneSchema, updateShippingZoneSchema } from "@/lib/validator";
+import { Control, SubmitHandler, useFieldArray, useForm, useWatch } from "react-hook-form";
+import { ShippingZone } from "@/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { Trash2 } from "lucide-react";
+import { z } from "zod";
+
+type ShippingZoneFormValues = z.infer<typeof insertShippingZoneSchema>;
+
+// The labels of the rate types shown in the type select.
+const RATE_TYPE_LABELS: Record<string, string> = { flat: "Flat", weight: "By weight (kg)", price: "By items price" };
+
+// Edits the tiers of a weight or price rate: each tier sets the price from a weight or items price.
+const RateTiers = ({ control, rateIndex }: { control: Control<ShippingZoneFormValues>; rateIndex: number }) => {
+  const { fields, append, remove } = useFieldArray({ control, name: `rates.${rateIndex}.tiers` });
+  const type = useWatch({ control, name: `rates.${rateIndex}.type` });
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Tiers</FormLabel>
+      {fields.map((tierField, index) => (
+        <div key={tierField.id} className="flex gap-2 items-end">
+          <FormField
+            control={control}
+            name={`rates.${rateIndex}.tiers.${index}.from`}
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel className="text-xs">{type === "weight" ? "From weight (kg)" : "From items price"}</FormLabel>
+                <FormControl>
+                  <Input type="number" step="any" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`rates.${rateIndex}.tiers.${index}.price`}
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel className="text-xs">Price</FormLabel>
+                <FormControl>
+                  <Input type="number" step="any" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="outline" onClick={() => remove(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ from: 0, price: 0 })}>
+        Add Tier
+      </Button>
+    </div>
+  );
+};
+
+const ShippingZoneForm = ({ type, zone, zoneId }: { type: "Create" | "Update"; zone?: ShippingZone; zoneId?: string }) => {
+  const router = useRouter();
+
+  const form = useForm<ShippingZoneFormValues>({
+    resolver: zodResolver(type === "Create" ? insertShippingZoneSchema : updateShippingZoneSchema),
+    defaultValues: zone && type === "Update" ? zone : shippingZoneDefaultValues
+  });
+
+  // Manages the list of rates (service levels) of the zone
+  const { fields: rateFields, append: appendRate, remove: removeRate } = useFieldArray({
+    control: form.control,
+    name: "rates"
+  });
+
+  // Handle form submit
+  const onSubmit: SubmitHandler<ShippingZoneFormValues> = async values => {
+    const res = type === "Create" ? await createShippingZone(values) : await updateShippingZone({ ...values, id: zoneId ?? "" });
+
+    if (!res.success) {
+      toast.error(res.message);
+    } else {
+      toast.success(res.message);
+      router.push(`/admin/shipping`);
+    }
+  };
+
+  const rates = form.watch("rates");
+
+  return (
+    <Form {...form}>
+      <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Name */}
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Europe" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Countries, edited as a comma separated list */}
+          <FormField
+            control={form.control}
+            name="countries"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Countries</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="e.g. France, Germany. Leave empty for every other country"
+                    defaultValue={field.value.join(", ")}
+                    onChange={e =>
+                      field.onChange(
+                        e.target.value
+                          .split(",")
+                          .map(x => x.trim())
+                          .filter(Boolean)
+                      )
+                    }
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div>
+          {/* Rates */}
+          <FormLabel>Rates</FormLabel>
+          <div className="space-y-4 mt-2">
+            {rateFields.length === 0 && <p className="text-sm text-muted-foreground">Add a rate for each service level offered in this zone.</p>}
+            {rateFields.map((rateField, index) => (
+              <Card key={rateField.id}>
+                <CardContent className="space-y-4 mt-4">
+                  <div className="flex flex-col gap-2 md:flex-row md:items-end">
+                    <FormField
+                      control={form.control}
+                      name={`rates.${index}.name`}
+                      render={({ field }) => (
+                        <FormItem className="w-full">
+                          <FormLabel>Service level</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g. Express" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`rates.${index}.type`}
+                      render={({ field }) => (
+                        <FormItem className="w-full">
+                          <FormLabel>Type</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select a type" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {SHIPPING_RATE_TYPES.map(rateType => (
+                                <SelectItem key={rateType} value={rateType}>
+                                  {RATE_TYPE_LABELS[rateType]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`rates.${index}.minDays`}
+                      render={({ field }) => (
+                        <FormItem className="w-full">
+                          <FormLabel>Min days</FormLabel>
+                          <FormControl>
+                            <Input type="number" {...field} value={field.value ?? ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`rates.${index}.maxDays`}
+                      render={({ field }) => (
+                        <FormItem className="w-full">
+                          <FormLabel>Max days</FormLabel>
+                          <FormControl>
+                            <Input type="number" {...field} value={field.value ?? ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="outline" onClick={() => removeRate(index)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {/* Flat rates have a single price, weight and price rates have tiers */}
+                  {rates[index]?.type === "flat" ? (
+                    <FormField
+                      control={form.control}
+                      name={`rates.${index}.price`}
+                      render={({ field }) => (
+                        <FormItem className="md:w-1/4">
+                          <FormLabel>Price</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Enter price" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ) : (
+                    <RateTiers control={form.control} rateIndex={index} />
+                  )}
+                  <FormField
+                    control={form.control}
+                    name={`rates.${index}.isActive`}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-2 space-y-0">
+                        <FormControl>
+                          <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormLabel>Offered at checkout</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+            ))}
+            <Button type="button" variant="outline" onClick={() => appendRate({ name: "", type: "flat", price: "0", tiers: [], minDays: null, maxDays: null, isActive: true })}>
+              Add Rate
+            </Button>
+          </div>
+        </div>
+        <div>
+          <Button type="submit" size="lg" disabled={form.formState.isSubmitting} className="button col-span-2 w-full">
+            {form.formState.isSubmitting ? "Submitting" : `${type} Zone`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ShippingZoneForm;
@@ -0,0 +1,122 @@
+"use client";
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { createTaxRate, updateTaxRate } from "@/lib/actions/tax.actions";
+import { TAX_CATEGORIES, taxRateDefaultValues } from "@/lib/constants";
+import { insertTaxRateSchema, updateTaxRateSchema } from "@/lib/validator";
+import { SubmitHandler, useForm } from "react-hook-form";
+import { TaxRate } from "@/types";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { z } from "zod";
+
+const TaxRateForm = ({ type, taxRate, taxRateId }: { type: "Create" | "Update"; taxRate?: TaxRate; taxRateId?: string }) => {
+  const router = useRouter();
+
+  const form = useForm<z.infer<typeof insertTaxRateSchema>>({
+    resolver: zodResolver(type === "Create" ? insertTaxRateSchema : updateTaxRateSchema),
+    defaultValues: taxRate && type === "Update" ? taxRate : taxRateDefaultValues
+  });
+
+  // Handle form submit
+  const onSubmit: SubmitHandler<z.infer<typeof insertTaxRateSchema>> = async values => {
+    const res = type === "Create" ? await createTaxRate(values) : await updateTaxRate({ ...values, id: taxRateId ?? "" });
+
+    if (!res.success) {
+      toast.error(res.message);
+    } else {
+      toast.success(res.message);
+      router.push(`/admin/taxes`);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form method="post" onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Country */}
+          <FormField
+            control={form.control}
+            name="country"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Country</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Germany" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Region */}
+          <FormField
+            control={form.control}
+            name="region"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>State / Province</FormLabel>
+                <FormControl>
+                  {/* Leaving the region empty applies the rate to the whole country */}
+                  <Input placeholder="Whole country" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex flex-col gap-5 md:flex-row">
+          {/* Category */}
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Tax Category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="capitalize">
+                      <SelectValue placeholder="Select a tax category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TAX_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category} className="capitalize">
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {/* Rate */}
+          <FormField
+            control={form.control}
+            name="rate"
+            render={({ field }) => (
+              <FormItem className="w-full">
+                <FormLabel>Rate (%)</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. 19" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div>
+          <Button type="submit" size="lg" disabled={form.formState.isSubmitting} className="button col-span-2 w-full">
+            {form.formState.isSubmitting ? "Submitting" : `${type} Tax Rate`}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default TaxRateForm;
@@ -10,7 +10,7 @@ const CheckoutSteps = ({ current = 0 }) => {
   return (
     <div className="flex-between flex-col md:flex-row space-x-2 space-y-2 mb-10">
       {/* Maps through the array of steps and renders each step */}
-      {["User Login", "Shipping Address", "Payment Method", "Place Order"].map((step, index) => (
+      {["User Login", "Shipping Address", "Shipping Method", "Payment Method", "Place Order"].map((step, index) => (
         // Creates a React fragment for each step to group multiple elements without adding extra nodes to the DOM
         <React.Fragment key={step}>
           {/* Conditionally applies styles to highlight the current step */}
@@ -0,0 +1,47 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Loader, MailWarning } from "lucide-react";
+import { toast } from "sonner";
+import { resendVerificationEmail } from "@/lib/actions/user.actions";
+import { useTransition } from "react";
+
+/**
+ * Tells the signed-in user their email address isn't verified yet, with a button sending a new verification link.
+ * @param email - The email address to verify.
+ * @param isRequired - Whether orders need a verified email address (REQUIRE_EMAIL_VERIFICATION).
+ **/
+const EmailVerificationNotice = ({ email, isRequired = false }: { email: string; isRequired?: boolean }) => {
+  const [isPending, startTransition] = useTransition();
+
+  const handleResend = () => {
+    startTransition(async () => {
+      const res = await resendVerificationEmail();
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      toast.success(res.message);
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex gap-3">
+        <MailWarning className="w-5 h-5 shrink-0 text-destructive" />
+        <div className="text-sm">
+          <div className="font-medium">Please verify your email</div>
+          <div className="text-muted-foreground">
+            We sent a verification link to {email}.{isRequired && " You need to verify your email before placing an order."}
+          </div>
+        </div>
+      </div>
+      <Button type="button" size="sm" variant="outline" onClick={handleResend} disabled={isPending}>
+        {isPending ? <Loader className="w-4 h-4 animate-spin" /> : "Resend link"}
+      </Button>
+    </div>
+  );
+};
+
+export default EmailVerificationNotice;
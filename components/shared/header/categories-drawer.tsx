@@ -1,5 +1,5 @@
 import { Drawer, DrawerClose, DrawerContent, DrawerHeader, DrawerTitle, DrawerTrigger } from "@/components/ui/drawer";
-import { getAllCategories } from "@/lib/actions/product.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
 import { Button } from "@/components/ui/button";
 import { MenuIcon } from "lucide-react";
 import Link from "next/link";
@@ -18,11 +18,12 @@ const CategoriesDrawer = async () => {
         <DrawerHeader>
           <DrawerTitle>Select a category</DrawerTitle>
           <div className="space-y-1">
+            {/* Subcategories are indented under their parent. The count includes the products of the subcategories. */}
             {categories.map(x => (
-              <Button className="w-full justify-start" variant="ghost" key={x.category} asChild>
+              <Button className="w-full justify-start" variant="ghost" key={x.id} style={{ paddingLeft: `${1 + x.depth * 1.25}rem` }} asChild>
                 <DrawerClose asChild>
-                  <Link href={`/search?category=${x.category}`}>
-                    {x.category} ({x._count})
+                  <Link href={`/search?category=${x.slug}`} className={x.depth === 0 ? "font-semibold" : ""}>
+                    {x.name} ({x.productCount})
                   </Link>
                 </DrawerClose>
               </Button>
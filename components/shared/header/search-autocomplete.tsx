@@ -0,0 +1,133 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { normalizeSuggestionQuery, SearchSuggestions, SUGGESTION_MIN_LENGTH, SuggestionItem, toSuggestionItems } from "@/lib/search";
+import { cn, formatCurrency } from "@/lib/utils";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { KeyboardEvent, useEffect, useState } from "react";
+
+// The delay after the last keystroke before suggestions are fetched, so typing a word sends one request.
+const DEBOUNCE_MS = 250;
+
+const TYPE_LABELS: Record<SuggestionItem["type"], string> = { product: "Product", category: "Category", brand: "Brand" };
+
+// Records a clicked suggestion. `sendBeacon` delivers the click even though the page navigates away.
+const trackClick = (query: string, item: SuggestionItem) => {
+  navigator.sendBeacon("/api/search/suggest/click", new Blob([JSON.stringify({ query, type: item.type, value: item.value })], { type: "application/json" }));
+};
+
+/*
+  Search input with typeahead suggestions of products, categories and brands.
+  - Arrow keys move through the suggestions, Enter opens the active one and Escape closes the dropdown.
+  - Without an active suggestion, Enter submits the search form as before.
+*/
+const SearchAutocomplete = () => {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [result, setResult] = useState<{ prefix: string; suggestions: SearchSuggestions } | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const prefix = normalizeSuggestionQuery(query);
+
+  // Fetches the suggestions once the customer stops typing. A newer keystroke cancels the pending request.
+  useEffect(() => {
+    if (prefix.length < SUGGESTION_MIN_LENGTH) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search/suggest?q=${encodeURIComponent(prefix)}`, { signal: controller.signal });
+        if (res.ok) {
+          setResult({ prefix, suggestions: await res.json() });
+          setActiveIndex(-1);
+        }
+      } catch {
+        // Aborted or offline: the search form still works without suggestions
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [prefix]);
+
+  // Only shows the suggestions of what is typed, not of an older prefix
+  const items = result && result.prefix === prefix ? toSuggestionItems(result.suggestions) : [];
+  const showDropdown = isOpen && items.length > 0;
+
+  const selectItem = (item: SuggestionItem) => {
+    trackClick(prefix, item);
+    setIsOpen(false);
+    router.push(item.href);
+  };
+
+  // Handles keyboard navigation of the dropdown
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!showDropdown) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % items.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex(index => (index <= 0 ? items.length - 1 : index - 1));
+    } else if (e.key === "Enter" && activeIndex >= 0) {
+      e.preventDefault();
+      selectItem(items[activeIndex]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        name="q"
+        type="text"
+        placeholder="Search..."
+        autoComplete="off"
+        className="md:w-[100px] lg:w-[300px]"
+        value={query}
+        onChange={e => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="search-suggestions"
+        aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+      />
+      {showDropdown && (
+        // Keeps the focus in the input while a suggestion is clicked, so the dropdown doesn't close before the click
+        <ul id="search-suggestions" role="listbox" className="absolute z-50 mt-1 w-full min-w-[300px] rounded-md border bg-background shadow-md py-1" onMouseDown={e => e.preventDefault()}>
+          {items.map((item, index) => (
+            <li key={`${item.type}-${item.value}`} id={`search-suggestion-${index}`} role="option" aria-selected={index === activeIndex}>
+              <Link
+                href={item.href}
+                className={cn("flex items-center gap-3 px-3 py-2 text-sm hover:bg-accent", index === activeIndex && "bg-accent")}
+                onClick={() => {
+                  trackClick(prefix, item);
+                  setIsOpen(false);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+              >
+                {item.type === "product" && item.image && <Image src={item.image} alt={item.label} width={32} height={32} className="h-8 w-8 rounded object-cover" />}
+                <span className="flex-1 truncate">{item.label}</span>
+                {item.price ? <span className="font-medium">{formatCurrency(item.price)}</span> : <span className="text-xs text-muted-foreground">{TYPE_LABELS[item.type]}</span>}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchAutocomplete;
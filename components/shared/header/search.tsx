@@ -1,8 +1,8 @@
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { getAllCategories } from "@/lib/actions/product.actions";
+import { getAllCategories } from "@/lib/actions/category.actions";
 import { SearchIcon } from "lucide-react";
+import SearchAutocomplete from "./search-autocomplete";
 
 const Search = async () => {
   const categories = await getAllCategories();
@@ -19,13 +19,13 @@ const Search = async () => {
               All
             </SelectItem>
             {categories.map(x => (
-              <SelectItem key={x.category} value={x.category}>
-                {x.category}
+              <SelectItem key={x.id} value={x.slug} style={{ paddingLeft: `${0.5 + x.depth}rem` }}>
+                {x.name}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
-        <Input name="q" type="text" placeholder="Search..." className="md:w-[100px] lg:w-[300px]" />
+        <SearchAutocomplete />
         <Button>
           <SearchIcon />
         </Button>
@@ -11,6 +11,8 @@ import { Button } from "@/components/ui/button"; // Imports a custom Button comp
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"; // Imports custom DropdownMenu components for creating dropdown menus.
 import { signOutUser } from "@/lib/actions/user.actions"; // Imports the signOutUser function for handling user sign-out actions.
 import { UserIcon } from "lucide-react"; // Imports the UserIcon component from lucide-react for displaying a user icon.
+import { getMyPermissions } from "@/lib/auth-guard"; // Imports the function loading the permissions of the signed-in user.
+import { getAdminPages } from "@/lib/permissions"; // Imports the function listing the admin pages the permissions open.
 
 const UserButton = async () => {
   const session = await auth(); // Checks if a user session exists using the auth function.
@@ -26,6 +28,8 @@ const UserButton = async () => {
     );
   }
 
+  const [adminPage] = getAdminPages(await getMyPermissions()); // The first admin page the user can open, linked from the menu.
+
   const firstInitial = session.user?.name?.charAt(0).toUpperCase() ?? ""; // Extracts the first initial of the user's name and converts it to uppercase.
 
   return (
@@ -55,9 +59,9 @@ const UserButton = async () => {
               Order History
             </Link>
           </DropdownMenuItem>
-          {session.user.role === "admin" && (
+          {adminPage && (
             <DropdownMenuItem>
-              <Link className="w-full" href="/admin/overview">
+              <Link className="w-full" href={adminPage.href}>
                 Admin
               </Link>
             </DropdownMenuItem>
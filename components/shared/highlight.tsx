@@ -0,0 +1,20 @@
+import { splitHighlights } from "@/lib/search";
+
+// Renders a text highlighted by the full-text search, marking the matched terms.
+const Highlight = ({ text }: { text: string }) => {
+  return (
+    <>
+      {splitHighlights(text).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit dark:bg-yellow-800 rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
@@ -0,0 +1,23 @@
+import Image from "next/image";
+import Link from "next/link";
+
+// The grid of featured collections, each image linking to its collection (e.g. a category of the search page).
+const CollectionGrid = ({ title, collections }: { title?: string | null; collections: { image: string; title: string; href: string }[] }) => {
+  return (
+    <div className="my-10">
+      {title && <h2 className="h2-bold mb-4">{title}</h2>}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {collections.map((collection, index) => (
+          <Link key={`${collection.href}-${index}`} href={collection.href} className="group relative overflow-hidden rounded-lg">
+            <Image src={collection.image} alt={collection.title} width={400} height={400} className="aspect-square object-cover transition-transform group-hover:scale-105" />
+            <div className="absolute inset-0 flex items-end p-4 bg-gradient-to-t from-black/60 to-transparent">
+              <h3 className="text-lg font-bold text-white">{collection.title}</h3>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionGrid;
@@ -2,11 +2,13 @@
 
 import Autoplay from "embla-carousel-autoplay";
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
-import { Product } from "@/types";
 import Link from "next/link";
 import Image from "next/image";
 
-export function ProductCarousel({ data }: { data: Product[] }) {
+// A slide of the hero carousel, configured on the admin Homepage page or taken from the banner of a featured product.
+type HeroSlide = { image: string; title: string; subtitle?: string | null; href: string };
+
+export function HeroCarousel({ slides }: { slides: HeroSlide[] }) {
   return (
     <Carousel
       className="w-full mb-12"
@@ -22,13 +24,14 @@ export function ProductCarousel({ data }: { data: Product[] }) {
       ]}
     >
       <CarouselContent>
-        {data.map((product: Product) => (
-          <CarouselItem key={product.id}>
-            <Link href={`/product/${product.slug}`}>
+        {slides.map((slide, index) => (
+          <CarouselItem key={`${slide.href}-${index}`}>
+            <Link href={slide.href}>
               <div className="relative   mx-auto  ">
-                <Image alt={product.name} src={product.banner!} width="0" height="0" sizes="100vw" className="w-full h-auto" priority={true} />
-                <div className="absolute inset-0 flex items-end justify-center">
-                  <h2 className=" bg-gray-900 bg-opacity-50 text-2xl font-bold px-2 text-white  ">{product.name}</h2>
+                <Image alt={slide.title} src={slide.image} width="0" height="0" sizes="100vw" className="w-full h-auto" priority={index === 0} />
+                <div className="absolute inset-0 flex flex-col items-center justify-end">
+                  <h2 className=" bg-gray-900 bg-opacity-50 text-2xl font-bold px-2 text-white  ">{slide.title}</h2>
+                  {slide.subtitle && <p className="bg-gray-900 bg-opacity-50 px-2 text-white">{slide.subtitle}</p>}
                 </div>
               </div>
             </Link>
@@ -0,0 +1,70 @@
+/**
+ * This code block defines the `HomepageSections` component,
+ * which renders the sections of the homepage in the order and with the content configured on the admin Homepage page.
+ * The admin preview outlines each section with its type and whether it is a draft.
+ **/
+
+import { Badge } from "@/components/ui/badge";
+import ProductList from "@/components/shared/product/product-list";
+import ViewAllProductsButton from "@/components/view-all-products-button";
+import DealCountdown from "@/components/deal-countdown";
+import { getHomepageSections } from "@/lib/actions/homepage.actions";
+import { HOMEPAGE_SECTION_LABELS } from "@/lib/homepage";
+import { formatDateTime } from "@/lib/utils";
+import { HeroCarousel } from "./hero-carousel";
+import CollectionGrid from "./collection-grid";
+import ValueProps from "./value-props";
+
+type ResolvedSection = Awaited<ReturnType<typeof getHomepageSections>>[number];
+
+// Renders a single section by its type.
+const HomepageSection = ({ section, savedProductIds }: { section: ResolvedSection; savedProductIds: string[] }) => {
+  switch (section.type) {
+    case "hero":
+      return <HeroCarousel slides={section.slides} />;
+    case "collections":
+      return <CollectionGrid title={section.title} collections={section.content.collections} />;
+    case "countdown":
+      return section.sale && <DealCountdown sale={section.sale} />;
+    case "value_props":
+      return <ValueProps items={section.content.valueProps} />;
+    case "product_row":
+      return (
+        <>
+          <ProductList title={section.title ?? undefined} data={section.products} savedProductIds={savedProductIds} />
+          {section.content.showViewAll && <ViewAllProductsButton />}
+        </>
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * This function `HomepageSections` renders the sections of the homepage.
+ * @param sections - The sections to render, in order, with their resolved content.
+ * @param savedProductIds - The ids of the products in the customer's wishlist.
+ * @param preview - Whether the sections are rendered by the admin preview.
+ **/
+const HomepageSections = ({ sections, savedProductIds = [], preview = false }: { sections: ResolvedSection[]; savedProductIds?: string[]; preview?: boolean }) => {
+  return (
+    <div className="space-y-8">
+      {sections.map(section =>
+        preview ? (
+          <div key={section.id} className="relative rounded-lg border-2 border-dashed p-2">
+            <div className="absolute right-2 top-2 z-10 flex gap-1">
+              <Badge variant="secondary">{HOMEPAGE_SECTION_LABELS[section.type]}</Badge>
+              {!section.isPublished && <Badge variant="destructive">Draft</Badge>}
+              {section.endsAt && <Badge variant="outline">Until {formatDateTime(section.endsAt).dateTime}</Badge>}
+            </div>
+            <HomepageSection section={section} savedProductIds={savedProductIds} />
+          </div>
+        ) : (
+          <HomepageSection key={section.id} section={section} savedProductIds={savedProductIds} />
+        )
+      )}
+    </div>
+  );
+};
+
+export default HomepageSections;
@@ -0,0 +1,29 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { DollarSign, Gift, Headset, RotateCcw, ShieldCheck, ShoppingBag, Truck, WalletCards } from "lucide-react";
+
+// The icons of VALUE_PROP_ICONS, by their name.
+const ICONS = { ShoppingBag, DollarSign, WalletCards, Headset, Truck, ShieldCheck, Gift, RotateCcw };
+
+// The boxes with the promises of the store (e.g. free shipping), configured on the admin Homepage page.
+const ValueProps = ({ items }: { items: { icon: string; title: string; text: string }[] }) => {
+  return (
+    <div>
+      <Card>
+        <CardContent className="grid gap-4 md:grid-cols-4 p-4 ">
+          {items.map((item, index) => {
+            const Icon = ICONS[item.icon as keyof typeof ICONS] ?? ShoppingBag;
+
+            return (
+              <div key={index} className="space-y-2">
+                <Icon />
+                <div className="text-sm font-bold">{item.title}</div>
+                <div className="text-sm text-muted-foreground">{item.text}</div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+export default ValueProps;
@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { useRouter } from "next/navigation";
 import { Plus, Minus, Loader } from "lucide-react";
 import { Cart, CartItem } from "@/types";
+import { isSameCartLine } from "@/lib/utils";
 import { toast } from "sonner";
 import { addItemToCart, removeItemFromCart } from "@/lib/actions/cart.actions";
 import { useTransition } from "react";
@@ -35,7 +36,7 @@ const AddToCart = ({ cart, item }: { cart?: Cart; item: CartItem }) => {
   // Remove item from cart
   const handleRemoveFromCart = async () => {
     startTransition(async () => {
-      const res = await removeItemFromCart(item.productId);
+      const res = await removeItemFromCart(item.productId, item.variantId);
 
       if (res.success) {
         toast.success(res.message);
@@ -44,7 +45,7 @@ const AddToCart = ({ cart, item }: { cart?: Cart; item: CartItem }) => {
     });
   };
 
-  const existItem = cart && cart.items.find(x => x.productId === item.productId);
+  const existItem = cart && cart.items.find(x => isSameCartLine(x, item));
 
   return existItem ? (
     <div>
@@ -0,0 +1,63 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Bell, Loader } from "lucide-react";
+import { toast } from "sonner";
+import { subscribeToStockNotification } from "@/lib/actions/stock-notification.actions";
+import { useState, useTransition } from "react";
+
+/**
+ * The "Notify me" button of an out-of-stock product or variant. Opens a dialog asking for the email address to notify.
+ * @param productId - The id of the out-of-stock product.
+ * @param variantId - The id of the out-of-stock variant, for products sold in variants.
+ * @param email - The email address of the signed-in customer, used to prefill the form.
+ * @param className - Optional classes of the button.
+ **/
+const NotifyMe = ({ productId, variantId, email = "", className }: { productId: string; variantId?: string; email?: string; className?: string }) => {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState(email);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    startTransition(async () => {
+      const res = await subscribeToStockNotification({ productId, variantId, email: value });
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      toast.success(res.message);
+      setOpen(false);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" size="sm" variant="outline" className={className}>
+          <Bell className="w-4 h-4" /> Notify me
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Get notified when it&apos;s back</DialogTitle>
+            <DialogDescription>We&apos;ll send you one email when this product is back in stock.</DialogDescription>
+          </DialogHeader>
+          <Input type="email" placeholder="Enter email" value={value} onChange={e => setValue(e.target.value)} required />
+          <DialogFooter>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? <Loader className="w-4 h-4 animate-spin" /> : "Notify me"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotifyMe;
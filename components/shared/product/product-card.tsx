@@ -2,6 +2,9 @@
  * This code block defines the `ProductCard` component,
  * which is responsible for displaying individual product details
  * including the image, brand, name, rating, price, and stock status.
+ * Products on sale show their sale price next to the struck-through regular price.
+ * On the search page, the terms matching the search query are highlighted.
+ * The heart toggle saves the product to the wishlist.
  **/
 
 import Image from "next/image"; // Imports the Image component from Next.js for optimized image loading.
@@ -10,29 +13,46 @@ import { Product } from "@/types"; // Imports the Product type definition.
 import { Card, CardContent, CardHeader } from "@/components/ui/card"; // Imports Card components from the UI library.
 import ProductPrice from "./product-price"; // Imports the ProductPrice component for displaying product prices.
 import Rating from "./rating";
+import Highlight from "../highlight"; // Imports the Highlight component for marking the matched search terms.
+import { SearchHighlight } from "@/lib/search";
+import WishlistButton from "./wishlist-button"; // Imports the heart toggle saving the product to the wishlist.
+import NotifyMe from "./notify-me"; // Imports the "Notify me" button of out-of-stock products.
 
 /**
  * This function `ProductCard` defines a card component that displays product information.
  * @param product - Product object containing details about the product to be displayed.
+ * @param highlight - Optional highlighted name and description snippet from the search.
+ * @param saved - Whether the product is in the customer's wishlist.
  **/
-const ProductCard = ({ product }: { product: Product }) => {
+const ProductCard = ({ product, highlight, saved = false }: { product: Product; highlight?: SearchHighlight; saved?: boolean }) => {
   return (
     <Card className="w-full max-w-sm">
-      <CardHeader className="p-0 items-center">
+      <CardHeader className="p-0 items-center relative">
         <Link href={`/product/${product.slug}`}>
           <Image priority={true} src={product.images![0]} alt={product.name} className="aspect-square object-cover rounded" height={300} width={300} />
         </Link>
+        <WishlistButton productId={product.id} saved={saved} className="absolute top-2 right-2 bg-background/80 rounded-full" />
       </CardHeader>
       <CardContent className="p-4 grid gap-4">
         <div className="text-xs">{product.brand}</div>
         <Link href={`/product/${product.slug}`}>
-          <h2 className="text-sm font-medium">{product.name}</h2>
+          <h2 className="text-sm font-medium">{highlight ? <Highlight text={highlight.name} /> : product.name}</h2>
         </Link>
+        {/* Shows where the description matched the search query */}
+        {highlight?.description && (
+          <p className="text-xs text-muted-foreground">
+            &hellip;
+            <Highlight text={highlight.description} />
+            &hellip;
+          </p>
+        )}
         <div className="flex-between gap-4">
           <Rating value={Number(product.rating)} />
           {/* Displays the product price if in stock, otherwise shows "Out of Stock" */}
-          {product.stock > 0 ? <ProductPrice value={Number(product.price)} /> : <p className="text-destructive">Out of Stock</p>}
+          {product.stock > 0 ? <ProductPrice value={product.pricing?.price ?? Number(product.price)} compareAt={product.pricing?.compareAtPrice} /> : <p className="text-destructive">Out of Stock</p>}
         </div>
+        {/* Lets the customer ask to be emailed when an out-of-stock product is back */}
+        {product.stock <= 0 && <NotifyMe productId={product.id} className="w-full" />}
       </CardContent>
     </Card>
   );
@@ -12,8 +12,9 @@ import { Product } from "@/types"; // Imports the Product type definition.
  * @param title - Optional string representing the title of the product list.
  * @param data - Array of Product objects to be displayed.
  * @param limit - Optional number representing the maximum number of products to display.
+ * @param savedProductIds - Optional ids of the products in the customer's wishlist.
  **/
-const ProductList = ({ title, data, limit }: { title?: string; data: Product[]; limit?: number }) => {
+const ProductList = ({ title, data, limit, savedProductIds = [] }: { title?: string; data: Product[]; limit?: number; savedProductIds?: string[] }) => {
   const limitedData = limit ? data.slice(0, limit) : data; // Limits the data array to the specified limit, if provided.
 
   return (
@@ -23,7 +24,7 @@ const ProductList = ({ title, data, limit }: { title?: string; data: Product[];
       {limitedData.length > 0 ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
           {limitedData.map((product: Product) => (
-            <ProductCard key={product.slug} product={product} />
+            <ProductCard key={product.slug} product={product} saved={savedProductIds.includes(product.id)} />
           ))}
         </div>
       ) : (
@@ -2,6 +2,7 @@
  * This code block defines the `ProductPrice` component,
  * which displays a formatted price with integer and fractional parts
  * styled appropriately using CSS classes.
+ * While a sale lowers the price, the regular price is shown struck through next to it (e.g. "was $99, now $79").
  **/
 
 import { cn } from "@/lib/utils"; // Imports the cn utility function for conditional class names.
@@ -10,19 +11,26 @@ import { cn } from "@/lib/utils"; // Imports the cn utility function for conditi
  * This function `ProductPrice` displays a formatted price value.
  * @param value - Number representing the price to be displayed.
  * @param className - Optional string representing additional CSS classes for styling.
+ * @param compareAt - Optional regular price shown struck through while the product is on sale.
  **/
-const ProductPrice = ({ value, className }: { value: number; className?: string }) => {
+const ProductPrice = ({ value, className, compareAt }: { value: number; className?: string; compareAt?: number | null }) => {
   const stringValue = value.toFixed(2); // Converts the price value to a string with two decimal places.
 
   const [intValue, floatValue] = stringValue.split("."); // Splits the string value into integer and fractional parts.
 
   return (
-    <p className={cn("text-2xl", className)}>
+    <p className={cn("text-2xl", compareAt && "text-red-600", className)}>
       <span className="text-xs align-super">$</span>
       {/* Displays the integer part of the price. */}
       {intValue}
       {/* Displays the fractional part of the price with small text size and aligned at the top. */}
       <span className="text-xs align-super">.{floatValue}</span>
+      {/* Displays the regular price struck through while the product is on sale. */}
+      {compareAt && (
+        <span className="ml-2 text-sm text-muted-foreground line-through">
+          <span className="sr-only">Regular price </span>${compareAt.toFixed(2)}
+        </span>
+      )}
     </p>
   );
 };
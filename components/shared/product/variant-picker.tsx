@@ -0,0 +1,85 @@
+/**
+ * This code block defines the `VariantPicker` component,
+ * which lets the customer choose the option values (e.g. size and color) of a product
+ * and shows the price (with the running sales), stock status and "Add to cart" button of the matching variant.
+ * An out-of-stock variant shows the "Notify me" button instead.
+ **/
+
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import AddToCart from "./add-to-cart";
+import ProductPrice from "./product-price";
+import NotifyMe from "./notify-me";
+import { Cart, ProductVariant } from "@/types";
+import { SalePricing } from "@/lib/sale";
+
+type PickerProduct = { id: string; name: string; slug: string; image: string };
+
+const VariantPicker = ({ product, variants, cart, email }: { product: PickerProduct; variants: (ProductVariant & { id: string; pricing: SalePricing })[]; cart?: Cart; email?: string }) => {
+  // Collects every option name (e.g. "Size", "Color") and its distinct values across all variants.
+  const optionNames = Array.from(new Set(variants.flatMap(variant => Object.keys(variant.options))));
+  const optionValues = (name: string) => Array.from(new Set(variants.map(variant => variant.options[name]).filter(Boolean)));
+
+  // Preselects the first variant that is in stock, falling back to the first variant.
+  const [selected, setSelected] = useState<Record<string, string>>(() => (variants.find(variant => variant.stock > 0) ?? variants[0]).options);
+
+  // Finds the variant whose option values match the current selection.
+  const variant = variants.find(x => optionNames.every(name => x.options[name] === selected[name]));
+
+  return (
+    <div className="space-y-4">
+      {optionNames.map(name => (
+        <div key={name} className="space-y-2">
+          <div className="text-sm">
+            {name}: <span className="font-medium">{selected[name]}</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {optionValues(name).map(value => {
+              // Values that have no variant in stock with the other current selections are struck through.
+              const available = variants.some(x => x.stock > 0 && optionNames.every(n => (n === name ? x.options[n] === value : x.options[n] === selected[n])));
+
+              return (
+                <Button key={value} type="button" size="sm" variant={selected[name] === value ? "default" : "outline"} className={available ? "" : "line-through"} onClick={() => setSelected({ ...selected, [name]: value })}>
+                  {value}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      <div className="mb-2 flex justify-between">
+        <div>Price</div>
+        {variant && <ProductPrice value={variant.pricing.price} compareAt={variant.pricing.compareAtPrice} />}
+      </div>
+      <div className="mb-2 flex justify-between">
+        <div>Status</div>
+        {/* Displays the stock of the selected variant */}
+        {variant && variant.stock > 0 ? <Badge variant="outline">In stock</Badge> : <Badge variant="destructive">Unavailable</Badge>}
+      </div>
+      {/* Displays the "Notify me" button if the selected variant is out of stock. */}
+      {variant && variant.stock <= 0 && <NotifyMe productId={product.id} variantId={variant.id} email={email} className="w-full" />}
+      {/* Displays the "Add to cart" button if the selected variant is in stock. */}
+      {variant && variant.stock > 0 && (
+        <div className="flex-center">
+          <AddToCart
+            cart={cart}
+            item={{
+              productId: product.id,
+              variantId: variant.id,
+              name: product.name,
+              slug: product.slug,
+              price: variant.pricing.price.toFixed(2), // The cart reprices the item with the running sales too
+              qty: 1,
+              image: product.image
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantPicker;
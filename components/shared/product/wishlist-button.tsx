@@ -0,0 +1,40 @@
+"use client";
+import { Button } from "@/components/ui/button";
+import { Heart, Loader } from "lucide-react";
+import { toast } from "sonner";
+import { toggleWishlistItem } from "@/lib/actions/wishlist.actions";
+import { useState, useTransition } from "react";
+import { cn } from "@/lib/utils";
+
+/**
+ * The heart toggle saving a product to the wishlist, or removing it.
+ * @param productId - The id of the product to save.
+ * @param saved - Whether the product is already in the wishlist.
+ * @param className - Optional classes to position the button.
+ **/
+const WishlistButton = ({ productId, saved, className }: { productId: string; saved: boolean; className?: string }) => {
+  const [isPending, startTransition] = useTransition();
+  const [isSaved, setIsSaved] = useState(saved);
+
+  const handleToggle = async () => {
+    startTransition(async () => {
+      const res = await toggleWishlistItem(productId);
+
+      if (!res.success) {
+        toast.error(res.message);
+        return;
+      }
+
+      setIsSaved(res.saved);
+      toast.success(res.message);
+    });
+  };
+
+  return (
+    <Button type="button" variant="ghost" size="icon" className={className} onClick={handleToggle} disabled={isPending} aria-pressed={isSaved} aria-label={isSaved ? "Remove from wishlist" : "Save to wishlist"}>
+      {isPending ? <Loader className="w-4 h-4 animate-spin" /> : <Heart className={cn("w-4 h-4", isSaved && "fill-red-500 text-red-500")} />}
+    </Button>
+  );
+};
+
+export default WishlistButton;
@@ -31,6 +31,23 @@ export const prisma = new PrismaClient({ adapter }).$extends({
         compute(product) {
           return product.rating.toString();
         }
+      },
+      weight: {
+        compute(product) {
+          return product.weight.toString();
+        }
+      },
+      salePrice: {
+        compute(product) {
+          return product.salePrice ? product.salePrice.toString() : null;
+        }
+      }
+    },
+    productVariant: {
+      price: {
+        compute(variant) {
+          return variant.price ? variant.price.toString() : null;
+        }
       }
     },
     cart: {
@@ -57,6 +74,12 @@ export const prisma = new PrismaClient({ adapter }).$extends({
         compute(cart) {
           return cart.totalPrice.toString();
         }
+      },
+      discountPrice: {
+        needs: { discountPrice: true },
+        compute(cart) {
+          return cart.discountPrice.toString();
+        }
       }
     },
     order: {
@@ -83,6 +106,59 @@ export const prisma = new PrismaClient({ adapter }).$extends({
         compute(cart) {
           return cart.totalPrice.toString();
         }
+      },
+      discountPrice: {
+        needs: { discountPrice: true },
+        compute(cart) {
+          return cart.discountPrice.toString();
+        }
+      }
+    },
+    coupon: {
+      value: {
+        compute(coupon) {
+          return coupon.value.toString();
+        }
+      },
+      minSpend: {
+        compute(coupon) {
+          return coupon.minSpend ? coupon.minSpend.toString() : null;
+        }
+      }
+    },
+    sale: {
+      discountPercent: {
+        compute(sale) {
+          return sale.discountPercent.toString();
+        }
+      }
+    },
+    couponRedemption: {
+      discount: {
+        compute(redemption) {
+          return redemption.discount.toString();
+        }
+      }
+    },
+    refund: {
+      amount: {
+        compute(refund) {
+          return refund.amount.toString();
+        }
+      }
+    },
+    shippingRate: {
+      price: {
+        compute(rate) {
+          return rate.price.toString();
+        }
+      }
+    },
+    taxRate: {
+      rate: {
+        compute(taxRate) {
+          return taxRate.rate.toString();
+        }
       }
     },
     orderItem: {
@@ -90,7 +166,20 @@ export const prisma = new PrismaClient({ adapter }).$extends({
         compute(cart) {
           return cart.price.toString();
         }
+      },
+      taxRate: {
+        compute(item) {
+          return item.taxRate.toString();
+        }
+      },
+      taxAmount: {
+        compute(item) {
+          return item.taxAmount.toString();
+        }
       }
     }
   }
 });
+
+// The client passed to interactive transactions of the extended client, for helpers that take part in a transaction.
+export type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
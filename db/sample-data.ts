@@ -6,21 +6,31 @@ const sampleData = {
       name: "John",
       email: "admin@example.com",
       password: hashSync("123456", 10),
-      role: "admin"
+      role: "admin",
+      emailVerified: new Date()
     },
     {
       name: "Jane",
       email: "jane@example.com",
       password: hashSync("123456", 10),
-      role: "user"
+      role: "user",
+      emailVerified: new Date()
     }
   ],
 
+  // Categories are listed parents first. `parent` is the slug of the parent category.
+  categories: [
+    { name: "Men's Clothing", slug: "mens-clothing", parent: null },
+    { name: "Men's Dress Shirts", slug: "mens-dress-shirts", parent: "mens-clothing" },
+    { name: "Men's Sweatshirts", slug: "mens-sweatshirts", parent: "mens-clothing" }
+  ],
+
+  // `category` is the slug of the product's category.
   products: [
     {
       name: "Polo Sporting Stretch Shirt",
       slug: "polo-sporting-stretch-shirt",
-      category: "Men's Dress Shirts",
+      category: "mens-dress-shirts",
       description: "Classic Polo style with modern comfort",
       images: ["/images/sample-products/p1-1.jpg", "/images/sample-products/p1-2.jpg"],
       price: 59.99,
@@ -34,7 +44,7 @@ const sampleData = {
     {
       name: "Brooks Brothers Long Sleeved Shirt",
       slug: "brooks-brothers-long-sleeved-shirt",
-      category: "Men's Dress Shirts",
+      category: "mens-dress-shirts",
       description: "Timeless style and premium comfort",
       images: ["/images/sample-products/p2-1.jpg", "/images/sample-products/p2-2.jpg"],
       price: 85.9,
@@ -48,7 +58,7 @@ const sampleData = {
     {
       name: "Tommy Hilfiger Classic Fit Dress Shirt",
       slug: "tommy-hilfiger-classic-fit-dress-shirt",
-      category: "Men's Dress Shirts",
+      category: "mens-dress-shirts",
       description: "A perfect blend of sophistication and comfort",
       images: ["/images/sample-products/p3-1.jpg", "/images/sample-products/p3-2.jpg"],
       price: 99.95,
@@ -62,7 +72,7 @@ const sampleData = {
     {
       name: "Calvin Klein Slim Fit Stretch Shirt",
       slug: "calvin-klein-slim-fit-stretch-shirt",
-      category: "Men's Dress Shirts",
+      category: "mens-dress-shirts",
       description: "Streamlined design with flexible stretch fabric",
       images: ["/images/sample-products/p4-1.jpg", "/images/sample-products/p4-2.jpg"],
       price: 39.95,
@@ -76,7 +86,7 @@ const sampleData = {
     {
       name: "Polo Ralph Lauren Oxford Shirt",
       slug: "polo-ralph-lauren-oxford-shirt",
-      category: "Men's Dress Shirts",
+      category: "mens-dress-shirts",
       description: "Iconic Polo design with refined oxford fabric",
       images: ["/images/sample-products/p5-1.jpg", "/images/sample-products/p5-2.jpg"],
       price: 79.99,
@@ -90,7 +100,7 @@ const sampleData = {
     {
       name: "Polo Classic Pink Hoodie",
       slug: "polo-classic-pink-hoodie",
-      category: "Men's Sweatshirts",
+      category: "mens-sweatshirts",
       description: "Soft, stylish, and perfect for laid-back days",
       images: ["/images/sample-products/p6-1.jpg", "/images/sample-products/p6-2.jpg"],
       price: 99.99,
@@ -1,6 +1,6 @@
 /**
  * This script seeds the database with sample data (from db/sample-data.ts file) using Prisma.
- * It first deletes all existing data across related tables (products, users, accounts, sessions, and verification tokens)
+ * It first deletes all existing data across related tables (products, categories, users, accounts, sessions, and verification tokens)
  * and then inserts new records based on the provided sample data.
  **/
 
@@ -12,12 +12,22 @@ async function main() {
   const prisma = new PrismaClient(); // Creates a new instance of the PrismaClient to interact with the database.
 
   await prisma.product.deleteMany(); // Deletes all existing records in the 'product' table.
+  await prisma.category.updateMany({ data: { parentId: null } }); // Detaches subcategories so the categories can be deleted in any order.
+  await prisma.category.deleteMany(); // Deletes all existing records in the 'category' table.
   await prisma.account.deleteMany(); // Deletes all existing records in the 'account' table.
   await prisma.session.deleteMany(); // Deletes all existing records in the 'session' table.
   await prisma.verificationToken.deleteMany(); // Deletes all existing records in the 'verificationToken' table.
   await prisma.user.deleteMany(); // Deletes all existing records in the 'user' table.
 
-  await prisma.product.createMany({ data: sampleData.products }); // Inserts multiple product records from 'sampleData.products' into the 'product' table.
+  // Inserts the categories one by one, parents first, so each subcategory can reference the id of its parent.
+  const categoryIds: Record<string, string> = {};
+  for (const { parent, ...category } of sampleData.categories) {
+    const inserted = await prisma.category.create({ data: { ...category, parentId: parent ? categoryIds[parent] : null } });
+    categoryIds[category.slug] = inserted.id;
+  }
+
+  // Inserts multiple product records from 'sampleData.products' into the 'product' table, linked to their categories by slug.
+  await prisma.product.createMany({ data: sampleData.products.map(({ category, ...product }) => ({ ...product, categoryId: categoryIds[category] })) });
   await prisma.user.createMany({ data: sampleData.users }); // Inserts multiple user records from 'sampleData.users' into the 'user' table.
 
   console.log("Database seeded successfully"); // Logs a success message once the seeding process is complete.
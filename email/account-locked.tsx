@@ -0,0 +1,53 @@
+/*
+  AccountLockedEmail Component
+
+  - This component generates the email telling a user their account was locked after too many failed sign-in attempts.
+  - Tells when the lockout ends, and links to the forgot password page in case someone else knows the password.
+*/
+
+import { Body, Button, Container, Head, Heading, Html, Preview, Section, Tailwind, Text } from "@react-email/components"; // Import React Email components for email layout
+import { APP_NAME } from "@/lib/constants"; // Import the application name
+
+import dotenv from "dotenv"; // Import dotenv for loading environment variables
+dotenv.config(); // Load environment variables from a `.env` file
+
+// Define the props for the email component
+export type AccountLockedEmailProps = {
+  name: string; // The name of the user
+  lockoutMinutes: number; // How long the lockout lasts
+  resetUrl: string; // The link to the forgot password page
+};
+
+// Sample props for previewing the email.
+AccountLockedEmail.PreviewProps = {
+  name: "John Doe",
+  lockoutMinutes: 15,
+  resetUrl: `${process.env.NEXT_PUBLIC_SERVER_URL}/forgot-password`
+} satisfies AccountLockedEmailProps;
+
+export default function AccountLockedEmail({ name, lockoutMinutes, resetUrl }: AccountLockedEmailProps) {
+  return (
+    <Html>
+      <Preview>Your {APP_NAME} account was locked</Preview> {/* Email preview text */}
+      <Tailwind>
+        <Head />
+        <Body className="font-sans bg-white">
+          <Container className="max-w-xl">
+            <Heading>Your account was locked</Heading>
+            <Section className="border border-solid border-gray-500 rounded-lg p-4 md:p-6 my-4">
+              <Text>Hi {name},</Text>
+              <Text>
+                We noticed too many failed attempts to sign in to your {APP_NAME} account, so we locked it for {lockoutMinutes} minutes to keep it safe. You can sign in again
+                once the lockout ends.
+              </Text>
+              <Text>If it wasn&apos;t you, someone may be trying to guess your password. We recommend you choose a new one.</Text>
+              <Button href={resetUrl} className="bg-black text-white rounded px-4 py-2">
+                Reset password
+              </Button>
+            </Section>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  );
+}
@@ -0,0 +1,61 @@
+/*
+  BackInStockEmail Component
+
+  - This component generates the email telling a customer that a product they asked about is back in stock.
+  - Shows the product image, name and price with a link to the product page.
+  - Ends with the unsubscribe link, whose page cancels the other back-in-stock requests of the email address once confirmed.
+*/
+
+import { Body, Button, Container, Head, Heading, Html, Img, Link, Preview, Section, Tailwind, Text } from "@react-email/components"; // Import React Email components for email layout
+import { formatCurrency } from "@/lib/utils"; // Utility function for formatting currency
+import sampleData from "@/db/sample-data"; // Import sample data for preview purposes
+
+import dotenv from "dotenv"; // Import dotenv for loading environment variables
+dotenv.config(); // Load environment variables from a `.env` file
+
+// Define the props for the email component
+export type BackInStockEmailProps = {
+  productName: string; // The name of the product, with the variant options when the request was for a variant
+  image: string; // The product image
+  price: string; // The current price of the product or variant
+  productUrl: string; // The link to the product page
+  unsubscribeUrl: string; // The unsubscribe link of the request, which opens a confirmation page
+};
+
+// Sample props for previewing the email, using the first sample product.
+BackInStockEmail.PreviewProps = {
+  productName: sampleData.products[0].name,
+  image: sampleData.products[0].images[0],
+  price: sampleData.products[0].price.toString(),
+  productUrl: `${process.env.NEXT_PUBLIC_SERVER_URL}/product/${sampleData.products[0].slug}`,
+  unsubscribeUrl: `${process.env.NEXT_PUBLIC_SERVER_URL}/stock-notifications/unsubscribe?token=123`
+} satisfies BackInStockEmailProps;
+
+export default function BackInStockEmail({ productName, image, price, productUrl, unsubscribeUrl }: BackInStockEmailProps) {
+  return (
+    <Html>
+      <Preview>{productName} is back in stock</Preview> {/* Email preview text */}
+      <Tailwind>
+        <Head />
+        <Body className="font-sans bg-white">
+          <Container className="max-w-xl">
+            <Heading>Good news, it&apos;s back!</Heading>
+            <Section className="border border-solid border-gray-500 rounded-lg p-4 md:p-6 my-4">
+              <Img width="120" alt={productName} className="rounded" src={image.startsWith("/") ? `${process.env.NEXT_PUBLIC_SERVER_URL}${image}` : image} /> {/* Display product image */}
+              <Text className="text-lg font-medium">{productName}</Text>
+              <Text>{formatCurrency(price)}</Text>
+              <Text className="text-gray-500">You asked us to tell you when this product was back in stock. Stock can run out quickly, so don&apos;t wait too long.</Text>
+              <Button href={productUrl} className="bg-black text-white rounded px-4 py-2">
+                Shop now
+              </Button>
+            </Section>
+            {/* Unsubscribing cancels every other back-in-stock request of the email address */}
+            <Text className="text-xs text-gray-500">
+              Don&apos;t want back-in-stock emails? <Link href={unsubscribeUrl}>Unsubscribe</Link>
+            </Text>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  );
+}
@@ -19,6 +19,11 @@ import { Resend } from "resend"; // Import the Resend SDK to send emails
 import { SENDER_EMAIL, APP_NAME } from "@/lib/constants"; // Import sender email and app name constants
 import { Order } from "@/types"; // Import the `Order` type for type safety
 import PurchaseReceiptEmail from "./purchase-receipt"; // Import the email template component
+import BackInStockEmail, { BackInStockEmailProps } from "./back-in-stock"; // Import the back-in-stock email template
+import LowStockDigestEmail, { LowStockDigestEmailProps } from "./low-stock-digest"; // Import the low-stock digest email template
+import ResetPasswordEmail, { ResetPasswordEmailProps } from "./reset-password"; // Import the password reset email template
+import VerifyEmailEmail, { VerifyEmailEmailProps } from "./verify-email"; // Import the email verification email template
+import AccountLockedEmail, { AccountLockedEmailProps } from "./account-locked"; // Import the account lockout email template
 
 import dotenv from "dotenv"; // Import dotenv to load environment variables
 dotenv.config(); // Load environment variables from a `.env` file
@@ -40,3 +45,100 @@ export const sendPurchaseReceipt = async ({ order }: { order: Order }) => {
     react: <PurchaseReceiptEmail order={order} /> // Uses the `PurchaseReceiptEmail` component as the email body
   });
 };
+
+/*
+  Sends the email telling a customer a product is back in stock.
+  The List-Unsubscribe headers let mail clients show their own one-click unsubscribe button (RFC 8058).
+
+  Parameters:
+  - `email`: The email address of the request.
+  - `oneClickUnsubscribeUrl`: The URL the mail clients post to, which unsubscribes without a confirmation page.
+  - The other props are passed to the `BackInStockEmail` template.
+*/
+export const sendBackInStockEmail = async ({ email, oneClickUnsubscribeUrl, ...props }: BackInStockEmailProps & { email: string; oneClickUnsubscribeUrl: string }) => {
+  const { error } = await resend.emails.send({
+    from: `${APP_NAME} <${SENDER_EMAIL}>`,
+    to: email,
+    subject: `${props.productName} is back in stock`,
+    headers: {
+      "List-Unsubscribe": `<${oneClickUnsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click"
+    },
+    react: <BackInStockEmail {...props} />
+  });
+
+  // Resend reports failures in the response rather than throwing, so the caller can keep the email queued.
+  if (error) throw new Error(error.message);
+};
+
+/*
+  Sends the daily low-stock digest to the admins.
+
+  Parameters:
+  - `emails`: The email addresses of the admins.
+  - `products`: The products low on stock, passed to the `LowStockDigestEmail` template.
+*/
+export const sendLowStockDigest = async ({ emails, products }: LowStockDigestEmailProps & { emails: string[] }) => {
+  const { error } = await resend.emails.send({
+    from: `${APP_NAME} <${SENDER_EMAIL}>`,
+    to: emails,
+    subject: `Low stock: ${products.length} ${products.length === 1 ? "product needs" : "products need"} restocking`,
+    react: <LowStockDigestEmail products={products} />
+  });
+
+  if (error) throw new Error(error.message);
+};
+
+/*
+  Sends the email with the link to reset a password.
+
+  Parameters:
+  - `email`: The email address of the user.
+  - The other props are passed to the `ResetPasswordEmail` template.
+*/
+export const sendPasswordResetEmail = async ({ email, ...props }: ResetPasswordEmailProps & { email: string }) => {
+  const { error } = await resend.emails.send({
+    from: `${APP_NAME} <${SENDER_EMAIL}>`,
+    to: email,
+    subject: `Reset your ${APP_NAME} password`,
+    react: <ResetPasswordEmail {...props} />
+  });
+
+  if (error) throw new Error(error.message);
+};
+
+/*
+  Sends the email with the link to verify an email address, after signing up or when the user asks for a new link.
+
+  Parameters:
+  - `email`: The email address to verify.
+  - The other props are passed to the `VerifyEmailEmail` template.
+*/
+export const sendVerificationEmail = async ({ email, ...props }: VerifyEmailEmailProps & { email: string }) => {
+  const { error } = await resend.emails.send({
+    from: `${APP_NAME} <${SENDER_EMAIL}>`,
+    to: email,
+    subject: `Verify your email for ${APP_NAME}`,
+    react: <VerifyEmailEmail {...props} />
+  });
+
+  if (error) throw new Error(error.message);
+};
+
+/*
+  Sends the email telling a user their account was locked after too many failed sign-in attempts.
+
+  Parameters:
+  - `email`: The email address of the user.
+  - The other props are passed to the `AccountLockedEmail` template.
+*/
+export const sendAccountLockedEmail = async ({ email, ...props }: AccountLockedEmailProps & { email: string }) => {
+  const { error } = await resend.emails.send({
+    from: `${APP_NAME} <${SENDER_EMAIL}>`,
+    to: email,
+    subject: `Your ${APP_NAME} account was locked`,
+    react: <AccountLockedEmail {...props} />
+  });
+
+  if (error) throw new Error(error.message);
+};
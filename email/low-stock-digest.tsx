@@ -0,0 +1,61 @@
+/*
+  LowStockDigestEmail Component
+
+  - This component generates the daily email listing the products that are low on stock, sent to the admins.
+  - Shows the stock and the low-stock threshold of each product, with a link to its stock history.
+*/
+
+import { Body, Column, Container, Head, Heading, Html, Link, Preview, Row, Section, Tailwind, Text } from "@react-email/components"; // Import React Email components for email layout
+import sampleData from "@/db/sample-data"; // Import sample data for preview purposes
+
+import dotenv from "dotenv"; // Import dotenv for loading environment variables
+dotenv.config(); // Load environment variables from a `.env` file
+
+// Define the props for the email component
+export type LowStockDigestEmailProps = {
+  products: { id: string; name: string; stock: number; lowStockThreshold: number }[]; // The products low on stock, lowest stock first
+};
+
+// Sample props for previewing the email, using the sample products.
+LowStockDigestEmail.PreviewProps = {
+  products: sampleData.products.slice(0, 3).map((x, index) => ({ id: `${index}`, name: x.name, stock: index, lowStockThreshold: 5 }))
+} satisfies LowStockDigestEmailProps;
+
+export default function LowStockDigestEmail({ products }: LowStockDigestEmailProps) {
+  return (
+    <Html>
+      <Preview>{`${products.length} products are low on stock`}</Preview> {/* Email preview text */}
+      <Tailwind>
+        <Head />
+        <Body className="font-sans bg-white">
+          <Container className="max-w-xl">
+            <Heading>Low Stock Report</Heading>
+            <Text>These products are at or below their low-stock threshold:</Text>
+            <Section className="border border-solid border-gray-500 rounded-lg p-4 md:p-6 my-4">
+              <Row>
+                <Column className="text-gray-500">Product</Column>
+                <Column align="right" className="text-gray-500">
+                  Stock
+                </Column>
+                <Column align="right" className="text-gray-500">
+                  Threshold
+                </Column>
+              </Row>
+              {products.map(product => (
+                <Row key={product.id} className="py-1">
+                  <Column>
+                    <Link href={`${process.env.NEXT_PUBLIC_SERVER_URL}/admin/products/${product.id}/stock`}>{product.name}</Link>
+                  </Column>
+                  <Column align="right" className={product.stock <= 0 ? "text-red-600" : ""}>
+                    {product.stock}
+                  </Column>
+                  <Column align="right">{product.lowStockThreshold}</Column>
+                </Row>
+              ))}
+            </Section>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  );
+}
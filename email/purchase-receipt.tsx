@@ -47,6 +47,10 @@ PurchaseReceiptEmail.PreviewProps = {
     taxPrice: "10", // Tax amount
     shippingPrice: "10", // Shipping cost
     itemsPrice: "80", // Price of items before tax and shipping
+    discountPrice: "0", // Discount granted by a coupon
+    couponCode: null, // Code of the redeemed coupon
+    shippingMethod: "Standard", // Name of the shipping rate
+    pricesIncludeTax: false, // Tax was added on top of the item prices
     orderitems: sampleData.products.map(x => ({
       name: x.name, // Product name
       orderId: "123", // Order ID associated with the product
@@ -54,11 +58,13 @@ PurchaseReceiptEmail.PreviewProps = {
       slug: x.slug, // Product slug (URL-friendly name)
       qty: x.stock, // Quantity ordered
       image: x.images[0], // First image of the product
-      price: x.price.toString() // Product price as a string
+      price: x.price.toString(), // Product price as a string
+      taxRate: "12.5", // Tax rate of the line in percent
+      taxAmount: (Number(x.price) * x.stock * 0.125).toFixed(2) // Tax of the line
     })),
-    isDelivered: true, // Indicates if the order has been delivered
+    status: "delivered", // Status of the order
     deliveredAt: new Date(), // Delivery date
-    isPaid: true, // Indicates if the order has been paid for
+    reservationExpiresAt: null, // Paid orders have no reservation left
     paidAt: new Date(), // Payment date
     paymentResult: {
       // Payment transaction details
@@ -119,7 +125,7 @@ export default function PurchaseReceiptEmail({ order }: OrderInformationProps) {
             {/* Order items section */}
             <Section className="border border-solid border-gray-500 rounded-lg p-4 md:p-6 my-4">
               {order.orderitems.map(item => (
-                <Row key={item.productId} className="mt-8">
+                <Row key={`${item.productId}-${item.variantId ?? ""}`} className="mt-8">
                   {" "}
                   {/* Loop through ordered items */}
                   <Column className="w-20">
@@ -127,6 +133,7 @@ export default function PurchaseReceiptEmail({ order }: OrderInformationProps) {
                   </Column>
                   <Column className="align-top">
                     {item.name} x {item.qty} {/* Display product name and quantity */}
+                    {Number(item.taxRate) > 0 && <Text className="m-0 text-gray-500">Tax {Number(item.taxRate)}%: {formatCurrency(item.taxAmount)}</Text>} {/* Display the tax of the line */}
                   </Column>
                   <Column align="right" className="align-top">
                     {formatCurrency(item.price)} {/* Display product price */}
@@ -134,17 +141,22 @@ export default function PurchaseReceiptEmail({ order }: OrderInformationProps) {
                 </Row>
               ))}
 
-              {/* Summary of prices (items, tax, shipping, total) */}
+              {/* Summary of prices (items, discount, tax, shipping, total). The discount is only shown when a coupon was redeemed. */}
               {[
                 { name: "Items", price: order.itemsPrice },
-                { name: "Tax", price: order.taxPrice },
-                { name: "Shipping", price: order.shippingPrice },
+                ...(Number(order.discountPrice) > 0 ? [{ name: `Discount${order.couponCode ? ` (${order.couponCode})` : ""}`, price: order.discountPrice, isDiscount: true }] : []),
+                { name: order.pricesIncludeTax ? "Tax (included)" : "Tax", price: order.taxPrice },
+                { name: `Shipping${order.shippingMethod ? ` (${order.shippingMethod})` : ""}`, price: order.shippingPrice },
                 { name: "Total", price: order.totalPrice }
-              ].map(({ name, price }) => (
+              ].map(({ name, price, isDiscount }) => (
                 <Row key={name} className="py-1">
                   <Column align="right">{name}: </Column>
                   <Column align="right" width={70} className="align-top">
-                    <Text className="m-0">{formatCurrency(price)}</Text> {/* Format and display price */}
+                    <Text className="m-0">
+                      {isDiscount ? "-" : ""}
+                      {formatCurrency(price)}
+                    </Text>{" "}
+                    {/* Format and display price */}
                   </Column>
                 </Row>
               ))}
@@ -0,0 +1,53 @@
+/*
+  ResetPasswordEmail Component
+
+  - This component generates the email with the link to choose a new password, sent from the forgot password page.
+  - Tells how long the link stays valid, and that the email can be ignored when the reset wasn't requested.
+*/
+
+import { Body, Button, Container, Head, Heading, Html, Preview, Section, Tailwind, Text } from "@react-email/components"; // Import React Email components for email layout
+import { APP_NAME } from "@/lib/constants"; // Import the application name
+
+import dotenv from "dotenv"; // Import dotenv for loading environment variables
+dotenv.config(); // Load environment variables from a `.env` file
+
+// Define the props for the email component
+export type ResetPasswordEmailProps = {
+  name: string; // The name of the user
+  resetUrl: string; // The link to the reset password page, with the token
+  expiresInMinutes: number; // How long the link stays valid
+};
+
+// Sample props for previewing the email.
+ResetPasswordEmail.PreviewProps = {
+  name: "John Doe",
+  resetUrl: `${process.env.NEXT_PUBLIC_SERVER_URL}/reset-password?email=john@example.com&token=123`,
+  expiresInMinutes: 60
+} satisfies ResetPasswordEmailProps;
+
+export default function ResetPasswordEmail({ name, resetUrl, expiresInMinutes }: ResetPasswordEmailProps) {
+  return (
+    <Html>
+      <Preview>Reset your {APP_NAME} password</Preview> {/* Email preview text */}
+      <Tailwind>
+        <Head />
+        <Body className="font-sans bg-white">
+          <Container className="max-w-xl">
+            <Heading>Reset your password</Heading>
+            <Section className="border border-solid border-gray-500 rounded-lg p-4 md:p-6 my-4">
+              <Text>Hi {name},</Text>
+              <Text>We received a request to reset the password of your {APP_NAME} account. Use the button below to choose a new one.</Text>
+              <Button href={resetUrl} className="bg-black text-white rounded px-4 py-2">
+                Reset password
+              </Button>
+              <Text className="text-gray-500">
+                This link expires in {expiresInMinutes} minutes and can only be used once. Resetting your password signs you out on every device.
+              </Text>
+            </Section>
+            <Text className="text-xs text-gray-500">If you didn&apos;t ask to reset your password, you can ignore this email. Your password won&apos;t change.</Text>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  );
+}
@@ -0,0 +1,53 @@
+/*
+  VerifyEmailEmail Component
+
+  - This component generates the email with the link to verify the email address of an account, sent after signing up.
+  - Tells how long the link stays valid, and that a new one can be sent from the profile page.
+*/
+
+import { Body, Button, Container, Head, Heading, Html, Preview, Section, Tailwind, Text } from "@react-email/components"; // Import React Email components for email layout
+import { APP_NAME } from "@/lib/constants"; // Import the application name
+
+import dotenv from "dotenv"; // Import dotenv for loading environment variables
+dotenv.config(); // Load environment variables from a `.env` file
+
+// Define the props for the email component
+export type VerifyEmailEmailProps = {
+  name: string; // The name of the user
+  verifyUrl: string; // The link to the verify email page, with the token
+  expiresInMinutes: number; // How long the link stays valid
+};
+
+// Sample props for previewing the email.
+VerifyEmailEmail.PreviewProps = {
+  name: "John Doe",
+  verifyUrl: `${process.env.NEXT_PUBLIC_SERVER_URL}/verify-email?email=john@example.com&token=123`,
+  expiresInMinutes: 24 * 60
+} satisfies VerifyEmailEmailProps;
+
+export default function VerifyEmailEmail({ name, verifyUrl, expiresInMinutes }: VerifyEmailEmailProps) {
+  return (
+    <Html>
+      <Preview>Verify your email for {APP_NAME}</Preview> {/* Email preview text */}
+      <Tailwind>
+        <Head />
+        <Body className="font-sans bg-white">
+          <Container className="max-w-xl">
+            <Heading>Welcome to {APP_NAME}</Heading>
+            <Section className="border border-solid border-gray-500 rounded-lg p-4 md:p-6 my-4">
+              <Text>Hi {name},</Text>
+              <Text>Thanks for signing up! Please confirm this is your email address so we can keep you updated about your orders.</Text>
+              <Button href={verifyUrl} className="bg-black text-white rounded px-4 py-2">
+                Verify email
+              </Button>
+              <Text className="text-gray-500">
+                This link expires in {expiresInMinutes >= 60 ? `${Math.round(expiresInMinutes / 60)} hours` : `${expiresInMinutes} minutes`}. You can get a new one from your profile page.
+              </Text>
+            </Section>
+            <Text className="text-xs text-gray-500">If you didn&apos;t create an account, you can ignore this email.</Text>
+          </Container>
+        </Body>
+      </Tailwind>
+    </Html>
+  );
+}
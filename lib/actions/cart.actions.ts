@@ -6,31 +6,14 @@
 
 import { cookies } from "next/headers";
 import { auth } from "@/auth";
-import { formatError, round2 } from "../utils";
+import { formatError, formatVariantOptions, isSameCartLine } from "../utils";
 import { cartItemSchema, insertCartSchema } from "../validator";
 import { prisma } from "@/db/prisma";
 import { CartItem } from "@/types";
 import { convertToPlainObject } from "../utils";
-import { z } from "zod";
 import { revalidatePath } from "next/cache";
-import { Prisma } from "@prisma/client";
-
-// Calculate cart price based on items
-const calcPrice = (items: z.infer<typeof cartItemSchema>[]) => {
-  //
-  const itemsPrice = round2(items.reduce((acc, item) => acc + Number(item.price) * item.qty, 0)),
-    shippingPrice = round2(itemsPrice > 100 ? 0 : 10), //
-    taxPrice = round2(0.15 * itemsPrice), //
-    totalPrice = round2(itemsPrice + shippingPrice + taxPrice); //
-
-  //
-  return {
-    itemsPrice: itemsPrice.toFixed(2), //
-    shippingPrice: shippingPrice.toFixed(2), //
-    taxPrice: taxPrice.toFixed(2), //
-    totalPrice: totalPrice.toFixed(2) //
-  };
-};
+import { evaluateCoupon } from "../coupon";
+import { calcCartPrice, getCartShippingOptions } from "../cart";
 
 //
 export async function addItemToCart(data: CartItem) {
@@ -57,14 +40,36 @@ export async function addItemToCart(data: CartItem) {
     //
     if (!product) throw new Error("Product not found");
 
+    // Find the selected variant. Products that are sold in variants cannot be added without one.
+    const variant = item.variantId
+      ? await prisma.productVariant.findFirst({
+          where: { id: item.variantId, productId: product.id }
+        })
+      : null;
+    if (item.variantId && !variant) throw new Error("Variant not found");
+    if (!variant && (await prisma.productVariant.count({ where: { productId: product.id } })) > 0) {
+      throw new Error("Please select an option");
+    }
+
+    // The stock available for the selected line comes from the variant when there is one.
+    const availableStock = variant ? variant.stock : product.stock;
+
+    // Price and name variant lines from the database so the cart shows the selected options.
+    if (variant) {
+      item.price = variant.price ?? product.price;
+      item.name = `${product.name} (${formatVariantOptions(variant.options as Record<string, string>)})`;
+    }
+
     //
     if (!cart) {
+      // If not enough stock, throw error
+      if (availableStock < 1) throw new Error("Not enough stock");
+
       // Create new cart object
       const newCart = insertCartSchema.parse({
         userId: userId,
-        items: [item],
         sessionCartId: sessionCartId,
-        ...calcPrice([item])
+        ...(await calcCartPrice([item], { userId })) // Prices the cart, with the item at the price it sells at now
       });
       // Add to database
       await prisma.cart.create({
@@ -81,28 +86,25 @@ export async function addItemToCart(data: CartItem) {
       };
     } else {
       // Check for existing item in cart
-      const existItem = (cart.items as CartItem[]).find(x => x.productId === item.productId);
+      const existItem = (cart.items as CartItem[]).find(x => isSameCartLine(x, item));
       // If not enough stock, throw error
       if (existItem) {
-        if (product.stock < existItem.qty + 1) {
+        if (availableStock < existItem.qty + 1) {
           throw new Error("Not enough stock");
         }
 
         // Increase quantity of existing item
-        (cart.items as CartItem[]).find(x => x.productId === item.productId)!.qty = existItem.qty + 1;
+        (cart.items as CartItem[]).find(x => isSameCartLine(x, item))!.qty = existItem.qty + 1;
       } else {
         // If stock, add item to cart
-        if (product.stock < 1) throw new Error("Not enough stock");
+        if (availableStock < 1) throw new Error("Not enough stock");
         cart.items.push(item);
       }
 
       // Save to database
       await prisma.cart.update({
         where: { id: cart.id },
-        data: {
-          items: cart.items as Prisma.CartUpdateitemsInput[],
-          ...calcPrice(cart.items as CartItem[])
-        }
+        data: await calcCartPrice(cart.items as CartItem[], { couponCode: cart.couponCode, userId, shippingRateId: cart.shippingRateId }) // Saves the items repriced with the running sales
       });
 
       revalidatePath(`/product/${product.slug}`);
@@ -141,12 +143,13 @@ export async function getMyCart() {
     itemsPrice: cart.itemsPrice.toString(), //
     totalPrice: cart.totalPrice.toString(), //
     shippingPrice: cart.shippingPrice.toString(), //
-    taxPrice: cart.taxPrice.toString() //
+    taxPrice: cart.taxPrice.toString(), //
+    discountPrice: cart.discountPrice.toString() //
   });
 }
 
 // Remove item from cart in database
-export async function removeItemFromCart(productId: string) {
+export async function removeItemFromCart(productId: string, variantId: string | null = null) {
   try {
     // Get session cart id
     const sessionCartId = (await cookies()).get("sessionCartId")?.value;
@@ -163,25 +166,23 @@ export async function removeItemFromCart(productId: string) {
     if (!cart) throw new Error("Cart not found");
 
     // Check if cart has item
-    const exist = (cart.items as CartItem[]).find(x => x.productId === productId);
+    const line = { productId, variantId };
+    const exist = (cart.items as CartItem[]).find(x => isSameCartLine(x, line));
     if (!exist) throw new Error("Item not found");
 
     // Check if cart has only one item
     if (exist.qty === 1) {
       // Remove item from cart
-      cart.items = (cart.items as CartItem[]).filter(x => x.productId !== exist.productId);
+      cart.items = (cart.items as CartItem[]).filter(x => !isSameCartLine(x, line));
     } else {
       // Decrease quantity of existing item
-      (cart.items as CartItem[]).find(x => x.productId === productId)!.qty = exist.qty - 1;
+      (cart.items as CartItem[]).find(x => isSameCartLine(x, line))!.qty = exist.qty - 1;
     }
 
     // Update cart in database
     await prisma.cart.update({
       where: { id: cart.id },
-      data: {
-        items: cart.items as Prisma.CartUpdateitemsInput[],
-        ...calcPrice(cart.items as CartItem[])
-      }
+      data: await calcCartPrice(cart.items as CartItem[], { couponCode: cart.couponCode, userId: cart.userId, shippingRateId: cart.shippingRateId }) // Saves the items repriced with the running sales
     });
 
     // Revalidate product page
@@ -189,9 +190,99 @@ export async function removeItemFromCart(productId: string) {
 
     return {
       success: true,
-      message: `${product.name}  ${(cart.items as CartItem[]).find(x => x.productId === productId) ? "updated in" : "removed from"} cart successfully`
+      message: `${product.name}  ${(cart.items as CartItem[]).find(x => isSameCartLine(x, line)) ? "updated in" : "removed from"} cart successfully`
     };
   } catch (error) {
     return { success: false, message: formatError(error) };
   }
 }
+
+/*
+  Applies a coupon code to the current user's cart.
+
+  - The coupon is validated against the cart items and, for signed in users, the per-user usage limit.
+  - The discount is stored on the cart as its own line and the totals are recalculated.
+*/
+export async function applyCouponToCart(code: string) {
+  try {
+    // Get session and user ID
+    const session = await auth();
+    const userId = session?.user?.id ? (session.user.id as string) : undefined;
+
+    // Get user cart
+    const cart = await getMyCart();
+    if (!cart || cart.items.length === 0) throw new Error("Your cart is empty");
+
+    // Validate the coupon. Unlike recalculating the cart, an invalid coupon is reported to the customer here.
+    const { coupon } = await evaluateCoupon(code, cart.items, userId);
+
+    // Update cart in database
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: await calcCartPrice(cart.items, { couponCode: coupon.code, userId, shippingRateId: cart.shippingRateId })
+    });
+
+    revalidatePath("/cart");
+
+    return { success: true, message: `Coupon ${coupon.code} applied` };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Removes the applied coupon from the current user's cart and recalculates the totals.
+export async function removeCouponFromCart() {
+  try {
+    // Get user cart
+    const cart = await getMyCart();
+    if (!cart) throw new Error("Cart not found");
+
+    // Update cart in database
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: await calcCartPrice(cart.items, { userId: cart.userId, shippingRateId: cart.shippingRateId })
+    });
+
+    revalidatePath("/cart");
+
+    return { success: true, message: "Coupon removed" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Lists the shipping options of the current user's cart for the shipping method step, cheapest first.
+  Returns an empty list of options when the cart is empty or no zone ships to the user's address.
+*/
+export async function getMyShippingOptions() {
+  const cart = await getMyCart();
+  if (!cart || cart.items.length === 0) return { options: [], selectedRateId: null };
+
+  const options = await getCartShippingOptions(cart.items, { itemsPrice: Number(cart.itemsPrice), userId: cart.userId });
+
+  return { options, selectedRateId: cart.shippingRateId };
+}
+
+// Selects the shipping rate of the current user's cart and recalculates the totals.
+export async function updateCartShippingRate(shippingRateId: string) {
+  try {
+    // Get user cart
+    const cart = await getMyCart();
+    if (!cart || cart.items.length === 0) throw new Error("Your cart is empty");
+
+    // Check the rate is offered for the cart and the shipping address
+    const prices = await calcCartPrice(cart.items, { couponCode: cart.couponCode, userId: cart.userId, shippingRateId });
+    if (prices.shippingRateId !== shippingRateId) throw new Error("Shipping method is not available for your address");
+
+    // Update cart in database
+    await prisma.cart.update({
+      where: { id: cart.id },
+      data: prices
+    });
+
+    return { success: true, message: "Shipping method updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -0,0 +1,136 @@
+"use server";
+
+import { prisma } from "@/db/prisma";
+import { convertToPlainObject, formatError } from "../utils";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { insertCategorySchema, updateCategorySchema } from "../validator";
+import { buildCategoryTree, flattenCategoryTree, getCategoryBranchIds, getCategoryPath } from "../categories";
+import { SEARCH_SUGGESTIONS_TAG } from "../search";
+import { z } from "zod";
+import { requirePermission } from "../auth-guard";
+
+// Counts the products directly in each category.
+async function getProductCounts() {
+  const counts = await prisma.product.groupBy({
+    by: ["categoryId"],
+    _count: true
+  });
+
+  return Object.fromEntries(counts.map(x => [x.categoryId, x._count]));
+}
+
+/*
+  Fetches the category tree with the number of products in each branch.
+  Used by the categories drawer and the category filter of the search page.
+*/
+export async function getCategoryTree() {
+  const [categories, productCounts] = await Promise.all([prisma.category.findMany(), getProductCounts()]);
+
+  return convertToPlainObject(buildCategoryTree(categories, productCounts));
+}
+
+/*
+  Fetches every category in tree order, with its depth in the tree and the number of products in its branch.
+  Used by the admin category manager and by the forms that let the admin pick categories.
+*/
+export async function getAllCategories() {
+  return flattenCategoryTree(await getCategoryTree());
+}
+
+// Fetches a single category. Returns null when the category doesn't exist.
+export async function getCategoryById(id: string) {
+  await requirePermission("products:write");
+
+  const data = await prisma.category.findFirst({
+    where: { id }
+  });
+
+  return data ? convertToPlainObject(data) : null;
+}
+
+/*
+  Fetches a category by its slug, with the path from its top-level category for breadcrumbs.
+  Returns null when the category doesn't exist.
+*/
+export async function getCategoryBySlug(slug: string) {
+  const categories = await prisma.category.findMany();
+
+  const category = categories.find(x => x.slug === slug);
+  if (!category) return null;
+
+  return convertToPlainObject({ ...category, path: getCategoryPath(categories, category.id) });
+}
+
+// Throws an error when the parent would put the category inside its own branch, which would make the tree a loop.
+async function assertParentAllowed(id: string, parentId: string | null) {
+  if (!parentId) return;
+
+  const categories = await prisma.category.findMany();
+  if (getCategoryBranchIds(categories, id).includes(parentId)) throw new Error("A category can't be moved inside itself");
+}
+
+// Creates a new category after validating the input data.
+export async function createCategory(data: z.infer<typeof insertCategorySchema>) {
+  await requirePermission("products:write");
+
+  try {
+    const category = insertCategorySchema.parse(data);
+
+    await prisma.category.create({ data: category });
+
+    revalidatePath("/admin/categories");
+    revalidateTag(SEARCH_SUGGESTIONS_TAG, "max"); // Clears the cached search suggestions
+
+    return { success: true, message: "Category created successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Updates a category after validating the input data. Moving a category moves its subcategories and products with it.
+export async function updateCategory(data: z.infer<typeof updateCategorySchema>) {
+  await requirePermission("products:write");
+
+  try {
+    const { id, ...category } = updateCategorySchema.parse(data);
+
+    const categoryExists = await prisma.category.findFirst({
+      where: { id }
+    });
+    if (!categoryExists) throw new Error("Category not found");
+    await assertParentAllowed(id, category.parentId);
+
+    await prisma.category.update({ where: { id }, data: category });
+
+    revalidatePath("/admin/categories");
+    revalidateTag(SEARCH_SUGGESTIONS_TAG, "max"); // Clears the cached search suggestions
+
+    return { success: true, message: "Category updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Deletes a category. Categories with subcategories or products can't be deleted, so no product is left without a category.
+export async function deleteCategory(id: string) {
+  await requirePermission("products:write");
+
+  try {
+    const categoryExists = await prisma.category.findFirst({
+      where: { id },
+      include: { _count: { select: { children: true, products: true } } }
+    });
+    if (!categoryExists) throw new Error("Category not found");
+    if (categoryExists._count.children > 0) throw new Error("Move or delete the subcategories first");
+    if (categoryExists._count.products > 0) throw new Error("Move the products of this category first");
+
+    await prisma.category.delete({ where: { id } });
+
+    revalidatePath("/admin/categories");
+    revalidateTag(SEARCH_SUGGESTIONS_TAG, "max"); // Clears the cached search suggestions
+
+    return { success: true, message: "Category deleted successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -0,0 +1,115 @@
+"use server";
+
+import { prisma } from "@/db/prisma"; // Imports the prisma client instance for database operations.
+import { convertToPlainObject, formatError } from "../utils";
+import { PAGE_SIZE } from "../constants";
+import { revalidatePath } from "next/cache";
+import { insertCouponSchema, updateCouponSchema } from "../validator";
+import { z } from "zod";
+import { requirePermission } from "../auth-guard";
+
+/*
+  Fetches a paginated list of coupons for the admin coupons page.
+
+  Returns:
+  - `data`: The coupons of the requested page, each with the number of times it was redeemed (`_count.redemptions`).
+  - `totalPages`: The total number of pages.
+*/
+export async function getAllCoupons({ limit = PAGE_SIZE, page }: { limit?: number; page: number }) {
+  await requirePermission("promotions:write");
+
+  const data = await prisma.coupon.findMany({
+    include: { _count: { select: { redemptions: true } } }, // Counts the redemptions of each coupon.
+    orderBy: { createdAt: "desc" },
+    skip: (page - 1) * limit,
+    take: limit
+  });
+
+  const dataCount = await prisma.coupon.count();
+
+  return {
+    data: convertToPlainObject(data),
+    totalPages: Math.ceil(dataCount / limit)
+  };
+}
+
+// Fetches a single coupon by its id. Returns null when the coupon doesn't exist.
+export async function getCouponById(couponId: string) {
+  await requirePermission("promotions:write");
+
+  const data = await prisma.coupon.findFirst({
+    where: { id: couponId }
+  });
+
+  return data ? convertToPlainObject(data) : null;
+}
+
+/*
+  Creates a new coupon after validating the input data.
+  - Codes are stored in upper case so customers can type them in any case.
+*/
+export async function createCoupon(data: z.infer<typeof insertCouponSchema>) {
+  await requirePermission("promotions:write");
+
+  try {
+    const coupon = insertCouponSchema.parse(data);
+
+    await prisma.coupon.create({
+      data: { ...coupon, code: coupon.code.toUpperCase() }
+    });
+
+    revalidatePath("/admin/coupons");
+
+    return { success: true, message: "Coupon created successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Updates an existing coupon after validating the input data.
+export async function updateCoupon(data: z.infer<typeof updateCouponSchema>) {
+  await requirePermission("promotions:write");
+
+  try {
+    const { id, ...coupon } = updateCouponSchema.parse(data);
+
+    const couponExists = await prisma.coupon.findFirst({
+      where: { id }
+    });
+    if (!couponExists) throw new Error("Coupon not found");
+
+    await prisma.coupon.update({
+      where: { id },
+      data: { ...coupon, code: coupon.code.toUpperCase() }
+    });
+
+    revalidatePath("/admin/coupons");
+
+    return { success: true, message: "Coupon updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Deletes a coupon from the database.
+  - Its redemptions are deleted with it, while the orders keep their coupon code and discount.
+*/
+export async function deleteCoupon(id: string) {
+  await requirePermission("promotions:write");
+
+  try {
+    const couponExists = await prisma.coupon.findFirst({
+      where: { id }
+    });
+    if (!couponExists) throw new Error("Coupon not found");
+
+    await prisma.coupon.delete({ where: { id } });
+
+    revalidatePath("/admin/coupons");
+
+    return { success: true, message: "Coupon deleted successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -0,0 +1,202 @@
+"use server";
+
+import { prisma } from "@/db/prisma"; // Imports the prisma client instance for database operations.
+import { convertToPlainObject, formatError } from "../utils";
+import { revalidatePath } from "next/cache";
+import { insertHomepageSectionSchema, updateHomepageSectionSchema } from "../validator";
+import { assertValidSectionContent, getNextPosition, getVisibleSections, HomepageSectionContent, moveSection } from "../homepage";
+import { getProductsByRule } from "./product.actions";
+import { z } from "zod";
+import { requirePermission } from "../auth-guard";
+
+// Loads every homepage section in order of position. It isn't guarded, as the homepage shows the published ones to everyone.
+async function loadHomepageSections() {
+  const data = await prisma.homepageSection.findMany({
+    orderBy: [{ position: "asc" }, { id: "asc" }]
+  });
+
+  return convertToPlainObject(data.map(section => ({ ...section, content: section.content as HomepageSectionContent })));
+}
+
+// Fetches every homepage section in order of position, for the admin homepage page.
+export async function getAllHomepageSections() {
+  await requirePermission("content:write");
+
+  return loadHomepageSections();
+}
+
+// Fetches a single homepage section by its id. Returns null when the section doesn't exist.
+export async function getHomepageSectionById(sectionId: string) {
+  await requirePermission("content:write");
+
+  const data = await prisma.homepageSection.findFirst({
+    where: { id: sectionId }
+  });
+
+  return data ? convertToPlainObject({ ...data, content: data.content as HomepageSectionContent }) : null;
+}
+
+/*
+  Fetches the sections shown on the homepage, with what each of them displays:
+  - `slides`: the slides of a hero carousel, followed by the banners of the featured products when included.
+  - `products`: the products of a product row, picked by its rule.
+  - `sale`: the sale of a countdown, the running sale ending soonest by default. A countdown without a running sale is left out.
+
+  `includeDrafts` and `at` are used by the admin preview, to check drafts and scheduled sections before they go live, so they need the content:write permission.
+*/
+export async function getHomepageSections({ includeDrafts = false, at }: { includeDrafts?: boolean; at?: Date } = {}) {
+  if (includeDrafts || at) await requirePermission("content:write");
+
+  const now = at ?? new Date();
+  const sections = getVisibleSections(await loadHomepageSections(), { now, includeDrafts });
+
+  const resolved = await Promise.all(
+    sections.map(async section => {
+      const { content } = section;
+      let slides: { image: string; title: string; subtitle?: string | null; href: string }[] = [];
+      let products: Awaited<ReturnType<typeof getProductsByRule>> = [];
+      let sale: { name: string; description: string | null; endsAt: Date } | null = null;
+
+      switch (section.type) {
+        case "hero": {
+          const featured = content.includeFeaturedProducts ? await prisma.product.findMany({ where: { isFeatured: true, banner: { not: null } }, orderBy: { createdAt: "desc" }, take: 4 }) : [];
+          slides = [...content.slides, ...featured.map(product => ({ image: product.banner!, title: product.name, href: `/product/${product.slug}` }))];
+          break;
+        }
+        case "product_row":
+          products = await getProductsByRule(content);
+          break;
+        case "countdown":
+          sale = await prisma.sale.findFirst({
+            where: { ...(content.saleId ? { id: content.saleId } : {}), isActive: true, startsAt: { lte: now }, endsAt: { gt: now } },
+            orderBy: { endsAt: "asc" }
+          });
+          break;
+      }
+
+      return { ...section, slides, products, sale };
+    })
+  );
+
+  // Leaves out the sections with nothing to show (e.g. a countdown when no sale is running).
+  return convertToPlainObject(resolved.filter(section => (section.type !== "countdown" || section.sale) && (section.type !== "hero" || section.slides.length > 0)));
+}
+
+/*
+  Creates a new homepage section after validating the input data.
+  - The section is added after the last section.
+*/
+export async function createHomepageSection(data: z.infer<typeof insertHomepageSectionSchema>) {
+  await requirePermission("content:write");
+
+  try {
+    const section = insertHomepageSectionSchema.parse(data);
+    assertValidSectionContent(section.type, section.content);
+    if (section.startsAt && section.endsAt && section.endsAt <= section.startsAt) throw new Error("Section must end after it starts");
+
+    const sections = await prisma.homepageSection.findMany({ select: { position: true } });
+
+    await prisma.homepageSection.create({
+      data: { ...section, position: getNextPosition(sections) }
+    });
+
+    revalidatePath("/admin/homepage");
+    revalidatePath("/");
+
+    return { success: true, message: "Section created successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Updates an existing homepage section after validating the input data.
+export async function updateHomepageSection(data: z.infer<typeof updateHomepageSectionSchema>) {
+  await requirePermission("content:write");
+
+  try {
+    const { id, ...section } = updateHomepageSectionSchema.parse(data);
+    assertValidSectionContent(section.type, section.content);
+    if (section.startsAt && section.endsAt && section.endsAt <= section.startsAt) throw new Error("Section must end after it starts");
+
+    const sectionExists = await prisma.homepageSection.findFirst({
+      where: { id }
+    });
+    if (!sectionExists) throw new Error("Section not found");
+
+    await prisma.homepageSection.update({
+      where: { id },
+      data: section
+    });
+
+    revalidatePath("/admin/homepage");
+    revalidatePath("/");
+
+    return { success: true, message: "Section updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Publishes a homepage section, or takes it back to a draft.
+export async function setHomepageSectionPublished(id: string, isPublished: boolean) {
+  await requirePermission("content:write");
+
+  try {
+    const sectionExists = await prisma.homepageSection.findFirst({
+      where: { id }
+    });
+    if (!sectionExists) throw new Error("Section not found");
+
+    await prisma.homepageSection.update({
+      where: { id },
+      data: { isPublished }
+    });
+
+    revalidatePath("/admin/homepage");
+    revalidatePath("/");
+
+    return { success: true, message: isPublished ? "Section published" : "Section unpublished" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Moves a homepage section one place up or down, renumbering the positions of every section.
+export async function moveHomepageSection(id: string, direction: "up" | "down") {
+  await requirePermission("content:write");
+
+  try {
+    const sections = await prisma.homepageSection.findMany({ select: { id: true, position: true } });
+    if (!sections.some(x => x.id === id)) throw new Error("Section not found");
+
+    await prisma.$transaction(moveSection(sections, id, direction).map(({ id, position }) => prisma.homepageSection.update({ where: { id }, data: { position } })));
+
+    revalidatePath("/admin/homepage");
+    revalidatePath("/");
+
+    return { success: true, message: "Section moved" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Deletes a homepage section from the database.
+export async function deleteHomepageSection(id: string) {
+  await requirePermission("content:write");
+
+  try {
+    const sectionExists = await prisma.homepageSection.findFirst({
+      where: { id }
+    });
+    if (!sectionExists) throw new Error("Section not found");
+
+    await prisma.homepageSection.delete({ where: { id } });
+
+    revalidatePath("/admin/homepage");
+    revalidatePath("/");
+
+    return { success: true, message: "Section deleted successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
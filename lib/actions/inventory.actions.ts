@@ -0,0 +1,28 @@
+"use server";
+
+import { prisma } from "@/db/prisma";
+import { convertToPlainObject } from "../utils";
+import { PAGE_SIZE } from "../constants";
+import { requirePermission } from "../auth-guard";
+
+// Fetches the stock history of a product for the admin stock page, newest first, with the variant options and the user who made each change.
+export async function getInventoryMovements({ productId, limit = PAGE_SIZE, page }: { productId: string; limit?: number; page: number }) {
+  await requirePermission(["products:write", "inventory:write"]);
+
+  const [data, dataCount, variants] = await Promise.all([
+    prisma.inventoryMovement.findMany({
+      where: { productId },
+      include: { actor: { select: { name: true } } },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      skip: (page - 1) * limit
+    }),
+    prisma.inventoryMovement.count({ where: { productId } }),
+    prisma.productVariant.findMany({ where: { productId }, select: { id: true, options: true } })
+  ]);
+
+  return {
+    data: convertToPlainObject(data.map(movement => ({ ...movement, variantOptions: (variants.find(x => x.id === movement.variantId)?.options as Record<string, string> | undefined) ?? null }))),
+    totalPages: Math.ceil(dataCount / limit)
+  };
+}
@@ -5,19 +5,27 @@
 "use server";
 
 import { isRedirectError } from "next/dist/client/components/redirect-error";
-import { formatError } from "../utils";
+import { formatError, round2 } from "../utils";
 import { auth } from "@/auth";
 import { getMyCart } from "./cart.actions";
 import { getUserById } from "./user.actions";
-import { insertOrderSchema } from "../validator";
+import { insertOrderSchema, refundOrderSchema } from "../validator";
 import { prisma } from "@/db/prisma";
 import { CartItem, PaymentResult, ShippingAddress } from "@/types";
 import { convertToPlainObject } from "../utils";
 import { revalidatePath } from "next/cache";
-import { paypal } from "../paypal";
-import { PAGE_SIZE } from "../constants";
+import { ORDER_RESERVATION_MINUTES, PAGE_SIZE, REQUIRE_EMAIL_VERIFICATION } from "../constants";
 import { Prisma } from "@prisma/client";
 import { sendPurchaseReceipt } from "@/email";
+import { evaluateCoupon, redeemCoupon } from "../coupon";
+import { priceCart } from "../cart";
+import { z } from "zod";
+import { isOrderPaid, isOrderRefundable, isOrderReservationExpired } from "../order-status";
+import { lockOrder, recordRefund, reserveOrderItems, restockOrderItems, transitionOrderStatus } from "../orders";
+import { recordInventoryMovement } from "../inventory";
+import { getPaymentProvider, isPaymentMethodEnabled } from "../payments";
+import { payCancelledOrder } from "../payments/late-payment";
+import { requirePermission } from "../auth-guard";
 
 // Create an order
 export async function createOrder() {
@@ -38,6 +46,11 @@ export async function createOrder() {
       return { success: false, message: "Your cart is empty", redirectTo: "/cart" };
     }
 
+    // When required, the email address must be verified first. The profile page can send a new verification link.
+    if (REQUIRE_EMAIL_VERIFICATION && !user.emailVerified) {
+      return { success: false, message: "Please verify your email address before placing an order", redirectTo: "/user/profile" };
+    }
+
     //
     if (!user.address) {
       return { success: false, message: "Please add a shipping address", redirectTo: "/shipping-address" };
@@ -48,34 +61,73 @@ export async function createOrder() {
       return { success: false, message: "Please select a payment method", redirectTo: "/payment-method" };
     }
 
+    // Check the applied coupon again, as the usage limits may have been reached since it was applied to the cart.
+    const coupon = cart.couponCode ? (await evaluateCoupon(cart.couponCode, cart.items, user.id)).coupon : null;
+
+    // Recalculate the prices and the tax of each line for the current shipping address, which may have changed since the cart was priced.
+    // The items are repriced too, so a sale that started or ended since is taken into account.
+    const { prices, items, lineTaxes, pricesIncludeTax } = await priceCart(cart.items, { couponCode: coupon?.code, userId: user.id, shippingRateId: cart.shippingRateId });
+    const shippingRate = prices.shippingRateId ? await prisma.shippingRate.findFirst({ where: { id: prices.shippingRateId } }) : null;
+
+    //
+    if (!shippingRate) {
+      return { success: false, message: "We don't ship to your address yet", redirectTo: "/shipping-address" };
+    }
+
     // Create order object
     const order = insertOrderSchema.parse({
       userId: user.id, //
       shippingAddress: user.address, //
       paymentMethod: user.paymentMethod, //
-      itemsPrice: cart.itemsPrice, //
-      shippingPrice: cart.shippingPrice, //
-      taxPrice: cart.taxPrice, //
-      totalPrice: cart.totalPrice //
+      itemsPrice: prices.itemsPrice, //
+      shippingPrice: prices.shippingPrice, //
+      taxPrice: prices.taxPrice, //
+      totalPrice: prices.totalPrice, //
+      discountPrice: prices.discountPrice, //
+      couponCode: coupon?.code ?? null, //
+      shippingMethod: shippingRate.name, //
+      pricesIncludeTax //
     });
 
+    // The stock of the items stays reserved until the order is paid, or until the reservation expires.
+    // Orders paid on delivery keep their reservation until they are paid or cancelled.
+    const reservationExpiresAt = getPaymentProvider(order.paymentMethod).paidOnDelivery ? null : new Date(Date.now() + ORDER_RESERVATION_MINUTES * 60 * 1000);
+
     // Create a transaction to create order and order items in the database
     const insertedOrderId = await prisma.$transaction(async tx => {
-      // Create order
-      const insertedOrder = await tx.order.create({ data: order });
+      // Create order, recording its initial status in the status history
+      const insertedOrder = await tx.order.create({
+        data: {
+          ...order,
+          stockReserved: true,
+          reservationExpiresAt,
+          statusHistory: { create: { toStatus: "pending", changedById: user.id } }
+        }
+      });
+
+      // Reserve the stock of the items, failing when any of them is no longer in stock, which rolls back the order
+      await reserveOrderItems(tx, items as CartItem[], { orderId: insertedOrder.id, actorId: user.id });
 
-      // Create order items from the cart items
-      for (const item of cart.items as CartItem[]) {
+      // Create order items from the cart items, with the tax of each line
+      for (const [index, item] of (items as CartItem[]).entries()) {
         //
         await tx.orderItem.create({
           //
           data: {
             ...item, //
             price: item.price, //
+            taxRate: lineTaxes[index].rate, //
+            taxAmount: lineTaxes[index].amount, //
             orderId: insertedOrder.id //
           }
         });
       }
+
+      // Record the coupon redemption, which counts towards the usage limits of the coupon. The limits are checked again with the coupon locked.
+      if (coupon) {
+        await redeemCoupon(tx, coupon, { userId: user.id, orderId: insertedOrder.id, discount: prices.discountPrice });
+      }
+
       // Clear cart
       await tx.cart.update({
         where: { id: cart.id }, //
@@ -85,7 +137,10 @@ export async function createOrder() {
           totalPrice: 0, //
           shippingPrice: 0, //
           taxPrice: 0, //
-          itemsPrice: 0 //
+          itemsPrice: 0, //
+          discountPrice: 0, //
+          couponCode: null, //
+          shippingRateId: null //
         }
       });
 
@@ -115,14 +170,19 @@ export async function getOrderById(orderId: string) {
     //
     include: {
       orderitems: true, //
-      user: { select: { name: true, email: true } } //
+      user: { select: { name: true, email: true } }, //
+      statusHistory: { orderBy: { createdAt: "asc" }, include: { changedBy: { select: { name: true } } } }, // The status timeline, oldest change first
+      refunds: { orderBy: { createdAt: "asc" } } // The refunds issued for the order
     }
   });
   return convertToPlainObject(data); //
 }
 
-// Create a Paypal Order
-export async function createPayPalOrder(orderId: string) {
+/*
+  Starts the payment of an order with the provider of its payment method (e.g. creates a PayPal order).
+  The id of the payment is stored with the order, so the capture can check that the approved payment belongs to it.
+*/
+export async function createPaymentIntent(orderId: string) {
   try {
     // Get order from database
     const order = await prisma.order.findFirst({
@@ -130,41 +190,49 @@ export async function createPayPalOrder(orderId: string) {
         id: orderId
       }
     });
-    if (order) {
-      // Create a paypal order
-      const paypalOrder = await paypal.createOrder(Number(order.totalPrice));
-
-      // Update the order with the paypal order id
-      await prisma.order.update({
-        where: {
-          id: orderId
-        },
-        data: {
-          paymentResult: {
-            id: paypalOrder.id,
-            email_address: "",
-            status: "",
-            pricePaid: "0"
-          }
+    if (!order) throw new Error("Order not found");
+    if (order.status !== "pending") throw new Error("Order is already paid");
+    if (isOrderReservationExpired(order)) throw new Error("Order reservation has expired, please place a new order");
+
+    const provider = getPaymentProvider(order.paymentMethod);
+    if (!provider.createIntent) throw new Error(`${order.paymentMethod} payments can't be started online`);
+
+    // Create the payment at the provider
+    const intent = await provider.createIntent(order);
+
+    // Update the order with the payment id
+    await prisma.order.update({
+      where: {
+        id: orderId
+      },
+      data: {
+        paymentResult: {
+          id: intent.id,
+          email_address: "",
+          status: "",
+          pricePaid: "0"
         }
-      });
+      }
+    });
 
-      // Return the paypal order id
-      return {
-        success: true,
-        message: "PayPal order created successfully",
-        data: paypalOrder.id
-      };
-    } else {
-      throw new Error("Order not found");
-    }
+    // Return the payment id
+    return {
+      success: true,
+      message: "Payment created successfully",
+      data: intent.id
+    };
   } catch (err) {
     return { success: false, message: formatError(err) };
   }
 }
 
-// Approve Paypal Order
-export async function approvePayPalOrder(orderId: string, data: { orderID: string }) {
+/*
+  Completes the payment of an order approved by the customer, with the provider of its payment method.
+
+  Parameters:
+  - `data.intentId`: The id of the payment approved by the customer (e.g. the PayPal order id), if the provider started one.
+*/
+export async function capturePayment(orderId: string, data: { intentId?: string } = {}) {
   try {
     // Find the order in the database
     const order = await prisma.order.findFirst({
@@ -176,22 +244,31 @@ export async function approvePayPalOrder(orderId: string, data: { orderID: strin
     //
     if (!order) throw new Error("Order not found");
 
-    // Check if the order is already paid
-    const captureData = await paypal.capturePayment(data.orderID); //
+    if (isOrderReservationExpired(order) || order.status === "cancelled") throw new Error("Order reservation has expired, please place a new order");
 
-    //
-    if (!captureData || captureData.id !== (order.paymentResult as PaymentResult)?.id || captureData.status !== "COMPLETED") throw new Error("Error in paypal payment");
-
-    // Update order to paid
-    await updateOrderToPaid({
-      orderId, //
-      paymentResult: {
-        id: captureData.id, //
-        status: captureData.status, //
-        email_address: captureData.payer.email_address, //
-        pricePaid: captureData.purchase_units[0]?.payments?.captures[0]?.amount?.value //
-      }
-    });
+    // The payment method may have been disabled since the order was placed
+    if (!isPaymentMethodEnabled(order.paymentMethod)) throw new Error(`${order.paymentMethod} payments are not available`);
+
+    const provider = getPaymentProvider(order.paymentMethod);
+    if (!provider.capture) throw new Error(`${order.paymentMethod} payments can't be captured`);
+
+    // Capture the payment at the provider
+    const paymentResult = await provider.capture(order, data);
+
+    // Update order to paid, on behalf of the customer who approved the payment.
+    // The provider webhook may have confirmed the payment already, in which case there is nothing left to update.
+    const session = await auth();
+    const current = await prisma.order.findFirst({ where: { id: orderId } });
+    if (current?.status === "pending") {
+      await updateOrderToPaid({
+        orderId, //
+        changedById: session?.user?.id, //
+        paymentResult
+      });
+    } else if (current?.status === "cancelled") {
+      // The order was cancelled while the customer approved the payment, so it is paid if its stock is still available, or refunded
+      if (!(await payCancelledOrder(provider, current, paymentResult))) throw new Error("Order reservation has expired and your payment has been refunded, please place a new order");
+    }
 
     //
     revalidatePath(`/order/${orderId}`);
@@ -199,7 +276,7 @@ export async function approvePayPalOrder(orderId: string, data: { orderID: strin
     //
     return {
       success: true,
-      message: "Your order has been successfully paid by PayPal"
+      message: `Your order has been successfully paid by ${order.paymentMethod}`
     };
   } catch (err) {
     return { success: false, message: formatError(err) };
@@ -207,7 +284,7 @@ export async function approvePayPalOrder(orderId: string, data: { orderID: strin
 }
 
 // Update Order to Paid in Database
-export async function updateOrderToPaid({ orderId, paymentResult }: { orderId: string; paymentResult?: PaymentResult }) {
+export async function updateOrderToPaid({ orderId, paymentResult, changedById }: { orderId: string; paymentResult?: PaymentResult; changedById?: string }) {
   // Find the order in the database and include the order items
   const order = await prisma.order.findFirst({
     where: {
@@ -222,25 +299,45 @@ export async function updateOrderToPaid({ orderId, paymentResult }: { orderId: s
   if (!order) throw new Error("Order not found");
 
   //
-  if (order.isPaid) throw new Error("Order is already paid");
+  if (isOrderPaid(order.status)) throw new Error("Order is already paid");
 
   // Transaction to update the order and update the product quantities
   await prisma.$transaction(async tx => {
-    // Update all item quantities in the database
-    for (const item of order.orderitems) {
-      await tx.product.update({
-        where: { id: item.productId }, //
-        data: { stock: { increment: -item.qty } } //
-      });
+    // The stock is reserved when the order is placed. Orders placed before stock reservations take their stock when paid.
+    // A cancelled order paid late takes its stock again, only while enough is left (see lib/payments/late-payment.ts).
+    if (order.status === "cancelled") {
+      await reserveOrderItems(tx, order.orderitems, { orderId, actorId: changedById });
+    } else if (!order.stockReserved) {
+      for (const item of order.orderitems) {
+        await tx.product.update({
+          where: { id: item.productId }, //
+          data: { stock: { increment: -item.qty } } //
+        });
+
+        // Decrement the stock of the purchased variant as well
+        if (item.variantId) {
+          await tx.productVariant.update({
+            where: { id: item.variantId },
+            data: { stock: { increment: -item.qty } }
+          });
+        }
+
+        await recordInventoryMovement(tx, { productId: item.productId, variantId: item.variantId, quantity: -item.qty, reason: "sale", orderId, actorId: changedById });
+      }
     }
 
-    // Set the order to paid
-    await tx.order.update({
-      where: { id: orderId },
+    // Set the order to paid, which ends its reservation
+    await transitionOrderStatus(tx, {
+      orderId,
+      from: order.status,
+      to: "paid",
+      changedById,
+      note: order.status === "cancelled" ? "Payment received after the order was cancelled, stock reserved again" : undefined,
       data: {
-        isPaid: true, //
         paidAt: new Date(), //
-        paymentResult //
+        paymentResult, //
+        stockReserved: true, //
+        reservationExpiresAt: null //
       }
     });
   });
@@ -304,6 +401,8 @@ type SalesDataType = {
 
 // Get sales data and order summary
 export async function getOrderSummary() {
+  await requirePermission("reports:view");
+
   // Get counts for each resource
   const ordersCount = await prisma.order.count(); // Counts the total number of orders in the database.
   const productsCount = await prisma.product.count(); // Counts the total number of products in the database.
@@ -374,6 +473,8 @@ export async function getOrderSummary() {
     - `totalPages`: The total number of pages based on the order count and page size.
 */
 export async function getAllOrders({ limit = PAGE_SIZE, page, query }: { limit?: number; page: number; query: string }) {
+  await requirePermission("orders:view");
+
   /*
     Constructs a query filter for searching orders by user name.
     - If a query is provided and it's not "all", it filters orders based on the user's name.
@@ -440,13 +541,26 @@ export async function getAllOrders({ limit = PAGE_SIZE, page, query }: { limit?:
   - An object containing `success` (true/false) and a `message` indicating the result of the deletion.
 */
 export async function deleteOrder(id: string) {
+  await requirePermission("orders:refund");
+
   try {
     /*
       Deletes the order from the database using Prisma.
-      - `prisma.order.delete`: Executes the delete operation on the "order" table.
+      - `tx.order.delete`: Executes the delete operation on the "order" table.
       - `{ where: { id } }`: Specifies the condition to identify the order to delete based on its unique `id`.
     */
-    await prisma.order.delete({ where: { id } });
+    const session = await auth();
+
+    await prisma.$transaction(async tx => {
+      const order = await tx.order.findFirst({ where: { id }, include: { orderitems: true } });
+
+      // Releases the stock reserved by an unpaid order, which would otherwise stay taken
+      if (order?.status === "pending" && order.stockReserved) {
+        await restockOrderItems(tx, order.orderitems, { reason: "reservation", orderId: id, actorId: session?.user?.id, note: "Order deleted" });
+      }
+
+      await tx.order.delete({ where: { id } });
+    });
 
     /*
       Triggers revalidation of the "/admin/orders" path to ensure the updated data is reflected in the UI.
@@ -483,12 +597,16 @@ export async function deleteOrder(id: string) {
   - An object with `success: false` and an error message if the update fails.
 */
 export async function updateOrderToPaidByCOD(orderId: string) {
+  await requirePermission("orders:fulfil");
+
   try {
     /*
       Calls the `updateOrderToPaid` function to update the order's payment status.
       - `{ orderId }`: Passes the order's unique identifier to the function.
+      - `changedById`: Records the admin who marked the order as paid in the status history.
     */
-    await updateOrderToPaid({ orderId });
+    const session = await auth();
+    await updateOrderToPaid({ orderId, changedById: session?.user?.id });
 
     /*
       Revalidates the specific order page to ensure the UI reflects the updated payment status.
@@ -522,41 +640,15 @@ export async function updateOrderToPaidByCOD(orderId: string) {
   - An object with `success: false` and an error message if the update fails.
 */
 export async function deliverOrder(orderId: string) {
-  try {
-    /*
-      Retrieves the order from the database using its unique identifier.
-      - `findFirst()`: Finds the first order that matches the given `id`.
-    */
-    const order = await prisma.order.findFirst({
-      where: {
-        id: orderId // Searches for an order with the given ID.
-      }
-    });
-
-    /*
-      If the order does not exist, an error is thrown.
-      - Prevents updating a non-existent order.
-    */
-    if (!order) throw new Error("Order not found");
-
-    /*
-      If the order is not paid, an error is thrown.
-      - Ensures that only paid orders can be marked as delivered.
-    */
-    if (!order.isPaid) throw new Error("Order is not paid");
+  await requirePermission("orders:fulfil");
 
+  try {
     /*
-      Updates the order status to "delivered" in the database.
-      - `isDelivered: true`: Marks the order as delivered.
-      - `deliveredAt: new Date()`: Stores the current timestamp as the delivery date.
+      Moves the order to the "delivered" status.
+      - Only paid orders (paid, processing or shipped) can be marked as delivered.
+      - `deliveredAt` stores the current timestamp as the delivery date.
     */
-    await prisma.order.update({
-      where: { id: orderId }, // Finds the order by its ID.
-      data: {
-        isDelivered: true, // Updates the delivery status.
-        deliveredAt: new Date() // Sets the delivery timestamp.
-      }
-    });
+    await changeOrderStatus(orderId, "delivered");
 
     /*
       Revalidates the specific order page to ensure the UI reflects the updated delivery status.
@@ -578,3 +670,119 @@ export async function deliverOrder(orderId: string) {
     return { success: false, message: formatError(err) };
   }
 }
+
+/*
+  Moves an order to a new status and records the change in the status history.
+
+  - "delivered" also stores the delivery date.
+  - Cancelling an unpaid order puts the stock reserved for its items back. Paid orders are cancelled by refunding them (`refundOrder`).
+  - Orders are only marked as paid by the payment flow (`updateOrderToPaid`) and as refunded by issuing a refund (`refundOrder`).
+*/
+async function changeOrderStatus(orderId: string, status: string, note?: string) {
+  if (status === "paid") throw new Error("Orders are marked as paid by their payment");
+  if (status === "refunded" || status === "partially_refunded") throw new Error("Orders are marked as refunded by issuing a refund");
+
+  const session = await auth();
+
+  const order = await prisma.order.findFirst({
+    where: { id: orderId },
+    include: { orderitems: true }
+  });
+  if (!order) throw new Error("Order not found");
+  if (status === "cancelled" && isOrderPaid(order.status)) throw new Error("Paid orders are cancelled by refunding them");
+
+  await prisma.$transaction(async tx => {
+    await transitionOrderStatus(tx, {
+      orderId,
+      from: order.status,
+      to: status,
+      changedById: session?.user?.id,
+      note,
+      data: status === "delivered" ? { deliveredAt: new Date() } : undefined
+    });
+
+    // Only unpaid orders are cancelled, so their stock was only reserved.
+    if (status === "cancelled" && order.stockReserved) {
+      await restockOrderItems(tx, order.orderitems, { reason: "reservation", orderId, actorId: session?.user?.id, note: "Order cancelled" });
+      await tx.order.update({ where: { id: orderId }, data: { stockReserved: false, reservationExpiresAt: null } });
+    }
+  });
+}
+
+/*
+  Updates the status of an order from the admin order page (e.g. "processing", "shipped" or "cancelled").
+
+  Returns:
+  - An object with `success: true` and a success message if the status is updated.
+  - An object with `success: false` and an error message if the transition isn't allowed.
+*/
+export async function updateOrderStatus(orderId: string, status: string, note?: string) {
+  await requirePermission("orders:fulfil");
+
+  try {
+    await changeOrderStatus(orderId, status, note);
+
+    revalidatePath(`/order/${orderId}`);
+
+    return { success: true, message: `Order marked as ${status}` };
+  } catch (err) {
+    return { success: false, message: formatError(err) };
+  }
+}
+
+/*
+  Refunds an order, in full or in part, from the admin order page.
+
+  - The payment is refunded by the provider of the payment method (e.g. a Stripe refund, or a refund of the PayPal capture).
+  - Payments of providers that can't refund (cash on delivery) are recorded as manual refunds, as the money is returned outside the app.
+  - The amount can't exceed what is left to refund on the order.
+  - The items are only put back in stock by the refund of what is left, as a partially refunded order can still be shipped.
+*/
+export async function refundOrder(data: z.infer<typeof refundOrderSchema>) {
+  await requirePermission("orders:refund");
+
+  try {
+    const { orderId, amount, reason, restock } = refundOrderSchema.parse(data);
+    const session = await auth();
+
+    /*
+      The order is locked until the refund is recorded, so a double submit or two admins refunding at once wait for each other
+      and the second one checks the amount against what is left after the first. The provider refund runs inside, hence the longer timeout.
+    */
+    await prisma.$transaction(
+      async tx => {
+        const order = await lockOrder(tx, orderId);
+        if (!order) throw new Error("Order not found");
+        if (!isOrderRefundable(order.status)) throw new Error("Order can't be refunded");
+
+        // Checks the amount against what is left to refund
+        const refundedPrice = order.refunds.reduce((acc, x) => acc + Number(x.amount), 0);
+        const remaining = round2(Number(order.totalPrice) - refundedPrice);
+        if (Number(amount) > remaining) throw new Error(`Amount can't exceed ${remaining.toFixed(2)}`);
+        if (restock && Number(amount) < remaining) throw new Error("Items can only be put back in stock when refunding the whole order");
+
+        // Issues the refund at the payment provider. Providers that can't refund online (cash on delivery) record a manual refund.
+        const provider = getPaymentProvider(order.paymentMethod);
+        const providerRefundId = provider.refund ? (await provider.refund(order, Number(amount))).providerRefundId : undefined;
+
+        // Records the refund and updates the order status
+        await recordRefund(tx, {
+          orderId,
+          amount: Number(amount),
+          provider: providerRefundId ? order.paymentMethod : "manual",
+          providerRefundId,
+          reason: reason || undefined,
+          restock,
+          createdById: session?.user?.id
+        });
+      },
+      { timeout: 30000 }
+    );
+
+    revalidatePath(`/order/${orderId}`);
+
+    return { success: true, message: `Refunded ${amount} successfully` };
+  } catch (err) {
+    return { success: false, message: formatError(err) };
+  }
+}
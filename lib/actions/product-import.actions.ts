@@ -0,0 +1,175 @@
+/**
+ * This module imports the catalog from a CSV file (see lib/product-csv.ts for the format).
+ * Rows are matched to the products by slug: existing products are updated and new slugs create products.
+ * The import is planned first so the admin can review a dry run with the errors of each row, then applied in batches.
+ **/
+
+"use server";
+
+import { revalidatePath, revalidateTag } from "next/cache";
+import { after } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/db/prisma";
+import { assertValidSalePrice } from "../sale";
+import { formatError } from "../utils";
+import { insertProductSchema } from "../validator";
+import { parseCsvRecords } from "../csv";
+import { csvRecordToProduct, REQUIRED_PRODUCT_CSV_COLUMNS } from "../product-csv";
+import { IMPORT_BATCH_SIZE, IMPORT_IMAGE_BASE_PATH, IMPORT_MAX_ROWS } from "../constants";
+import { SEARCH_SUGGESTIONS_TAG } from "../search";
+import { recordInventoryMovement } from "../inventory";
+import { queueStockNotifications, sendQueuedStockNotifications } from "../stock-notifications";
+import { z } from "zod";
+import { requirePermission } from "../auth-guard";
+
+// The product fields of a row. Variants are managed in the product form, so the import leaves them as they are.
+const importProductSchema = insertProductSchema.omit({ variants: true });
+
+// A row of the import once validated: the product to create or update, or the errors preventing it.
+type PlannedRow = {
+  line: number;
+  slug: string;
+  name: string;
+  action: "create" | "update";
+  errors: string[];
+  data?: z.infer<typeof importProductSchema>;
+  existing?: { id: string; stock: number; hasVariants: boolean };
+};
+
+/*
+  Validates every row of the CSV with `insertProductSchema` and works out whether it creates or updates a product.
+  - Throws an error when the file is empty, too large or misses a required column.
+  - A slug appearing twice in the file is an error on its later rows.
+*/
+async function planProductImport(csv: string): Promise<PlannedRow[]> {
+  const { columns, records } = parseCsvRecords(csv);
+
+  if (records.length === 0) throw new Error("The file has no products");
+  if (records.length > IMPORT_MAX_ROWS) throw new Error(`The file has more than ${IMPORT_MAX_ROWS} products, please split it`);
+
+  const missingColumns = REQUIRED_PRODUCT_CSV_COLUMNS.filter(x => !columns.includes(x));
+  if (missingColumns.length > 0) throw new Error(`Missing columns: ${missingColumns.join(", ")}`);
+
+  const [categories, products] = await Promise.all([
+    prisma.category.findMany({ select: { id: true, slug: true } }),
+    prisma.product.findMany({
+      where: { slug: { in: records.map(x => x.values.slug.trim()) } },
+      include: { _count: { select: { variants: true } } }
+    })
+  ]);
+  const categoryIds = Object.fromEntries(categories.map(x => [x.slug, x.id]));
+
+  const seenSlugs = new Set<string>();
+
+  return records.map(({ line, values }) => {
+    const slug = values.slug.trim();
+    const product = products.find(x => x.slug === slug);
+    const row: PlannedRow = { line, slug, name: values.name.trim(), action: product ? "update" : "create", errors: [] };
+
+    if (seenSlugs.has(slug)) {
+      row.errors.push(`Slug "${slug}" appears more than once in the file`);
+      return row;
+    }
+    seenSlugs.add(slug);
+
+    try {
+      const result = importProductSchema.safeParse(csvRecordToProduct(values, { categoryIds, imageBasePath: IMPORT_IMAGE_BASE_PATH, existing: product }));
+
+      if (!result.success) {
+        row.errors.push(...result.error.issues.map(issue => (issue.path[0] === "categoryId" ? `Unknown category "${values.category}"` : `${issue.path.join(".")}: ${issue.message}`)));
+      } else {
+        assertValidSalePrice(result.data);
+        row.data = result.data;
+      }
+    } catch (error) {
+      row.errors.push(formatError(error));
+    }
+
+    if (product) row.existing = { id: product.id, stock: product.stock, hasVariants: product._count.variants > 0 };
+
+    return row;
+  });
+}
+
+// Checks the CSV without saving anything, returning each row with what it would do and its errors
+export async function previewProductImport(csv: string) {
+  await requirePermission("products:write");
+
+  try {
+    const rows = await planProductImport(csv);
+
+    return {
+      success: true,
+      message: `${rows.length} rows checked`,
+      rows: rows.map(({ line, slug, name, action, errors }) => ({ line, slug, name, action, errors }))
+    };
+  } catch (error) {
+    return { success: false, message: formatError(error), rows: [] };
+  }
+}
+
+/*
+  Imports the CSV: valid rows create or update their product, invalid rows are skipped.
+
+  - The rows are saved in batches of IMPORT_BATCH_SIZE, each in its own transaction. A batch that fails is reported as failed without stopping the others.
+  - Stock changes are recorded in the inventory ledger and queue the back-in-stock emails of restocked products.
+  - The stock of a product sold in variants is the sum of its variant stocks, so the stock column doesn't change it.
+
+  Returns the report of every row, with its status ("created", "updated", "skipped" or "failed") and message.
+*/
+export async function applyProductImport(csv: string) {
+  await requirePermission("products:write");
+
+  try {
+    const session = await auth();
+    const rows = await planProductImport(csv);
+
+    const report = rows.map(row => ({ line: row.line, slug: row.slug, status: row.errors.length > 0 ? "skipped" : row.action === "create" ? "created" : "updated", message: row.errors.join("; ") }));
+    const validRows = rows.filter(x => x.data);
+
+    for (let start = 0; start < validRows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = validRows.slice(start, start + IMPORT_BATCH_SIZE);
+
+      try {
+        await prisma.$transaction(async tx => {
+          for (const { data, existing } of batch) {
+            const product = data!; // Only the valid rows are in the batches
+            if (existing) {
+              const stock = existing.hasVariants ? existing.stock : product.stock;
+              await tx.product.update({ where: { id: existing.id }, data: { ...product, stock } });
+              await recordInventoryMovement(tx, { productId: existing.id, quantity: stock - existing.stock, reason: stock > existing.stock ? "restock" : "adjustment", actorId: session?.user?.id, note: "CSV import", stockAfter: stock });
+            } else {
+              const created = await tx.product.create({ data: product });
+              await recordInventoryMovement(tx, { productId: created.id, quantity: created.stock, reason: "restock", actorId: session?.user?.id, note: "CSV import", stockAfter: created.stock });
+            }
+          }
+
+          await queueStockNotifications(
+            tx,
+            batch.flatMap(x => (x.existing ? [x.existing.id] : []))
+          );
+        });
+      } catch (error) {
+        for (const row of batch) {
+          const entry = report.find(x => x.line === row.line)!;
+          entry.status = "failed";
+          entry.message = `Batch failed: ${formatError(error)}`;
+        }
+      }
+    }
+
+    revalidatePath("/admin/products");
+    revalidateTag(SEARCH_SUGGESTIONS_TAG, "max"); // Clears the cached search suggestions
+    after(() => sendQueuedStockNotifications());
+
+    const count = (status: string) => report.filter(x => x.status === status).length;
+
+    return {
+      success: true,
+      message: `${count("created")} created, ${count("updated")} updated, ${count("skipped")} skipped, ${count("failed")} failed`,
+      report
+    };
+  } catch (error) {
+    return { success: false, message: formatError(error), report: [] };
+  }
+}
@@ -1,26 +1,54 @@
 "use server";
 
-import { prisma } from "@/db/prisma"; // Imports the prisma client instance for database operations.
+import { prisma, TransactionClient } from "@/db/prisma"; // Imports the prisma client instance for database operations.
 import { convertToPlainObject, formatError } from "../utils"; // Imports the convertToPlainObject utility function.
-import { LATEST_PRODUCTS_LIMIT, PAGE_SIZE } from "../constants"; // Imports the constant for the latest products limit.
-import { revalidatePath } from "next/cache";
-import { insertProductSchema, updateProductSchema } from "../validator";
+import { PAGE_SIZE } from "../constants"; // Imports the page size constant.
+import { revalidatePath, revalidateTag } from "next/cache";
+import { insertProductSchema, productVariantSchema, updateProductSchema } from "../validator";
 import { z } from "zod";
 import { Prisma } from "@prisma/client";
+import { buildCategoryTree, flattenCategoryTree, getCategoryBranchIds } from "../categories";
+import { FacetCount, parseBrands, parsePriceRange, PRICE_BUCKETS, RATING_FACETS } from "../facets";
+import { HIGHLIGHT_START, HIGHLIGHT_STOP, hasHighlight, SEARCH_SUGGESTIONS_TAG, SearchHighlight, sortByRank } from "../search";
+import { queueStockNotifications, sendQueuedStockNotifications } from "../stock-notifications";
+import { after } from "next/server";
+import { recordInventoryMovement } from "../inventory";
+import { auth } from "@/auth";
+import { getOnSaleFilter, getSalePricer, withSalePricing } from "../pricing";
+import { assertValidSalePrice } from "../sale";
+import { requirePermission } from "../auth-guard";
 
 /*
-  Fetches the latest products from the database, ordered by creation date.
-
-  Returns:
-  - An array of the most recently created product objects, converted to plain objects.
+  Fetches the products of a homepage product row, picked by its rule (see PRODUCT_ROW_RULES):
+  - "latest": the newest products.
+  - "featured": the featured products, newest first.
+  - "top_rated": the best rated products.
+  - "on_sale": the products on sale now, newest first.
+  - "category": the newest products of a category and its subcategories.
 */
-export async function getLatestProducts() {
+export async function getProductsByRule({ rule, categoryId, limit }: { rule: string; categoryId?: string | null; limit: number }) {
+  let where: Prisma.ProductWhereInput = {};
+  switch (rule) {
+    case "featured":
+      where = { isFeatured: true };
+      break;
+    case "on_sale":
+      where = await getOnSaleFilter();
+      break;
+    case "category":
+      where = { categoryId: { in: categoryId ? getCategoryBranchIds(await prisma.category.findMany(), categoryId) : [] } };
+      break;
+  }
+
   const data = await prisma.product.findMany({
-    take: LATEST_PRODUCTS_LIMIT, // Limits the number of products retrieved to the specified latest products limit.
-    orderBy: { createdAt: "desc" } // Orders the products by creation date in descending order (newest first).
+    where,
+    orderBy: rule === "top_rated" ? { rating: "desc" } : { createdAt: "desc" },
+    take: limit
   });
 
-  return convertToPlainObject(data); // Converts the retrieved data into plain JavaScript objects for better handling.
+  const products = await withSalePricing(data);
+
+  return convertToPlainObject(rule === "on_sale" ? products.filter(x => x.pricing.compareAtPrice !== null) : products);
 }
 
 /*
@@ -30,76 +58,83 @@ export async function getLatestProducts() {
   - `slug`: A string representing the unique identifier (slug) of the product.
 
   Returns:
-  - The product object if found, otherwise `null`.
+  - The product object if found, otherwise `null`. The product and each of its variants have the `pricing` of the running sales.
 */
 export async function getProductBySlug(slug: string) {
-  return await prisma.product.findFirst({
-    where: { slug: slug } // Searches for a product where the `slug` field matches the provided slug.
+  const data = await prisma.product.findFirst({
+    where: { slug: slug }, // Searches for a product where the `slug` field matches the provided slug.
+    include: {
+      variants: { orderBy: { createdAt: "asc" } }, // Includes the product variants, oldest first.
+      category: { select: { name: true, slug: true } } // Includes the name and slug of the product's category.
+    }
   });
-}
 
-/*
-  Retrieves a paginated list of products with optional filters for search query, category, price, rating, and sorting.
+  if (!data) return null;
 
-  Parameters:
-  - `query`: A search string used to filter products by name.
-  - `limit`: The maximum number of products per page (default: `PAGE_SIZE`).
-  - `page`: The current page number for pagination.
-  - `category`: A filter to retrieve products by category.
-  - `price`: A price range filter in the format "min-max".
-  - `rating`: A minimum rating filter.
-  - `sort`: Sorting criteria (e.g., "lowest", "highest", "rating").
+  const price = await getSalePricer();
 
-  Returns:
-  - An object containing:
-    - `data`: The list of products matching the filters.
-    - `totalPages`: The total number of pages based on the filtered product count.
+  // Types the variant option values, which are stored as JSON in the database.
+  return {
+    ...data,
+    pricing: price(data),
+    variants: data.variants.map(variant => ({ ...variant, options: variant.options as Record<string, string>, pricing: price(data, variant.price) }))
+  };
+}
+
+// The search filters of the storefront. Every filter is optional, "all" or empty applying no filtering.
+type ProductFilterParams = { query: string; category?: string; price?: string; rating?: string; brand?: string; stock?: string };
+
+/*
+  Builds the database filter of each search filter, kept apart so the facets can leave out their own filter.
+  Returns the filters along with the search ranks of the full-text search, used to sort by relevance.
 */
-export async function getAllProducts({ query, limit = PAGE_SIZE, page, category, price, rating, sort }: { query: string; limit?: number; page: number; category?: string; price?: string; rating?: string; sort?: string }) {
+async function getProductFilters({ query, category, price, rating, brand, stock }: ProductFilterParams) {
   /*
-    Creates a query filter for searching products by name.
-    - Uses `contains` for partial matching.
+    Creates a query filter for searching products.
+    - Uses the full-text search over the name, brand, category and description, which ranks each match.
+    - Also uses `contains` on the name for partial words (e.g. "wire" finds "Wireless"), which full-text search doesn't match.
     - `mode: "insensitive"` makes the search case-insensitive.
     - If `query` is "all" or empty, no filtering is applied.
   */
-  const queryFilter: Prisma.ProductWhereInput =
-    query && query !== "all"
-      ? {
-          name: {
-            contains: query,
-            mode: "insensitive"
-          } as Prisma.StringFilter
-        }
-      : {};
+  const isQuerySet = !!query && query !== "all";
+  const searchRanks = isQuerySet ? await searchProducts(query) : new Map<string, number>();
+  const queryFilter: Prisma.ProductWhereInput = isQuerySet
+    ? {
+        OR: [
+          {
+            name: {
+              contains: query,
+              mode: "insensitive"
+            } as Prisma.StringFilter
+          },
+          { id: { in: [...searchRanks.keys()] } }
+        ]
+      }
+    : {};
 
   /*
     Creates a category filter if a specific category is selected.
+    - `category` is the slug of the category. The products of its subcategories are included.
     - If `category` is "all" or empty, no filtering is applied.
   */
-  const categoryFilter = category && category !== "all" ? { category } : {};
+  const categories = category && category !== "all" ? await prisma.category.findMany() : [];
+  const selectedCategory = categories.find(x => x.slug === category);
+  const categoryFilter: Prisma.ProductWhereInput = category && category !== "all" ? { categoryId: { in: selectedCategory ? getCategoryBranchIds(categories, selectedCategory.id) : [] } } : {};
 
   /*
     Creates a price range filter.
     - Extracts min and max values from the `price` string ("min-max").
     - Uses `gte` (greater than or equal) and `lte` (less than or equal) to filter products within the range.
-    - If `price` is "all" or empty, no filtering is applied.
+    - If `price` is "all", empty or malformed, no filtering is applied.
   */
-  const priceFilter: Prisma.ProductWhereInput =
-    price && price !== "all"
-      ? {
-          price: {
-            gte: Number(price.split("-")[0]), // Minimum price
-            lte: Number(price.split("-")[1]) // Maximum price
-          }
-        }
-      : {};
+  const priceFilter = priceRangeFilter(price);
 
   /*
     Creates a rating filter.
     - Filters products with a rating greater than or equal to the specified `rating`.
     - If `rating` is "all" or empty, no filtering is applied.
   */
-  const ratingFilter =
+  const ratingFilter: Prisma.ProductWhereInput =
     rating && rating !== "all"
       ? {
           rating: {
@@ -108,45 +143,181 @@ export async function getAllProducts({ query, limit = PAGE_SIZE, page, category,
         }
       : {};
 
+  /*
+    Creates a brand filter.
+    - `brand` is a comma separated list of brands. Products of any of the selected brands match.
+    - If `brand` is "all" or empty, no filtering is applied.
+  */
+  const brands = parseBrands(brand);
+  const brandFilter: Prisma.ProductWhereInput = brands.length > 0 ? { brand: { in: brands } } : {};
+
+  /*
+    Creates an availability filter.
+    - `stock` "in" only keeps the products in stock.
+    - If `stock` is "all" or empty, no filtering is applied.
+  */
+  const stockFilter: Prisma.ProductWhereInput = stock === "in" ? { stock: { gt: 0 } } : {};
+
+  return {
+    isQuerySet,
+    searchRanks,
+    filters: { query: queryFilter, category: categoryFilter, price: priceFilter, rating: ratingFilter, brand: brandFilter, stock: stockFilter }
+  };
+}
+
+// Creates the filter of a "min-max" price range. A malformed range applies no filtering.
+function priceRangeFilter(price?: string): Prisma.ProductWhereInput {
+  const range = parsePriceRange(price);
+  return range ? { price: { gte: range.min, lte: range.max } } : {};
+}
+
+// Combines the search filters, leaving out the filter of a facet so the facet counts what selecting each of its values would show.
+function combineFilters(filters: Record<string, Prisma.ProductWhereInput>, except?: string): Prisma.ProductWhereInput {
+  return { AND: Object.entries(filters).flatMap(([name, filter]) => (name === except ? [] : [filter])) };
+}
+
+/*
+  Retrieves a paginated list of products with optional filters for search query, category, price, rating, brand, availability and sorting.
+
+  Parameters:
+  - `query`: A search string matched with the name, brand, category and description of the products.
+  - `limit`: The maximum number of products per page (default: `PAGE_SIZE`).
+  - `page`: The current page number for pagination.
+  - `category`: A filter to retrieve products by category.
+  - `price`: A price range filter in the format "min-max".
+  - `rating`: A minimum rating filter.
+  - `brand`: A comma separated list of brands.
+  - `stock`: "in" to only retrieve products in stock.
+  - `sort`: Sorting criteria (e.g., "lowest", "highest", "rating", "relevance").
+
+  Returns:
+  - An object containing:
+    - `data`: The list of products matching the filters. When searching, each product has the `highlight` of the matched terms.
+    - `totalPages`: The total number of pages based on the filtered product count.
+    - `totalCount`: The number of products matching the filters.
+*/
+export async function getAllProducts({ limit = PAGE_SIZE, page, sort, ...params }: ProductFilterParams & { limit?: number; page: number; sort?: string }) {
+  const { isQuerySet, searchRanks, filters } = await getProductFilters(params);
+
+  const where = combineFilters(filters);
+  const include = { category: { select: { name: true, slug: true } } }; // Includes the name and slug of each product's category
+
   /*
     Retrieves products from the database with applied filters and sorting.
-    - `where`: Combines all active filters (`queryFilter`, `categoryFilter`, `priceFilter`, `ratingFilter`).
+    - `where`: Combines all active filters (query, category, price, rating, brand and availability).
     - `orderBy`: Sorts products based on the selected sorting option:
       - `"lowest"`: Sorts by price in ascending order.
       - `"highest"`: Sorts by price in descending order.
       - `"rating"`: Sorts by rating in descending order.
+      - `"relevance"`: Sorts by the search rank, best match first. The ranks live outside the product table, so the matching ids are ordered before the page is loaded.
       - Default: Sorts by creation date in descending order (latest products first).
     - `skip`: Skips products based on the current page (pagination logic).
     - `take`: Limits the number of products per page.
   */
-  const data = await prisma.product.findMany({
-    where: {
-      ...queryFilter,
-      ...categoryFilter,
-      ...priceFilter,
-      ...ratingFilter
-    },
-    orderBy: sort === "lowest" ? { price: "asc" } : sort === "highest" ? { price: "desc" } : sort === "rating" ? { rating: "desc" } : { createdAt: "desc" }, // Default sorting by newest products
-    skip: (page - 1) * limit, // Calculates offset for pagination
-    take: limit // Limits the number of results per page
-  });
+  let products;
+  let dataCount;
+  if (sort === "relevance" && isQuerySet) {
+    const matches = await prisma.product.findMany({ where, select: { id: true }, orderBy: { createdAt: "desc" } });
+    const pageIds = sortByRank(matches.map(x => x.id), searchRanks).slice((page - 1) * limit, page * limit);
+
+    const pageProducts = await prisma.product.findMany({ where: { id: { in: pageIds } }, include });
+    products = pageIds.flatMap(id => pageProducts.filter(x => x.id === id));
+    dataCount = matches.length;
+  } else {
+    [products, dataCount] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        orderBy: sort === "lowest" ? { price: "asc" } : sort === "highest" ? { price: "desc" } : sort === "rating" ? { rating: "desc" } : { createdAt: "desc" }, // Default sorting by newest products
+        include,
+        skip: (page - 1) * limit, // Calculates offset for pagination
+        take: limit // Limits the number of results per page
+      }),
+      // Retrieves the total number of products matching the filters for pagination calculations.
+      prisma.product.count({ where })
+    ]);
+  }
 
-  /*
-    Retrieves the total number of products (ignoring filters) for pagination calculations.
-  */
-  const dataCount = await prisma.product.count();
+  // Highlights the matched terms of the products on the page.
+  const highlights = isQuerySet ? await getSearchHighlights(params.query, products.map(x => x.id)) : new Map<string, SearchHighlight>();
+  const data = (await withSalePricing(products)).map(product => ({ ...product, highlight: highlights.get(product.id) }));
 
   /*
     Returns the product data along with the total number of pages.
     - `data`: The list of filtered products.
-    - `totalPages`: The total number of pages based on the product count.
+    - `totalPages`: The total number of pages based on the filtered product count.
   */
   return {
     data,
-    totalPages: Math.ceil(dataCount / limit) // Calculates total pages for pagination
+    totalPages: Math.ceil(dataCount / limit), // Calculates total pages for pagination
+    totalCount: dataCount
+  };
+}
+
+/*
+  Counts the products matching each facet value of the search page, for the current query and filters.
+
+  - Each facet is counted with every filter except its own, so the counts tell how many products selecting a value would show
+    (e.g. the brand counts stay visible while brands are selected).
+  - Category counts include the products of the subcategories.
+
+  Returns the categories in tree order, the brands, the price buckets, the rating steps and the number of products in stock, each with its count.
+*/
+export async function getSearchFacets(params: ProductFilterParams) {
+  const { filters } = await getProductFilters(params);
+
+  const [categories, categoryCounts, brandCounts, priceCounts, ratingCounts, inStockCount] = await Promise.all([
+    prisma.category.findMany(),
+    prisma.product.groupBy({ by: ["categoryId"], where: combineFilters(filters, "category"), _count: true }),
+    prisma.product.groupBy({ by: ["brand"], where: combineFilters(filters, "brand"), _count: true, orderBy: { brand: "asc" } }),
+    Promise.all(PRICE_BUCKETS.map(bucket => prisma.product.count({ where: { AND: [combineFilters(filters, "price"), priceRangeFilter(bucket.value)] } }))),
+    Promise.all(RATING_FACETS.map(rating => prisma.product.count({ where: { AND: [combineFilters(filters, "rating"), { rating: { gte: rating } }] } }))),
+    prisma.product.count({ where: { AND: [combineFilters(filters, "stock"), { stock: { gt: 0 } }] } })
+  ]);
+
+  const productCounts = Object.fromEntries(categoryCounts.map(x => [x.categoryId, x._count]));
+
+  return {
+    categories: convertToPlainObject(flattenCategoryTree(buildCategoryTree(categories, productCounts))),
+    brands: brandCounts.map(x => ({ value: x.brand, count: x._count })) as FacetCount[],
+    prices: PRICE_BUCKETS.map((bucket, index) => ({ ...bucket, count: priceCounts[index] })),
+    ratings: RATING_FACETS.map((rating, index) => ({ value: rating, count: ratingCounts[index] })) as FacetCount<number>[],
+    inStock: inStockCount
   };
 }
 
+/*
+  Runs the full-text search for a query, returning the rank of each matching product.
+  - `websearch_to_tsquery` accepts what customers type into a search box (quoted phrases, "or", "-" to exclude a word) without syntax errors.
+  - `ts_rank` weighs matches in the name highest, then the brand and category, then the description.
+*/
+async function searchProducts(query: string) {
+  const rows = await prisma.$queryRaw<{ id: string; rank: number }[]>`
+    SELECT "id", ts_rank("searchVector", websearch_to_tsquery('english', ${query})) AS "rank"
+    FROM "Product"
+    WHERE "searchVector" @@ websearch_to_tsquery('english', ${query})
+  `;
+
+  return new Map(rows.map(row => [row.id, Number(row.rank)]));
+}
+
+/*
+  Highlights the terms matching a query in the name and description of products, using `ts_headline`.
+  - The whole name is returned with its matches marked. The description is shortened to a snippet around its matches, and left out when it has none.
+*/
+async function getSearchHighlights(query: string, ids: string[]) {
+  if (ids.length === 0) return new Map<string, SearchHighlight>();
+
+  const rows = await prisma.$queryRaw<{ id: string; name: string; description: string }[]>`
+    SELECT "id",
+      ts_headline('english', "name", websearch_to_tsquery('english', ${query}), ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`}) AS "name",
+      ts_headline('english', "description", websearch_to_tsquery('english', ${query}), ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MinWords=8, MaxWords=20`}) AS "description"
+    FROM "Product"
+    WHERE "id" = ANY(${ids}::uuid[])
+  `;
+
+  return new Map(rows.map(row => [row.id, { name: row.name, description: hasHighlight(row.description) ? row.description : null }]));
+}
+
 /*
   Deletes a product from the database based on its unique identifier.
 
@@ -158,6 +329,8 @@ export async function getAllProducts({ query, limit = PAGE_SIZE, page, category,
   - An object with `success: false` and an error message if the deletion fails.
 */
 export async function deleteProduct(id: string) {
+  await requirePermission("products:write");
+
   try {
     /*
       Checks if the product exists in the database before attempting to delete it.
@@ -183,6 +356,7 @@ export async function deleteProduct(id: string) {
       - `/admin/products`: The admin page where products are listed.
     */
     revalidatePath("/admin/products");
+    revalidateTag(SEARCH_SUGGESTIONS_TAG, "max"); // Clears the cached search suggestions
 
     /*
       Returns a success response after deleting the product.
@@ -202,6 +376,22 @@ export async function deleteProduct(id: string) {
   }
 }
 
+/*
+  Records the stock changes of an admin edit in the inventory ledger, keeping a running total of the product stock.
+  Added stock is recorded as a restock, removed stock as an adjustment.
+*/
+async function recordInventoryMovements(
+  tx: TransactionClient,
+  { productId, stockBefore, changes, actorId, note }: { productId: string; stockBefore: number; changes: { variantId: string | null; quantity: number }[]; actorId?: string; note?: string }
+) {
+  let stockAfter = stockBefore;
+
+  for (const { variantId, quantity } of changes) {
+    stockAfter += quantity;
+    await recordInventoryMovement(tx, { productId, variantId, quantity, reason: quantity > 0 ? "restock" : "adjustment", actorId, note, stockAfter });
+  }
+}
+
 /*
   Creates a new product in the database after validating the input data.
 
@@ -214,25 +404,56 @@ export async function deleteProduct(id: string) {
   - An object with `success: false` and an error message if validation or insertion fails.
 */
 export async function createProduct(data: z.infer<typeof insertProductSchema>) {
+  await requirePermission("products:write");
+
   try {
     /*
       Validates the incoming product data using Zod.
       - `insertProductSchema.parse(data)`: Ensures that the provided data matches the expected schema.
       - If validation fails, an error is thrown, stopping execution.
     */
-    const product = insertProductSchema.parse(data);
+    const { variants = [], ...product } = insertProductSchema.parse(data);
+    assertValidSalePrice(product);
+
+    const session = await auth();
 
     /*
-      Inserts the validated product data into the database.
-      - `prisma.product.create({ data: product })`: Creates a new product entry in the database.
+      Inserts the validated product data into the database together with its variants.
+      - When the product has variants, its stock is the sum of the variant stocks.
+      - The initial stock is recorded in the inventory ledger as a restock.
     */
-    await prisma.product.create({ data: product });
+    await prisma.$transaction(async tx => {
+      const created = await tx.product.create({
+        data: {
+          ...product,
+          stock: variants.length > 0 ? sumVariantStock(variants) : product.stock,
+          variants: {
+            create: variants.map(variant => ({
+              sku: variant.sku,
+              options: variant.options,
+              price: variant.price,
+              stock: variant.stock
+            }))
+          }
+        },
+        include: { variants: true }
+      });
+
+      await recordInventoryMovements(tx, {
+        productId: created.id,
+        stockBefore: 0,
+        changes: created.variants.length > 0 ? created.variants.map(x => ({ variantId: x.id, quantity: x.stock })) : [{ variantId: null, quantity: created.stock }],
+        actorId: session?.user?.id,
+        note: "Initial stock"
+      });
+    });
 
     /*
       Revalidates the product list page to ensure the UI updates with the newly created product.
       - `/admin/products`: The admin page where products are listed.
     */
     revalidatePath("/admin/products");
+    revalidateTag(SEARCH_SUGGESTIONS_TAG, "max"); // Clears the cached search suggestions
 
     /*
       Returns a success response after creating the product.
@@ -264,36 +485,93 @@ export async function createProduct(data: z.infer<typeof insertProductSchema>) {
   - An object with `success: false` and an error message if validation or updating fails.
 */
 export async function updateProduct(data: z.infer<typeof updateProductSchema>) {
+  await requirePermission("products:write");
+
   try {
     /*
       Validates the incoming product data using Zod.
       - `updateProductSchema.parse(data)`: Ensures that the provided data matches the expected schema.
       - If validation fails, an error is thrown, stopping execution.
     */
-    const product = updateProductSchema.parse(data);
+    const { variants = [], stockBefore, ...product } = updateProductSchema.parse(data);
+    assertValidSalePrice(product);
+
+    const session = await auth();
 
     /*
-      Checks if the product exists in the database before attempting to update it.
-      - `prisma.product.findFirst({ where: { id: product.id } })`: Looks up the product by its unique ID.
-      - If no product is found, an error is thrown.
+      Updates the product and synchronizes its variants in a single transaction.
+      - The product is locked and read inside the transaction, so orders reserving its stock wait and the ledger entries add up to the saved stock.
+      - The stock edits are applied as changes to the current stock, so the stock reserved since the form was opened isn't given back:
+        the difference with the stock shown in the form (`stockBefore`) is added, never going below 0. Without `stockBefore` the stock is set to the submitted values.
+      - Variants that were removed in the form are deleted.
+      - Variants with an `id` are updated, and new variants are created.
+      - When the product has variants, its stock is the sum of the variant stocks.
+      - The stock changes of the product and of each variant are recorded in the inventory ledger.
     */
-    const productExists = await prisma.product.findFirst({
-      where: { id: product.id }
-    });
+    await prisma.$transaction(async tx => {
+      await tx.$queryRaw`SELECT id FROM "Product" WHERE id = ${product.id}::uuid FOR UPDATE`;
+      const productExists = await tx.product.findFirst({
+        where: { id: product.id },
+        include: { variants: true }
+      });
+      if (!productExists) throw new Error("Product not found");
+
+      // The submitted stock applied to the current stock.
+      const applyStockEdit = (current: number, submitted: number, before?: number) => Math.max(0, current + submitted - (before ?? current));
+
+      await tx.productVariant.deleteMany({
+        where: {
+          productId: product.id,
+          id: { notIn: variants.filter(variant => variant.id).map(variant => variant.id!) }
+        }
+      });
+
+      // The stock change of each variant: removed variants lose their stock, new variants bring theirs.
+      const changes = productExists.variants.filter(x => !variants.some(variant => variant.id === x.id)).map(x => ({ variantId: x.id as string | null, quantity: -x.stock }));
+      const saved: z.infer<typeof productVariantSchema>[] = []; // The variants with the stock saved
+
+      for (const variant of variants) {
+        const variantData = { sku: variant.sku, options: variant.options, price: variant.price, stock: variant.stock };
+
+        if (variant.id) {
+          const current = productExists.variants.find(x => x.id === variant.id)?.stock ?? 0;
+          const stock = applyStockEdit(current, variant.stock, stockBefore?.variants[variant.id]);
+
+          await tx.productVariant.update({ where: { id: variant.id, productId: product.id }, data: { ...variantData, stock } });
+          changes.push({ variantId: variant.id, quantity: stock - current });
+          saved.push({ ...variant, stock });
+        } else {
+          const created = await tx.productVariant.create({ data: { ...variantData, productId: product.id } });
+          changes.push({ variantId: created.id, quantity: variant.stock });
+          saved.push(variant);
+        }
+      }
 
-    if (!productExists) throw new Error("Product not found");
+      const stock = variants.length > 0 ? sumVariantStock(saved) : applyStockEdit(productExists.stock, product.stock, stockBefore?.stock);
+      await tx.product.update({
+        where: { id: product.id },
+        data: { ...product, stock }
+      });
 
-    /*
-      Updates the existing product in the database with the validated data.
-      - `prisma.product.update({ where: { id: product.id }, data: product })`: Updates the product entry.
-    */
-    await prisma.product.update({ where: { id: product.id }, data: product });
+      // Whatever the variants don't explain (e.g. the stock of a product sold without variants) is a change of the product itself.
+      const remainder = stock - productExists.stock - changes.reduce((acc, x) => acc + x.quantity, 0);
+      changes.push({ variantId: null, quantity: remainder });
+
+      await recordInventoryMovements(tx, { productId: product.id, stockBefore: productExists.stock, changes, actorId: session?.user?.id });
+
+      // Queues the back-in-stock emails when the product or some of its variants have stock again.
+      await queueStockNotifications(tx, [product.id]);
+    });
+
+    // Sends the queued emails once the response is sent, the scheduled job picks up any the email service failed to send.
+    after(() => sendQueuedStockNotifications());
 
     /*
       Revalidates the product list page to ensure the UI reflects the updated product information.
       - `/admin/products`: The admin page where products are listed.
     */
     revalidatePath("/admin/products");
+    revalidateTag(SEARCH_SUGGESTIONS_TAG, "max"); // Clears the cached search suggestions
 
     /*
       Returns a success response after updating the product.
@@ -324,6 +602,8 @@ export async function updateProduct(data: z.infer<typeof updateProductSchema>) {
   - `null` if no product matches the provided `productId`.
 */
 export async function getProductById(productId: string) {
+  await requirePermission(["products:write", "inventory:write"]);
+
   /*
     Queries the database to find the first product that matches the given `productId`.
     - `prisma.product.findFirst()`: Searches for a product in the `product` table.
@@ -331,62 +611,37 @@ export async function getProductById(productId: string) {
     - Returns `null` if no product is found.
   */
   const data = await prisma.product.findFirst({
-    where: { id: productId }
+    where: { id: productId },
+    include: { variants: { orderBy: { createdAt: "asc" } } } // Includes the product variants so they can be edited.
   });
 
+  if (!data) return null;
+
   /*
     Converts the retrieved product data into a plain JavaScript object.
     - Ensures the returned object is free from Prisma-specific structures.
     - This helps with serialization and prevents potential issues when passing data to the frontend.
   */
-  return convertToPlainObject(data);
-}
-
-/*
-  Fetches all unique product categories from the database along with their count.
-
-  Parameters:
-  - None
-
-  Returns:
-  - An array of objects, where each object contains:
-    - `category`: The unique category name.
-    - `_count`: The number of products in that category.
-*/
-export async function getAllCategories() {
-  /*
-    Queries the database to group products by their category.
-    - `by: ['category']`: Groups the products based on the `category` field.
-    - `_count: true`: Counts the number of products in each category.
-    
-    The result will be an array of objects, each containing:
-    - `category`: The name of the category.
-    - `_count`: The number of products that belong to this category.
-  */
-  const data = await prisma.product.groupBy({
-    by: ["category"], // Groups products by the `category` field.
-    _count: true // Counts the number of products in each category.
+  return convertToPlainObject({
+    ...data,
+    variants: data.variants.map(variant => ({ ...variant, options: variant.options as Record<string, string> }))
   });
+}
 
-  /*
-    Returns the grouped category data.
-    - Example output: [{ category: "Electronics", _count: 5 }, { category: "Clothing", _count: 8 }]
-  */
-  return data;
+// Sums the stock of all variants of a product.
+function sumVariantStock(variants: z.infer<typeof productVariantSchema>[]) {
+  return variants.reduce((acc, variant) => acc + variant.stock, 0);
 }
 
 /*
-  Fetches featured products from the database.
-
-  Returns:
-  - An array of up to 4 featured product objects, ordered by creation date.
+  Fetches the id and name of every product, ordered by name.
+  Used by admin forms that let the admin pick products (e.g. coupon restrictions).
 */
-export async function getFeaturedProducts() {
-  const data = await prisma.product.findMany({
-    where: { isFeatured: true }, // Filters the products to include only those marked as featured.
-    orderBy: { createdAt: "desc" }, // Orders the products by creation date in descending order (newest first).
-    take: 4 // Limits the number of products retrieved to 4.
-  });
+export async function getAllProductNames() {
+  await requirePermission("promotions:write");
 
-  return convertToPlainObject(data); // Converts the retrieved data into plain JavaScript objects for better handling.
+  return await prisma.product.findMany({
+    select: { id: true, name: true },
+    orderBy: { name: "asc" }
+  });
 }
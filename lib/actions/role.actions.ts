@@ -0,0 +1,115 @@
+"use server";
+
+import { prisma } from "@/db/prisma"; // Imports the prisma client instance for database operations.
+import { convertToPlainObject, formatError } from "../utils";
+import { revalidatePath } from "next/cache";
+import { insertRoleSchema, updateRoleSchema } from "../validator";
+import { getMyPermissions, requirePermission } from "../auth-guard";
+import { assertCanEditRole, assertValidRole, resolveRolePermissions, SYSTEM_ROLES } from "../permissions";
+import { z } from "zod";
+
+/*
+  Fetches every role for the admin roles page and the role select of the admin user form, built-in roles first.
+  Each role comes with the number of users that have it.
+*/
+export async function getAllRoles() {
+  await requirePermission(["roles:manage", "users:manage"]);
+
+  const [roles, counts] = await Promise.all([prisma.role.findMany({ orderBy: [{ isSystem: "desc" }, { name: "asc" }] }), prisma.user.groupBy({ by: ["role"], _count: true })]);
+
+  return convertToPlainObject(roles.map(role => ({ ...role, userCount: counts.find(x => x.role === role.name)?._count ?? 0 })));
+}
+
+// Fetches a single role by its id. Returns null when the role doesn't exist.
+export async function getRoleById(roleId: string) {
+  await requirePermission("roles:manage");
+
+  const data = await prisma.role.findFirst({
+    where: { id: roleId }
+  });
+
+  return data ? convertToPlainObject(data) : null;
+}
+
+// Creates a new role after validating the input data. The name must not be taken, and the role only gets permissions the caller has.
+export async function createRole(data: z.infer<typeof insertRoleSchema>) {
+  await requirePermission("roles:manage");
+
+  try {
+    const role = insertRoleSchema.parse(data);
+    assertValidRole(role);
+    assertCanEditRole(await getMyPermissions(), { from: [], to: role.permissions });
+
+    const roleExists = await prisma.role.findFirst({ where: { name: role.name } });
+    if (roleExists) throw new Error("Role name is already taken");
+
+    await prisma.role.create({ data: role });
+
+    revalidatePath("/admin/roles");
+
+    return { success: true, message: "Role created successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Updates an existing role after validating the input data.
+  - Renaming a role moves its users to the new name. The built-in roles keep their name.
+  - Only the permissions of the caller can be given, and a role with permissions the caller lacks can't be edited (see `assertCanEditRole`).
+  - The users get the new permissions on their next request, as the guards load them from the database.
+*/
+export async function updateRole(data: z.infer<typeof updateRoleSchema>) {
+  await requirePermission("roles:manage");
+
+  try {
+    const { id, ...role } = updateRoleSchema.parse(data);
+
+    const roleExists = await prisma.role.findFirst({ where: { id } });
+    if (!roleExists) throw new Error("Role not found");
+    assertValidRole(role, roleExists.name);
+    assertCanEditRole(await getMyPermissions(), { from: resolveRolePermissions(roleExists.name, roleExists), to: resolveRolePermissions(role.name, role) });
+
+    if (role.name !== roleExists.name) {
+      const nameTaken = await prisma.role.findFirst({ where: { name: role.name } });
+      if (nameTaken) throw new Error("Role name is already taken");
+    }
+
+    await prisma.$transaction([
+      prisma.role.update({ where: { id }, data: role }),
+      prisma.user.updateMany({ where: { role: roleExists.name }, data: { role: role.name } })
+    ]);
+
+    revalidatePath("/admin/roles");
+    revalidatePath("/admin/users");
+
+    return { success: true, message: "Role updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Deletes a role from the database.
+  - The built-in roles can't be deleted, nor a role some users still have: they must be given another role first.
+*/
+export async function deleteRole(id: string) {
+  await requirePermission("roles:manage");
+
+  try {
+    const roleExists = await prisma.role.findFirst({ where: { id } });
+    if (!roleExists) throw new Error("Role not found");
+    if (roleExists.isSystem || SYSTEM_ROLES.includes(roleExists.name)) throw new Error("Built-in roles can't be deleted");
+
+    const userCount = await prisma.user.count({ where: { role: roleExists.name } });
+    if (userCount > 0) throw new Error(`The role is given to ${userCount} ${userCount === 1 ? "user" : "users"}, give them another role first`);
+
+    await prisma.role.delete({ where: { id } });
+
+    revalidatePath("/admin/roles");
+
+    return { success: true, message: "Role deleted successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -0,0 +1,129 @@
+"use server";
+
+import { prisma } from "@/db/prisma"; // Imports the prisma client instance for database operations.
+import { convertToPlainObject, formatError } from "../utils";
+import { PAGE_SIZE } from "../constants";
+import { revalidatePath } from "next/cache";
+import { insertSaleSchema, updateSaleSchema } from "../validator";
+import { z } from "zod";
+import { requirePermission } from "../auth-guard";
+
+/*
+  Fetches a paginated list of sales for the admin sales page, latest start first.
+
+  Returns:
+  - `data`: The sales of the requested page.
+  - `totalPages`: The total number of pages.
+*/
+export async function getAllSales({ limit = PAGE_SIZE, page }: { limit?: number; page: number }) {
+  await requirePermission(["promotions:write", "content:write"]);
+
+  const data = await prisma.sale.findMany({
+    orderBy: { startsAt: "desc" },
+    skip: (page - 1) * limit,
+    take: limit
+  });
+
+  const dataCount = await prisma.sale.count();
+
+  return {
+    data: convertToPlainObject(data),
+    totalPages: Math.ceil(dataCount / limit)
+  };
+}
+
+// Fetches a single sale by its id. Returns null when the sale doesn't exist.
+export async function getSaleById(saleId: string) {
+  await requirePermission("promotions:write");
+
+  const data = await prisma.sale.findFirst({
+    where: { id: saleId }
+  });
+
+  return data ? convertToPlainObject(data) : null;
+}
+
+/*
+  Fetches the sale shown by the deal countdown of the home page: the active sale running now that ends soonest.
+  Returns null when no sale is running.
+*/
+export async function getRunningSale() {
+  const now = new Date();
+
+  const data = await prisma.sale.findFirst({
+    where: { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } },
+    orderBy: { endsAt: "asc" }
+  });
+
+  return data ? convertToPlainObject(data) : null;
+}
+
+// Creates a new sale after validating the input data. The sale must end after it starts.
+export async function createSale(data: z.infer<typeof insertSaleSchema>) {
+  await requirePermission("promotions:write");
+
+  try {
+    const sale = insertSaleSchema.parse(data);
+    if (sale.endsAt <= sale.startsAt) throw new Error("Sale must end after it starts");
+
+    await prisma.sale.create({ data: sale });
+
+    revalidatePath("/admin/sales");
+    revalidatePath("/");
+
+    return { success: true, message: "Sale created successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Updates an existing sale after validating the input data.
+export async function updateSale(data: z.infer<typeof updateSaleSchema>) {
+  await requirePermission("promotions:write");
+
+  try {
+    const { id, ...sale } = updateSaleSchema.parse(data);
+    if (sale.endsAt <= sale.startsAt) throw new Error("Sale must end after it starts");
+
+    const saleExists = await prisma.sale.findFirst({
+      where: { id }
+    });
+    if (!saleExists) throw new Error("Sale not found");
+
+    await prisma.sale.update({
+      where: { id },
+      data: sale
+    });
+
+    revalidatePath("/admin/sales");
+    revalidatePath("/");
+
+    return { success: true, message: "Sale updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Deletes a sale from the database.
+  - Orders placed during the sale keep the prices they were placed at.
+*/
+export async function deleteSale(id: string) {
+  await requirePermission("promotions:write");
+
+  try {
+    const saleExists = await prisma.sale.findFirst({
+      where: { id }
+    });
+    if (!saleExists) throw new Error("Sale not found");
+
+    await prisma.sale.delete({ where: { id } });
+
+    revalidatePath("/admin/sales");
+    revalidatePath("/");
+
+    return { success: true, message: "Sale deleted successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -0,0 +1,129 @@
+"use server";
+
+import { prisma } from "@/db/prisma";
+import { convertToPlainObject, formatError } from "../utils";
+import { revalidatePath } from "next/cache";
+import { insertShippingZoneSchema, updateShippingZoneSchema } from "../validator";
+import { ShippingTier } from "../shipping";
+import { z } from "zod";
+import { requirePermission } from "../auth-guard";
+
+// Fetches every shipping zone with its rates for the admin shipping page. The fallback zone (without countries) comes last.
+export async function getAllShippingZones() {
+  await requirePermission("settings:write");
+
+  const data = await prisma.shippingZone.findMany({
+    include: { rates: { orderBy: { createdAt: "asc" } } },
+    orderBy: { createdAt: "asc" }
+  });
+
+  return convertToPlainObject(data.sort((a, b) => Number(a.countries.length === 0) - Number(b.countries.length === 0)));
+}
+
+// Fetches a single shipping zone with its rates. Returns null when the zone doesn't exist.
+export async function getShippingZoneById(zoneId: string) {
+  await requirePermission("settings:write");
+
+  const data = await prisma.shippingZone.findFirst({
+    where: { id: zoneId },
+    include: { rates: { orderBy: { createdAt: "asc" } } }
+  });
+
+  return data ? convertToPlainObject({ ...data, rates: data.rates.map(rate => ({ ...rate, tiers: rate.tiers as ShippingTier[] })) }) : null;
+}
+
+// Throws an error when another zone already ships to one of the countries, as a country can only belong to one zone.
+async function assertCountriesAvailable(countries: string[], zoneId?: string) {
+  const zones = await prisma.shippingZone.findMany({ where: zoneId ? { id: { not: zoneId } } : {} });
+
+  for (const country of countries) {
+    const zone = zones.find(x => x.countries.some(c => c.trim().toLowerCase() === country.trim().toLowerCase()));
+    if (zone) throw new Error(`${country} is already in the ${zone.name} zone`);
+  }
+  if (countries.length === 0 && zones.some(x => x.countries.length === 0)) throw new Error("There is already a zone for every other country");
+}
+
+// Creates a new shipping zone with its rates after validating the input data.
+export async function createShippingZone(data: z.infer<typeof insertShippingZoneSchema>) {
+  await requirePermission("settings:write");
+
+  try {
+    const { rates, ...zone } = insertShippingZoneSchema.parse(data);
+    await assertCountriesAvailable(zone.countries);
+
+    await prisma.shippingZone.create({
+      data: {
+        ...zone,
+        rates: { create: rates.map(rate => ({ ...rate, id: undefined })) } // New zones only have new rates
+      }
+    });
+
+    revalidatePath("/admin/shipping");
+
+    return { success: true, message: "Shipping zone created successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Updates a shipping zone and its rates after validating the input data.
+  - Existing rates are updated in place, so carts keep their selected rate. Rates removed from the form are deleted.
+*/
+export async function updateShippingZone(data: z.infer<typeof updateShippingZoneSchema>) {
+  await requirePermission("settings:write");
+
+  try {
+    const { id, rates, ...zone } = updateShippingZoneSchema.parse(data);
+
+    const zoneExists = await prisma.shippingZone.findFirst({
+      where: { id },
+      include: { rates: true }
+    });
+    if (!zoneExists) throw new Error("Shipping zone not found");
+    await assertCountriesAvailable(zone.countries, id);
+
+    await prisma.$transaction(async tx => {
+      await tx.shippingZone.update({ where: { id }, data: zone });
+
+      // Deletes the rates removed from the form
+      await tx.shippingRate.deleteMany({
+        where: { zoneId: id, id: { notIn: rates.flatMap(rate => (rate.id ? [rate.id] : [])) } }
+      });
+
+      for (const { id: rateId, ...rate } of rates) {
+        if (rateId && zoneExists.rates.some(x => x.id === rateId)) {
+          await tx.shippingRate.update({ where: { id: rateId }, data: rate });
+        } else {
+          await tx.shippingRate.create({ data: { ...rate, zoneId: id } });
+        }
+      }
+    });
+
+    revalidatePath("/admin/shipping");
+
+    return { success: true, message: "Shipping zone updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Deletes a shipping zone together with its rates. Carts that selected one of its rates fall back to the cheapest rate available.
+export async function deleteShippingZone(id: string) {
+  await requirePermission("settings:write");
+
+  try {
+    const zoneExists = await prisma.shippingZone.findFirst({
+      where: { id }
+    });
+    if (!zoneExists) throw new Error("Shipping zone not found");
+
+    await prisma.shippingZone.delete({ where: { id } });
+
+    revalidatePath("/admin/shipping");
+
+    return { success: true, message: "Shipping zone deleted successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -0,0 +1,108 @@
+"use server";
+
+import { auth } from "@/auth";
+import { prisma } from "@/db/prisma";
+import { z } from "zod";
+import { convertToPlainObject, formatError, formatVariantOptions } from "../utils";
+import { stockNotificationSchema } from "../validator";
+import { requirePermission } from "../auth-guard";
+import { unsubscribeStockNotifications } from "../stock-notifications";
+import { redirect } from "next/navigation";
+
+/*
+  Asks to be emailed when an out-of-stock product or variant is back in stock.
+  - Only out-of-stock products and variants can be requested. A request for a product sold in variants without a variant waits for any of them.
+  - Asking twice for the same product with the same email address keeps the first request.
+*/
+export async function subscribeToStockNotification(data: z.infer<typeof stockNotificationSchema>) {
+  try {
+    const { productId, variantId = null, email } = stockNotificationSchema.parse(data);
+
+    const product = await prisma.product.findFirst({
+      where: { id: productId },
+      include: { variants: true }
+    });
+    if (!product) throw new Error("Product not found");
+
+    const variant = variantId ? product.variants.find(x => x.id === variantId) : null;
+    if (variantId && !variant) throw new Error("Variant not found");
+    if ((variant ?? product).stock > 0) throw new Error("This product is in stock");
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const existRequest = await prisma.stockNotification.findFirst({
+      where: { email: normalizedEmail, productId, variantId, notifiedAt: null, unsubscribedAt: null }
+    });
+
+    if (!existRequest) {
+      const session = await auth();
+
+      await prisma.stockNotification.create({
+        data: { email: normalizedEmail, productId, variantId, userId: session?.user?.id ?? null }
+      });
+    }
+
+    const name = variant ? `${product.name} (${formatVariantOptions(variant.options as Record<string, string>)})` : product.name;
+
+    return {
+      success: true,
+      message: `We'll email ${normalizedEmail} when ${name} is back in stock`
+    };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Unsubscribes from the back-in-stock emails, from the confirmation page of the unsubscribe link. The form sends the token of the link.
+  Shows the result on the unsubscribed page.
+*/
+export async function confirmStockNotificationUnsubscribe(formData: FormData) {
+  const unsubscribed = await unsubscribeStockNotifications(String(formData.get("token") ?? ""));
+
+  redirect(`/stock-notifications/unsubscribed${unsubscribed ? "" : "?invalid=1"}`);
+}
+
+/*
+  Fetches the pending back-in-stock demand for the admin report, one row per product or variant, most requested first.
+  Requests that were sent or unsubscribed are left out. `queued` counts the requests whose email is about to be sent,
+  and `failed` the ones whose last attempt to send it failed.
+*/
+export async function getStockNotificationDemand() {
+  await requirePermission("inventory:write");
+
+  const groups = await prisma.stockNotification.groupBy({
+    by: ["productId", "variantId"],
+    where: { notifiedAt: null, unsubscribedAt: null },
+    _count: { _all: true, queuedAt: true, lastError: true },
+    _min: { createdAt: true },
+    orderBy: { _count: { productId: "desc" } }
+  });
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: groups.map(x => x.productId) } },
+    select: { id: true, name: true, slug: true, stock: true, variants: { select: { id: true, options: true, stock: true } } }
+  });
+
+  const data = groups.flatMap(group => {
+    const product = products.find(x => x.id === group.productId);
+    if (!product) return [];
+
+    const variant = group.variantId ? product.variants.find(x => x.id === group.variantId) : undefined;
+
+    return [
+      {
+        productId: product.id,
+        variantId: group.variantId,
+        name: variant ? `${product.name} (${formatVariantOptions(variant.options as Record<string, string>)})` : product.name,
+        slug: product.slug,
+        stock: variant ? variant.stock : product.stock,
+        requests: group._count._all,
+        queued: group._count.queuedAt,
+        failed: group._count.lastError,
+        since: group._min.createdAt
+      }
+    ];
+  });
+
+  return convertToPlainObject(data);
+}
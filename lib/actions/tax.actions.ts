@@ -0,0 +1,108 @@
+"use server";
+
+import { prisma } from "@/db/prisma";
+import { convertToPlainObject, formatError } from "../utils";
+import { revalidatePath } from "next/cache";
+import { insertTaxRateSchema, updateTaxRateSchema } from "../validator";
+import { z } from "zod";
+import { requirePermission } from "../auth-guard";
+
+// Fetches every tax rate for the admin taxes page, grouped by country with the rates of the whole country first.
+export async function getAllTaxRates() {
+  await requirePermission("settings:write");
+
+  const data = await prisma.taxRate.findMany({
+    orderBy: [{ country: "asc" }, { region: { sort: "asc", nulls: "first" } }, { category: "asc" }]
+  });
+
+  return convertToPlainObject(data);
+}
+
+// Fetches a single tax rate. Returns null when the rate doesn't exist.
+export async function getTaxRateById(id: string) {
+  await requirePermission("settings:write");
+
+  const data = await prisma.taxRate.findFirst({
+    where: { id }
+  });
+
+  return data ? convertToPlainObject(data) : null;
+}
+
+// Throws an error when another rate already applies to the same country, region and category, as only one of them could be used.
+async function assertTaxRateAvailable({ country, region, category }: z.infer<typeof insertTaxRateSchema>, id?: string) {
+  const rateExists = await prisma.taxRate.findFirst({
+    where: {
+      id: id ? { not: id } : undefined,
+      country: { equals: country.trim(), mode: "insensitive" },
+      region: region ? { equals: region.trim(), mode: "insensitive" } : null,
+      category
+    }
+  });
+
+  if (rateExists) throw new Error(`There is already a ${category} rate for ${region ? `${region}, ` : ""}${country}`);
+}
+
+// Creates a new tax rate after validating the input data.
+export async function createTaxRate(data: z.infer<typeof insertTaxRateSchema>) {
+  await requirePermission("settings:write");
+
+  try {
+    const taxRate = insertTaxRateSchema.parse(data);
+    await assertTaxRateAvailable(taxRate);
+
+    await prisma.taxRate.create({ data: taxRate });
+
+    revalidatePath("/admin/taxes");
+
+    return { success: true, message: "Tax rate created successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Updates a tax rate after validating the input data.
+  - Placed orders keep the tax they were charged, carts are repriced the next time they change.
+*/
+export async function updateTaxRate(data: z.infer<typeof updateTaxRateSchema>) {
+  await requirePermission("settings:write");
+
+  try {
+    const { id, ...taxRate } = updateTaxRateSchema.parse(data);
+
+    const rateExists = await prisma.taxRate.findFirst({
+      where: { id }
+    });
+    if (!rateExists) throw new Error("Tax rate not found");
+    await assertTaxRateAvailable(taxRate, id);
+
+    await prisma.taxRate.update({ where: { id }, data: taxRate });
+
+    revalidatePath("/admin/taxes");
+
+    return { success: true, message: "Tax rate updated successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Deletes a tax rate. Addresses it applied to fall back to the rate of the whole country, or to the default rate.
+export async function deleteTaxRate(id: string) {
+  await requirePermission("settings:write");
+
+  try {
+    const rateExists = await prisma.taxRate.findFirst({
+      where: { id }
+    });
+    if (!rateExists) throw new Error("Tax rate not found");
+
+    await prisma.taxRate.delete({ where: { id } });
+
+    revalidatePath("/admin/taxes");
+
+    return { success: true, message: "Tax rate deleted successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
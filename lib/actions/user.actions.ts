@@ -7,19 +7,36 @@
 
 import { isRedirectError } from "next/dist/client/components/redirect-error"; // Imports a helper function to handle redirect-related errors.
 import { auth, signIn, signOut } from "@/auth"; // Imports `signIn` and `signOut` functions for managing user authentication.
-import { shippingAddressSchema, signInFormSchema, signUpFormSchema, paymentMethodSchema, updateUserSchema } from "../validator"; // Imports various schemas for validation from the validator file.
+import { shippingAddressSchema, signInFormSchema, signUpFormSchema, paymentMethodSchema, updateUserSchema, forgotPasswordSchema, resetPasswordSchema, twoFactorCodeSchema } from "../validator"; // Imports various schemas for validation from the validator file.
 import { hashSync } from "bcrypt-ts-edge"; // Imports the hashSync function from bcrypt-ts-edge for password hashing.
 import { prisma } from "@/db/prisma"; // Imports the Prisma client for interacting with the database.
 import { formatError } from "../utils";
-import { ShippingAddress } from "@/types";
+import { CartItem, ShippingAddress } from "@/types";
 import { z } from "zod"; // Imports Zod for schema validation.
 import { getMyCart } from "./cart.actions";
-import { PAGE_SIZE } from "../constants";
+import { calcCartPrice } from "../cart";
+import { APP_NAME, EMAIL_VERIFICATION_TOKEN_MINUTES, PAGE_SIZE, PASSWORD_RESET_TOKEN_MINUTES, SERVER_URL } from "../constants";
 import { revalidatePath } from "next/cache";
 import { Prisma } from "@prisma/client";
+import { consumeVerificationToken, createVerificationToken } from "../tokens";
+import { sendPasswordResetEmail, sendVerificationEmail } from "@/email";
+import { generateRecoveryCodes, generateTotpSecret, getTotpUri, hashRecoveryCode, verifyTotpCode } from "../totp";
+import { isTwoFactorRequired, TwoFactorRequiredError, verifySecondFactor } from "../two-factor";
+import { clearFailedLogins, LoginThrottledError } from "../login-attempts";
+import { getRolePermissions } from "../roles";
+import { getMyPermissions, requirePermission } from "../auth-guard";
+import { ADMIN_ROLE, assertCanAssignRole } from "../permissions";
+import QRCode from "qrcode";
 
-// Handles user sign-in with email and password credentials.
+/*
+  Handles user sign-in with email and password credentials.
+  - Users with two-factor authentication sign in in two steps: once the password is checked, `twoFactorRequired` asks the form
+    for the code of their authenticator app (or a recovery code), which is sent again with the email and password.
+  - The attempts are throttled per email and IP address by `authorize` (see lib/login-attempts.ts).
+*/
 export async function signInWithCredentials(prevState: unknown, formData: FormData) {
+  const code = formData.get("code")?.toString().trim() ?? ""; // Retrieves the code of the second step, empty in the first step.
+
   try {
     // Validates and parses the form data (email and password) using the `signInFormSchema`.
     const user = signInFormSchema.parse({
@@ -27,8 +44,8 @@ export async function signInWithCredentials(prevState: unknown, formData: FormDa
       password: formData.get("password") // Retrieves the "password" field from the form data.
     });
 
-    // Attempts to sign in the user with their credentials.
-    await signIn("credentials", user);
+    // Attempts to sign in the user with their credentials, and the code of the second step when given.
+    await signIn("credentials", { ...user, code });
 
     // Returns a success response if the sign-in process is successful.
     return { success: true, message: "Signed in successfully" };
@@ -38,8 +55,20 @@ export async function signInWithCredentials(prevState: unknown, formData: FormDa
       throw error;
     }
 
-    // Returns a failure response with an error message for invalid credentials.
-    return { success: false, message: "Invalid email or password" };
+    // Asks for the code when the password is right and the user has two-factor authentication.
+    if (error instanceof TwoFactorRequiredError) {
+      return { success: false, twoFactorRequired: true, message: "" };
+    }
+
+    // Tells when to try again while the attempts are throttled.
+    if (error instanceof LoginThrottledError) {
+      const seconds = Math.ceil((error.retryAt.getTime() - Date.now()) / 1000);
+      const wait = seconds < 60 ? `${seconds} ${seconds === 1 ? "second" : "seconds"}` : `${Math.ceil(seconds / 60)} minutes`;
+      return { success: false, twoFactorRequired: !!code, message: `Too many failed attempts. Please try again in ${wait}` };
+    }
+
+    // Returns a failure response with an error message for invalid credentials, or an invalid code in the second step.
+    return code ? { success: false, twoFactorRequired: true, message: "Invalid authentication code" } : { success: false, message: "Invalid email or password" };
   }
 }
 
@@ -74,7 +103,7 @@ export async function signUp(prevState: unknown, formData: FormData) {
     user.password = hashSync(user.password, 10); // Hashes the user's password with a salt factor of 10 for secure storage.
 
     // Creates a new user record in the database with the validated and hashed data.
-    await prisma.user.create({
+    const createdUser = await prisma.user.create({
       data: {
         name: user.name,
         email: user.email,
@@ -82,6 +111,14 @@ export async function signUp(prevState: unknown, formData: FormData) {
       }
     });
 
+    // Sends the link to verify the email address. The account works without it, so a failure doesn't stop the sign-up:
+    // the user can ask for a new link from the profile page.
+    try {
+      await sendVerificationLink(createdUser);
+    } catch (error) {
+      console.error("Failed to send the verification email", error);
+    }
+
     // Signs in the user automatically after successful registration.
     await signIn("credentials", {
       email: user.email,
@@ -108,6 +145,146 @@ export async function signUp(prevState: unknown, formData: FormData) {
   }
 }
 
+// Sends the email with a new link to verify the email address of the user.
+async function sendVerificationLink(user: { email: string; name: string }) {
+  const token = await createVerificationToken("verify-email", user.email, EMAIL_VERIFICATION_TOKEN_MINUTES);
+
+  await sendVerificationEmail({
+    email: user.email,
+    name: user.name,
+    verifyUrl: `${SERVER_URL}/verify-email?${new URLSearchParams({ email: user.email, token })}`,
+    expiresInMinutes: EMAIL_VERIFICATION_TOKEN_MINUTES
+  });
+}
+
+/*
+  Sends a new link to verify the email address of the signed-in user, replacing the previous one.
+*/
+export async function resendVerificationEmail() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) throw new Error("User is not authenticated");
+
+    const user = await prisma.user.findFirst({
+      where: { id: session.user.id }
+    });
+    if (!user) throw new Error("User not found");
+    if (user.emailVerified) throw new Error("Your email is already verified");
+
+    await sendVerificationLink(user);
+
+    return { success: true, message: `We sent a new verification link to ${user.email}` };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Verifies the email address of a user with the token of a verification email, setting `emailVerified`.
+  - The token is used up, so opening the link again tells the email is already verified instead.
+*/
+export async function verifyEmail(email: string, token: string) {
+  try {
+    const isValid = await consumeVerificationToken("verify-email", email, token);
+
+    const user = await prisma.user.findFirst({
+      where: { email }
+    });
+    if (!user) throw new Error("Invalid or expired verification link");
+    if (!isValid) {
+      if (user.emailVerified) return { success: true, message: "Your email is already verified" };
+      throw new Error("Invalid or expired verification link");
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: user.emailVerified ?? new Date() }
+    });
+
+    revalidatePath("/user/profile");
+
+    return { success: true, message: "Your email is verified" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Sends the email with a password reset link to the address, when it belongs to a user who signs in with a password.
+  - The response is the same whether or not the address has an account, so the form can't be used to find out who is registered.
+*/
+export async function requestPasswordReset(prevState: unknown, formData: FormData) {
+  try {
+    const { email } = forgotPasswordSchema.parse({
+      email: formData.get("email")
+    });
+
+    const user = await prisma.user.findFirst({
+      where: { email }
+    });
+
+    if (user?.password) {
+      const token = await createVerificationToken("password-reset", user.email, PASSWORD_RESET_TOKEN_MINUTES);
+
+      try {
+        await sendPasswordResetEmail({
+          email: user.email,
+          name: user.name,
+          resetUrl: `${SERVER_URL}/reset-password?${new URLSearchParams({ email: user.email, token })}`,
+          expiresInMinutes: PASSWORD_RESET_TOKEN_MINUTES
+        });
+      } catch (error) {
+        // Failing here would tell the address has an account, so the error is only logged.
+        console.error("Failed to send the password reset email", error);
+      }
+    }
+
+    return { success: true, message: "If an account exists for this email, we sent a link to reset its password" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Sets a new password with the token of a password reset email.
+  - The token is used up, so the link can't be used again.
+  - The user is signed out everywhere: the session version is incremented, so the sessions signed in before are rejected (see auth.ts).
+*/
+export async function resetPassword(prevState: unknown, formData: FormData) {
+  try {
+    const data = resetPasswordSchema.parse({
+      email: formData.get("email"),
+      token: formData.get("token"),
+      password: formData.get("password"),
+      confirmPassword: formData.get("confirmPassword")
+    });
+
+    const isValid = await consumeVerificationToken("password-reset", data.email, data.token);
+    if (!isValid) throw new Error("Invalid or expired reset link");
+
+    const user = await prisma.user.findFirst({
+      where: { email: data.email }
+    });
+    if (!user) throw new Error("Invalid or expired reset link");
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        // Opening the reset link proves the user owns the email address, so it is verified too.
+        data: { password: hashSync(data.password, 10), sessionVersion: { increment: 1 }, emailVerified: user.emailVerified ?? new Date() }
+      }),
+      prisma.session.deleteMany({ where: { userId: user.id } })
+    ]);
+
+    // Lets the user sign in with the new password right away, even if the old one locked the account out.
+    await clearFailedLogins(user.email);
+
+    return { success: true, message: "Your password was reset. You can now sign in with it" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
 // Get user by ID
 export async function getUserById(userId: string) {
   // Finds the first user in the database whose `id` matches the given `userId`.
@@ -142,6 +319,15 @@ export async function updateUserAddress(data: ShippingAddress) {
       data: { address }
     });
 
+    // Reprices the user's cart, as the shipping rates depend on the country of the address.
+    const cart = await prisma.cart.findFirst({ where: { userId: currentUser.id } });
+    if (cart) {
+      await prisma.cart.update({
+        where: { id: cart.id },
+        data: await calcCartPrice(cart.items as CartItem[], { couponCode: cart.couponCode, userId: currentUser.id, shippingRateId: cart.shippingRateId })
+      });
+    }
+
     // Returns a success response if the address update is successful.
     return {
       success: true,
@@ -231,6 +417,8 @@ export async function updateProfile(user: { name: string; email: string }) {
   - An object containing the list of users (`data`) and the total number of pages based on the `limit`.
 */
 export async function getAllUsers({ limit = PAGE_SIZE, page, query }: { limit?: number; page: number; query: string }) {
+  await requirePermission("users:manage");
+
   /*
     Constructs a query filter based on the provided `query` string.
     - If a query is provided and is not "all", it filters users by name.
@@ -292,7 +480,18 @@ export async function getAllUsers({ limit = PAGE_SIZE, page, query }: { limit?:
   - An object with `success: false` and an error message if the deletion fails.
 */
 export async function deleteUser(id: string) {
+  await requirePermission("users:manage");
+
   try {
+    // The caller can only delete users holding no more permissions than them.
+    const user = await prisma.user.findFirst({ where: { id } });
+    if (user) assertCanAssignRole(await getMyPermissions(), { from: await getRolePermissions(user.role), to: [] });
+
+    // The last admin can't be deleted, so the store always has someone with every permission.
+    if (user?.role === ADMIN_ROLE && (await prisma.user.count({ where: { role: ADMIN_ROLE } })) === 1) {
+      throw new Error("The last admin can't be deleted");
+    }
+
     /*
       Deletes the user record from the database.
       - `prisma.user.delete()`: Removes the user record.
@@ -338,7 +537,26 @@ export async function deleteUser(id: string) {
   - An object with `success: false` and an error message if the update fails.
 */
 export async function updateUser(user: z.infer<typeof updateUserSchema>) {
+  await requirePermission("users:manage");
+
   try {
+    // The role must exist, see the admin roles page.
+    const role = await prisma.role.findFirst({ where: { name: user.role } });
+    if (!role) throw new Error("Role not found");
+
+    const currentUser = await prisma.user.findFirst({ where: { id: user.id } });
+    if (!currentUser) throw new Error("User not found");
+
+    // The caller can only hand out their own permissions, and only change the role of users holding no more than them.
+    if (currentUser.role !== user.role) {
+      assertCanAssignRole(await getMyPermissions(), { from: await getRolePermissions(currentUser.role), to: await getRolePermissions(user.role) });
+    }
+
+    // The last admin keeps their role, so the store always has someone with every permission.
+    if (currentUser.role === ADMIN_ROLE && user.role !== ADMIN_ROLE && (await prisma.user.count({ where: { role: ADMIN_ROLE } })) === 1) {
+      throw new Error("The last admin can't be given another role");
+    }
+
     /*
       Updates the user in the database using Prisma's `update` method.
       - `where: { id: user.id }`: Finds the user by their unique `id`.
@@ -375,3 +593,152 @@ export async function updateUser(user: z.infer<typeof updateUserSchema>) {
     return { success: false, message: formatError(error) };
   }
 }
+
+/*
+  Unlocks the sign-in of a user locked out after too many failed attempts, from the admin user page.
+  - Forgets the failed attempts of the email address. Those of the IP addresses are kept.
+*/
+export async function unlockUserLogin(userId: string) {
+  await requirePermission("users:manage");
+
+  try {
+    const user = await prisma.user.findFirst({
+      where: { id: userId }
+    });
+    if (!user) throw new Error("User not found");
+
+    await clearFailedLogins(user.email);
+
+    revalidatePath(`/admin/users/${userId}`);
+
+    return { success: true, message: "User unlocked successfully" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Starts turning on two-factor authentication for the signed-in user.
+  - Saves a new secret and returns it with its QR code, for the authenticator app. Two-factor authentication stays off
+    until `enableTwoFactor` confirms a code of the app, so a setup left halfway doesn't lock the user out.
+*/
+export async function startTwoFactorSetup() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) throw new Error("User is not authenticated");
+
+    const user = await prisma.user.findFirst({
+      where: { id: session.user.id }
+    });
+    if (!user) throw new Error("User not found");
+    if (user.twoFactorEnabledAt) throw new Error("Two-factor authentication is already on");
+
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: secret, twoFactorLastStep: null, twoFactorRecoveryCodes: [] }
+    });
+
+    const qrCode = await QRCode.toDataURL(getTotpUri({ secret, issuer: APP_NAME, account: user.email }));
+
+    return { success: true, message: "Scan the QR code with your authenticator app", secret, qrCode };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Turns on two-factor authentication with a code of the authenticator app set up by `startTwoFactorSetup`.
+  Returns the recovery codes, which are only stored hashed and can't be shown again.
+*/
+export async function enableTwoFactor(code: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) throw new Error("User is not authenticated");
+    const value = twoFactorCodeSchema.parse(code);
+
+    const user = await prisma.user.findFirst({
+      where: { id: session.user.id }
+    });
+    if (!user) throw new Error("User not found");
+    if (user.twoFactorEnabledAt) throw new Error("Two-factor authentication is already on");
+    if (!user.twoFactorSecret) throw new Error("Start the setup again");
+
+    const step = verifyTotpCode(user.twoFactorSecret, value);
+    if (step === null) throw new Error("Invalid authentication code");
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabledAt: new Date(), twoFactorLastStep: step, twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+    });
+
+    revalidatePath("/user/profile");
+
+    return { success: true, message: "Two-factor authentication is on", recoveryCodes };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+// Replaces the recovery codes of the signed-in user, after checking a code of the authenticator app or a recovery code.
+export async function regenerateRecoveryCodes(code: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) throw new Error("User is not authenticated");
+    const value = twoFactorCodeSchema.parse(code);
+
+    const user = await prisma.user.findFirst({
+      where: { id: session.user.id }
+    });
+    if (!user) throw new Error("User not found");
+    if (!user.twoFactorEnabledAt) throw new Error("Two-factor authentication is off");
+    if (!(await verifySecondFactor(user, value))) throw new Error("Invalid authentication code");
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+    });
+
+    revalidatePath("/user/profile");
+
+    return { success: true, message: "New recovery codes generated", recoveryCodes };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
+
+/*
+  Turns off two-factor authentication for the signed-in user, after checking a code of the authenticator app or a recovery code.
+  - Refused to the roles that must keep it on (staff with access to the admin area).
+*/
+export async function disableTwoFactor(code: string) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) throw new Error("User is not authenticated");
+    const value = twoFactorCodeSchema.parse(code);
+
+    const user = await prisma.user.findFirst({
+      where: { id: session.user.id }
+    });
+    if (!user) throw new Error("User not found");
+    if (!user.twoFactorEnabledAt) throw new Error("Two-factor authentication is off");
+    if (isTwoFactorRequired(await getRolePermissions(user.role))) throw new Error("Two-factor authentication is required for your account");
+    if (!(await verifySecondFactor(user, value))) throw new Error("Invalid authentication code");
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null, twoFactorRecoveryCodes: [] }
+    });
+
+    revalidatePath("/user/profile");
+
+    return { success: true, message: "Two-factor authentication is off" };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -0,0 +1,64 @@
+"use server";
+
+import { prisma } from "@/db/prisma";
+import { convertToPlainObject, formatError } from "../utils";
+import { PAGE_SIZE } from "../constants";
+import { revalidatePath } from "next/cache";
+import { processWebhookEvent } from "../webhooks";
+import { requirePermission } from "../auth-guard";
+
+/*
+  Fetches a paginated list of the received webhook events, newest first.
+
+  Parameters:
+  - `status`: Optional processing status to filter by (e.g. "failed"). "all" or empty returns every event.
+*/
+export async function getAllWebhookEvents({ limit = PAGE_SIZE, page, status }: { limit?: number; page: number; status?: string }) {
+  await requirePermission("settings:write");
+
+  const statusFilter = status && status !== "all" ? { status } : {};
+
+  const data = await prisma.webhookEvent.findMany({
+    where: statusFilter,
+    orderBy: { createdAt: "desc" },
+    skip: (page - 1) * limit,
+    take: limit
+  });
+
+  const dataCount = await prisma.webhookEvent.count({ where: statusFilter });
+
+  return {
+    data: convertToPlainObject(data),
+    totalPages: Math.ceil(dataCount / limit)
+  };
+}
+
+// Fetches a single webhook event, including its payload. Returns null when the event doesn't exist.
+export async function getWebhookEventById(id: string) {
+  await requirePermission("settings:write");
+
+  const data = await prisma.webhookEvent.findFirst({
+    where: { id }
+  });
+
+  return data ? convertToPlainObject(data) : null;
+}
+
+// Processes a recorded webhook event again, e.g. after the cause of its failure was fixed.
+export async function replayWebhookEvent(id: string) {
+  await requirePermission("settings:write");
+
+  try {
+    const event = await prisma.webhookEvent.findFirst({ where: { id } });
+    if (!event) throw new Error("Webhook event not found");
+
+    const result = await processWebhookEvent(id);
+
+    revalidatePath("/admin/webhooks");
+    revalidatePath(`/admin/webhooks/${id}`);
+
+    return result;
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
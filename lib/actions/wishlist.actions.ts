@@ -0,0 +1,126 @@
+/**
+ * This module manages the wishlist, the products a customer saved for later.
+ * Signed-in customers save products to their account. Guests save them under their session cart id,
+ * and the items are moved to their account at sign-in (see the `jwt` callback in auth.ts).
+ **/
+
+"use server";
+
+import { cookies } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { auth } from "@/auth";
+import { prisma } from "@/db/prisma";
+import { convertToPlainObject, formatError } from "../utils";
+import { addItemToCart } from "./cart.actions";
+import { getSalePricer } from "../pricing";
+
+// Returns the filter of the current customer's wishlist: the user when signed in, the session cart id for guests.
+async function getWishlistOwner(): Promise<{ userId: string; sessionCartId?: undefined } | { userId: null; sessionCartId: string }> {
+  const session = await auth();
+  const userId = session?.user?.id as string | undefined;
+  if (userId) return { userId };
+
+  const sessionCartId = (await cookies()).get("sessionCartId")?.value;
+  if (!sessionCartId) throw new Error("Cart Session not found");
+
+  return { userId: null, sessionCartId };
+}
+
+// Get the wishlist of the current customer, newest first, with the saved products and the price they sell at now
+export async function getMyWishlist() {
+  const owner = await getWishlistOwner();
+
+  const data = await prisma.wishlistItem.findMany({
+    where: owner,
+    include: { product: { include: { variants: { select: { id: true } } } } },
+    orderBy: { createdAt: "desc" }
+  });
+
+  const price = await getSalePricer();
+
+  return convertToPlainObject(data.map(item => ({ ...item, product: { ...item.product, pricing: price(item.product) } })));
+}
+
+// Get the ids of the products the current customer saved, used to show the heart toggles as selected
+export async function getMyWishlistProductIds() {
+  try {
+    const owner = await getWishlistOwner();
+    const data = await prisma.wishlistItem.findMany({ where: owner, select: { productId: true } });
+
+    return data.map(x => x.productId);
+  } catch {
+    // A visitor without a session cart has nothing saved yet.
+    return [];
+  }
+}
+
+// Save a product to the wishlist, or remove it when it is already saved
+export async function toggleWishlistItem(productId: string) {
+  try {
+    const owner = await getWishlistOwner();
+
+    const product = await prisma.product.findFirst({ where: { id: productId } });
+    if (!product) throw new Error("Product not found");
+
+    const existItem = await prisma.wishlistItem.findFirst({ where: { ...owner, productId } });
+
+    if (existItem) {
+      await prisma.wishlistItem.delete({ where: { id: existItem.id } });
+    } else {
+      await prisma.wishlistItem.create({
+        data: { productId, ...owner }
+      });
+    }
+
+    revalidatePath("/user/wishlist");
+    revalidatePath(`/product/${product.slug}`);
+
+    return {
+      success: true,
+      saved: !existItem,
+      message: `${product.name} ${existItem ? "removed from" : "saved to"} your wishlist`
+    };
+  } catch (error) {
+    return { success: false, saved: false, message: formatError(error) };
+  }
+}
+
+/*
+  Moves a saved product to the cart.
+  - Reuses `addItemToCart`, so the stock is checked and the cart is priced the same way as from the product page.
+  - Products sold in variants need the options to be picked on the product page, so they stay in the wishlist.
+  - The product leaves the wishlist once it is in the cart.
+*/
+export async function moveWishlistItemToCart(productId: string) {
+  try {
+    const owner = await getWishlistOwner();
+
+    const existItem = await prisma.wishlistItem.findFirst({
+      where: { ...owner, productId },
+      include: { product: true }
+    });
+    if (!existItem) throw new Error("Product is not in your wishlist");
+
+    const { product } = existItem;
+    const res = await addItemToCart({
+      productId: product.id,
+      name: product.name,
+      slug: product.slug,
+      price: product.price,
+      qty: 1,
+      image: product.images[0]
+    });
+    if (!res.success) return res;
+
+    await prisma.wishlistItem.delete({ where: { id: existItem.id } });
+
+    revalidatePath("/user/wishlist");
+
+    return {
+      success: true,
+      message: `${product.name} moved to cart`
+    };
+  } catch (error) {
+    return { success: false, message: formatError(error) };
+  }
+}
@@ -1,12 +1,46 @@
 import { auth } from "@/auth";
 import { redirect } from "next/navigation";
+import { hasPermission, Permission } from "./permissions";
+import { getUserAccess } from "./roles";
+import { isTwoFactorRequired } from "./two-factor";
 
-export async function requireAdmin() {
+/*
+  Checks the signed-in user has one of the permissions, shared by the guards below.
+  - Users with access to the admin area must turn on two-factor authentication first, "two_factor_required" tells them apart.
+*/
+async function checkPermission(permission: Permission | Permission[]) {
   const session = await auth();
+  const access = session?.user?.id ? await getUserAccess(session.user.id) : null;
 
-  if (session?.user?.role !== "admin") {
-    redirect("/unauthorized");
-  }
+  if (!session || !access || !hasPermission(access.permissions, permission)) return { session: null, status: "unauthorized" as const };
+  if (isTwoFactorRequired(access.permissions) && !access.twoFactorEnabledAt) return { session: null, status: "two_factor_required" as const };
+
+  return { session, status: "allowed" as const };
+}
+
+/*
+  Lets a user with one of the permissions through, for the admin pages and the admin server actions.
+  - Users without them are sent to /unauthorized.
+  - Users with access to the admin area must turn on two-factor authentication first: until they do, they are sent to their profile to set it up.
+*/
+export async function requirePermission(permission: Permission | Permission[]) {
+  const { session, status } = await checkPermission(permission);
+
+  if (status === "two_factor_required") redirect("/user/profile?twoFactor=required");
+  if (!session) redirect("/unauthorized");
 
   return session;
 }
+
+// Returns the session of a user with one of the permissions, or null, for the admin route handlers, which answer with a 401 instead of redirecting.
+export async function getPermittedSession(permission: Permission | Permission[]) {
+  return (await checkPermission(permission)).session;
+}
+
+// Returns the permissions of the signed-in user, e.g. to show the admin links they can open. Empty when signed out.
+export async function getMyPermissions() {
+  const session = await auth();
+  const access = session?.user?.id ? await getUserAccess(session.user.id) : null;
+
+  return access?.permissions ?? [];
+}
@@ -0,0 +1,109 @@
+/**
+ * This module calculates the prices of a cart: items, coupon discount, shipping and tax.
+ * It is shared by the cart actions, which store the prices on the cart, and by `createOrder`, which recalculates them
+ * for the current shipping address before the order is placed and stores the tax of each line.
+ * The items are repriced with the sales running now first (see lib/pricing.ts), so the cart only gets sale prices while the sale runs.
+ **/
+
+import { prisma } from "@/db/prisma";
+import { z } from "zod";
+import { evaluateCoupon } from "./coupon";
+import { getShippingOptions, selectShippingOption, ShippingTier } from "./shipping";
+import { calcLineTaxes } from "./tax";
+import { DEFAULT_TAX_RATE, PRICES_INCLUDE_TAX } from "./constants";
+import { round2 } from "./utils";
+import { repriceCartItems } from "./pricing";
+import { cartItemSchema } from "./validator";
+import { ShippingAddress } from "@/types";
+
+type CartLine = z.infer<typeof cartItemSchema>;
+
+/*
+  Lists the shipping options of cart items.
+  - The zone is matched with the country of the user's shipping address. Guests and users without an address get the options of the fallback zone as an estimate.
+  - The weight of the cart comes from the product weights.
+*/
+export async function getCartShippingOptions(items: CartLine[], { itemsPrice, userId }: { itemsPrice: number; userId?: string | null }) {
+  const user = userId ? await prisma.user.findFirst({ where: { id: userId } }) : null;
+  const country = (user?.address as ShippingAddress | null)?.country;
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(x => x.productId) } },
+    select: { id: true, weight: true }
+  });
+  const weight = items.reduce((acc, item) => acc + Number(products.find(x => x.id === item.productId)?.weight ?? 0) * item.qty, 0);
+
+  const zones = await prisma.shippingZone.findMany({ include: { rates: { orderBy: { createdAt: "asc" } } } });
+
+  return getShippingOptions(
+    zones.map(zone => ({ ...zone, rates: zone.rates.map(rate => ({ ...rate, tiers: rate.tiers as ShippingTier[] })) })),
+    { country, itemsPrice, weight }
+  );
+}
+
+/*
+  Calculates the tax of each cart line for the user's shipping address.
+  - Rates are matched with the country and region of the address and the tax category of each product. Guests and users without an address get the default rate as an estimate.
+*/
+async function calcCartLineTaxes(items: CartLine[], { discountPrice, userId }: { discountPrice: number; userId?: string | null }) {
+  const user = userId ? await prisma.user.findFirst({ where: { id: userId } }) : null;
+  const address = user?.address as ShippingAddress | null;
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(x => x.productId) } },
+    select: { id: true, taxCategory: true }
+  });
+  const rates = address?.country ? await prisma.taxRate.findMany({ where: { country: { equals: address.country.trim(), mode: "insensitive" } } }) : [];
+
+  return calcLineTaxes(
+    items.map(item => ({ total: Number(item.price) * item.qty, category: products.find(x => x.id === item.productId)?.taxCategory ?? "standard" })),
+    { rates, country: address?.country, region: address?.region, discountPrice, pricesIncludeTax: PRICES_INCLUDE_TAX, defaultRate: DEFAULT_TAX_RATE }
+  );
+}
+
+/*
+  Calculates the cart prices from its items, the applied coupon and the selected shipping rate, along with the tax of each line.
+
+  - The items are repriced with the price their product sells at now, and returned with the prices.
+  - A coupon that no longer applies to the cart (e.g. the minimum spend isn't met anymore) is dropped.
+  - The selected shipping rate falls back to the cheapest rate when it isn't offered for the cart. `shippingRateId` is null when no zone ships to the address.
+  - The discount is taken off the items before tax.
+  - When prices include tax, the tax price is part of the items price and isn't added to the total.
+*/
+export async function priceCart(cartItems: CartLine[], { couponCode, userId, shippingRateId }: { couponCode?: string | null; userId?: string | null; shippingRateId?: string | null } = {}) {
+  const items = await repriceCartItems(cartItems);
+  const coupon = couponCode && items.length > 0 ? await evaluateCoupon(couponCode, items, userId ?? undefined).catch(() => null) : null;
+
+  const itemsPrice = round2(items.reduce((acc, item) => acc + Number(item.price) * item.qty, 0));
+  const shipping = items.length > 0 ? selectShippingOption(await getCartShippingOptions(items, { itemsPrice, userId }), shippingRateId) : null;
+
+  const discountPrice = round2(coupon?.discount ?? 0);
+  const lineTaxes = items.length > 0 ? await calcCartLineTaxes(items, { discountPrice, userId }) : [];
+
+  //
+  const shippingPrice = round2(!shipping || coupon?.freeShipping ? 0 : shipping.price), //
+    taxPrice = round2(lineTaxes.reduce((acc, line) => acc + line.amount, 0)), //
+    totalPrice = round2(itemsPrice - discountPrice + shippingPrice + (PRICES_INCLUDE_TAX ? 0 : taxPrice)); //
+
+  return {
+    prices: {
+      itemsPrice: itemsPrice.toFixed(2), //
+      shippingPrice: shippingPrice.toFixed(2), //
+      taxPrice: taxPrice.toFixed(2), //
+      totalPrice: totalPrice.toFixed(2), //
+      discountPrice: discountPrice.toFixed(2), //
+      couponCode: coupon ? coupon.coupon.code : null, //
+      shippingRateId: shipping?.rateId ?? null //
+    },
+    items,
+    lineTaxes,
+    pricesIncludeTax: PRICES_INCLUDE_TAX
+  };
+}
+
+// Calculates the cart prices stored on the cart, along with the repriced items. See `priceCart`.
+export async function calcCartPrice(cartItems: CartLine[], options: { couponCode?: string | null; userId?: string | null; shippingRateId?: string | null } = {}) {
+  const { prices, items } = await priceCart(cartItems, options);
+
+  return { ...prices, items };
+}
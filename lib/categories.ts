@@ -0,0 +1,71 @@
+/**
+ * This module works with the category hierarchy: building the tree, finding the path of a category for breadcrumbs
+ * and finding the categories of a branch for filters and coupon restrictions.
+ * It doesn't touch the database, so it is shared by the actions, the pages and the tests.
+ **/
+
+// The fields of a category used to build the hierarchy.
+export type CategoryRecord = {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  sortOrder: number;
+};
+
+// A category in the tree, with its subcategories and the number of products in its branch.
+export type CategoryNode<T extends CategoryRecord = CategoryRecord> = T & {
+  children: CategoryNode<T>[];
+  productCount: number;
+};
+
+// Orders sibling categories by their sort order, then by name.
+const compareCategories = (a: CategoryRecord, b: CategoryRecord) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+/*
+  Builds the category tree.
+  - `productCounts` holds the number of products directly in each category. The count of a node includes the products of its subcategories.
+  - A category whose parent doesn't exist is shown at the top level.
+*/
+export function buildCategoryTree<T extends CategoryRecord>(categories: T[], productCounts: Record<string, number> = {}): CategoryNode<T>[] {
+  const build = (parentId: string | null): CategoryNode<T>[] =>
+    categories
+      .filter(x => (parentId ? x.parentId === parentId : !x.parentId || !categories.some(c => c.id === x.parentId)))
+      .sort(compareCategories)
+      .map(category => {
+        const children = build(category.id);
+        return { ...category, children, productCount: (productCounts[category.id] ?? 0) + children.reduce((acc, child) => acc + child.productCount, 0) };
+      });
+
+  return build(null);
+}
+
+// Flattens the category tree in display order, with the depth of each category (0 for top-level categories). Used by indented selects and lists.
+export function flattenCategoryTree<T extends CategoryRecord>(tree: CategoryNode<T>[], depth = 0): (CategoryNode<T> & { depth: number })[] {
+  return tree.flatMap(node => [{ ...node, depth }, ...flattenCategoryTree(node.children, depth + 1)]);
+}
+
+// Returns the path from the top-level category down to a category, for breadcrumbs. Empty when the category doesn't exist.
+export function getCategoryPath<T extends CategoryRecord>(categories: T[], categoryId: string): T[] {
+  const path: T[] = [];
+  let category = categories.find(x => x.id === categoryId);
+
+  // Stops at a category already in the path, so a cycle can't loop forever.
+  while (category && !path.includes(category)) {
+    path.unshift(category);
+    category = categories.find(x => x.id === category!.parentId);
+  }
+
+  return path;
+}
+
+// Returns the ids of a category and all of its subcategories, so a filter on a category includes the products of its branch.
+export function getCategoryBranchIds(categories: CategoryRecord[], categoryId: string): string[] {
+  const ids = [categoryId];
+
+  for (let i = 0; i < ids.length; i++) {
+    ids.push(...categories.filter(x => x.parentId === ids[i] && !ids.includes(x.id)).map(x => x.id));
+  }
+
+  return ids;
+}
@@ -12,50 +12,202 @@ export const signUpDefaultValues = {
   password: "",
   confirmPassword: ""
 };
+export const resetPasswordDefaultValues = {
+  password: "",
+  confirmPassword: ""
+};
+
+// Defines how long, in minutes, the link of a password reset email stays valid.
+// If the environment variable PASSWORD_RESET_TOKEN_MINUTES is not set, it defaults to 60 minutes.
+export const PASSWORD_RESET_TOKEN_MINUTES = Number(process.env.PASSWORD_RESET_TOKEN_MINUTES) || 60;
+
+// Defines how long, in minutes, the link of an email verification email stays valid.
+// If the environment variable EMAIL_VERIFICATION_TOKEN_MINUTES is not set, it defaults to 24 hours.
+export const EMAIL_VERIFICATION_TOKEN_MINUTES = Number(process.env.EMAIL_VERIFICATION_TOKEN_MINUTES) || 24 * 60;
+
+// Indicates whether users must verify their email address before placing an order. If the environment variable
+// REQUIRE_EMAIL_VERIFICATION is "true", orders of unverified users are refused. Defaults to false.
+export const REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === "true";
+
+// Defines the number of failed sign-in attempts after which an email address, or an IP address, is locked out.
+// If the environment variables LOGIN_MAX_ATTEMPTS and LOGIN_MAX_ATTEMPTS_PER_IP are not set, they default to 5 and 20.
+// An IP address gets more attempts, as several users may share it.
+export const LOGIN_MAX_ATTEMPTS = Number(process.env.LOGIN_MAX_ATTEMPTS) || 5;
+export const LOGIN_MAX_ATTEMPTS_PER_IP = Number(process.env.LOGIN_MAX_ATTEMPTS_PER_IP) || 20;
+
+// Defines where the IP address of the client is read from, to throttle the sign-in attempts per IP address.
+// CLIENT_IP_HEADER names the header set by the proxy in front of the app (e.g. "x-real-ip" or "cf-connecting-ip"), it defaults to "x-forwarded-for".
+// TRUSTED_PROXY_COUNT is the number of proxies appending to x-forwarded-for, it defaults to 1. See `getClientIp` in lib/login-throttle.ts.
+export const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER || "x-forwarded-for";
+export const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT) || 1;
+
+// Defines how long, in minutes, a lockout lasts. Failed attempts older than this are forgotten.
+// If the environment variable LOGIN_LOCKOUT_MINUTES is not set, it defaults to 15 minutes.
+export const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
 
 export const shippingAddressDefaultValues = {
   fullName: "",
   streetAddress: "",
   city: "",
   postalCode: "",
+  region: "",
   country: ""
 };
 
 // Defines an array of payment methods. If the environment variable PAYMENT_METHODS is set, it splits the string into an array of payment methods.
-// If the environment variable is not set, it defaults to an array containing "PayPal", "Stripe", and "CashOnDelivery".
-export const PAYMENT_METHODS = process.env.PAYMENT_METHODS ? process.env.PAYMENT_METHODS.split(", ") : ["PayPal", "Stripe", "CashOnDelivery"];
+// If the environment variable is not set, it defaults to an array containing "PayPal", "Stripe", and "CashOnDelivery",
+// plus the offline "TestPay" method outside production. Each method must have a provider registered in lib/payments.
+export const PAYMENT_METHODS = process.env.PAYMENT_METHODS
+  ? process.env.PAYMENT_METHODS.split(", ")
+  : ["PayPal", "Stripe", "CashOnDelivery", ...(process.env.NODE_ENV !== "production" ? ["TestPay"] : [])];
 
 // Defines the default payment method. If the environment variable DEFAULT_PAYMENT_METHOD is set, it uses its value.
 // If the environment variable is not set, it defaults to "PayPal".
 export const DEFAULT_PAYMENT_METHOD = process.env.DEFAULT_PAYMENT_METHOD || "PayPal";
 
+// Defines how long, in minutes, the stock of an unpaid order stays reserved before the order is cancelled.
+// If the environment variable ORDER_RESERVATION_MINUTES is not set, it defaults to 30 minutes.
+export const ORDER_RESERVATION_MINUTES = Number(process.env.ORDER_RESERVATION_MINUTES) || 30;
+
+// Defines the stock at or below which a product is reported as low on stock, unless the product sets its own threshold.
+// If the environment variable LOW_STOCK_THRESHOLD is not set, it defaults to 5.
+export const LOW_STOCK_THRESHOLD = process.env.LOW_STOCK_THRESHOLD ? Number(process.env.LOW_STOCK_THRESHOLD) : 5;
+
+// Indicates whether product prices include tax. If the environment variable PRICES_INCLUDE_TAX is "true", tax is extracted from the prices
+// instead of added on top of them.
+export const PRICES_INCLUDE_TAX = process.env.PRICES_INCLUDE_TAX === "true";
+
+// Defines the tax rate (in percent) used when no tax rate is configured for the shipping address, and as an estimate before the address is known.
+// If the environment variable DEFAULT_TAX_RATE is not set, it defaults to 15%.
+export const DEFAULT_TAX_RATE = process.env.DEFAULT_TAX_RATE ? Number(process.env.DEFAULT_TAX_RATE) : 15;
+
+// Defines the tax categories of products. If the environment variable TAX_CATEGORIES is set, it splits the string into an array of categories.
+// If the environment variable is not set, it defaults to "standard", "reduced" (e.g. books) and "zero".
+export const TAX_CATEGORIES = process.env.TAX_CATEGORIES ? process.env.TAX_CATEGORIES.split(", ") : ["standard", "reduced", "zero"];
+
 export const PAGE_SIZE = Number(process.env.PAGE_SIZE) || 12;
 
+// Defines the folder bare image file names of the catalog CSV import are resolved against (e.g. "p1-1.jpg").
+// If the environment variable IMPORT_IMAGE_BASE_PATH is not set, it defaults to the folder of the sample product images.
+export const IMPORT_IMAGE_BASE_PATH = process.env.IMPORT_IMAGE_BASE_PATH || "/images/sample-products";
+
+// Defines how many rows of the catalog CSV import are saved per transaction.
+export const IMPORT_BATCH_SIZE = Number(process.env.IMPORT_BATCH_SIZE) || 50;
+
+// Defines the largest catalog CSV file that can be imported, in rows.
+export const IMPORT_MAX_ROWS = 5000;
+
 export const productDefaultValues = {
   name: "",
   slug: "",
-  category: "",
+  categoryId: "",
   images: [],
   brand: "",
   description: "",
   price: "0",
+  salePrice: null,
+  saleStartsAt: null,
+  saleEndsAt: null,
   stock: 0,
+  lowStockThreshold: null,
+  weight: "0",
+  taxCategory: "standard",
   rating: "0",
   numReviews: "0",
   isFeatured: false,
-  banner: null
+  banner: null,
+  variants: []
 };
 
 /*
-  Defines the `USER_ROLES` constant, which determines the available user roles in the application.
+  Defines the `VARIANT_OPTIONS` constant, which determines the option names a product variant can have (e.g. size and color).
 
-  - It first checks if the `USER_ROLES` environment variable is defined.
-  - If `USER_ROLES` exists, it splits the string by ", " to create an array of roles.
-  - If `USER_ROLES` is not set, it defaults to `["admin", "user"]`.
+  - If the `VARIANT_OPTIONS` environment variable is set, it splits the string by ", " to create an array of option names.
+  - If it is not set, it defaults to `["Size", "Color"]`.
 */
-export const USER_ROLES = process.env.USER_ROLES
-  ? process.env.USER_ROLES.split(", ") // Converts a comma-separated string into an array of roles
-  : ["admin", "user"]; // Default roles if no environment variable is set
+export const VARIANT_OPTIONS = process.env.VARIANT_OPTIONS ? process.env.VARIANT_OPTIONS.split(", ") : ["Size", "Color"];
+
+/*
+  Defines the `COUPON_TYPES` constant, which determines the kinds of discount a coupon can grant.
+
+  - "percentage": discounts a percentage of the eligible items.
+  - "fixed": discounts a fixed amount of the eligible items.
+  - "free_shipping": waives the shipping price.
+*/
+export const COUPON_TYPES = ["percentage", "fixed", "free_shipping"];
+
+export const couponDefaultValues = {
+  code: "",
+  type: "percentage",
+  value: "0",
+  minSpend: null,
+  expiresAt: null,
+  usageLimit: null,
+  perUserLimit: null,
+  productIds: [],
+  categoryIds: [],
+  isActive: true
+};
+
+export const saleDefaultValues = {
+  name: "",
+  description: null,
+  discountPercent: "10",
+  categoryIds: [],
+  startsAt: undefined,
+  endsAt: undefined,
+  isActive: true
+};
+
+export const roleDefaultValues = {
+  name: "",
+  description: null,
+  permissions: []
+};
+
+export const homepageSectionDefaultValues = {
+  type: "product_row",
+  title: "",
+  content: {
+    slides: [],
+    includeFeaturedProducts: false,
+    collections: [],
+    saleId: null,
+    valueProps: [],
+    rule: "latest",
+    categoryId: null,
+    limit: LATEST_PRODUCTS_LIMIT,
+    showViewAll: false
+  },
+  isPublished: false,
+  startsAt: null,
+  endsAt: null
+};
+
+// Defines how the price of a shipping rate is calculated: a flat price, or tiers by the cart weight or items price.
+export const SHIPPING_RATE_TYPES = ["flat", "weight", "price"];
+
+export const shippingZoneDefaultValues = {
+  name: "",
+  countries: [],
+  rates: []
+};
+
+export const categoryDefaultValues = {
+  name: "",
+  slug: "",
+  description: "",
+  image: "",
+  parentId: "",
+  sortOrder: 0
+};
+
+export const taxRateDefaultValues = {
+  country: "",
+  region: "",
+  category: "standard",
+  rate: "0"
+};
 
 export const reviewFormDefaultValues = {
   title: "",
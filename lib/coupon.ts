@@ -0,0 +1,122 @@
+/**
+ * This module holds the discount rules of coupons.
+ * The same rules are used when a coupon is applied to the cart and when the order is placed.
+ **/
+
+import { prisma, TransactionClient } from "@/db/prisma";
+import { round2 } from "./utils";
+import { getCategoryPath } from "./categories";
+
+// The fields of a coupon that decide whether and how much it discounts.
+export type CouponRules = {
+  code: string;
+  type: string; // "percentage", "fixed" or "free_shipping"
+  value: string | number;
+  minSpend: string | number | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+  productIds: string[];
+  categoryIds: string[];
+};
+
+// A cart line with the category of its product and the parents of that category, which are needed for category restricted coupons.
+export type CouponLine = { productId: string; price: string; qty: number; categoryIds?: string[] };
+
+// Checks that a coupon can currently be used, throwing an error with a customer facing message when it can't.
+export function assertCouponUsable(coupon: CouponRules, usage: { total: number; byUser: number; usageLimit: number | null; perUserLimit: number | null }) {
+  if (!coupon.isActive) throw new Error("Coupon is not active");
+  if (coupon.expiresAt && coupon.expiresAt.getTime() < Date.now()) throw new Error("Coupon has expired");
+  if (usage.usageLimit !== null && usage.total >= usage.usageLimit) throw new Error("Coupon usage limit reached");
+  if (usage.perUserLimit !== null && usage.byUser >= usage.perUserLimit) throw new Error("You have already used this coupon");
+}
+
+/*
+  Calculates the discount a coupon grants on the given cart lines.
+
+  - Only lines matching the product and category restrictions of the coupon are discounted. A coupon without restrictions applies to every line.
+  - A coupon restricted to a category also applies to the products of its subcategories.
+  - The minimum spend is checked against the items price of the whole cart.
+  - Percentage coupons discount a percentage of the eligible lines, fixed coupons discount at most the price of the eligible lines.
+  - Free shipping coupons don't discount the items, they waive the shipping price instead.
+*/
+export function calcCouponDiscount(coupon: CouponRules, lines: CouponLine[]) {
+  const itemsPrice = round2(lines.reduce((acc, line) => acc + Number(line.price) * line.qty, 0));
+  if (coupon.minSpend !== null && itemsPrice < Number(coupon.minSpend)) {
+    throw new Error(`Coupon requires a minimum spend of $${Number(coupon.minSpend).toFixed(2)}`);
+  }
+
+  // Sums the price of the lines the coupon applies to.
+  const isRestricted = coupon.productIds.length > 0 || coupon.categoryIds.length > 0;
+  const eligiblePrice = round2(
+    lines
+      .filter(line => !isRestricted || coupon.productIds.includes(line.productId) || (line.categoryIds ?? []).some(id => coupon.categoryIds.includes(id)))
+      .reduce((acc, line) => acc + Number(line.price) * line.qty, 0)
+  );
+  if (eligiblePrice === 0) throw new Error("Coupon does not apply to any item in your cart");
+
+  switch (coupon.type) {
+    case "percentage":
+      return { discount: round2((eligiblePrice * Math.min(Number(coupon.value), 100)) / 100), freeShipping: false };
+    case "fixed":
+      return { discount: round2(Math.min(Number(coupon.value), eligiblePrice)), freeShipping: false };
+    case "free_shipping":
+      return { discount: 0, freeShipping: true };
+    default:
+      throw new Error("Invalid coupon type");
+  }
+}
+
+/*
+  Looks up a coupon by its code and calculates the discount it grants on the given cart lines.
+
+  - The usage limits are checked against the recorded redemptions. The per-user limit is only checked when a user is given.
+  - The categories of the products in the cart, and their parents, are loaded so category restricted coupons can be matched.
+  - Throws an error with a customer facing message when the coupon can't be used.
+*/
+export async function evaluateCoupon(code: string, items: { productId: string; price: string; qty: number }[], userId?: string) {
+  const coupon = await prisma.coupon.findFirst({
+    where: { code: code.trim().toUpperCase() }
+  });
+  if (!coupon) throw new Error("Coupon not found");
+
+  const [total, byUser] = await Promise.all([
+    prisma.couponRedemption.count({ where: { couponId: coupon.id } }),
+    userId ? prisma.couponRedemption.count({ where: { couponId: coupon.id, userId } }) : 0
+  ]);
+  assertCouponUsable(coupon, { total, byUser, usageLimit: coupon.usageLimit, perUserLimit: coupon.perUserLimit });
+
+  // Loads the category of each product in the cart, with the parents of the category.
+  const [products, categories] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: items.map(item => item.productId) } },
+      select: { id: true, categoryId: true }
+    }),
+    coupon.categoryIds.length > 0 ? prisma.category.findMany() : []
+  ]);
+  const lines = items.map(item => {
+    const categoryId = products.find(x => x.id === item.productId)?.categoryId;
+    return { ...item, categoryIds: categoryId ? getCategoryPath(categories, categoryId).map(x => x.id) : [] };
+  });
+
+  return { coupon, ...calcCouponDiscount(coupon, lines) };
+}
+
+/*
+  Records the redemption of a coupon by an order, inside the transaction placing the order.
+  - The coupon is locked until the transaction ends and the usage limits are checked again, so concurrent checkouts can't redeem it
+    more times than allowed: they wait for each other, and the last ones fail with the usage limit message, which rolls back their order.
+*/
+export async function redeemCoupon(
+  tx: TransactionClient,
+  coupon: CouponRules & { id: string; usageLimit: number | null; perUserLimit: number | null },
+  { userId, orderId, discount }: { userId: string; orderId: string; discount: string | number }
+) {
+  await tx.$queryRaw`SELECT id FROM "Coupon" WHERE id = ${coupon.id}::uuid FOR UPDATE`;
+
+  const [total, byUser] = await Promise.all([tx.couponRedemption.count({ where: { couponId: coupon.id } }), tx.couponRedemption.count({ where: { couponId: coupon.id, userId } })]);
+  assertCouponUsable(coupon, { total, byUser, usageLimit: coupon.usageLimit, perUserLimit: coupon.perUserLimit });
+
+  await tx.couponRedemption.create({
+    data: { couponId: coupon.id, userId, orderId, discount }
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * This module reads and writes CSV files (RFC 4180) for the catalog import and export and the import reports.
+ * It doesn't touch the database or the browser, so it is shared by the routes, the admin pages and the tests.
+ **/
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/*
+  Parses CSV text into rows of fields.
+  - Fields can be quoted with double quotes, which may contain commas, line breaks and doubled quotes ("").
+  - Accepts \n and \r\n line endings, a leading byte order mark (added by Excel) and skips blank lines.
+*/
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/*
+  Parses CSV text with a header row into records keyed by the (trimmed) column names.
+  Returns the column names and the records, each with the line number of its row for error messages.
+*/
+export function parseCsvRecords(text: string) {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(x => x.trim());
+
+  return {
+    columns,
+    records: rows.map((row, index) => ({
+      line: index + 2, // The header is line 1
+      values: Object.fromEntries(columns.map((column, c) => [column, row[c] ?? ""])) as Record<string, string>
+    }))
+  };
+}
+
+// Quotes a field when it contains a comma, a quote or a line break.
+function escapeCsvField(value: CsvValue) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Writes rows of fields as CSV text, with \r\n line endings as spreadsheets expect.
+export function toCsv(rows: CsvValue[][]) {
+  return rows.map(row => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
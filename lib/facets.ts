@@ -0,0 +1,44 @@
+/**
+ * This module defines the facets of the search page (price buckets, rating steps and the brand selection)
+ * and the helpers that read and change the filters in the search URL.
+ * It doesn't touch the database, so it is shared by the product actions, the search page and the tests.
+ **/
+
+// The price buckets of the price facet. The value is the "min-max" range used in the search URL.
+export const PRICE_BUCKETS = [
+  { name: "$1 to $50", value: "1-50" },
+  { name: "$51 to $100", value: "51-100" },
+  { name: "$101 to $200", value: "101-200" },
+  { name: "$201 to $500", value: "201-500" },
+  { name: "$501 to $1000", value: "501-1000" }
+];
+
+// The minimum ratings of the rating facet ("4 stars & up").
+export const RATING_FACETS = [4, 3, 2, 1];
+
+// A value of a facet with the number of products matching it.
+export type FacetCount<T = string> = { value: T; count: number };
+
+// Reads the selected brands from the `brand` search parameter, a comma separated list. "all" or empty selects every brand.
+export function parseBrands(brand?: string | null) {
+  if (!brand || brand === "all") return [];
+  return [...new Set(brand.split(",").map(x => x.trim()).filter(Boolean))];
+}
+
+// Writes the selected brands to the `brand` search parameter.
+export function formatBrands(brands: string[]) {
+  return brands.length > 0 ? brands.join(",") : "all";
+}
+
+// Adds a brand to the selection, or removes it when it is already selected.
+export function toggleBrand(brands: string[], brand: string) {
+  return brands.includes(brand) ? brands.filter(x => x !== brand) : [...brands, brand];
+}
+
+// Reads a "min-max" price range. Returns null for "all" or a malformed range.
+export function parsePriceRange(price?: string | null) {
+  if (!price || price === "all") return null;
+
+  const [min, max] = price.split("-").map(Number);
+  return Number.isFinite(min) && Number.isFinite(max) ? { min, max } : null;
+}
@@ -0,0 +1,115 @@
+/**
+ * This module defines the sections of the homepage that admins configure: their types, their content and when they are shown.
+ * Sections are shown in order of position while they are published and within their optional schedule. The admin preview also shows drafts.
+ * It doesn't touch the database, so it is shared by the actions, the admin forms and the tests.
+ **/
+
+/*
+  The types of homepage sections:
+  - "hero": the carousel of slides at the top, optionally followed by the banners of the featured products.
+  - "collections": a grid of images linking to collections (e.g. categories or searches).
+  - "countdown": the deal countdown to the end of a sale.
+  - "value_props": the boxes with the promises of the store (e.g. free shipping).
+  - "product_row": a row of products picked by a rule.
+*/
+export const HOMEPAGE_SECTION_TYPES = ["hero", "collections", "countdown", "value_props", "product_row"];
+
+// The labels of the section types in the admin.
+export const HOMEPAGE_SECTION_LABELS: Record<string, string> = {
+  hero: "Hero carousel",
+  collections: "Featured collections",
+  countdown: "Promo countdown",
+  value_props: "Value propositions",
+  product_row: "Product row"
+};
+
+// The rules picking the products of a product row.
+export const PRODUCT_ROW_RULES = ["latest", "featured", "top_rated", "on_sale", "category"];
+
+// The icons a value proposition box can show, by their lucide name.
+export const VALUE_PROP_ICONS = ["ShoppingBag", "DollarSign", "WalletCards", "Headset", "Truck", "ShieldCheck", "Gift", "RotateCcw"];
+
+// The content of a section. Every type uses its own fields, the others being left empty.
+export type HomepageSectionContent = {
+  slides: { image: string; title: string; subtitle: string | null; href: string }[]; // "hero"
+  includeFeaturedProducts: boolean; // "hero": adds the banners of the featured products after the slides.
+  collections: { image: string; title: string; href: string }[]; // "collections"
+  saleId: string | null; // "countdown": the sale counted down to. Null counts down to the running sale ending soonest.
+  valueProps: { icon: string; title: string; text: string }[]; // "value_props"
+  rule: string; // "product_row": one of PRODUCT_ROW_RULES.
+  categoryId: string | null; // "product_row": the category of the "category" rule, including its subcategories.
+  limit: number; // "product_row": the number of products shown.
+  showViewAll: boolean; // "product_row": shows the "View All Products" button under the row.
+};
+
+// The fields of a section deciding whether it is shown.
+export type HomepageSectionRecord = {
+  id: string;
+  type: string;
+  position: number;
+  isPublished: boolean;
+  startsAt: Date | null;
+  endsAt: Date | null;
+};
+
+// Whether a section is within its schedule at the given time. The start is included and the end is not.
+export function isSectionScheduled({ startsAt, endsAt }: Pick<HomepageSectionRecord, "startsAt" | "endsAt">, now: Date = new Date()) {
+  return (!startsAt || new Date(startsAt) <= now) && (!endsAt || now < new Date(endsAt));
+}
+
+/*
+  Returns the sections shown on the homepage at the given time, in order of position.
+  - The storefront only shows published sections. The preview (`includeDrafts`) also shows drafts, so they can be checked before publishing.
+  - Sections outside their schedule are hidden in both, so the preview at a future time shows what the homepage will look like then.
+*/
+export function getVisibleSections<T extends HomepageSectionRecord>(sections: T[], { now = new Date(), includeDrafts = false }: { now?: Date; includeDrafts?: boolean } = {}) {
+  return sections
+    .filter(section => (includeDrafts || section.isPublished) && isSectionScheduled(section, now))
+    .sort((a, b) => a.position - b.position || a.id.localeCompare(b.id));
+}
+
+/*
+  Checks the content of a section has what its type needs.
+  Throws an error describing the problem.
+*/
+export function assertValidSectionContent(type: string, content: HomepageSectionContent) {
+  if (!HOMEPAGE_SECTION_TYPES.includes(type)) throw new Error("Invalid section type");
+
+  switch (type) {
+    case "hero":
+      if (content.slides.length === 0 && !content.includeFeaturedProducts) throw new Error("Add a slide or include the featured products");
+      break;
+    case "collections":
+      if (content.collections.length === 0) throw new Error("Add at least one collection");
+      break;
+    case "value_props":
+      if (content.valueProps.length === 0) throw new Error("Add at least one value proposition");
+      if (content.valueProps.some(x => !VALUE_PROP_ICONS.includes(x.icon))) throw new Error("Invalid icon");
+      break;
+    case "product_row":
+      if (!PRODUCT_ROW_RULES.includes(content.rule)) throw new Error("Invalid product rule");
+      if (content.rule === "category" && !content.categoryId) throw new Error("Select the category of the product row");
+      break;
+  }
+}
+
+// Returns the position after the last section, for a new section.
+export function getNextPosition(sections: Pick<HomepageSectionRecord, "position">[]) {
+  return sections.reduce((acc, section) => Math.max(acc, section.position + 1), 0);
+}
+
+/*
+  Moves a section one place up or down, returning the new position of every section in the new order.
+  Positions are renumbered from 0, so gaps left by deleted sections are closed.
+*/
+export function moveSection<T extends Pick<HomepageSectionRecord, "id" | "position">>(sections: T[], id: string, direction: "up" | "down") {
+  const ordered = [...sections].sort((a, b) => a.position - b.position || a.id.localeCompare(b.id));
+  const index = ordered.findIndex(x => x.id === id);
+  const target = direction === "up" ? index - 1 : index + 1;
+
+  if (index !== -1 && target >= 0 && target < ordered.length) {
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+  }
+
+  return ordered.map((section, position) => ({ id: section.id, position }));
+}
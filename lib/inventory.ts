@@ -0,0 +1,67 @@
+/**
+ * This module holds the inventory ledger shared by the order and product actions, the payment webhooks and the scheduled jobs:
+ * recording the stock movements, finding the products low on stock and emailing the daily low-stock digest to the staff managing the inventory.
+ **/
+
+import { prisma, TransactionClient } from "@/db/prisma";
+import { sendLowStockDigest } from "@/email";
+import { LOW_STOCK_THRESHOLD } from "./constants";
+import { ADMIN_ROLE } from "./permissions";
+
+// A change of the stock to record in the ledger.
+export type InventoryMovementInput = {
+  productId: string;
+  variantId?: string | null;
+  quantity: number; // Positive when stock was added, negative when it was taken
+  reason: "sale" | "restock" | "adjustment" | "return" | "reservation";
+  orderId?: string | null;
+  actorId?: string | null;
+  note?: string;
+  stockAfter?: number; // The stock of the product after the change. Read from the product when omitted
+};
+
+/*
+  Records a stock movement inside the transaction of the caller, after the stock was changed.
+  Movements that don't change the stock are skipped.
+*/
+export async function recordInventoryMovement(tx: TransactionClient, { productId, variantId = null, quantity, reason, orderId = null, actorId = null, note, stockAfter }: InventoryMovementInput) {
+  if (quantity === 0) return;
+
+  const product = stockAfter === undefined ? await tx.product.findFirst({ where: { id: productId }, select: { stock: true } }) : null;
+
+  await tx.inventoryMovement.create({
+    data: { productId, variantId, quantity, reason, orderId, actorId, note, stockAfter: stockAfter ?? product?.stock ?? 0 }
+  });
+}
+
+// Returns the products whose stock is at or below their low-stock threshold (or the default threshold), lowest stock first.
+export async function getLowStockProducts() {
+  return prisma.product.findMany({
+    where: {
+      OR: [{ lowStockThreshold: null, stock: { lte: LOW_STOCK_THRESHOLD } }, { stock: { lte: prisma.product.fields.lowStockThreshold } }]
+    },
+    select: { id: true, name: true, slug: true, stock: true, lowStockThreshold: true },
+    orderBy: [{ stock: "asc" }, { name: "asc" }]
+  });
+}
+
+/*
+  Emails the list of the products low on stock to the staff managing the inventory. Run daily by the scheduled job at /api/cron/low-stock-digest.
+  Nothing is sent when no product is low on stock. Returns the number of reported products.
+*/
+export async function sendLowStockDigestToAdmins() {
+  const products = await getLowStockProducts();
+  if (products.length === 0) return 0;
+
+  // The digest goes to the users whose role has the inventory:write permission (the admin role always has it).
+  const roles = await prisma.role.findMany({ where: { permissions: { has: "inventory:write" } }, select: { name: true } });
+  const admins = await prisma.user.findMany({ where: { role: { in: [ADMIN_ROLE, ...roles.map(x => x.name)] } }, select: { email: true } });
+  if (admins.length === 0) return 0;
+
+  await sendLowStockDigest({
+    emails: admins.map(x => x.email),
+    products: products.map(x => ({ ...x, lowStockThreshold: x.lowStockThreshold ?? LOW_STOCK_THRESHOLD }))
+  });
+
+  return products.length;
+}
@@ -0,0 +1,99 @@
+/**
+ * This module throttles the sign-in attempts of `authorize` in auth.ts, counting the failed attempts per email address and per IP address
+ * in the LoginThrottle model (see lib/login-throttle.ts for the rules). The user is emailed when their email address gets locked out.
+ **/
+
+import { CredentialsSignin } from "next-auth";
+import { prisma } from "@/db/prisma";
+import { sendAccountLockedEmail } from "@/email";
+import { LOGIN_LOCKOUT_MINUTES, LOGIN_MAX_ATTEMPTS, LOGIN_MAX_ATTEMPTS_PER_IP, SERVER_URL } from "./constants";
+import { getLoginFailureCutoff, getLoginLockoutEnd, getLoginRetryAt, LoginThrottlePolicy } from "./login-throttle";
+
+// Thrown by `authorize` when the attempt must wait, so the sign-in form can tell when to try again instead of "Invalid email or password".
+export class LoginThrottledError extends CredentialsSignin {
+  code = "throttled";
+
+  constructor(public retryAt: Date) {
+    super();
+  }
+}
+
+const emailPolicy: LoginThrottlePolicy = { maxAttempts: LOGIN_MAX_ATTEMPTS, lockoutMinutes: LOGIN_LOCKOUT_MINUTES };
+const ipPolicy: LoginThrottlePolicy = { maxAttempts: LOGIN_MAX_ATTEMPTS_PER_IP, lockoutMinutes: LOGIN_LOCKOUT_MINUTES };
+
+// The keys of the LoginThrottle records of an email address and an IP address.
+const getEmailKey = (email: string) => `email:${email.toLowerCase()}`;
+const getIpKey = (ip: string) => `ip:${ip}`;
+
+/*
+  Throws a `LoginThrottledError` when the email address or the IP address must wait before the next attempt.
+  The password isn't checked at all while waiting, so guessing costs the attacker time. An unknown IP address is only throttled per email address.
+*/
+export async function assertLoginAllowed(email: string, ip: string | null, now: Date = new Date()) {
+  const [emailRecord, ipRecord] = await Promise.all([
+    prisma.loginThrottle.findUnique({ where: { key: getEmailKey(email) } }),
+    ip ? prisma.loginThrottle.findUnique({ where: { key: getIpKey(ip) } }) : null
+  ]);
+
+  const retryAt = [getLoginRetryAt(emailRecord, emailPolicy, now), getLoginRetryAt(ipRecord, ipPolicy, now)].filter(x => x !== null).sort((a, b) => b.getTime() - a.getTime())[0];
+  if (retryAt) throw new LoginThrottledError(retryAt);
+}
+
+/*
+  Counts a failed attempt for a key, returning whether it locked the key out.
+  - The count is incremented in the database, so parallel attempts are all counted.
+  - Only the attempt whose count reaches the limit starts the lockout (the conditional update matches once), so the lockout email is sent once.
+*/
+async function recordFailure(key: string, policy: LoginThrottlePolicy, now: Date) {
+  // Forgets the failed attempts older than the quiet period before counting this one.
+  await prisma.loginThrottle.updateMany({
+    where: { key, lastFailedAt: { lte: getLoginFailureCutoff(policy, now) } },
+    data: { failedAttempts: 0 }
+  });
+
+  const record = await prisma.loginThrottle.upsert({
+    where: { key },
+    create: { key, failedAttempts: 1, lastFailedAt: now },
+    update: { failedAttempts: { increment: 1 }, lastFailedAt: now }
+  });
+
+  const lockedUntil = getLoginLockoutEnd(record.failedAttempts, policy, now);
+  if (!lockedUntil) return false;
+
+  const { count } = await prisma.loginThrottle.updateMany({
+    where: { key, failedAttempts: { gte: policy.maxAttempts } },
+    data: { failedAttempts: 0, lockedUntil }
+  });
+  return count === 1;
+}
+
+/*
+  Counts a failed attempt for the email address and the IP address.
+  - When the email address gets locked out and belongs to a user, the user is emailed. A failure to send doesn't stop the sign-in.
+*/
+export async function recordFailedLogin(email: string, ip: string | null, now: Date = new Date()) {
+  const [isEmailLockedOut] = await Promise.all([recordFailure(getEmailKey(email), emailPolicy, now), ip ? recordFailure(getIpKey(ip), ipPolicy, now) : false]);
+  if (!isEmailLockedOut) return;
+
+  const user = await prisma.user.findFirst({ where: { email } });
+  if (!user) return;
+
+  try {
+    await sendAccountLockedEmail({ email: user.email, name: user.name, lockoutMinutes: LOGIN_LOCKOUT_MINUTES, resetUrl: `${SERVER_URL}/forgot-password` });
+  } catch (error) {
+    console.error("Failed to send the account locked email", error);
+  }
+}
+
+/*
+  Forgets the failed attempts of an email address, after a successful sign-in or when an admin unlocks it.
+  The failed attempts of the IP address are kept, so signing in to one account doesn't reset the count of an IP trying many.
+*/
+export async function clearFailedLogins(email: string) {
+  await prisma.loginThrottle.deleteMany({ where: { key: getEmailKey(email) } });
+}
+
+// Returns the failed attempts of an email address, for the admin user page. Null when there are none.
+export async function getLoginThrottle(email: string) {
+  return prisma.loginThrottle.findUnique({ where: { key: getEmailKey(email) } });
+}
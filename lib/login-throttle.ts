@@ -0,0 +1,75 @@
+/**
+ * This module decides when a sign-in attempt is allowed, from the failed attempts of the email address and of the IP address.
+ * After a few failed attempts, each new attempt must wait longer (progressive delays), and too many lock the address out for a while.
+ * It doesn't touch the database, so it is shared by the sign-in and the tests.
+ **/
+
+// The failed attempts of an email address or an IP address.
+export type LoginThrottleRecord = {
+  failedAttempts: number; // The failed attempts since the last lockout, or since they were last forgotten.
+  lastFailedAt: Date | null;
+  lockedUntil: Date | null; // The end of the current lockout.
+};
+
+export type LoginThrottlePolicy = {
+  maxAttempts: number; // The failed attempts that lock the address out.
+  lockoutMinutes: number; // How long a lockout lasts. Failed attempts older than this are forgotten.
+  freeAttempts?: number; // The failed attempts allowed before the delays start.
+  maxDelaySeconds?: number; // The longest delay between two attempts.
+};
+
+// Returns the time before which failed attempts are forgotten: they are forgotten after a quiet period as long as a lockout.
+export function getLoginFailureCutoff({ lockoutMinutes }: LoginThrottlePolicy, now: Date = new Date()) {
+  return new Date(now.getTime() - lockoutMinutes * 60 * 1000);
+}
+
+// Returns the failed attempts still counted at the given time.
+function getRecentFailures(record: LoginThrottleRecord | null, policy: LoginThrottlePolicy, now: Date) {
+  if (!record?.lastFailedAt || new Date(record.lastFailedAt) <= getLoginFailureCutoff(policy, now)) return 0;
+  return record.failedAttempts;
+}
+
+/*
+  Returns the delay, in seconds, before the next attempt after the given number of failed attempts.
+  The delay doubles with every failed attempt after the free ones: 1, 2, 4, 8... seconds, up to `maxDelaySeconds`.
+*/
+export function getLoginDelaySeconds(failedAttempts: number, { freeAttempts = 2, maxDelaySeconds = 60 }: LoginThrottlePolicy) {
+  if (failedAttempts <= freeAttempts) return 0;
+  return Math.min(2 ** (failedAttempts - freeAttempts - 1), maxDelaySeconds);
+}
+
+// Returns when the next attempt is allowed, or null when it is allowed now.
+export function getLoginRetryAt(record: LoginThrottleRecord | null, policy: LoginThrottlePolicy, now: Date = new Date()) {
+  if (record?.lockedUntil && new Date(record.lockedUntil) > now) return new Date(record.lockedUntil);
+
+  const delay = getLoginDelaySeconds(getRecentFailures(record, policy, now), policy);
+  if (delay === 0 || !record?.lastFailedAt) return null;
+
+  const retryAt = new Date(new Date(record.lastFailedAt).getTime() + delay * 1000);
+  return retryAt > now ? retryAt : null;
+}
+
+/*
+  Returns the end of the lockout started by the given number of failed attempts, or null when they don't lock the address out.
+  - The count starts again once the address is locked out, so it gets `maxAttempts` new attempts when the lockout ends.
+*/
+export function getLoginLockoutEnd(failedAttempts: number, policy: LoginThrottlePolicy, now: Date = new Date()) {
+  if (failedAttempts < policy.maxAttempts) return null;
+  return new Date(now.getTime() + policy.lockoutMinutes * 60 * 1000);
+}
+
+/*
+  Returns the IP address of the client, to throttle the attempts per IP address. Null when it is unknown, which skips the throttling per IP address.
+  - `header`: the header set by the proxy in front of the app (CLIENT_IP_HEADER), e.g. "x-real-ip", "cf-connecting-ip" or "x-forwarded-for".
+  - "x-forwarded-for" is a list the client can start with any address, and every proxy appends the address it received the request from.
+    So it is read from the right: with `proxies` trusted proxies (TRUSTED_PROXY_COUNT), the address appended by the outermost one is the client.
+*/
+export function getClientIp(headers: Headers, { header = "x-forwarded-for", proxies = 1 }: { header?: string; proxies?: number } = {}) {
+  const value = headers.get(header);
+  if (!value) return null;
+
+  if (header.toLowerCase() !== "x-forwarded-for") return value.trim() || null;
+
+  const addresses = value.split(",").map(x => x.trim());
+  return addresses[addresses.length - proxies] || null;
+}
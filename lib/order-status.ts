@@ -0,0 +1,61 @@
+/**
+ * This module defines the status lifecycle of an order and the transitions allowed between the statuses.
+ **/
+
+// Defines the statuses an order can have, in the order they normally happen.
+export const ORDER_STATUSES = ["pending", "paid", "processing", "shipped", "delivered", "cancelled", "disputed", "partially_refunded", "refunded"] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/*
+  Defines the statuses each status can move to.
+
+  - A pending order is waiting for payment and can only be paid or cancelled.
+  - A paid order can be fulfilled (processing, shipped, delivered) or refunded. It is cancelled by refunding it, so the payment is given back.
+  - A paid order is disputed when the customer opens a dispute at the payment provider. It moves on once the dispute is resolved.
+  - A partially refunded order (e.g. one item was refunded) is still fulfilled, and stays refundable until it is fully refunded.
+  - Refunded is a final status. Cancelled is too, except for a payment received after the order was cancelled:
+    the order is paid when its stock can be reserved again, otherwise the payment is refunded (see lib/payments/late-payment.ts).
+*/
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["processing", "shipped", "delivered", "disputed", "partially_refunded", "refunded"],
+  processing: ["shipped", "delivered", "disputed", "partially_refunded", "refunded"],
+  shipped: ["delivered", "disputed", "partially_refunded", "refunded"],
+  delivered: ["disputed", "partially_refunded", "refunded"],
+  cancelled: ["paid"],
+  disputed: ["processing", "shipped", "delivered", "partially_refunded", "refunded"],
+  partially_refunded: ["processing", "shipped", "delivered", "disputed", "partially_refunded", "refunded"],
+  refunded: []
+};
+
+// Returns the statuses an order with the given status can move to.
+export function getNextOrderStatuses(status: string): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status as OrderStatus] ?? [];
+}
+
+// Checks whether an order can move from one status to another.
+export function canTransitionOrderStatus(from: string, to: string) {
+  return getNextOrderStatuses(from).includes(to as OrderStatus);
+}
+
+// Throws an error when an order can't move from one status to another.
+export function assertOrderStatusTransition(from: string, to: string) {
+  if (!ORDER_STATUSES.includes(to as OrderStatus)) throw new Error(`Invalid order status "${to}"`);
+  if (!canTransitionOrderStatus(from, to)) throw new Error(`Order can't be changed from ${from} to ${to}`);
+}
+
+// Checks whether the payment of an order in the given status has been received and not given back in full.
+export function isOrderPaid(status: string) {
+  return ["paid", "processing", "shipped", "delivered", "disputed", "partially_refunded"].includes(status);
+}
+
+// Checks whether an order in the given status can be refunded.
+export function isOrderRefundable(status: string) {
+  return canTransitionOrderStatus(status, "refunded");
+}
+
+// Checks whether the stock reservation of an unpaid order has expired, after which the order can no longer be paid.
+export function isOrderReservationExpired(order: { status: string; reservationExpiresAt: Date | null }, now = new Date()) {
+  return order.status === "pending" && !!order.reservationExpiresAt && order.reservationExpiresAt <= now;
+}
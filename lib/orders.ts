@@ -0,0 +1,193 @@
+/**
+ * This module holds the database steps of the order lifecycle shared by the order actions and the payment webhooks:
+ * status transitions, stock reservations, restocking and refunds. They run inside the transaction of the caller.
+ * Every stock change is recorded in the inventory ledger with the order it belongs to.
+ **/
+
+import { prisma, TransactionClient } from "@/db/prisma";
+import { Prisma } from "@prisma/client";
+import { assertOrderStatusTransition } from "./order-status";
+import { round2 } from "./utils";
+import { queueStockNotifications } from "./stock-notifications";
+import { recordInventoryMovement } from "./inventory";
+
+/*
+  Moves an order to a new status inside a transaction and records the change in the status history.
+
+  - Throws an error when the transition isn't allowed by the order status lifecycle.
+  - The update only matches the order while it still has the expected status, so concurrent changes can't skip a transition.
+  - `data` holds the other fields to update together with the status (e.g. `paidAt`).
+*/
+export async function transitionOrderStatus(
+  tx: TransactionClient,
+  { orderId, from, to, changedById, note, data }: { orderId: string; from: string; to: string; changedById?: string | null; note?: string; data?: Prisma.OrderUpdateManyMutationInput }
+) {
+  assertOrderStatusTransition(from, to);
+
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: from },
+    data: { ...data, status: to }
+  });
+  if (count === 0) throw new Error("Order status has changed, please try again");
+
+  await tx.orderStatusHistory.create({
+    data: { orderId, fromStatus: from, toStatus: to, changedById: changedById ?? null, note }
+  });
+}
+
+/*
+  Reserves the stock of the items of an order by taking it from the products and variants.
+
+  - Each update only matches while enough stock is left, so two orders can't both take the last unit.
+  - Throws an error naming the item when its stock is insufficient, which rolls back the transaction of the caller.
+  - Each item is recorded in the inventory ledger as a "reservation" of the order.
+*/
+export async function reserveOrderItems(
+  tx: TransactionClient,
+  items: { productId: string; variantId?: string | null; name: string; qty: number }[],
+  { orderId, actorId }: { orderId: string; actorId?: string | null }
+) {
+  for (const item of items) {
+    const { count } = await tx.product.updateMany({
+      where: { id: item.productId, stock: { gte: item.qty } },
+      data: { stock: { decrement: item.qty } }
+    });
+    if (count === 0) throw new Error(`Not enough stock for ${item.name}`);
+
+    if (item.variantId) {
+      const { count } = await tx.productVariant.updateMany({
+        where: { id: item.variantId, stock: { gte: item.qty } },
+        data: { stock: { decrement: item.qty } }
+      });
+      if (count === 0) throw new Error(`Not enough stock for ${item.name}`);
+    }
+
+    await recordInventoryMovement(tx, { productId: item.productId, variantId: item.variantId, quantity: -item.qty, reason: "reservation", orderId, actorId });
+  }
+}
+
+/*
+  Puts the stock taken by the items of an order back on the products and variants, and queues the back-in-stock emails of the products that were sold out.
+  - `reason` is recorded in the inventory ledger: "reservation" when an unpaid order releases its reservation, "return" when the stock of a paid order comes back.
+*/
+export async function restockOrderItems(
+  tx: TransactionClient,
+  items: { productId: string; variantId: string | null; qty: number }[],
+  { reason, orderId, actorId, note }: { reason: "reservation" | "return"; orderId: string; actorId?: string | null; note?: string }
+) {
+  for (const item of items) {
+    await tx.product.update({
+      where: { id: item.productId },
+      data: { stock: { increment: item.qty } }
+    });
+
+    if (item.variantId) {
+      await tx.productVariant.update({
+        where: { id: item.variantId },
+        data: { stock: { increment: item.qty } }
+      });
+    }
+
+    await recordInventoryMovement(tx, { productId: item.productId, variantId: item.variantId, quantity: item.qty, reason, orderId, actorId, note });
+  }
+
+  await queueStockNotifications(tx, items.map(x => x.productId));
+}
+
+/*
+  Locks an order until the end of the transaction of the caller and returns it with its refunds. Null when the order doesn't exist.
+  Other transactions locking or updating the order wait, so checks made on the returned order hold until the transaction ends.
+*/
+export async function lockOrder(tx: TransactionClient, orderId: string) {
+  await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId}::uuid FOR UPDATE`;
+
+  return tx.order.findFirst({
+    where: { id: orderId },
+    include: { refunds: true }
+  });
+}
+
+/*
+  Records a refund of an order and moves the order to the "refunded" or "partially_refunded" status.
+
+  - Refunds with a provider refund id are upserted, so a refund recorded by the Stripe webhook and by the admin action is only counted once.
+  - The order becomes "refunded" once the recorded refunds add up to its total price.
+  - When `restock` is set, the items of the order are put back in stock, unless an earlier refund already did. Only a refund bringing the refunded
+    amount to the total price restocks: a partially refunded order can still be shipped, so its items must stay taken.
+*/
+export async function recordRefund(
+  tx: TransactionClient,
+  { orderId, amount, provider, providerRefundId, reason, restock = false, createdById }: { orderId: string; amount: number; provider: string; providerRefundId?: string; reason?: string; restock?: boolean; createdById?: string }
+) {
+  const order = await tx.order.findFirst({
+    where: { id: orderId },
+    include: { orderitems: true, refunds: true }
+  });
+  if (!order) throw new Error("Order not found");
+
+  const existing = providerRefundId ? order.refunds.find(x => x.providerRefundId === providerRefundId) : undefined;
+  const refundedPrice = round2(order.refunds.filter(x => x !== existing).reduce((acc, x) => acc + Number(x.amount), 0) + amount);
+  const isFullRefund = refundedPrice >= Number(order.totalPrice);
+  const shouldRestock = restock && isFullRefund && !order.refunds.some(x => x.restocked);
+
+  if (shouldRestock) await restockOrderItems(tx, order.orderitems, { reason: "return", orderId, actorId: createdById, note: "Refund" });
+
+  // A refund that was already recorded only gets the details of the admin action, its status change already happened.
+  if (existing) {
+    await tx.refund.update({
+      where: { id: existing.id },
+      data: { reason: reason ?? existing.reason, createdById: createdById ?? existing.createdById, restocked: existing.restocked || shouldRestock }
+    });
+    return;
+  }
+
+  await tx.refund.create({
+    data: { orderId, amount, provider, providerRefundId, reason, restocked: shouldRestock, createdById }
+  });
+
+  // Moves the order to the refunded status matching the total refunded amount.
+  await transitionOrderStatus(tx, {
+    orderId,
+    from: order.status,
+    to: isFullRefund ? "refunded" : "partially_refunded",
+    changedById: createdById,
+    note: `Refunded ${amount.toFixed(2)}${reason ? `: ${reason}` : ""}`
+  });
+}
+
+/*
+  Cancels the unpaid orders whose stock reservation expired and puts their stock back.
+  Run by the scheduled job at /api/cron/cancel-expired-orders. Returns the number of cancelled orders.
+
+  - An order paid while the job runs no longer matches the expected status, so it is skipped rather than cancelled.
+*/
+export async function cancelExpiredOrders(now = new Date()) {
+  const orders = await prisma.order.findMany({
+    where: { status: "pending", reservationExpiresAt: { lte: now } },
+    include: { orderitems: true }
+  });
+
+  let cancelled = 0;
+  for (const order of orders) {
+    try {
+      await prisma.$transaction(async tx => {
+        await transitionOrderStatus(tx, {
+          orderId: order.id,
+          from: "pending",
+          to: "cancelled",
+          note: "Payment not received before the reservation expired",
+          data: { stockReserved: false }
+        });
+
+        if (order.stockReserved) await restockOrderItems(tx, order.orderitems, { reason: "reservation", orderId: order.id, note: "Reservation expired" });
+      });
+      cancelled++;
+    } catch (error) {
+      // Skips the order when its status changed in the meantime (e.g. it was paid), and fails on any other error
+      const current = await prisma.order.findFirst({ where: { id: order.id } });
+      if (current?.status === "pending") throw error;
+    }
+  }
+
+  return cancelled;
+}
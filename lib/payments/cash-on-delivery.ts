@@ -0,0 +1,11 @@
+import { PaymentProvider } from "./types";
+
+/*
+  Cash on delivery orders are paid outside the app: an admin marks them as paid when the money is collected,
+  and refunds are recorded as manual refunds.
+*/
+export const cashOnDeliveryProvider: PaymentProvider = {
+  name: "CashOnDelivery",
+  slug: "cash-on-delivery",
+  paidOnDelivery: true
+};
@@ -0,0 +1,37 @@
+/**
+ * This module is the registry of the payment providers.
+ * Orders, refunds and webhooks go through the provider registered under the payment method of the order,
+ * so adding a payment method only takes a provider and its name in PAYMENT_METHODS.
+ **/
+
+import { PAYMENT_METHODS } from "../constants";
+import { cashOnDeliveryProvider } from "./cash-on-delivery";
+import { paypalProvider } from "./paypal";
+import { stripeProvider } from "./stripe";
+import { testPayProvider } from "./test-pay";
+import { PaymentProvider } from "./types";
+
+export type { PaymentProvider } from "./types";
+
+// Every provider the app supports, whether or not it is enabled in PAYMENT_METHODS.
+const providers: PaymentProvider[] = [paypalProvider, stripeProvider, cashOnDeliveryProvider, testPayProvider];
+
+/*
+  Returns the provider of a payment method.
+  - Disabled providers are returned too, so orders placed before a payment method was removed from PAYMENT_METHODS can still be refunded.
+*/
+export function getPaymentProvider(name: string) {
+  const provider = providers.find(x => x.name === name);
+  if (!provider) throw new Error(`Payment method ${name} is not supported`);
+  return provider;
+}
+
+// Returns the provider identified by a webhook URL or a recorded webhook event, e.g. "stripe".
+export function getPaymentProviderBySlug(slug: string) {
+  return providers.find(x => x.slug === slug) ?? null;
+}
+
+// Checks whether customers can pay with a payment method, i.e. whether it is listed in PAYMENT_METHODS.
+export function isPaymentMethodEnabled(name: string) {
+  return PAYMENT_METHODS.includes(name) && providers.some(x => x.name === name);
+}
@@ -0,0 +1,47 @@
+import { prisma } from "@/db/prisma";
+import { revalidatePath } from "next/cache";
+import { updateOrderToPaid } from "../actions/order.actions";
+import { PaymentResult } from "@/types";
+import { PaymentOrder, PaymentProvider } from "./types";
+
+/*
+  Handles a payment received for a cancelled order, e.g. from a payment form left open after the stock reservation expired
+  and `cancelExpiredOrders` cancelled the order. The payment is never dropped:
+  - While enough stock is left, the stock is reserved again and the order is marked as paid (see `updateOrderToPaid`).
+  - Otherwise the payment is refunded in full with the provider, and the refund is recorded with the order, which stays cancelled.
+  Either way the outcome is recorded in the status history of the order. Returns whether the order was paid.
+*/
+export async function payCancelledOrder(provider: PaymentProvider, order: PaymentOrder, paymentResult: PaymentResult) {
+  try {
+    await updateOrderToPaid({ orderId: order.id, paymentResult });
+    return true;
+  } catch (error) {
+    // Only a cancelled order that couldn't take its stock back is refunded, other errors (e.g. a concurrent payment) fail the event.
+    const current = await prisma.order.findFirst({ where: { id: order.id } });
+    if (current?.status !== "cancelled") throw error;
+  }
+
+  if (!provider.refund) throw new Error(`${provider.name} payments can't be refunded`);
+
+  // The refund goes to the payment just received, e.g. the PayPal capture stored in its payment result.
+  const amount = Number(order.totalPrice);
+  const { providerRefundId } = await provider.refund({ ...order, paymentResult }, amount);
+
+  await prisma.$transaction(async tx => {
+    await tx.order.update({ where: { id: order.id }, data: { paymentResult } });
+    await tx.refund.create({
+      data: { orderId: order.id, amount, provider: provider.name, providerRefundId, reason: "Payment received after the order was cancelled" }
+    });
+    await tx.orderStatusHistory.create({
+      data: { orderId: order.id, fromStatus: "cancelled", toStatus: "cancelled", note: `Payment received after the order was cancelled, refunded ${amount.toFixed(2)} as the stock is no longer available` }
+    });
+  });
+
+  revalidatePath(`/order/${order.id}`);
+  return false;
+}
+
+// Checks whether the late payment of a cancelled order was already refunded by `payCancelledOrder`, e.g. when the provider delivers the event again.
+export async function isCancelledOrderRefunded(orderId: string) {
+  return (await prisma.refund.count({ where: { orderId } })) > 0;
+}
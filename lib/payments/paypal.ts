@@ -0,0 +1,156 @@
+import { prisma } from "@/db/prisma";
+import { revalidatePath } from "next/cache";
+import { paypal } from "../paypal";
+import { updateOrderToPaid } from "../actions/order.actions";
+import { canTransitionOrderStatus } from "../order-status";
+import { recordRefund, transitionOrderStatus } from "../orders";
+import { isCancelledOrderRefunded, payCancelledOrder } from "./late-payment";
+import { PaymentResult } from "@/types";
+import { PaymentProvider, WebhookResult } from "./types";
+
+// The fields of the PayPal webhook events the store reacts to.
+type PayPalWebhookEvent = {
+  id: string;
+  event_type: string;
+  resource: {
+    id: string; // The id of the capture, refund or dispute.
+    amount?: { value: string }; // The captured or refunded amount.
+    supplementary_data?: { related_ids?: { order_id?: string } }; // The PayPal order of a capture.
+    links?: { rel: string; href: string }[]; // The "up" link of a refund points to its capture.
+    note_to_payer?: string;
+    dispute_id?: string;
+    reason?: string;
+    disputed_transactions?: { seller_transaction_id?: string }[]; // The captures a dispute is about.
+  };
+};
+
+// Finds the order paid with the given PayPal order or capture, using the payment result stored by `createIntent` and `capture`.
+async function findPayPalOrder(key: "id" | "captureId", value: string) {
+  const order = await prisma.order.findFirst({
+    where: { paymentMethod: "PayPal", paymentResult: { path: [key], equals: value } }
+  });
+  if (!order) throw new Error("Order not found");
+  return order;
+}
+
+// Handles the PayPal events the store reacts to.
+async function handlePayPalEvent(event: PayPalWebhookEvent): Promise<WebhookResult> {
+  const { resource } = event;
+
+  switch (event.event_type) {
+    // PAYMENT.CAPTURE.COMPLETED confirms the payment, even when the customer closed the page before the capture ran
+    case "PAYMENT.CAPTURE.COMPLETED": {
+      const order = await findPayPalOrder("id", resource.supplementary_data?.related_ids?.order_id ?? "");
+
+      // The order was already paid by the capture or an earlier delivery of the event, or its late payment was already refunded
+      if (order.status !== "pending" && order.status !== "cancelled") return "ignored";
+      if (order.status === "cancelled" && (await isCancelledOrderRefunded(order.id))) return "ignored";
+
+      if (Number(resource.amount?.value) !== Number(order.totalPrice)) throw new Error("Captured amount doesn't match the order total");
+
+      const paymentResult: PaymentResult = {
+        ...(order.paymentResult as PaymentResult),
+        status: "COMPLETED",
+        pricePaid: resource.amount?.value ?? "0",
+        captureId: resource.id
+      };
+
+      // The order was cancelled before the payment arrived (e.g. its reservation expired while the PayPal window was open)
+      if (order.status === "cancelled") {
+        await payCancelledOrder(paypalProvider, order, paymentResult);
+        return "processed";
+      }
+
+      await updateOrderToPaid({ orderId: order.id, paymentResult });
+      return "processed";
+    }
+    // PAYMENT.CAPTURE.REFUNDED records refunds issued from the app or the PayPal dashboard
+    case "PAYMENT.CAPTURE.REFUNDED": {
+      const captureId = resource.links?.find(link => link.rel === "up")?.href.split("/").pop() ?? "";
+      const order = await findPayPalOrder("captureId", captureId);
+
+      // The refund was already recorded by `refundOrder` or an earlier delivery of the event
+      if (await prisma.refund.findFirst({ where: { providerRefundId: resource.id } })) return "ignored";
+
+      await prisma.$transaction(async tx => {
+        await recordRefund(tx, {
+          orderId: order.id,
+          amount: Number(resource.amount?.value),
+          provider: "PayPal",
+          providerRefundId: resource.id,
+          reason: resource.note_to_payer
+        });
+      });
+      revalidatePath(`/order/${order.id}`);
+      return "processed";
+    }
+    // CUSTOMER.DISPUTE.CREATED moves the order to the disputed status until an admin resolves it
+    case "CUSTOMER.DISPUTE.CREATED": {
+      const order = await findPayPalOrder("captureId", resource.disputed_transactions?.[0]?.seller_transaction_id ?? "");
+
+      if (!canTransitionOrderStatus(order.status, "disputed")) return "ignored";
+
+      await prisma.$transaction(async tx => {
+        await transitionOrderStatus(tx, {
+          orderId: order.id,
+          from: order.status,
+          to: "disputed",
+          note: `PayPal dispute ${resource.dispute_id ?? resource.id}${resource.reason ? `: ${resource.reason}` : ""}`
+        });
+      });
+      revalidatePath(`/order/${order.id}`);
+      return "processed";
+    }
+    default:
+      return "ignored";
+  }
+}
+
+/*
+  PayPal payments are approved by the customer with the PayPal buttons.
+  The buttons create a PayPal order for the order total, and the payment is captured once the customer approves it.
+*/
+export const paypalProvider: PaymentProvider = {
+  name: "PayPal",
+  slug: "paypal",
+
+  // Creates a PayPal order for the order total
+  async createIntent(order) {
+    const paypalOrder = await paypal.createOrder(Number(order.totalPrice));
+    return { id: paypalOrder.id };
+  },
+
+  // Captures the approved PayPal order, which must be the one created for this order
+  async capture(order, { intentId }) {
+    const captureData = await paypal.capturePayment(intentId ?? "");
+
+    if (!captureData || captureData.id !== (order.paymentResult as PaymentResult | null)?.id || captureData.status !== "COMPLETED") throw new Error("Error in paypal payment");
+
+    return {
+      id: captureData.id,
+      status: captureData.status,
+      email_address: captureData.payer.email_address,
+      pricePaid: captureData.purchase_units[0]?.payments?.captures[0]?.amount?.value,
+      captureId: captureData.purchase_units[0]?.payments?.captures[0]?.id // Needed to refund the payment
+    };
+  },
+
+  // Refunds the capture stored as the payment result
+  async refund(order, amount) {
+    const paymentResult = order.paymentResult as PaymentResult | null;
+    if (!paymentResult?.captureId) throw new Error("PayPal capture not found");
+
+    const refund = await paypal.refundCapture(paymentResult.captureId, amount);
+    return { providerRefundId: refund.id };
+  },
+
+  // Verifies the event with PayPal using the transmission headers and the webhook id (PAYPAL_WEBHOOK_ID).
+  // This ensures that the request is indeed from PayPal and has not been tampered with.
+  async parseWebhook(req) {
+    const event: PayPalWebhookEvent = await req.json();
+    if (!(await paypal.verifyWebhookSignature(req.headers, event))) throw new Error("Invalid signature");
+    return { eventId: event.id, type: event.event_type, payload: event };
+  },
+
+  handleWebhookEvent: payload => handlePayPalEvent(payload as unknown as PayPalWebhookEvent)
+};
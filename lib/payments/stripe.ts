@@ -0,0 +1,129 @@
+import { prisma } from "@/db/prisma";
+import Stripe from "stripe";
+import { revalidatePath } from "next/cache";
+import { updateOrderToPaid } from "../actions/order.actions";
+import { recordRefund } from "../orders";
+import { isCancelledOrderRefunded, payCancelledOrder } from "./late-payment";
+import { PaymentResult } from "@/types";
+import { PaymentProvider, WebhookResult } from "./types";
+
+// Initializes Stripe with the secret API key from environment variables
+function getStripe() {
+  return new Stripe(process.env.STRIPE_SECRET_KEY as string);
+}
+
+// Handles the Stripe events the store reacts to.
+async function handleStripeEvent(event: Stripe.Event): Promise<WebhookResult> {
+  switch (event.type) {
+    // charge.succeeded indicates a successful payment
+    case "charge.succeeded": {
+      const charge = event.data.object;
+
+      // Retrieve the order from the payment metadata
+      const order = await prisma.order.findFirst({ where: { id: charge.metadata.orderId } });
+      if (!order) throw new Error("Order not found");
+
+      const paymentResult: PaymentResult = {
+        id: charge.id,
+        status: "COMPLETED",
+        email_address: charge.billing_details.email!,
+        pricePaid: (charge.amount / 100).toFixed()
+      };
+
+      // The order was cancelled before the payment arrived (e.g. its reservation expired while the payment form was open)
+      if (order.status === "cancelled") {
+        if (await isCancelledOrderRefunded(order.id)) return "ignored";
+
+        await payCancelledOrder(stripeProvider, order, paymentResult);
+        return "processed";
+      }
+
+      // The order was already paid by an earlier delivery of the payment
+      if (order.status !== "pending") return "ignored";
+
+      // Update the order status to paid
+      await updateOrderToPaid({ orderId: order.id, paymentResult });
+      return "processed";
+    }
+    // charge.refunded indicates that the charge was refunded, in full or in part, from the app or the Stripe dashboard
+    case "charge.refunded":
+      await reconcileStripeRefunds(event.data.object.id);
+      return "processed";
+    default:
+      return "ignored";
+  }
+}
+
+/*
+  Reconciles the refunds of a Stripe charge with the refunds recorded for its order,
+  so refunds issued from the Stripe dashboard are recorded too.
+*/
+async function reconcileStripeRefunds(chargeId: string) {
+  const stripe = getStripe();
+  const charge = await stripe.charges.retrieve(chargeId);
+
+  const orderId = charge.metadata.orderId;
+  if (!orderId) throw new Error("Order not found");
+
+  const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+  for (const refund of refunds.data) {
+    if (refund.status !== "succeeded") continue;
+
+    const recorded = await prisma.refund.findFirst({ where: { providerRefundId: refund.id } });
+    if (recorded) continue;
+
+    await prisma.$transaction(async tx => {
+      await recordRefund(tx, {
+        orderId,
+        amount: refund.amount / 100,
+        provider: "Stripe",
+        providerRefundId: refund.id,
+        reason: refund.reason ?? undefined
+      });
+    });
+  }
+
+  revalidatePath(`/order/${orderId}`);
+}
+
+/*
+  Stripe payments are confirmed in the browser with Stripe Elements, which needs the client secret of a payment intent to render.
+  The order is marked as paid by the charge.succeeded webhook event, so there is no capture step.
+*/
+export const stripeProvider: PaymentProvider = {
+  name: "Stripe",
+  slug: "stripe",
+  createsIntentOnLoad: true,
+
+  // Creates a payment intent for the order total, tagged with the order id so the webhook can find the order
+  async createIntent(order) {
+    const paymentIntent = await getStripe().paymentIntents.create({
+      amount: Math.round(Number(order.totalPrice) * 100),
+      currency: "USD",
+      metadata: { orderId: order.id }
+    });
+    return { id: paymentIntent.id, clientSecret: paymentIntent.client_secret ?? undefined };
+  },
+
+  // Refunds the charge stored as the payment result
+  async refund(order, amount) {
+    const paymentResult = order.paymentResult as PaymentResult | null;
+    if (!paymentResult?.id) throw new Error("Stripe charge not found");
+
+    const refund = await getStripe().refunds.create({
+      charge: paymentResult.id,
+      amount: Math.round(amount * 100),
+      metadata: { orderId: order.id }
+    });
+    return { providerRefundId: refund.id };
+  },
+
+  // Constructs the event using the raw request body, the Stripe signature header, and the webhook secret.
+  // This ensures that the request is indeed from Stripe and has not been tampered with.
+  async parseWebhook(req) {
+    const event = getStripe().webhooks.constructEvent(await req.text(), req.headers.get("stripe-signature") as string, process.env.STRIPE_WEBHOOK_SECRET as string);
+    return { eventId: event.id, type: event.type, payload: event };
+  },
+
+  handleWebhookEvent: payload => handleStripeEvent(payload as unknown as Stripe.Event)
+};
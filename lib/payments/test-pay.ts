@@ -0,0 +1,29 @@
+import { PaymentProvider } from "./types";
+
+/*
+  TestPay completes payments and refunds without calling any external service, so checkout can be
+  exercised in development and CI without Stripe or PayPal credentials.
+  It is listed in PAYMENT_METHODS by default outside production only.
+*/
+export const testPayProvider: PaymentProvider = {
+  name: "TestPay",
+  slug: "testpay",
+
+  async createIntent() {
+    return { id: `testpay_${crypto.randomUUID()}` };
+  },
+
+  // Every payment succeeds for the order total
+  async capture(order, { intentId }) {
+    return {
+      id: intentId ?? `testpay_${crypto.randomUUID()}`,
+      status: "COMPLETED",
+      email_address: "",
+      pricePaid: order.totalPrice
+    };
+  },
+
+  async refund() {
+    return { providerRefundId: `testpay_refund_${crypto.randomUUID()}` };
+  }
+};
@@ -0,0 +1,49 @@
+import { Prisma } from "@prisma/client";
+import { PaymentResult } from "@/types";
+
+// The outcome of processing a webhook event: "ignored" events needed no change (e.g. an event type the store doesn't react to).
+export type WebhookResult = "processed" | "ignored";
+
+// The fields of an order a payment provider works with.
+export type PaymentOrder = {
+  id: string;
+  totalPrice: string;
+  paymentResult: Prisma.JsonValue; // The payment result stored by an earlier step (e.g. the PayPal order id stored by `createIntent`).
+};
+
+// A payment started at the provider, e.g. a PayPal order or a Stripe payment intent.
+export type PaymentIntent = {
+  id: string;
+  clientSecret?: string; // The secret the browser uses to confirm the payment (Stripe).
+};
+
+// A webhook event verified and parsed by its provider, ready to be recorded.
+export type ParsedWebhookEvent = {
+  eventId: string;
+  type: string;
+  payload: unknown;
+};
+
+/*
+  A payment provider, registered under the payment method name listed in PAYMENT_METHODS.
+
+  Every step is optional, as providers differ in how a payment is completed:
+  - Providers with `paidOnDelivery` are paid after the order is delivered, so the stock reserved for their orders doesn't expire.
+  - `createIntent` starts a payment when the customer checks out. Providers with `createsIntentOnLoad` need it before the payment form can render.
+  - `capture` completes a payment approved by the customer and returns the payment result to store with the order.
+    Providers without it are confirmed by their webhook (Stripe) or marked as paid by an admin (cash on delivery).
+  - `refund` refunds an amount of a paid order and returns the refund id at the provider. Providers without it record refunds as manual.
+  - `parseWebhook` verifies and parses a request received on /api/webhooks/<slug>, throwing when the request can't be trusted,
+    and `handleWebhookEvent` processes a recorded event.
+*/
+export interface PaymentProvider {
+  name: string; // The payment method name, e.g. "PayPal".
+  slug: string; // Identifies the provider in the webhook URL and the recorded webhook events, e.g. "paypal".
+  paidOnDelivery?: boolean;
+  createsIntentOnLoad?: boolean;
+  createIntent?(order: PaymentOrder): Promise<PaymentIntent>;
+  capture?(order: PaymentOrder, data: { intentId?: string }): Promise<PaymentResult>;
+  refund?(order: PaymentOrder, amount: number): Promise<{ providerRefundId: string }>;
+  parseWebhook?(req: Request): Promise<ParsedWebhookEvent>;
+  handleWebhookEvent?(payload: Prisma.JsonValue): Promise<WebhookResult>;
+}
@@ -38,6 +38,45 @@ export const paypal = {
       }
     });
     return handleResponse(response);
+  },
+  // Refunds a captured payment. Refunds the full capture when no amount is given.
+  refundCapture: async function refundCapture(captureId: string, amount?: number) {
+    const accessToken = await generateAccessToken();
+    const url = `${base}/v2/payments/captures/${captureId}/refund`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify(amount === undefined ? {} : { amount: { currency_code: "USD", value: amount.toFixed(2) } })
+    });
+    return handleResponse(response);
+  },
+  // Verifies the signature of a webhook event using the transmission headers sent with it. Returns true when PayPal confirms the event.
+  verifyWebhookSignature: async function verifyWebhookSignature(headers: Headers, event: unknown) {
+    const accessToken = await generateAccessToken();
+    const url = `${base}/v1/notifications/verify-webhook-signature`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({
+        auth_algo: headers.get("paypal-auth-algo"),
+        cert_url: headers.get("paypal-cert-url"),
+        transmission_id: headers.get("paypal-transmission-id"),
+        transmission_sig: headers.get("paypal-transmission-sig"),
+        transmission_time: headers.get("paypal-transmission-time"),
+        webhook_id: process.env.PAYPAL_WEBHOOK_ID,
+        webhook_event: event
+      })
+    });
+    const jsonData = await handleResponse(response);
+    return jsonData.verification_status === "SUCCESS";
   }
 };
 
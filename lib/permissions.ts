@@ -0,0 +1,103 @@
+/**
+ * This module defines the permissions of the admin area, and the pages of the admin area with the permission each one needs.
+ * Users get permissions from their role (the Role model), which bundles permissions and is edited on the admin roles page.
+ * It doesn't touch the database, so it is shared by the guards, the admin navigation and the tests.
+ **/
+
+// The permissions, with the description shown on the admin role form.
+export const PERMISSIONS = {
+  "reports:view": "View the dashboard and sales reports",
+  "orders:view": "View the orders",
+  "orders:fulfil": "Mark orders as paid, processing, shipped, delivered or cancelled",
+  "orders:refund": "Refund and delete orders",
+  "products:write": "Manage products, categories and catalog imports",
+  "inventory:write": "View stock history and back-in-stock demand",
+  "content:write": "Manage the homepage sections",
+  "promotions:write": "Manage coupons and sales",
+  "settings:write": "Manage shipping, taxes and payment webhooks",
+  "users:manage": "Manage users and unlock their sign-in",
+  "roles:manage": "Manage roles and their permissions"
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_LIST = Object.keys(PERMISSIONS) as Permission[];
+
+// The built-in roles. "admin" always has every permission and "user" (customers) has none. They can't be renamed or deleted.
+export const ADMIN_ROLE = "admin";
+export const DEFAULT_ROLE = "user";
+export const SYSTEM_ROLES = [ADMIN_ROLE, DEFAULT_ROLE];
+
+/*
+  Returns the permissions of a role, from its record in the database.
+  - The admin role always has every permission, so it can't be locked out by editing it.
+  - Unknown permissions (e.g. removed from the code since the role was saved) are left out.
+*/
+export function resolveRolePermissions(name: string, role: { permissions: string[] } | null): Permission[] {
+  if (name === ADMIN_ROLE) return PERMISSION_LIST;
+  return PERMISSION_LIST.filter(x => role?.permissions.includes(x));
+}
+
+// Whether the permissions include at least one of the required permissions.
+export function hasPermission(permissions: string[], required: Permission | Permission[]) {
+  return (Array.isArray(required) ? required : [required]).some(x => permissions.includes(x));
+}
+
+// Whether the permissions give access to the admin area: any permission does.
+export function hasAdminAccess(permissions: string[]) {
+  return permissions.length > 0;
+}
+
+// The pages of the admin navigation, with the permission needed to open them.
+export const ADMIN_PAGES: { title: string; href: string; permission: Permission }[] = [
+  { title: "Overview", href: "/admin/overview", permission: "reports:view" },
+  { title: "Products", href: "/admin/products", permission: "products:write" },
+  { title: "Categories", href: "/admin/categories", permission: "products:write" },
+  { title: "Homepage", href: "/admin/homepage", permission: "content:write" },
+  { title: "Orders", href: "/admin/orders", permission: "orders:view" },
+  { title: "Back in stock", href: "/admin/stock-notifications", permission: "inventory:write" },
+  { title: "Coupons", href: "/admin/coupons", permission: "promotions:write" },
+  { title: "Sales", href: "/admin/sales", permission: "promotions:write" },
+  { title: "Shipping", href: "/admin/shipping", permission: "settings:write" },
+  { title: "Taxes", href: "/admin/taxes", permission: "settings:write" },
+  { title: "Users", href: "/admin/users", permission: "users:manage" },
+  { title: "Roles", href: "/admin/roles", permission: "roles:manage" },
+  { title: "Webhooks", href: "/admin/webhooks", permission: "settings:write" }
+];
+
+// Returns the admin pages the permissions give access to, for the navigation.
+export function getAdminPages(permissions: string[]) {
+  return ADMIN_PAGES.filter(page => permissions.includes(page.permission));
+}
+
+/*
+  Checks a role can be saved. Throws an error describing the problem.
+  - `name`: lowercase letters, digits, dashes and underscores, as it is stored on the users.
+  - The built-in roles keep their name, and "user" (customers) can't get permissions.
+*/
+export function assertValidRole({ name, permissions }: { name: string; permissions: string[] }, existingName?: string) {
+  if (!/^[a-z0-9_-]+$/.test(name)) throw new Error("Role name can only contain lowercase letters, digits, dashes and underscores");
+  if (permissions.some(x => !(x in PERMISSIONS))) throw new Error("Invalid permission");
+  if (existingName && SYSTEM_ROLES.includes(existingName) && name !== existingName) throw new Error("Built-in roles can't be renamed");
+  if (name === DEFAULT_ROLE && permissions.length > 0) throw new Error("The customer role can't have permissions");
+}
+
+/*
+  Checks a user can be given a role by someone with the given permissions (see the admin users page). Throws an error when they can't.
+  - Only the permissions of the caller can be handed out, so managing users doesn't lead to every permission (e.g. through the admin role).
+  - Nor can the role of a user holding permissions the caller lacks be changed.
+*/
+export function assertCanAssignRole(callerPermissions: string[], { from, to }: { from: string[]; to: string[] }) {
+  if (!to.every(x => callerPermissions.includes(x))) throw new Error("You can't give a role with permissions you don't have");
+  if (!from.every(x => callerPermissions.includes(x))) throw new Error("You can't change the role of a user with permissions you don't have");
+}
+
+/*
+  Checks a role can be saved by someone with the given permissions (see the admin roles page). Throws an error when it can't.
+  - Only the permissions of the caller can be put in a role, so managing roles doesn't lead to every permission (e.g. through their own role).
+  - Nor can a role holding permissions the caller lacks be edited.
+*/
+export function assertCanEditRole(callerPermissions: string[], { from, to }: { from: string[]; to: string[] }) {
+  if (!to.every(x => callerPermissions.includes(x))) throw new Error("You can't give a role permissions you don't have");
+  if (!from.every(x => callerPermissions.includes(x))) throw new Error("You can't edit a role with permissions you don't have");
+}
@@ -0,0 +1,79 @@
+/**
+ * This module prices products with the sales running now, for the storefront and the cart (see lib/sale.ts for the rules).
+ * Cart lines are repriced every time the cart is priced, so a sale that starts or ends is picked up by the cart and the order.
+ **/
+
+import { prisma } from "@/db/prisma";
+import { Prisma } from "@prisma/client";
+import { getCategoryBranchIds, getCategoryPath } from "./categories";
+import { getSalePrice, ProductSaleFields } from "./sale";
+
+// The fields of a product needed to price it.
+type PricedProduct = ProductSaleFields & { categoryId: string };
+
+/*
+  Loads the running sales and returns a function pricing a product, or one of its variants, with them.
+  - The categories are only loaded when a running sale is restricted to categories.
+*/
+export async function getSalePricer(now: Date = new Date()) {
+  const sales = await prisma.sale.findMany({
+    where: { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } }
+  });
+  const categories = sales.some(x => x.categoryIds.length > 0) ? await prisma.category.findMany() : [];
+
+  return (product: PricedProduct, variantPrice: string | null = null) =>
+    getSalePrice(product, { sales, categoryIds: getCategoryPath(categories, product.categoryId).map(x => x.id), variantPrice, now });
+}
+
+/*
+  Builds the database filter of the products that may be on sale now: a running sale price, or a category in a running sale.
+  Sale prices that aren't lower than the price can't be told apart in the database, so the priced products are checked too (`compareAtPrice`).
+*/
+export async function getOnSaleFilter(now: Date = new Date()): Promise<Prisma.ProductWhereInput> {
+  const sales = await prisma.sale.findMany({
+    where: { isActive: true, startsAt: { lte: now }, endsAt: { gt: now } }
+  });
+  if (sales.some(x => x.categoryIds.length === 0)) return {}; // A storewide sale puts every product on sale
+
+  const categories = sales.length > 0 ? await prisma.category.findMany() : [];
+  const categoryIds = sales.flatMap(sale => sale.categoryIds.flatMap(id => getCategoryBranchIds(categories, id)));
+
+  return {
+    OR: [
+      { salePrice: { not: null }, AND: [{ OR: [{ saleStartsAt: null }, { saleStartsAt: { lte: now } }] }, { OR: [{ saleEndsAt: null }, { saleEndsAt: { gt: now } }] }] },
+      { categoryId: { in: categoryIds } }
+    ]
+  };
+}
+
+// Adds the current `pricing` of each product, for the product cards.
+export async function withSalePricing<T extends PricedProduct>(products: T[]) {
+  const price = await getSalePricer();
+
+  return products.map(product => ({ ...product, pricing: price(product) }));
+}
+
+/*
+  Reprices cart lines with the price their product or variant sells at now.
+  - Lines of products that no longer exist keep their price.
+*/
+export async function repriceCartItems<T extends { productId: string; variantId?: string | null; price: string }>(items: T[]): Promise<T[]> {
+  if (items.length === 0) return items;
+
+  const [products, price] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: items.map(x => x.productId) } },
+      include: { variants: { select: { id: true, price: true } } }
+    }),
+    getSalePricer()
+  ]);
+
+  return items.map(item => {
+    const product = products.find(x => x.id === item.productId);
+    if (!product) return item;
+
+    const variant = item.variantId ? product.variants.find(x => x.id === item.variantId) : undefined;
+
+    return { ...item, price: price(product, variant?.price ?? null).price.toFixed(2) };
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * This module defines the CSV format of the catalog import and export: the columns, and the conversion of a product to a row and back.
+ * It doesn't touch the database, so it is shared by the export route, the import actions and the tests.
+ * Products sold in variants keep their variants on import, their stock being the sum of the variant stocks.
+ **/
+
+// The columns of the catalog CSV, in export order. `category` is the category slug, `images` are separated by "|" and the sale dates are ISO 8601 timestamps.
+export const PRODUCT_CSV_COLUMNS = ["slug", "name", "category", "brand", "description", "price", "salePrice", "saleStartsAt", "saleEndsAt", "stock", "lowStockThreshold", "weight", "taxCategory", "isFeatured", "banner", "images"];
+
+// The columns an import file must have. The other columns keep their current value (or the default) when missing.
+export const REQUIRED_PRODUCT_CSV_COLUMNS = ["slug", "name", "category", "brand", "description", "price", "salePrice", "saleStartsAt", "saleEndsAt", "stock", "images"];
+
+// The image hosts product images may be loaded from, matching the `images.remotePatterns` of next.config.ts.
+export const PRODUCT_IMAGE_HOSTS = ["utfs.io"];
+
+// The product fields written to the CSV.
+export type CsvProduct = {
+  slug: string;
+  name: string;
+  category: { slug: string };
+  brand: string;
+  description: string;
+  price: string;
+  salePrice: string | null;
+  saleStartsAt: Date | null;
+  saleEndsAt: Date | null;
+  stock: number;
+  lowStockThreshold: number | null;
+  weight: string;
+  taxCategory: string;
+  isFeatured: boolean;
+  banner: string | null;
+  images: string[];
+};
+
+// Converts a product to a row of the catalog CSV, in the order of PRODUCT_CSV_COLUMNS.
+export function productToCsvRow(product: CsvProduct) {
+  return [
+    product.slug,
+    product.name,
+    product.category.slug,
+    product.brand,
+    product.description,
+    product.price,
+    product.salePrice ?? "",
+    product.saleStartsAt ? new Date(product.saleStartsAt).toISOString() : "",
+    product.saleEndsAt ? new Date(product.saleEndsAt).toISOString() : "",
+    product.stock,
+    product.lowStockThreshold ?? "",
+    product.weight,
+    product.taxCategory,
+    product.isFeatured ? "true" : "false",
+    product.banner ?? "",
+    product.images.join("|")
+  ];
+}
+
+/*
+  Resolves an image of the CSV to the URL stored with the product.
+  - Full https URLs must be on one of the PRODUCT_IMAGE_HOSTS, so the storefront can display them.
+  - Paths starting with "/" are kept, and bare file names are resolved against `basePath` (e.g. "p1-1.jpg" → "/images/sample-products/p1-1.jpg").
+  Throws an error describing the problem of an image that can't be used.
+*/
+export function resolveImageUrl(value: string, basePath: string) {
+  const image = value.trim();
+
+  if (/^[a-z]+:\/\//i.test(image)) {
+    let url: URL;
+    try {
+      url = new URL(image);
+    } catch {
+      throw new Error(`Invalid image URL "${image}"`);
+    }
+    if (url.protocol !== "https:") throw new Error(`Image "${image}" must use https`);
+    if (!PRODUCT_IMAGE_HOSTS.includes(url.hostname)) throw new Error(`Image host "${url.hostname}" is not allowed`);
+    return url.toString();
+  }
+
+  if (image.startsWith("/")) return image;
+
+  if (!/^[\w.-]+$/.test(image)) throw new Error(`Invalid image file name "${image}"`);
+  return `${basePath.replace(/\/$/, "")}/${image}`;
+}
+
+/*
+  Converts a record of the catalog CSV to the product fields validated by `insertProductSchema`.
+  - `categoryIds` maps the category slugs to their ids. An unknown category is left empty, so the validation reports it.
+  - `existing` holds the current values of the product being updated, used for the columns missing from the file.
+  Throws an error when an image can't be resolved.
+*/
+export function csvRecordToProduct(
+  values: Record<string, string>,
+  { categoryIds, imageBasePath, existing }: { categoryIds: Record<string, string>; imageBasePath: string; existing?: Pick<CsvProduct, "salePrice" | "saleStartsAt" | "saleEndsAt" | "lowStockThreshold" | "weight" | "taxCategory" | "isFeatured" | "banner"> }
+) {
+  const value = (column: string) => (column in values ? values[column].trim() : undefined);
+  const images = value("images");
+  const banner = value("banner");
+  const isFeatured = value("isFeatured");
+
+  return {
+    slug: value("slug") ?? "",
+    name: value("name") ?? "",
+    categoryId: categoryIds[value("category") ?? ""] ?? "",
+    brand: value("brand") ?? "",
+    description: value("description") ?? "",
+    price: value("price") ?? "",
+    salePrice: value("salePrice") ?? existing?.salePrice ?? null,
+    saleStartsAt: value("saleStartsAt") ?? existing?.saleStartsAt ?? null,
+    saleEndsAt: value("saleEndsAt") ?? existing?.saleEndsAt ?? null,
+    stock: value("stock") ?? "",
+    lowStockThreshold: value("lowStockThreshold") ?? existing?.lowStockThreshold ?? null,
+    weight: value("weight") || existing?.weight || "0",
+    taxCategory: value("taxCategory") || existing?.taxCategory || "standard",
+    isFeatured: isFeatured !== undefined ? ["true", "yes", "1"].includes(isFeatured.toLowerCase()) : (existing?.isFeatured ?? false),
+    banner: banner !== undefined ? (banner ? resolveImageUrl(banner, imageBasePath) : null) : (existing?.banner ?? null),
+    images: (images ?? "")
+      .split("|")
+      .filter(x => x.trim())
+      .map(x => resolveImageUrl(x, imageBasePath))
+  };
+}
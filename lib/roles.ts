@@ -0,0 +1,25 @@
+/**
+ * This module loads the permissions of the roles for the guards (see lib/permissions.ts for the rules).
+ * The lookups are cached for the request, so a page and the actions it calls only load a role once.
+ **/
+
+import { cache } from "react";
+import { prisma } from "@/db/prisma";
+import { resolveRolePermissions } from "./permissions";
+
+// Returns the permissions of a role by its name. A role that doesn't exist has none.
+export const getRolePermissions = cache(async (name: string) => {
+  const role = await prisma.role.findFirst({ where: { name } });
+  return resolveRolePermissions(name, role);
+});
+
+// Returns the role and the permissions of a user, with whether they turned on two-factor authentication. Null when the user doesn't exist.
+export const getUserAccess = cache(async (userId: string) => {
+  const user = await prisma.user.findFirst({
+    where: { id: userId },
+    select: { role: true, twoFactorEnabledAt: true }
+  });
+  if (!user) return null;
+
+  return { ...user, permissions: await getRolePermissions(user.role) };
+});
@@ -0,0 +1,80 @@
+/**
+ * This module works out the price a product sells at: its sale price while it runs, or the discount of a running category or storewide sale.
+ * The lowest price wins, and the regular price is kept as the compare-at price shown struck through (e.g. "was $99, now $79").
+ * It doesn't touch the database, so it is shared by the pricing of the storefront and the cart, the pages and the tests.
+ **/
+
+import { round2 } from "./utils";
+
+// The dates a sale runs between. A missing start runs the sale right away and a missing end runs it until it is removed.
+export type SaleWindow = { startsAt: Date | null; endsAt: Date | null };
+
+// The fields of a category or storewide sale used for pricing.
+export type SaleRecord = SaleWindow & {
+  id: string;
+  discountPercent: string | number;
+  categoryIds: string[]; // Empty puts the whole store on sale.
+  isActive: boolean;
+};
+
+// The sale fields of a product.
+export type ProductSaleFields = {
+  price: string | number;
+  salePrice: string | number | null;
+  saleStartsAt: Date | null;
+  saleEndsAt: Date | null;
+};
+
+// The price a product sells at. `compareAtPrice` is the regular price while a sale lowers it, null otherwise.
+export type SalePricing = {
+  price: number;
+  compareAtPrice: number | null;
+  endsAt: Date | null; // When the price goes back up. Null when there is no sale or it has no end date.
+};
+
+// Whether a sale is running at the given time. The start is included and the end is not.
+export function isSaleRunning({ startsAt, endsAt }: SaleWindow, now: Date = new Date()) {
+  return (!startsAt || new Date(startsAt) <= now) && (!endsAt || now < new Date(endsAt));
+}
+
+/*
+  Checks the sale price of a product when it is saved: it must be lower than the price, and end after it starts.
+  Throws an error describing the problem.
+*/
+export function assertValidSalePrice({ price, salePrice, saleStartsAt, saleEndsAt }: ProductSaleFields) {
+  if (salePrice !== null && Number(salePrice) >= Number(price)) throw new Error("Sale price must be lower than the price");
+  if (saleStartsAt && saleEndsAt && new Date(saleEndsAt) <= new Date(saleStartsAt)) throw new Error("Sale must end after it starts");
+}
+
+/*
+  Works out the price of a product, or of one of its variants, at the given time.
+
+  - The sale price of the product applies while its dates run, when it is lower than the regular price.
+    Variants with their own price (`variantPrice`) aren't sold at the product price, so only the sales in percent apply to them.
+  - A sale applies to the product when it is active, running, and either storewide or on one of `categoryIds`
+    (the category of the product and its parents, so sales on a category include its subcategories).
+  - When several sales apply, the lowest price wins.
+*/
+export function getSalePrice(
+  product: ProductSaleFields,
+  { sales = [], categoryIds = [], variantPrice = null, now = new Date() }: { sales?: SaleRecord[]; categoryIds?: string[]; variantPrice?: string | number | null; now?: Date } = {}
+): SalePricing {
+  const regularPrice = Number(variantPrice ?? product.price);
+
+  const offers: { price: number; endsAt: Date | null }[] = [];
+
+  if (variantPrice === null && product.salePrice !== null && isSaleRunning({ startsAt: product.saleStartsAt, endsAt: product.saleEndsAt }, now)) {
+    offers.push({ price: Number(product.salePrice), endsAt: product.saleEndsAt });
+  }
+
+  for (const sale of sales) {
+    if (!sale.isActive || !isSaleRunning(sale, now)) continue;
+    if (sale.categoryIds.length > 0 && !sale.categoryIds.some(id => categoryIds.includes(id))) continue;
+
+    offers.push({ price: round2(regularPrice * (1 - Number(sale.discountPercent) / 100)), endsAt: sale.endsAt });
+  }
+
+  const best = offers.filter(x => x.price >= 0 && x.price < regularPrice).sort((a, b) => a.price - b.price)[0];
+
+  return best ? { price: best.price, compareAtPrice: regularPrice, endsAt: best.endsAt ? new Date(best.endsAt) : null } : { price: regularPrice, compareAtPrice: null, endsAt: null };
+}
@@ -0,0 +1,81 @@
+/**
+ * This module finds the search suggestions shown while the customer types in the search box.
+ * Suggestions are cached per prefix, so popular prefixes are answered without touching the database,
+ * and the cache is cleared when products or categories change.
+ **/
+
+import { prisma } from "@/db/prisma";
+import { unstable_cache } from "next/cache";
+import { normalizeSuggestionQuery, SEARCH_SUGGESTIONS_TAG, SearchSuggestions, SUGGESTION_MIN_LENGTH, toPrefixQuery } from "./search";
+import { searchSuggestionClickSchema } from "./validator";
+import { z } from "zod";
+
+// The number of suggestions of each type.
+const PRODUCT_SUGGESTIONS = 5;
+const CATEGORY_SUGGESTIONS = 3;
+const BRAND_SUGGESTIONS = 3;
+
+/*
+  Finds the top products, categories and brands for a prefix.
+  - Products are found with the full-text search, every word being a prefix, best match first.
+  - Categories and brands match when their name starts with the prefix.
+*/
+async function findSearchSuggestions(prefix: string): Promise<SearchSuggestions> {
+  const tsquery = toPrefixQuery(prefix);
+
+  const [matches, categories, brands] = await Promise.all([
+    tsquery
+      ? prisma.$queryRaw<{ id: string }[]>`
+          SELECT "id" FROM "Product"
+          WHERE "searchVector" @@ to_tsquery('english', ${tsquery})
+          ORDER BY ts_rank("searchVector", to_tsquery('english', ${tsquery})) DESC, "numReviews" DESC
+          LIMIT ${PRODUCT_SUGGESTIONS}
+        `
+      : [],
+    prisma.category.findMany({
+      where: { name: { startsWith: prefix, mode: "insensitive" } },
+      select: { name: true, slug: true },
+      orderBy: { sortOrder: "asc" },
+      take: CATEGORY_SUGGESTIONS
+    }),
+    prisma.product.findMany({
+      where: { brand: { startsWith: prefix, mode: "insensitive" } },
+      select: { brand: true },
+      distinct: ["brand"],
+      orderBy: { brand: "asc" },
+      take: BRAND_SUGGESTIONS
+    })
+  ]);
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: matches.map(x => x.id) } },
+    select: { id: true, name: true, slug: true, images: true, price: true }
+  });
+
+  return {
+    // Keeps the order of the search ranks
+    products: matches.flatMap(match => products.filter(x => x.id === match.id)).map(x => ({ id: x.id, name: x.name, slug: x.slug, image: x.images[0] ?? null, price: x.price })),
+    categories,
+    brands: brands.map(x => x.brand)
+  };
+}
+
+// Caches the suggestions of each prefix for a few minutes.
+const getCachedSearchSuggestions = unstable_cache(findSearchSuggestions, ["search-suggestions"], { tags: [SEARCH_SUGGESTIONS_TAG], revalidate: 300 });
+
+// Returns the suggestions for what the customer typed. Nothing is suggested for fewer than `SUGGESTION_MIN_LENGTH` characters.
+export async function getSearchSuggestions(query: string): Promise<SearchSuggestions> {
+  const prefix = normalizeSuggestionQuery(query).slice(0, 100);
+  if (prefix.length < SUGGESTION_MIN_LENGTH) return { products: [], categories: [], brands: [] };
+
+  return await getCachedSearchSuggestions(prefix);
+}
+
+// Records a clicked suggestion.
+export async function recordSuggestionClick(data: z.infer<typeof searchSuggestionClickSchema>) {
+  const click = searchSuggestionClickSchema.parse(data);
+
+  await prisma.searchSuggestionClick.create({
+    data: { ...click, query: normalizeSuggestionQuery(click.query) }
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * This module holds the helpers of the storefront full-text search that don't touch the database:
+ * ordering matches by relevance, splitting the highlighted text returned by Postgres into segments
+ * and turning what the customer types into search suggestions.
+ * It is shared by the product actions, the suggestions API, the search components and the tests.
+ **/
+
+// Marks the start and end of a matched term in the text returned by `ts_headline`. Control characters never appear in product text.
+export const HIGHLIGHT_START = "\u0001";
+export const HIGHLIGHT_STOP = "\u0002";
+
+// The highlighted name and description snippet of a product matching the search query.
+export type SearchHighlight = { name: string; description: string | null };
+
+// A part of a highlighted text, `match` being true for a matched term.
+export type HighlightSegment = { text: string; match: boolean };
+
+// Orders product ids by their search rank, highest first. Products without a rank (e.g. partial name matches) come last, in their original order.
+export function sortByRank(ids: string[], ranks: Map<string, number>) {
+  return ids
+    .map((id, index) => ({ id, index, rank: ranks.get(id) ?? 0 }))
+    .sort((a, b) => b.rank - a.rank || a.index - b.index)
+    .map(x => x.id);
+}
+
+// Checks whether a highlighted text contains a matched term.
+export function hasHighlight(text: string) {
+  return text.includes(HIGHLIGHT_START);
+}
+
+// Splits a highlighted text into plain and matched segments, dropping empty segments.
+export function splitHighlights(text: string): HighlightSegment[] {
+  return text
+    .split(HIGHLIGHT_START)
+    .flatMap((part, index) => {
+      if (index === 0) return [{ text: part, match: false }];
+
+      const [matched, ...rest] = part.split(HIGHLIGHT_STOP);
+      return [
+        { text: matched, match: true },
+        { text: rest.join(""), match: false }
+      ];
+    })
+    .filter(segment => segment.text !== "");
+}
+
+// The cache tag of the search suggestions, revalidated when products or categories change.
+export const SEARCH_SUGGESTIONS_TAG = "search-suggestions";
+
+// The minimum number of characters typed before suggestions are shown.
+export const SUGGESTION_MIN_LENGTH = 2;
+
+// The top matches for what the customer is typing in the search box.
+export type SearchSuggestions = {
+  products: { id: string; name: string; slug: string; image: string | null; price: string }[];
+  categories: { name: string; slug: string }[];
+  brands: string[];
+};
+
+// A suggestion of the search dropdown, with the page it leads to.
+export type SuggestionItem = { type: "product" | "category" | "brand"; value: string; label: string; href: string; image?: string | null; price?: string };
+
+// Normalizes what the customer typed, so the same prefix shares its cached suggestions.
+export function normalizeSuggestionQuery(query: string) {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/*
+  Turns what the customer typed into a prefix full-text query, so "wirel head" matches "Wireless Headphones".
+  - Only letters and digits are kept, which keeps the query free of tsquery syntax.
+  - Returns null when nothing searchable was typed.
+*/
+export function toPrefixQuery(query: string) {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map(word => `${word}:*`).join(" & ") : null;
+}
+
+// Lists the suggestions in the order of the dropdown: products, then categories, then brands.
+export function toSuggestionItems(suggestions: SearchSuggestions): SuggestionItem[] {
+  return [
+    ...suggestions.products.map(x => ({ type: "product" as const, value: x.slug, label: x.name, href: `/product/${x.slug}`, image: x.image, price: x.price })),
+    ...suggestions.categories.map(x => ({ type: "category" as const, value: x.slug, label: x.name, href: `/search?category=${encodeURIComponent(x.slug)}` })),
+    ...suggestions.brands.map(x => ({ type: "brand" as const, value: x, label: x, href: `/search?q=${encodeURIComponent(x)}` }))
+  ];
+}
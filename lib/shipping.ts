@@ -0,0 +1,89 @@
+/**
+ * This module calculates the shipping options of a cart from the shipping zones and their rates.
+ * It doesn't touch the database, so it is shared by the cart actions, the checkout pages and the tests.
+ * Prices are entered with two decimals by admins, so they are used as they are.
+ **/
+
+// A price tier of a weight or price rate: the price applies from the given weight (kg) or items price.
+export type ShippingTier = { from: number; price: number };
+
+// The fields of a shipping rate used to calculate its price.
+export type ShippingRateRules = {
+  id: string;
+  name: string;
+  type: string; // "flat", "weight" or "price"
+  price: string | number; // The price of a flat rate.
+  tiers: ShippingTier[];
+  minDays: number | null;
+  maxDays: number | null;
+  isActive: boolean;
+};
+
+// The fields of a shipping zone used to match the shipping address.
+export type ShippingZoneRules = {
+  id: string;
+  name: string;
+  countries: string[];
+  rates: ShippingRateRules[];
+};
+
+// A shipping option offered to the customer at checkout.
+export type ShippingOption = {
+  rateId: string;
+  name: string;
+  price: number;
+  minDays: number | null;
+  maxDays: number | null;
+};
+
+const normalizeCountry = (country: string) => country.trim().toLowerCase();
+
+/*
+  Finds the zone shipping to a country.
+  - A zone listing the country wins over the fallback zone (a zone without countries).
+  - Without a country (e.g. a guest who hasn't entered an address yet) the fallback zone gives an estimate.
+*/
+export function findShippingZone<T extends ShippingZoneRules>(zones: T[], country?: string | null): T | null {
+  const zone = country ? zones.find(x => x.countries.some(c => normalizeCountry(c) === normalizeCountry(country))) : undefined;
+  return zone ?? zones.find(x => x.countries.length === 0) ?? null;
+}
+
+// Calculates the price of a rate for a cart. Weight and price rates use the tier with the highest `from` reached by the cart.
+export function calcShippingRate(rate: ShippingRateRules, { itemsPrice, weight }: { itemsPrice: number; weight: number }) {
+  if (rate.type === "flat") return Number(rate.price);
+
+  const value = rate.type === "weight" ? weight : itemsPrice;
+  const tier = [...rate.tiers].sort((a, b) => b.from - a.from).find(x => value >= x.from);
+  if (!tier) throw new Error(`Shipping rate ${rate.name} has no tier for this cart`);
+
+  return Number(tier.price);
+}
+
+// Lists the active rates of the zone shipping to a country, cheapest first. Returns an empty list when no zone ships there.
+export function getShippingOptions(zones: ShippingZoneRules[], { country, itemsPrice, weight }: { country?: string | null; itemsPrice: number; weight: number }): ShippingOption[] {
+  const zone = findShippingZone(zones, country);
+  if (!zone) return [];
+
+  return zone.rates
+    .filter(rate => rate.isActive)
+    .flatMap(rate => {
+      try {
+        return [{ rateId: rate.id, name: rate.name, price: calcShippingRate(rate, { itemsPrice, weight }), minDays: rate.minDays, maxDays: rate.maxDays }];
+      } catch {
+        return []; // A rate without a tier for the cart isn't offered
+      }
+    })
+    .sort((a, b) => a.price - b.price);
+}
+
+// Returns the selected option, or the cheapest one when nothing is selected or the selected rate isn't offered for the cart anymore.
+export function selectShippingOption(options: ShippingOption[], rateId?: string | null) {
+  return options.find(x => x.rateId === rateId) ?? options[0] ?? null;
+}
+
+// Formats the delivery time of an option (e.g. "3-7 days").
+export function formatDeliveryDays({ minDays, maxDays }: { minDays: number | null; maxDays: number | null }) {
+  if (minDays === null && maxDays === null) return "";
+  if (minDays === null || maxDays === null || minDays === maxDays) return `${minDays ?? maxDays} days`;
+  return `${minDays}-${maxDays} days`;
+}
@@ -0,0 +1,119 @@
+/**
+ * This module holds the back-in-stock notification steps shared by the product actions, the order restocking and the scheduled job:
+ * queueing the requests of restocked products, sending the queued emails and unsubscribing.
+ **/
+
+import { prisma, TransactionClient } from "@/db/prisma";
+import { sendBackInStockEmail } from "@/email";
+import { SERVER_URL } from "./constants";
+import { formatError, formatVariantOptions } from "./utils";
+
+// A request that is waiting for its product to come back in stock.
+const pendingRequest = { queuedAt: null, notifiedAt: null, unsubscribedAt: null };
+
+/*
+  Queues the pending requests of the products (and variants) that are in stock again.
+  Runs inside the transaction of the caller after the stock was raised. Returns the number of queued requests.
+
+  - A request for a product is queued when the product has stock, a request for a variant when the variant has stock.
+  - The emails are sent by `sendQueuedStockNotifications`, so a stock update doesn't wait for the email service.
+*/
+export async function queueStockNotifications(tx: TransactionClient, productIds: string[], now = new Date()) {
+  const products = await tx.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, stock: true, variants: { select: { id: true, stock: true } } }
+  });
+
+  let queued = 0;
+  for (const product of products) {
+    const variantIds = product.variants.filter(x => x.stock > 0).map(x => x.id);
+
+    const { count } = await tx.stockNotification.updateMany({
+      where: {
+        ...pendingRequest,
+        productId: product.id,
+        OR: [...(product.stock > 0 ? [{ variantId: null }] : []), { variantId: { in: variantIds } }]
+      },
+      data: { queuedAt: now }
+    });
+    queued += count;
+  }
+
+  return queued;
+}
+
+/*
+  Sends the queued back-in-stock emails, oldest first. Run by the scheduled job at /api/cron/send-stock-notifications
+  and right after a product is restocked. Returns the number of sent emails.
+
+  - A request whose product sold out again before its email went out goes back to pending, and a request for a removed variant is closed.
+  - Each request is claimed before its email is sent, so two runs can't email the same customer twice.
+  - When the email service fails, the request stays queued for the next run, with the error recorded for the admin report.
+*/
+export async function sendQueuedStockNotifications(limit = 100) {
+  const requests = await prisma.stockNotification.findMany({
+    where: { queuedAt: { not: null }, notifiedAt: null, unsubscribedAt: null },
+    include: { product: { include: { variants: true } } },
+    orderBy: { queuedAt: "asc" },
+    take: limit
+  });
+
+  let sent = 0;
+  for (const request of requests) {
+    const { product } = request;
+    const variant = request.variantId ? product.variants.find(x => x.id === request.variantId) : null;
+
+    if (request.variantId && !variant) {
+      await prisma.stockNotification.update({ where: { id: request.id }, data: { unsubscribedAt: new Date() } });
+      continue;
+    }
+
+    if ((variant ?? product).stock <= 0) {
+      await prisma.stockNotification.update({ where: { id: request.id }, data: { queuedAt: null } });
+      continue;
+    }
+
+    const { count } = await prisma.stockNotification.updateMany({
+      where: { id: request.id, notifiedAt: null },
+      data: { notifiedAt: new Date() }
+    });
+    if (count === 0) continue;
+
+    try {
+      await sendBackInStockEmail({
+        email: request.email,
+        productName: variant ? `${product.name} (${formatVariantOptions(variant.options as Record<string, string>)})` : product.name,
+        image: product.images[0],
+        price: variant?.price ?? product.price,
+        productUrl: `${SERVER_URL}/product/${product.slug}`,
+        unsubscribeUrl: `${SERVER_URL}/stock-notifications/unsubscribe?token=${request.token}`,
+        oneClickUnsubscribeUrl: `${SERVER_URL}/api/stock-notifications/unsubscribe?token=${request.token}`
+      });
+      if (request.lastError) await prisma.stockNotification.update({ where: { id: request.id }, data: { lastError: null } });
+      sent++;
+    } catch (error) {
+      await prisma.stockNotification.update({ where: { id: request.id }, data: { notifiedAt: null, lastError: formatError(error) } });
+    }
+  }
+
+  return sent;
+}
+
+/*
+  Unsubscribes the email address of a request from the back-in-stock emails, once confirmed on the page of the email link or from the one-click header.
+  Every request of the address that wasn't sent yet is cancelled. Returns false when the token doesn't match a request.
+*/
+export async function unsubscribeStockNotifications(token: string) {
+  // Tokens are UUIDs, anything else can't match a request.
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(token)) return false;
+
+  const request = await prisma.stockNotification.findFirst({ where: { token } });
+  if (!request) return false;
+
+  await prisma.stockNotification.updateMany({
+    where: { email: request.email, notifiedAt: null, unsubscribedAt: null },
+    data: { unsubscribedAt: new Date() }
+  });
+
+  return true;
+}
@@ -0,0 +1,62 @@
+/**
+ * This module calculates the tax of a cart from the tax rates of the shipping address and the tax categories of the products.
+ * It doesn't touch the database, so it is shared by the cart pricing, `createOrder` and the tests.
+ * Rates are stored in percent (e.g. 20 for 20%), and the tax is rounded per line so the lines add up to the tax of the order.
+ **/
+
+// The fields of a tax rate used to match the shipping address and the product.
+export type TaxRateRules = {
+  country: string;
+  region: string | null; // Null for the rate of the whole country
+  category: string;
+  rate: string | number;
+};
+
+// A cart line to tax: its price after quantity and its product's tax category.
+export type TaxLine = { total: number; category: string };
+
+// The tax of a cart line, in the order of the lines passed in.
+export type LineTax = { rate: number; amount: number };
+
+// Rounds to 2 decimals. Kept local so the module stays free of the app utilities.
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/*
+  Finds the tax rate (in percent) of a category at an address.
+  - A rate of the address region wins over the rate of the whole country.
+  - Without a matching rate (e.g. a guest who hasn't entered an address yet, or a country without configured rates) the default rate applies.
+*/
+export function findTaxRate(rates: TaxRateRules[], { country, region, category }: { country?: string | null; region?: string | null; category: string }, defaultRate: number) {
+  if (!country) return defaultRate;
+
+  const matches = rates.filter(x => normalize(x.country) === normalize(country) && normalize(x.category) === normalize(category));
+  const regional = region ? matches.find(x => x.region && normalize(x.region) === normalize(region)) : undefined;
+  const national = matches.find(x => !x.region);
+
+  const match = regional ?? national;
+  return match ? Number(match.rate) : defaultRate;
+}
+
+/*
+  Calculates the tax of each cart line.
+
+  - The coupon discount is shared between the lines in proportion to their totals, and is taken off before tax.
+  - When prices include tax, the tax is the part of the line total above its net price. Otherwise it is added on top of the line total.
+*/
+export function calcLineTaxes(
+  lines: TaxLine[],
+  { rates, country, region, discountPrice = 0, pricesIncludeTax, defaultRate }: { rates: TaxRateRules[]; country?: string | null; region?: string | null; discountPrice?: number; pricesIncludeTax: boolean; defaultRate: number }
+): LineTax[] {
+  const itemsPrice = lines.reduce((acc, line) => acc + line.total, 0);
+
+  return lines.map(line => {
+    const rate = findTaxRate(rates, { country, region, category: line.category }, defaultRate);
+    const discount = itemsPrice > 0 ? (discountPrice * line.total) / itemsPrice : 0;
+    const taxable = Math.max(line.total - discount, 0);
+    const amount = pricesIncludeTax ? taxable - taxable / (1 + rate / 100) : (taxable * rate) / 100;
+
+    return { rate, amount: round2(amount) };
+  });
+}
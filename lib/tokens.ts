@@ -0,0 +1,46 @@
+/**
+ * This module issues and checks the single-use tokens of the links sent by email (the password reset and email verification links), stored in the VerificationToken model.
+ * Only the SHA-256 hash of a token is stored, so the links can't be rebuilt from the database.
+ **/
+
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@/db/prisma";
+
+// What a token is for. Tokens are stored per purpose and email address, so a token of one purpose can't be used for another.
+export type TokenPurpose = "password-reset" | "verify-email";
+
+// The identifier of the tokens of a purpose and email address.
+const getIdentifier = (purpose: TokenPurpose, email: string) => `${purpose}:${email.toLowerCase()}`;
+
+// Hashes a token for storage.
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+/*
+  Issues a new token for the email address, valid for the given number of minutes, and returns it to be put in the link.
+  - The previous tokens of the same purpose and address are deleted, so only the latest link works.
+*/
+export async function createVerificationToken(purpose: TokenPurpose, email: string, minutes: number) {
+  const identifier = getIdentifier(purpose, email);
+  const token = randomBytes(32).toString("hex");
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: { identifier, token: hashToken(token), expires: new Date(Date.now() + minutes * 60 * 1000) }
+    })
+  ]);
+
+  return token;
+}
+
+/*
+  Uses a token, returning whether it was valid: issued for the purpose and email address, and not expired.
+  - The token is deleted as it is checked, so it can only be used once even by two requests at the same time.
+*/
+export async function consumeVerificationToken(purpose: TokenPurpose, email: string, token: string) {
+  const { count } = await prisma.verificationToken.deleteMany({
+    where: { identifier: getIdentifier(purpose, email), token: hashToken(token), expires: { gt: new Date() } }
+  });
+
+  return count === 1;
+}
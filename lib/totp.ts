@@ -0,0 +1,119 @@
+/**
+ * This module implements the time-based one-time passwords (TOTP, RFC 6238) of two-factor authentication, and its recovery codes.
+ * The codes are the ones shown by authenticator apps (e.g. Google Authenticator): 6 digits, changing every 30 seconds, with HMAC-SHA1.
+ * It doesn't touch the database, so it is shared by the sign-in, the profile actions and the tests.
+ **/
+
+import { createHash, createHmac, randomBytes } from "crypto";
+
+// The base32 alphabet of the secrets (RFC 4648), the encoding authenticator apps expect.
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type TotpOptions = {
+  digits?: number; // The number of digits of a code.
+  step?: number; // The number of seconds a code is valid for.
+  algorithm?: "sha1" | "sha256" | "sha512"; // The HMAC algorithm.
+};
+
+const defaultOptions: Required<TotpOptions> = { digits: 6, step: 30, algorithm: "sha1" };
+
+// Encodes bytes in base32, without padding.
+export function base32Encode(buffer: Buffer) {
+  let bits = "";
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, "0");
+
+  let result = "";
+  for (let i = 0; i < bits.length; i += 5) result += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+
+  return result;
+}
+
+// Decodes a base32 string, ignoring case, spaces and padding. Throws an error on other characters.
+export function base32Decode(value: string) {
+  let bits = "";
+  for (const char of value.toUpperCase().replace(/[\s=]/g, "")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    bits += index.toString(2).padStart(5, "0");
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+
+  return Buffer.from(bytes);
+}
+
+// Generates a new random secret (160 bits, as recommended by RFC 4226), encoded in base32.
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+// Returns the time step of a time: the number of steps since the Unix epoch.
+export function getTotpStep(now: Date = new Date(), step = defaultOptions.step) {
+  return Math.floor(now.getTime() / 1000 / step);
+}
+
+/*
+  Returns the code of a secret at a time step (the HOTP of RFC 4226 with the step as the counter).
+  - The secret is the raw key. Use `base32Decode` for the secrets shown to users.
+*/
+export function getTotpCode(key: Buffer, counter: number, options: TotpOptions = {}) {
+  const { digits, algorithm } = { ...defaultOptions, ...options };
+
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac(algorithm, key).update(message).digest();
+
+  // Dynamic truncation: 4 bytes read at the offset given by the last 4 bits.
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/*
+  Checks a code against a base32 secret, returning the time step it matched or null.
+  - The codes of the steps just before and after are accepted too (`window`), for clocks slightly off and codes typed at the end of their step.
+  - Codes of steps up to `lastStep` are refused, so a code can't be used twice.
+*/
+export function verifyTotpCode(secret: string, code: string, { now = new Date(), window = 1, lastStep = null, ...options }: TotpOptions & { now?: Date; window?: number; lastStep?: number | null } = {}) {
+  const { digits, step } = { ...defaultOptions, ...options };
+  const value = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${digits}}$`).test(value)) return null;
+
+  const key = base32Decode(secret);
+  const current = getTotpStep(now, step);
+
+  for (let counter = current - window; counter <= current + window; counter++) {
+    if (lastStep !== null && counter <= lastStep) continue;
+    if (getTotpCode(key, counter, options) === value) return counter;
+  }
+
+  return null;
+}
+
+/*
+  Returns the otpauth:// URI of a secret, shown as a QR code for authenticator apps to scan.
+  - `issuer`: the name of the store, shown in the app above the account.
+  - `account`: the email address of the user.
+*/
+export function getTotpUri({ secret, issuer, account }: { secret: string; issuer: string; account: string }) {
+  const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(defaultOptions.digits), period: String(defaultOptions.step) });
+
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}?${params}`;
+}
+
+// Generates single-use recovery codes (e.g. "4f9a2-c81d0"), used to sign in when the authenticator app is lost.
+export function generateRecoveryCodes(count = 10) {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Hashes a recovery code for storage. Case, spaces and dashes are ignored, so the code can be typed loosely.
+export function hashRecoveryCode(code: string) {
+  return createHash("sha256")
+    .update(code.toLowerCase().replace(/[\s-]/g, ""))
+    .digest("hex");
+}
@@ -0,0 +1,52 @@
+/**
+ * This module checks the second factor of the users who turned on two-factor authentication, for the sign-in and the profile actions.
+ * A second factor is either a code of the authenticator app or one of the recovery codes (see lib/totp.ts).
+ **/
+
+import { CredentialsSignin } from "next-auth";
+import { prisma } from "@/db/prisma";
+import { hashRecoveryCode, verifyTotpCode } from "./totp";
+import { hasAdminAccess } from "./permissions";
+
+// Thrown by `authorize` when the password is right but the code of the second step is missing, so the sign-in form asks for it.
+export class TwoFactorRequiredError extends CredentialsSignin {
+  code = "two_factor_required";
+}
+
+/*
+  Whether users with the permissions must turn on two-factor authentication: everyone with access to the admin area.
+  `requirePermission` sends them to their profile to set it up.
+*/
+export function isTwoFactorRequired(permissions: string[]) {
+  return hasAdminAccess(permissions);
+}
+
+// The fields of a user needed to check their second factor.
+type TwoFactorUser = { id: string; twoFactorSecret: string | null; twoFactorLastStep: number | null; twoFactorRecoveryCodes: string[] };
+
+/*
+  Checks a code of the authenticator app or a recovery code, returning whether it was accepted.
+  - An accepted code can't be used again: the time step of an app code is saved, and a recovery code is removed.
+  - The updates are conditional, so two requests with the same code can't both be accepted.
+*/
+export async function verifySecondFactor(user: TwoFactorUser, code: string) {
+  if (!user.twoFactorSecret) return false;
+
+  const step = verifyTotpCode(user.twoFactorSecret, code, { lastStep: user.twoFactorLastStep });
+  if (step !== null) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+      data: { twoFactorLastStep: step }
+    });
+    return count === 1;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!user.twoFactorRecoveryCodes.includes(hash)) return false;
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, twoFactorRecoveryCodes: { has: hash } },
+    data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(x => x !== hash) }
+  });
+  return count === 1;
+}
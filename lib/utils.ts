@@ -160,6 +160,12 @@ export const formatDateTime = (dateString: Date) => {
 // console.log("Date Only:", formatted.dateOnly); // Expected output: "Wed, Oct 25, 2023"
 // console.log("Time Only:", formatted.timeOnly); // Expected output: "1:30 AM" (adjusted for timezone)
 
+// Formats a date as the value of a `datetime-local` input, in local time (e.g. "2025-10-19T09:00").
+export const toDateTimeLocal = (value: Date | string) => {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 // Form Pagination Links
 export function formUrlQuery({ params, key, value }: { params: string; key: string; value: string | null }) {
   //
@@ -194,3 +200,20 @@ const NUMBER_FORMATTER = new Intl.NumberFormat("en-US");
 export function formatNumber(number: number) {
   return NUMBER_FORMATTER.format(number);
 }
+
+/*
+   Checks whether two cart or order lines refer to the same purchasable item.
+   - Lines match when they have the same `productId` and the same `variantId`.
+   - A missing `variantId` is treated as `null`, so lines saved before variants existed still match.
+*/
+export function isSameCartLine(a: { productId: string; variantId?: string | null }, b: { productId: string; variantId?: string | null }) {
+  return a.productId === b.productId && (a.variantId ?? null) === (b.variantId ?? null);
+}
+
+/*
+   Formats the option values of a product variant for display.
+   Example: formatVariantOptions({ Size: "M", Color: "Red" }) → "M / Red"
+*/
+export function formatVariantOptions(options: Record<string, string>) {
+  return Object.values(options).join(" / ");
+}
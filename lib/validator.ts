@@ -5,23 +5,43 @@
 
 import { z } from "zod"; // Imports the Zod library for creating schemas and validating data structures.
 import { formatNumberWithDecimal } from "./utils"; // Imports a utility function to format numbers with two decimal places.
-import { PAYMENT_METHODS } from "./constants"; // Imports the PAYMENT_METHODS array from the constants file.
+import { COUPON_TYPES, PAYMENT_METHODS, SHIPPING_RATE_TYPES, TAX_CATEGORIES } from "./constants"; // Imports the COUPON_TYPES, PAYMENT_METHODS, SHIPPING_RATE_TYPES and TAX_CATEGORIES arrays from the constants file.
+import { HOMEPAGE_SECTION_TYPES, PRODUCT_ROW_RULES, VALUE_PROP_ICONS } from "./homepage"; // Imports the types of homepage sections, the rules of product rows and the icons of value propositions.
 
 // Validates that the price is a string formatted with exactly two decimal places.
 const currency = z.string().refine(value => /^\d+(\.\d{2})?$/.test(formatNumberWithDecimal(Number(value))), "Price must have exactly two decimal places (e.g., 49.99)");
 
+// Converts empty form values to null, so optional fields can be left blank.
+const emptyToNull = (value: unknown) => (value === "" || value === undefined ? null : value);
+
+// Defines the schema for a single product variant (a size/color SKU of a product).
+export const productVariantSchema = z.object({
+  id: z.string().optional(), // The id of an existing variant. Omitted for variants that have not been saved yet.
+  sku: z.string().min(1, "SKU is required"), // Ensures every variant has a non-empty SKU.
+  options: z.record(z.string(), z.string().min(1, "Option value is required")), // The option values of the variant (e.g. { Size: "M", Color: "Red" }).
+  price: z.preprocess(value => (value === "" || value === undefined ? null : value), currency.nullable()), // Optional price override. An empty value means the variant uses the product price.
+  stock: z.coerce.number().int().nonnegative("Stock must be a positive number") // Coerces the input value into a non-negative integer.
+});
+
 // Defines the schema for inserting a product into the system.
 export const insertProductSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters"), // Ensures the product name is a string and has at least 3 characters.
   slug: z.string().min(3, "Slug must be at least 3 characters"), // Ensures the product slug is a string and has at least 3 characters.
-  category: z.string().min(3, "Category must be at least 3 characters"), // Ensures the category is a string and has at least 3 characters.
+  categoryId: z.string().min(1, "Category is required"), // Ensures a category of the category hierarchy is selected.
   brand: z.string().min(3, "Brand must be at least 3 characters"), // Ensures the brand is a string and has at least 3 characters.
   description: z.string().min(3, "Description must be at least 3 characters"), // Ensures the description is a string and has at least 3 characters.
   stock: z.coerce.number(), // Coerces the input value into a number for the stock field.
+  lowStockThreshold: z.preprocess(emptyToNull, z.coerce.number().int().nonnegative("Threshold must be a positive number").nullable()), // Optional low-stock threshold. An empty value uses the default threshold.
+  weight: z.string().refine(value => value !== "" && Number(value) >= 0, "Weight must be a positive number"), // The shipping weight in kilograms, used by weight-based shipping rates.
+  taxCategory: z.string().refine(value => TAX_CATEGORIES.includes(value), "Invalid tax category"), // The tax category matched with the tax rates of the shipping address.
   images: z.array(z.string()).min(1, "Product must have at least one image"), // Ensures the product has an array of image strings with at least one image.
   isFeatured: z.boolean(), // Ensures the isFeatured field is a boolean value.
   banner: z.string().nullable(), // Allows the banner field to either be a string or null.
-  price: currency // Validates the price using the `currency` schema defined earlier.
+  price: currency, // Validates the price using the `currency` schema defined earlier.
+  salePrice: z.preprocess(emptyToNull, currency.nullable()), // Optional sale price, only used while it is lower than the price. An empty value means the product isn't on sale.
+  saleStartsAt: z.preprocess(emptyToNull, z.coerce.date().nullable()), // Optional start of the sale price. An empty value starts it right away.
+  saleEndsAt: z.preprocess(emptyToNull, z.coerce.date().nullable()), // Optional end of the sale price. An empty value runs it until it is removed.
+  variants: z.array(productVariantSchema).optional() // Optional list of variants. When present, the product stock is the sum of the variant stocks.
 });
 
 /*
@@ -30,7 +50,8 @@ export const insertProductSchema = z.object({
   - Additionally, it adds an `id` field, which is required for identifying the product being updated.
 */
 export const updateProductSchema = insertProductSchema.extend({
-  id: z.string().min(1, "Id is required") // // Validates that the id is a string with at least 1 character. If the `id` is missing or empty, an error message "Id is required" will be displayed.
+  id: z.string().min(1, "Id is required"), // // Validates that the id is a string with at least 1 character. If the `id` is missing or empty, an error message "Id is required" will be displayed.
+  stockBefore: z.object({ stock: z.number().int(), variants: z.record(z.string(), z.number().int()) }).optional() // The stock of the product and of its variants (by id) when the form was opened, so the edits are applied as changes to the current stock.
 });
 
 // Defines the schema for user sign-in form validation.
@@ -56,11 +77,30 @@ export const signUpFormSchema = z
     }
   );
 
+// Schema for requesting a password reset email
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address") // Ensures the email is a valid email address.
+});
+
+// Schema for choosing a new password with the token of a password reset email
+export const resetPasswordSchema = z
+  .object({
+    email: z.string().email("Invalid email address"), // The email address the reset link was sent to.
+    token: z.string().min(1, "Invalid or expired reset link"), // The secret of the reset link.
+    password: z.string().min(3, "Password must be at least 3 characters"),
+    confirmPassword: z.string().min(3, "Confirm password must be at least 3 characters")
+  })
+  .refine(data => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"]
+  });
+
 // Cart Schemas //
 
 // Defines the schema for a single cart item
 export const cartItemSchema = z.object({
   productId: z.string().min(1, "Product is required"), // Validates that productId is a non-empty string.
+  variantId: z.string().nullable().optional(), // Optional id of the selected product variant.
   name: z.string().min(1, "Name is required"), // Validates that name is a non-empty string.
   slug: z.string().min(1, "Slug is required"), // Validates that slug is a non-empty string.
   qty: z.number().int().nonnegative("Quantity must be a positive number"), // Validates that qty is a non-negative integer.
@@ -75,6 +115,9 @@ export const insertCartSchema = z.object({
   totalPrice: currency, // Validates that totalPrice follows the currency format.
   shippingPrice: currency, // Validates that shippingPrice follows the currency format.
   taxPrice: currency, // Validates that taxPrice follows the currency format.
+  discountPrice: currency, // Validates that discountPrice follows the currency format.
+  couponCode: z.string().nullable().optional(), // Validates that couponCode is an optional or nullable string.
+  shippingRateId: z.string().nullable().optional(), // Validates that shippingRateId is an optional or nullable string.
   sessionCartId: z.string().min(1, "Session cart id is required"), // Validates that sessionCartId is a non-empty string.
   userId: z.string().optional().nullable() // Validates that userId is an optional or nullable string.
 });
@@ -86,10 +129,16 @@ export const shippingAddressSchema = z.object({
   city: z.string().min(3, "city must be at least 3 characters"), // Validates that `city` is a string with a minimum length of 3 characters.
   postalCode: z.string().min(3, "Postal code must be at least 3 characters"), // Validates that `postalCode` is a string with a minimum length of 3 characters.
   country: z.string().min(3, "Country must be at least 3 characters"), // Validates that `country` is a string with a minimum length of 3 characters.
+  region: z.string().optional(), // Validates that `region` is an optional string with the state or province, used for regional tax rates.
   lat: z.number().optional(), // Validates that `lat` is an optional number representing latitude.
   lng: z.number().optional() // Validates that `lng` is an optional number representing longitude.
 });
 
+// Defines the schema for selecting a shipping method
+export const shippingMethodSchema = z.object({
+  rateId: z.string().min(1, "Shipping method is required") // The id of the selected shipping rate.
+});
+
 // Defines the schema for payment
 export const paymentMethodSchema = z
   .object({
@@ -109,6 +158,10 @@ export const insertOrderSchema = z.object({
   shippingPrice: currency, // Defines the 'shippingPrice' field and uses a predefined schema for currency validation.
   taxPrice: currency, // Defines the 'taxPrice' field and uses a predefined schema for currency validation.
   totalPrice: currency, // Defines the 'totalPrice' field and uses a predefined schema for currency validation.
+  discountPrice: currency, // Defines the 'discountPrice' field and uses a predefined schema for currency validation.
+  couponCode: z.string().nullable().optional(), // Defines the optional 'couponCode' field as a string or null.
+  shippingMethod: z.string().nullable().optional(), // Defines the optional 'shippingMethod' field holding the name of the shipping rate.
+  pricesIncludeTax: z.boolean().optional(), // Defines the optional 'pricesIncludeTax' field indicating whether the tax price is part of the items price.
 
   // Defines the 'paymentMethod' field as a string.
   // The refine method adds custom validation to ensure the value is included in the PAYMENT_METHODS array.
@@ -122,11 +175,14 @@ export const insertOrderSchema = z.object({
 // Insert Order Item Schema
 export const insertOrderItemSchema = z.object({
   productId: z.string(), // Defines the 'productId' field as a string.
+  variantId: z.string().nullable().optional(), // Defines the optional 'variantId' field as a string or null.
   slug: z.string(), // Defines the 'slug' field as a string.
   image: z.string(), // Defines the 'image' field as a string.
   name: z.string(), // Defines the 'name' field as a string.
   price: currency, // Defines the 'price' field and uses a predefined schema for currency validation.
-  qty: z.number() // Defines the 'qty' field as a number.
+  qty: z.number(), // Defines the 'qty' field as a number.
+  taxRate: z.string(), // Defines the 'taxRate' field as the tax rate of the line in percent.
+  taxAmount: currency // Defines the 'taxAmount' field as the tax of the line, using the currency schema.
 });
 
 // Defines paypal payment result
@@ -134,7 +190,16 @@ export const paymentResultSchema = z.object({
   id: z.string(), // Defines the 'id' field as a string.
   status: z.string(), // Defines the 'status' field as a string.
   email_address: z.string(), // Defines the 'email_address' field as a string.
-  pricePaid: z.string() // Defines the 'pricePaid' field as a string.
+  pricePaid: z.string(), // Defines the 'pricePaid' field as a string.
+  captureId: z.string().optional() // Defines the optional 'captureId' field, the id of the PayPal capture used to refund the payment.
+});
+
+// Defines the schema for refunding an order
+export const refundOrderSchema = z.object({
+  orderId: z.string().min(1, "Order is required"), // Defines the 'orderId' field as a non-empty string.
+  amount: currency.refine(value => Number(value) > 0, "Amount must be greater than 0"), // Defines the refunded amount, which must be positive.
+  reason: z.string().optional(), // Defines the optional 'reason' field as a string.
+  restock: z.boolean() // Defines whether the items of the order are put back in stock.
 });
 
 // Defines a schema for updating a user's profile
@@ -143,6 +208,9 @@ export const updateProfileSchema = z.object({
   email: z.string().min(3, "Email must be at least 3 characters")
 });
 
+// Defines a schema for the code of an authenticator app, or a recovery code, confirming a two-factor authentication change
+export const twoFactorCodeSchema = z.string().trim().min(6, "Enter the code of your authenticator app");
+
 /*
   Updating a user.
 
@@ -204,3 +272,174 @@ export const insertReviewSchema = z.object({
     .min(1, "Rating must be at least 1") // Requires the rating to be at least 1; otherwise, an error message is returned.
     .max(5, "Rating must be at most 5") // Requires the rating to be at most 5; otherwise, an error message is returned.
 });
+
+// Insert Coupon Schema
+export const insertCouponSchema = z.object({
+  code: z
+    .string()
+    .min(3, "Code must be at least 3 characters") // Requires at least 3 characters.
+    .regex(/^[A-Za-z0-9_-]+$/, "Code can only contain letters, numbers, dashes and underscores"), // Keeps codes easy to type.
+  type: z.string().refine(value => COUPON_TYPES.includes(value), "Invalid coupon type"), // Ensures the type is one of the COUPON_TYPES.
+  value: currency, // The percentage or fixed amount of the discount.
+  minSpend: z.preprocess(emptyToNull, currency.nullable()), // Optional minimum items price. An empty value means no minimum.
+  expiresAt: z.preprocess(emptyToNull, z.coerce.date().nullable()), // Optional expiry date. An empty value means the coupon doesn't expire.
+  usageLimit: z.preprocess(emptyToNull, z.coerce.number().int().positive("Usage limit must be a positive number").nullable()), // Optional total usage limit.
+  perUserLimit: z.preprocess(emptyToNull, z.coerce.number().int().positive("Per user limit must be a positive number").nullable()), // Optional usage limit per user.
+  productIds: z.array(z.string()), // Products the coupon is restricted to. Empty means no product restriction.
+  categoryIds: z.array(z.string()), // Categories the coupon is restricted to, including their subcategories. Empty means no category restriction.
+  isActive: z.boolean() // Indicates whether the coupon can be used.
+});
+
+// Update Coupon Schema, which extends the insert schema with the id of the coupon being updated.
+export const updateCouponSchema = insertCouponSchema.extend({
+  id: z.string().min(1, "Id is required")
+});
+
+// Insert Sale Schema
+export const insertSaleSchema = z.object({
+  name: z.string().min(3, "Name must be at least 3 characters"), // The name shown by the deal countdown.
+  description: z.preprocess(emptyToNull, z.string().nullable()), // Optional description shown by the deal countdown.
+  discountPercent: currency.refine(value => Number(value) > 0 && Number(value) < 100, "Discount must be between 0 and 100"), // The percentage taken off the prices.
+  categoryIds: z.array(z.string()), // Categories on sale, including their subcategories. Empty puts the whole store on sale.
+  startsAt: z.coerce.date({ errorMap: () => ({ message: "Start date is required" }) }), // When the sale starts.
+  endsAt: z.coerce.date({ errorMap: () => ({ message: "End date is required" }) }), // When the sale ends.
+  isActive: z.boolean() // Indicates whether the sale runs during its dates.
+});
+
+// Update Sale Schema, which extends the insert schema with the id of the sale being updated.
+export const updateSaleSchema = insertSaleSchema.extend({
+  id: z.string().min(1, "Id is required")
+});
+
+// Insert Role Schema. The name and permissions are also checked by `assertValidRole` (see lib/permissions.ts).
+export const insertRoleSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"), // The name stored on the users of the role.
+  description: z.preprocess(emptyToNull, z.string().nullable()), // Optional description shown on the admin roles page.
+  permissions: z.array(z.string()) // The permissions the role bundles.
+});
+
+// Update Role Schema, which extends the insert schema with the id of the role being updated.
+export const updateRoleSchema = insertRoleSchema.extend({
+  id: z.string().min(1, "Id is required")
+});
+
+// Defines the schema for the content of a homepage section. Every type uses its own fields, see lib/homepage.ts.
+export const homepageSectionContentSchema = z.object({
+  slides: z.array(
+    z.object({
+      image: z.string().min(1, "Image is required"), // The image of the slide.
+      title: z.string().min(1, "Title is required"), // The title shown on the slide.
+      subtitle: z.preprocess(emptyToNull, z.string().nullable()), // Optional text shown under the title.
+      href: z.string().min(1, "Link is required") // The page the slide links to.
+    })
+  ),
+  includeFeaturedProducts: z.boolean(), // Adds the banners of the featured products after the slides.
+  collections: z.array(
+    z.object({
+      image: z.string().min(1, "Image is required"), // The image of the collection.
+      title: z.string().min(1, "Title is required"), // The name of the collection.
+      href: z.string().min(1, "Link is required") // The page the collection links to (e.g. "/search?category=men").
+    })
+  ),
+  saleId: z.preprocess(emptyToNull, z.string().nullable()), // The sale counted down to. Empty counts down to the running sale ending soonest.
+  valueProps: z.array(
+    z.object({
+      icon: z.string().refine(value => VALUE_PROP_ICONS.includes(value), "Invalid icon"), // The icon of the box.
+      title: z.string().min(1, "Title is required"), // The promise of the store (e.g. "Worldwide Shipping").
+      text: z.string().min(1, "Text is required") // The details of the promise.
+    })
+  ),
+  rule: z.string().refine(value => PRODUCT_ROW_RULES.includes(value), "Invalid product rule"), // The rule picking the products of a product row.
+  categoryId: z.preprocess(emptyToNull, z.string().nullable()), // The category of the "category" rule.
+  limit: z.coerce.number().int().min(1, "Show at least 1 product").max(24, "Show at most 24 products"), // The number of products of a product row.
+  showViewAll: z.boolean() // Shows the "View All Products" button under a product row.
+});
+
+// Insert Homepage Section Schema
+export const insertHomepageSectionSchema = z.object({
+  type: z.string().refine(value => HOMEPAGE_SECTION_TYPES.includes(value), "Invalid section type"), // Ensures the type is one of the HOMEPAGE_SECTION_TYPES.
+  title: z.preprocess(emptyToNull, z.string().nullable()), // Optional title shown above the section.
+  content: homepageSectionContentSchema, // The content of the section.
+  isPublished: z.boolean(), // Indicates whether the section is shown on the storefront.
+  startsAt: z.preprocess(emptyToNull, z.coerce.date().nullable()), // Optional start of the schedule. An empty value shows the section right away.
+  endsAt: z.preprocess(emptyToNull, z.coerce.date().nullable()) // Optional end of the schedule. An empty value shows the section until it is unpublished.
+});
+
+// Update Homepage Section Schema, which extends the insert schema with the id of the section being updated.
+export const updateHomepageSectionSchema = insertHomepageSectionSchema.extend({
+  id: z.string().min(1, "Id is required")
+});
+
+// Defines the schema for a price tier of a weight or price shipping rate.
+export const shippingTierSchema = z.object({
+  from: z.coerce.number().nonnegative("From must be a positive number"), // The weight (kg) or items price the tier starts at.
+  price: z.coerce.number().nonnegative("Price must be a positive number") // The shipping price from that weight or items price.
+});
+
+// Defines the schema for a shipping rate (service level) of a shipping zone.
+export const shippingRateSchema = z
+  .object({
+    id: z.string().optional(), // The id of an existing rate. Rates without an id are created.
+    name: z.string().min(1, "Name is required"), // The service level shown to the customer (e.g. "Express").
+    type: z.string().refine(value => SHIPPING_RATE_TYPES.includes(value), "Invalid rate type"), // "flat", "weight" or "price".
+    price: currency, // The price of a flat rate.
+    tiers: z.array(shippingTierSchema), // The tiers of a weight or price rate.
+    minDays: z.preprocess(emptyToNull, z.coerce.number().int().nonnegative("Days must be a positive number").nullable()), // Optional minimum delivery time.
+    maxDays: z.preprocess(emptyToNull, z.coerce.number().int().nonnegative("Days must be a positive number").nullable()), // Optional maximum delivery time.
+    isActive: z.boolean() // Indicates whether the rate is offered at checkout.
+  })
+  .refine(rate => rate.type === "flat" || rate.tiers.length > 0, { path: ["tiers"], message: "Add at least one tier" });
+
+// Insert Shipping Zone Schema
+export const insertShippingZoneSchema = z.object({
+  name: z.string().min(3, "Name must be at least 3 characters"),
+  countries: z.array(z.string().min(1)), // The countries of the zone. Empty makes the zone the fallback for every other country.
+  rates: z.array(shippingRateSchema)
+});
+
+// Update Shipping Zone Schema
+export const updateShippingZoneSchema = insertShippingZoneSchema.extend({
+  id: z.string().min(1, "Id is required")
+});
+
+// Insert Tax Rate Schema
+export const insertTaxRateSchema = z.object({
+  country: z.string().min(3, "Country must be at least 3 characters"), // The country of the rate, matched with the country of the shipping address.
+  region: z.preprocess(emptyToNull, z.string().nullable()), // Optional state or province. Empty applies the rate to the whole country.
+  category: z.string().refine(value => TAX_CATEGORIES.includes(value), "Invalid tax category"), // The tax category of the products the rate applies to.
+  rate: z.string().refine(value => value !== "" && Number(value) >= 0 && Number(value) <= 100, "Rate must be between 0 and 100") // The rate in percent.
+});
+
+// Update Tax Rate Schema
+export const updateTaxRateSchema = insertTaxRateSchema.extend({
+  id: z.string().min(1, "Id is required")
+});
+
+// Insert Category Schema
+export const insertCategorySchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  slug: z.string().min(2, "Slug must be at least 2 characters"),
+  description: z.preprocess(emptyToNull, z.string().nullable()), // Optional description shown on the search page.
+  image: z.preprocess(emptyToNull, z.string().nullable()), // Optional image URL.
+  parentId: z.preprocess(emptyToNull, z.string().nullable()), // The parent category. Empty makes it a top-level category.
+  sortOrder: z.coerce.number().int("Sort order must be a whole number") // The position among its siblings, lowest first.
+});
+
+// Update Category Schema
+export const updateCategorySchema = insertCategorySchema.extend({
+  id: z.string().min(1, "Id is required")
+});
+
+// Defines the schema of a clicked search suggestion, sent by the search box.
+export const searchSuggestionClickSchema = z.object({
+  query: z.string().min(1).max(100), // What the customer had typed.
+  type: z.enum(["product", "category", "brand"]), // The type of the clicked suggestion.
+  value: z.string().min(1).max(200) // The product or category slug, or the brand name.
+});
+
+// Defines the schema of a back-in-stock request, sent by the "Notify me" form of an out-of-stock product or variant.
+export const stockNotificationSchema = z.object({
+  productId: z.string().uuid("Invalid product"), // The out-of-stock product.
+  variantId: z.string().uuid("Invalid variant").nullable().optional(), // The out-of-stock variant, for products sold in variants.
+  email: z.string().email("Invalid email address") // The email address to notify.
+});
@@ -0,0 +1,73 @@
+/**
+ * This module records and processes the events received from payment provider webhooks.
+ * Every event is stored before it is processed, so retries by the provider are processed once
+ * and failed events can be inspected and replayed from the admin webhooks page.
+ **/
+
+import { prisma } from "@/db/prisma";
+import { Prisma } from "@prisma/client";
+import { getPaymentProviderBySlug } from "./payments";
+import { formatError } from "./utils";
+
+/*
+  Records a received webhook event.
+  - An event that was already received (a retry by the provider) is returned as it was recorded, so its status tells whether it still needs processing.
+*/
+export async function recordWebhookEvent({ provider, eventId, type, payload }: { provider: string; eventId: string; type: string; payload: unknown }) {
+  return await prisma.webhookEvent.upsert({
+    where: { provider_eventId: { provider, eventId } },
+    create: { provider, eventId, type, payload: payload as Prisma.InputJsonValue },
+    update: {}
+  });
+}
+
+// Checks whether a recorded event still needs processing, including an event being processed by another delivery, which may still fail.
+export function isWebhookEventPending(status: string) {
+  return status === "received" || status === "processing" || status === "failed";
+}
+
+// An attempt still "processing" after this long is taken to have stopped without finishing (e.g. the server was restarted), so another one can take over.
+const CLAIM_TIMEOUT_MINUTES = 5;
+
+/*
+  Processes a recorded webhook event with the payment provider that received it.
+  - The event is claimed first, so two deliveries of the event, or a replay racing a retry by the provider, don't both process it.
+    An event already claimed fails without processing it, and the provider retries it later.
+  - Every attempt is counted, and the error of a failed attempt is stored with the event.
+  - The outcome is only saved while the attempt still holds the claim, so it can't overwrite the outcome of an attempt that took over.
+*/
+export async function processWebhookEvent(id: string) {
+  const claimedAt = new Date();
+  const { count } = await prisma.webhookEvent.updateMany({
+    where: {
+      id,
+      OR: [{ status: { in: ["received", "failed"] } }, { status: "processing", claimedAt: { lt: new Date(claimedAt.getTime() - CLAIM_TIMEOUT_MINUTES * 60 * 1000) } }]
+    },
+    data: { status: "processing", claimedAt, attempts: { increment: 1 } }
+  });
+  if (count === 0) return { success: false, message: "Event is already processed or being processed" };
+
+  const event = await prisma.webhookEvent.findFirst({ where: { id } });
+  if (!event) return { success: false, message: "Webhook event not found" };
+  const claim = { id, status: "processing", claimedAt };
+
+  try {
+    const provider = getPaymentProviderBySlug(event.provider);
+    if (!provider?.handleWebhookEvent) throw new Error(`No webhook handler for ${event.provider}`);
+
+    const status = await provider.handleWebhookEvent(event.payload);
+    await prisma.webhookEvent.updateMany({
+      where: claim,
+      data: { status, error: null, processedAt: new Date() }
+    });
+
+    return { success: true, message: `Event ${status}` };
+  } catch (error) {
+    await prisma.webhookEvent.updateMany({
+      where: claim,
+      data: { status: "failed", error: formatError(error) }
+    });
+
+    return { success: false, message: formatError(error) };
+  }
+}
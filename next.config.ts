@@ -9,6 +9,11 @@ const nextConfig: NextConfig = {
         port: ""
       }
     ]
+  },
+  experimental: {
+    serverActions: {
+      bodySizeLimit: "5mb" // Lets the catalog CSV import send files larger than the 1MB default
+    }
   }
 };
 
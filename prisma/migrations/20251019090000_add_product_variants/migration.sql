@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "OrderItem" DROP CONSTRAINT "orderItems_orderId_productId_pk",
+ADD COLUMN     "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+ADD COLUMN     "variantId" UUID,
+ADD CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id");
+
+-- CreateTable
+CREATE TABLE "ProductVariant" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "productId" UUID NOT NULL,
+    "sku" TEXT NOT NULL,
+    "options" JSON NOT NULL,
+    "price" DECIMAL(12,2),
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_variant_sku_idx" ON "ProductVariant"("sku");
+
+-- AddForeignKey
+ALTER TABLE "ProductVariant" ADD CONSTRAINT "productVariants_productId_product_id_fk" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "orderItems_variantId_productVariant_id_fk" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "Cart" ADD COLUMN     "couponCode" TEXT,
+ADD COLUMN     "discountPrice" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "couponCode" TEXT,
+ADD COLUMN     "discountPrice" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Coupon" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "code" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "minSpend" DECIMAL(12,2),
+    "expiresAt" TIMESTAMP(6),
+    "usageLimit" INTEGER,
+    "perUserLimit" INTEGER,
+    "productIds" UUID[],
+    "categories" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CouponRedemption" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "couponId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "orderId" UUID NOT NULL,
+    "discount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CouponRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupon_code_idx" ON "Coupon"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "couponRedemption_orderId_idx" ON "CouponRedemption"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "couponRedemptions_couponId_coupon_id_fk" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "couponRedemptions_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "couponRedemptions_orderId_order_id_fk" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'pending';
+
+-- CreateTable
+CREATE TABLE "OrderStatusHistory" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "orderId" UUID NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "changedById" UUID,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "orderStatusHistory_orderId_order_id_fk" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "OrderStatusHistory" ADD CONSTRAINT "orderStatusHistory_changedById_user_id_fk" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- Backfill the status of existing orders from the isPaid and isDelivered flags
+UPDATE "Order" SET "status" = CASE WHEN "isDelivered" THEN 'delivered' WHEN "isPaid" THEN 'paid' ELSE 'pending' END;
+
+-- Backfill the status history of existing orders
+INSERT INTO "OrderStatusHistory" ("orderId", "fromStatus", "toStatus", "createdAt")
+SELECT "id", NULL, 'pending', "createdAt" FROM "Order";
+
+INSERT INTO "OrderStatusHistory" ("orderId", "fromStatus", "toStatus", "createdAt")
+SELECT "id", 'pending', 'paid', COALESCE("paidAt", "createdAt") FROM "Order" WHERE "isPaid";
+
+INSERT INTO "OrderStatusHistory" ("orderId", "fromStatus", "toStatus", "createdAt")
+SELECT "id", 'paid', 'delivered', COALESCE("deliveredAt", "paidAt", "createdAt") FROM "Order" WHERE "isDelivered";
+
+-- AlterTable
+ALTER TABLE "Order" DROP COLUMN "isDelivered",
+DROP COLUMN "isPaid";
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "orderId" UUID NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerRefundId" TEXT,
+    "reason" TEXT,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" UUID,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refund_providerRefundId_idx" ON "Refund"("providerRefundId");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "refunds_orderId_order_id_fk" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "refunds_createdById_user_id_fk" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
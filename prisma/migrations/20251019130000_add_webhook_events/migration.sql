@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSON NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'received',
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(6),
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhookEvent_provider_eventId_idx" ON "WebhookEvent"("provider", "eventId");
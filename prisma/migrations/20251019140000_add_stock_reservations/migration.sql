@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "reservationExpiresAt" TIMESTAMP(6),
+ADD COLUMN     "stockReserved" BOOLEAN NOT NULL DEFAULT false;
+
+-- Paid orders took the stock of their items when they were paid
+UPDATE "Order" SET "stockReserved" = true WHERE "status" NOT IN ('pending', 'cancelled');
+
+-- CreateIndex
+CREATE INDEX "order_status_reservationExpiresAt_idx" ON "Order"("status", "reservationExpiresAt");
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Cart" ADD COLUMN     "shippingRateId" UUID;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingMethod" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "weight" DECIMAL(10,3) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ShippingZone" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "countries" TEXT[],
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShippingZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShippingRate" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "zoneId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'flat',
+    "price" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "tiers" JSON NOT NULL DEFAULT '[]',
+    "minDays" INTEGER,
+    "maxDays" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShippingRate_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "ShippingRate" ADD CONSTRAINT "shippingRate_zoneId_shippingZone_id_fk" FOREIGN KEY ("zoneId") REFERENCES "ShippingZone"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Keeps the previous shipping rule ($10, free for items over $100) as the rate of a fallback zone for every country
+WITH "zone" AS (
+    INSERT INTO "ShippingZone" ("name", "countries") VALUES ('Rest of world', '{}') RETURNING "id"
+)
+INSERT INTO "ShippingRate" ("zoneId", "name", "type", "tiers", "minDays", "maxDays")
+SELECT "id", 'Standard', 'price', '[{"from":0,"price":10},{"from":100.01,"price":0}]', 3, 7 FROM "zone";
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "taxCategory" TEXT NOT NULL DEFAULT 'standard';
+
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "country" TEXT NOT NULL,
+    "region" TEXT,
+    "category" TEXT NOT NULL DEFAULT 'standard',
+    "rate" DECIMAL(5,2) NOT NULL,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "taxRate_country_idx" ON "TaxRate"("country");
+
+-- Orders placed before per-line tax were taxed at a flat 15% of their items price
+UPDATE "OrderItem" SET "taxRate" = 15, "taxAmount" = ROUND("price" * "qty" * 0.15, 2);
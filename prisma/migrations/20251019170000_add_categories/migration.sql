@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "image" TEXT,
+    "parentId" UUID,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Category_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "category_slug_idx" ON "Category"("slug");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Slugifies a category name (e.g. "Men's Dress Shirts" becomes "mens-dress-shirts"), so names that only differ
+-- in case or punctuation (typos) end up in the same category
+CREATE FUNCTION pg_temp.category_slug(name TEXT) RETURNS TEXT AS $$
+  SELECT COALESCE(NULLIF(TRIM(BOTH '-' FROM LOWER(REGEXP_REPLACE(REPLACE(name, '''', ''), '[^a-zA-Z0-9]+', '-', 'g'))), ''), 'uncategorized')
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Creates a top-level category for every category name used by products
+INSERT INTO "Category" ("name", "slug")
+SELECT MIN(TRIM("category")), pg_temp.category_slug("category")
+FROM "Product"
+GROUP BY pg_temp.category_slug("category");
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "categoryId" UUID;
+
+UPDATE "Product" SET "categoryId" = "Category"."id"
+FROM "Category"
+WHERE "Category"."slug" = pg_temp.category_slug("Product"."category");
+
+ALTER TABLE "Product" ALTER COLUMN "categoryId" SET NOT NULL,
+DROP COLUMN "category";
+
+-- CreateIndex
+CREATE INDEX "product_categoryId_idx" ON "Product"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Coupon" ADD COLUMN     "categoryIds" UUID[];
+
+-- Restricts coupons to the categories their category names were migrated into
+UPDATE "Coupon" SET "categoryIds" = ARRAY(
+  SELECT "Category"."id" FROM "Category"
+  WHERE "Category"."slug" IN (SELECT pg_temp.category_slug(name) FROM UNNEST("Coupon"."categories") AS name)
+);
+
+ALTER TABLE "Coupon" DROP COLUMN "categories";
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "searchVector" tsvector;
+
+-- Builds the full-text search document of a product. Matches in the name rank highest,
+-- then the brand and category, then the description.
+CREATE FUNCTION product_search_vector(name TEXT, brand TEXT, category_id UUID, description TEXT) RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', COALESCE(name, '')), 'A')
+    || setweight(to_tsvector('english', COALESCE(brand, '')), 'B')
+    || setweight(to_tsvector('english', COALESCE((SELECT "name" FROM "Category" WHERE "id" = category_id), '')), 'B')
+    || setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+$$ LANGUAGE SQL STABLE;
+
+-- Keeps the search document up to date when a product is created or its searchable fields change
+CREATE FUNCTION product_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := product_search_vector(NEW."name", NEW."brand", NEW."categoryId", NEW."description");
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER product_search_vector_update
+BEFORE INSERT OR UPDATE OF "name", "brand", "categoryId", "description" ON "Product"
+FOR EACH ROW EXECUTE FUNCTION product_search_vector_trigger();
+
+-- Updates the search documents of the products of a category when the category is renamed
+CREATE FUNCTION category_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  UPDATE "Product"
+  SET "searchVector" = product_search_vector("name", "brand", "categoryId", "description")
+  WHERE "categoryId" = NEW."id";
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER category_search_vector_update
+AFTER UPDATE OF "name" ON "Category"
+FOR EACH ROW EXECUTE FUNCTION category_search_vector_trigger();
+
+-- Builds the search documents of the existing products
+UPDATE "Product" SET "searchVector" = product_search_vector("name", "brand", "categoryId", "description");
+
+-- CreateIndex
+CREATE INDEX "product_searchVector_idx" ON "Product" USING GIN ("searchVector");
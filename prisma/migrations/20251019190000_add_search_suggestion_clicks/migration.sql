@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "SearchSuggestionClick" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "query" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchSuggestionClick_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "searchSuggestionClick_type_value_idx" ON "SearchSuggestionClick"("type", "value");
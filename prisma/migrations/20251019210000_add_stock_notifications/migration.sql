@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "StockNotification" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "email" TEXT NOT NULL,
+    "userId" UUID,
+    "productId" UUID NOT NULL,
+    "variantId" UUID,
+    "token" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "queuedAt" TIMESTAMP(6),
+    "notifiedAt" TIMESTAMP(6),
+    "unsubscribedAt" TIMESTAMP(6),
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stockNotification_token_idx" ON "StockNotification"("token");
+
+-- CreateIndex
+CREATE INDEX "stockNotification_productId_variantId_idx" ON "StockNotification"("productId", "variantId");
+
+-- CreateIndex
+CREATE INDEX "stockNotification_queuedAt_idx" ON "StockNotification"("queuedAt");
+
+-- AddForeignKey
+ALTER TABLE "StockNotification" ADD CONSTRAINT "StockNotification_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
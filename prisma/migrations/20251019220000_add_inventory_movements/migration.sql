@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "lowStockThreshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "InventoryMovement" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "productId" UUID NOT NULL,
+    "variantId" UUID,
+    "quantity" INTEGER NOT NULL,
+    "stockAfter" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "orderId" UUID,
+    "actorId" UUID,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventoryMovement_productId_createdAt_idx" ON "InventoryMovement"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InventoryMovement" ADD CONSTRAINT "InventoryMovement_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Opens the ledger of every product with its current stock, so the history adds up from here on.
+INSERT INTO "InventoryMovement" ("productId", "quantity", "stockAfter", "reason", "note")
+SELECT "id", "stock", "stock", 'adjustment', 'Opening stock' FROM "Product";
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "salePrice" DECIMAL(12,2),
+ADD COLUMN     "saleEndsAt" TIMESTAMP(6),
+ADD COLUMN     "saleStartsAt" TIMESTAMP(6);
+
+-- CreateTable
+CREATE TABLE "Sale" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "discountPercent" DECIMAL(5,2) NOT NULL,
+    "categoryIds" UUID[],
+    "startsAt" TIMESTAMP(6) NOT NULL,
+    "endsAt" TIMESTAMP(6) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Sale_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sale_startsAt_endsAt_idx" ON "Sale"("startsAt", "endsAt");
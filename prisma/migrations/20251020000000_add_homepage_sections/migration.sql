@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "HomepageSection" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "type" TEXT NOT NULL,
+    "title" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "content" JSON NOT NULL,
+    "isPublished" BOOLEAN NOT NULL DEFAULT false,
+    "startsAt" TIMESTAMP(6),
+    "endsAt" TIMESTAMP(6),
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HomepageSection_pkey" PRIMARY KEY ("id")
+);
+
+-- Publishes the sections of the homepage as it was built before, so the storefront looks the same until admins change it.
+INSERT INTO "HomepageSection" ("type", "title", "position", "content", "isPublished", "updatedAt") VALUES
+('hero', NULL, 0, '{"slides":[],"includeFeaturedProducts":true,"collections":[],"saleId":null,"valueProps":[],"rule":"latest","categoryId":null,"limit":4,"showViewAll":false}', true, CURRENT_TIMESTAMP),
+('product_row', 'Newest Arrivals', 1, '{"slides":[],"includeFeaturedProducts":false,"collections":[],"saleId":null,"valueProps":[],"rule":"latest","categoryId":null,"limit":4,"showViewAll":true}', true, CURRENT_TIMESTAMP),
+('countdown', NULL, 2, '{"slides":[],"includeFeaturedProducts":false,"collections":[],"saleId":null,"valueProps":[],"rule":"latest","categoryId":null,"limit":4,"showViewAll":false}', true, CURRENT_TIMESTAMP),
+('value_props', NULL, 3, '{"slides":[],"includeFeaturedProducts":false,"collections":[],"saleId":null,"valueProps":[{"icon":"ShoppingBag","title":"Worldwide Shipping","text":"Standard and express delivery to your door"},{"icon":"DollarSign","title":"Money Back Guarantee","text":"Within 30 days for an exchange"},{"icon":"WalletCards","title":"Flexible Payment","text":"Pay with credit card, PayPal or COD"},{"icon":"Headset","title":"24/7 Support","text":"Get support at any time"}],"rule":"latest","categoryId":null,"limit":4,"showViewAll":false}', true, CURRENT_TIMESTAMP);
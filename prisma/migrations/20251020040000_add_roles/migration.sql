@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "role_name_idx" ON "Role"("name");
+
+-- Creates the built-in roles matching the former "admin" and "user" roles, and an example role for warehouse staff.
+INSERT INTO "Role" ("name", "description", "permissions", "isSystem", "updatedAt") VALUES
+('admin', 'Full access to the admin area', ARRAY['reports:view', 'orders:view', 'orders:fulfil', 'orders:refund', 'products:write', 'inventory:write', 'content:write', 'promotions:write', 'settings:write', 'users:manage', 'roles:manage'], true, CURRENT_TIMESTAMP),
+('user', 'Customers, without access to the admin area', ARRAY[]::TEXT[], true, CURRENT_TIMESTAMP),
+('warehouse', 'Fulfils orders and follows the stock', ARRAY['orders:view', 'orders:fulfil', 'inventory:write'], false, CURRENT_TIMESTAMP);
+
+-- Gives the roles that aren't defined (e.g. set through USER_ROLES) a role without permissions, so their users keep no admin access.
+INSERT INTO "Role" ("name", "permissions", "updatedAt")
+SELECT DISTINCT "role", ARRAY[]::TEXT[], CURRENT_TIMESTAMP FROM "User" WHERE "role" NOT IN ('admin', 'user', 'warehouse');
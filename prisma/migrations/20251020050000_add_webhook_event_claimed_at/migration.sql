@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "claimedAt" TIMESTAMP(6);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "StockNotification" ADD COLUMN     "lastError" TEXT;
@@ -0,0 +1,34 @@
+import { buildCategoryTree, CategoryRecord, flattenCategoryTree, getCategoryBranchIds, getCategoryPath } from "../lib/categories";
+
+const category = (id: string, parentId: string | null = null, sortOrder = 0): CategoryRecord => ({ id, name: id, slug: id, parentId, sortOrder });
+
+const categories = [category("men"), category("shirts", "men", 1), category("dress-shirts", "shirts"), category("sweatshirts", "men", 0), category("women")];
+
+// Subcategories are nested under their parent, ordered by sort order, and counts include the whole branch
+test("builds the tree with branch product counts", () => {
+  const tree = buildCategoryTree(categories, { "dress-shirts": 5, sweatshirts: 2, men: 1 });
+
+  expect(tree.map(x => x.id)).toEqual(["men", "women"]);
+  expect(tree[0].children.map(x => x.id)).toEqual(["sweatshirts", "shirts"]);
+  expect(tree[0].productCount).toBe(8);
+  expect(tree[0].children[1].productCount).toBe(5);
+  expect(tree[1].productCount).toBe(0);
+});
+
+// The flat list keeps the tree order with the depth of each category
+test("flattens the tree in display order", () => {
+  const flat = flattenCategoryTree(buildCategoryTree(categories));
+  expect(flat.map(x => `${x.depth}:${x.id}`)).toEqual(["0:men", "1:sweatshirts", "1:shirts", "2:dress-shirts", "0:women"]);
+});
+
+// The path runs from the top-level category down, for breadcrumbs
+test("finds the path of a category", () => {
+  expect(getCategoryPath(categories, "dress-shirts").map(x => x.id)).toEqual(["men", "shirts", "dress-shirts"]);
+  expect(getCategoryPath(categories, "missing")).toEqual([]);
+});
+
+// A branch includes every subcategory, however deep
+test("finds the categories of a branch", () => {
+  expect(getCategoryBranchIds(categories, "men").sort()).toEqual(["dress-shirts", "men", "shirts", "sweatshirts"]);
+  expect(getCategoryBranchIds(categories, "women")).toEqual(["women"]);
+});
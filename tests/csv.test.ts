@@ -0,0 +1,40 @@
+import { parseCsv, parseCsvRecords, toCsv } from "../lib/csv";
+import { csvRecordToProduct, resolveImageUrl } from "../lib/product-csv";
+
+// Quoted fields can hold commas, quotes and line breaks, as written by spreadsheets
+test("parses quoted fields", () => {
+  expect(parseCsv('\uFEFFslug,description\r\nshirt,"Soft, ""stretch""\nfabric"\r\n\r\n')).toEqual([
+    ["slug", "description"],
+    ["shirt", 'Soft, "stretch"\nfabric']
+  ]);
+});
+
+// Writing and reading a row gives the same fields back
+test("round-trips rows", () => {
+  const rows = [
+    ["name", "note"],
+    ['Polo "Classic"', "a,b"],
+    ["", "line\nbreak"]
+  ];
+  expect(parseCsv(toCsv(rows))).toEqual(rows);
+  expect(parseCsvRecords(toCsv(rows)).records[1]).toEqual({ line: 3, values: { name: "", note: "line\nbreak" } });
+});
+
+// Bare file names use the image folder, remote images must be on an allowed host
+test("resolves image URLs", () => {
+  expect(resolveImageUrl("p1-1.jpg", "/images/sample-products/")).toBe("/images/sample-products/p1-1.jpg");
+  expect(resolveImageUrl("/images/banner-1.jpg", "/images")).toBe("/images/banner-1.jpg");
+  expect(resolveImageUrl("https://utfs.io/f/abc.jpg", "/images")).toBe("https://utfs.io/f/abc.jpg");
+  expect(() => resolveImageUrl("https://example.com/a.jpg", "/images")).toThrow('Image host "example.com" is not allowed');
+  expect(() => resolveImageUrl("http://utfs.io/a.jpg", "/images")).toThrow("must use https");
+});
+
+// Missing optional columns keep the current values of the product
+test("converts a record to product fields", () => {
+  const product = csvRecordToProduct(
+    { slug: "shirt", name: "Shirt", category: "mens-dress-shirts", brand: "Polo", description: "Nice", price: "59.99", stock: "3", images: "p1-1.jpg|p1-2.jpg" },
+    { categoryIds: { "mens-dress-shirts": "c1" }, imageBasePath: "/images", existing: { salePrice: "49.99", saleStartsAt: null, saleEndsAt: null, lowStockThreshold: 2, weight: "0.4", taxCategory: "reduced", isFeatured: true, banner: null } }
+  );
+
+  expect(product).toMatchObject({ categoryId: "c1", salePrice: "49.99", lowStockThreshold: 2, weight: "0.4", taxCategory: "reduced", isFeatured: true, images: ["/images/p1-1.jpg", "/images/p1-2.jpg"] });
+});
@@ -0,0 +1,17 @@
+import { formatBrands, parseBrands, parsePriceRange, toggleBrand } from "../lib/facets";
+
+// Several brands can be selected in the search URL
+test("reads and writes the selected brands", () => {
+  expect(parseBrands("Polo,Nike, Polo")).toEqual(["Polo", "Nike"]);
+  expect(parseBrands("all")).toEqual([]);
+  expect(formatBrands([])).toBe("all");
+  expect(formatBrands(toggleBrand(["Polo"], "Nike"))).toBe("Polo,Nike");
+  expect(toggleBrand(["Polo", "Nike"], "Polo")).toEqual(["Nike"]);
+});
+
+// Malformed ranges are ignored rather than filtering everything out
+test("reads price ranges", () => {
+  expect(parsePriceRange("51-100")).toEqual({ min: 51, max: 100 });
+  expect(parsePriceRange("all")).toBeNull();
+  expect(parsePriceRange("cheap")).toBeNull();
+});
@@ -0,0 +1,38 @@
+import { assertValidSectionContent, getVisibleSections, HomepageSectionContent, HomepageSectionRecord, moveSection } from "../lib/homepage";
+
+const now = new Date("2025-10-19T12:00:00Z");
+const day = (offset: number) => new Date(now.getTime() + offset * 24 * 60 * 60 * 1000);
+
+const section = (id: string, position: number, fields: Partial<HomepageSectionRecord> = {}): HomepageSectionRecord => ({ id, type: "hero", position, isPublished: true, startsAt: null, endsAt: null, ...fields });
+
+const content: HomepageSectionContent = { slides: [], includeFeaturedProducts: false, collections: [], saleId: null, valueProps: [], rule: "latest", categoryId: null, limit: 4, showViewAll: false };
+
+// Published sections within their schedule are shown in order, drafts only in the preview
+test("selects the visible sections", () => {
+  const sections = [section("c", 2), section("a", 0), section("draft", 1, { isPublished: false }), section("later", 3, { startsAt: day(1) }), section("ended", 4, { endsAt: now })];
+
+  expect(getVisibleSections(sections, { now }).map(x => x.id)).toEqual(["a", "c"]);
+  expect(getVisibleSections(sections, { now, includeDrafts: true }).map(x => x.id)).toEqual(["a", "draft", "c"]);
+  expect(getVisibleSections(sections, { now: day(2), includeDrafts: true }).map(x => x.id)).toEqual(["a", "draft", "c", "later"]);
+});
+
+// Moving renumbers the positions and stops at both ends
+test("moves a section up and down", () => {
+  const sections = [section("a", 0), section("b", 5), section("c", 9)];
+
+  expect(moveSection(sections, "c", "up")).toEqual([
+    { id: "a", position: 0 },
+    { id: "c", position: 1 },
+    { id: "b", position: 2 }
+  ]);
+  expect(moveSection(sections, "a", "up").map(x => x.id)).toEqual(["a", "b", "c"]);
+});
+
+// Each type needs its own content
+test("validates the content of each type", () => {
+  expect(() => assertValidSectionContent("hero", content)).toThrow("Add a slide or include the featured products");
+  expect(() => assertValidSectionContent("hero", { ...content, includeFeaturedProducts: true })).not.toThrow();
+  expect(() => assertValidSectionContent("value_props", { ...content, valueProps: [{ icon: "Rocket", title: "Fast", text: "Very" }] })).toThrow("Invalid icon");
+  expect(() => assertValidSectionContent("product_row", { ...content, rule: "category" })).toThrow("Select the category of the product row");
+  expect(() => assertValidSectionContent("banner", content)).toThrow("Invalid section type");
+});
@@ -0,0 +1,45 @@
+import { getClientIp, getLoginDelaySeconds, getLoginFailureCutoff, getLoginLockoutEnd, getLoginRetryAt, LoginThrottlePolicy } from "../lib/login-throttle";
+
+const now = new Date("2025-10-20T12:00:00Z");
+const seconds = (offset: number) => new Date(now.getTime() + offset * 1000);
+
+const policy: LoginThrottlePolicy = { maxAttempts: 5, lockoutMinutes: 15 };
+
+// The first attempts are free, then the delay doubles up to the cap
+test("delays the attempts progressively", () => {
+  expect([1, 2, 3, 4, 5, 20].map(x => getLoginDelaySeconds(x, policy))).toEqual([0, 0, 1, 2, 4, 60]);
+
+  const record = { failedAttempts: 4, lastFailedAt: now, lockedUntil: null };
+  expect(getLoginRetryAt(record, policy, seconds(1))).toEqual(seconds(2));
+  expect(getLoginRetryAt(record, policy, seconds(2))).toBeNull();
+  expect(getLoginRetryAt(null, policy, now)).toBeNull();
+});
+
+// Reaching the limit locks the address out, and a new count starts once the lockout ends
+test("locks out after too many failed attempts", () => {
+  expect(getLoginLockoutEnd(4, policy, now)).toBeNull();
+  expect(getLoginLockoutEnd(5, policy, now)).toEqual(seconds(15 * 60));
+  expect(getLoginLockoutEnd(7, policy, now)).toEqual(seconds(15 * 60));
+
+  const locked = { failedAttempts: 0, lastFailedAt: now, lockedUntil: seconds(15 * 60) };
+  expect(getLoginRetryAt(locked, policy, seconds(60))).toEqual(seconds(15 * 60));
+  expect(getLoginRetryAt(locked, policy, seconds(15 * 60))).toBeNull();
+});
+
+// Failed attempts are forgotten after a quiet period as long as a lockout
+test("forgets old failed attempts", () => {
+  const record = { failedAttempts: 20, lastFailedAt: now, lockedUntil: null };
+
+  expect(getLoginFailureCutoff(policy, seconds(15 * 60))).toEqual(now);
+  expect(getLoginRetryAt(record, policy, seconds(30))).toEqual(seconds(60));
+  expect(getLoginRetryAt(record, policy, seconds(15 * 60))).toBeNull();
+});
+
+// The client can put any address first in x-forwarded-for, so the one appended by the trusted proxy is used
+test("reads the client IP from the proxy headers", () => {
+  expect(getClientIp(new Headers({ "x-forwarded-for": "198.51.100.1, 203.0.113.7" }))).toBe("203.0.113.7");
+  expect(getClientIp(new Headers({ "x-forwarded-for": "198.51.100.1, 203.0.113.7, 10.0.0.1" }), { proxies: 2 })).toBe("203.0.113.7");
+  expect(getClientIp(new Headers({ "x-forwarded-for": "203.0.113.7" }), { proxies: 2 })).toBeNull();
+  expect(getClientIp(new Headers({ "x-real-ip": "203.0.113.8", "x-forwarded-for": "198.51.100.1" }), { header: "x-real-ip" })).toBe("203.0.113.8");
+  expect(getClientIp(new Headers())).toBeNull();
+});
@@ -0,0 +1,78 @@
+import { assertOrderStatusTransition, canTransitionOrderStatus, getNextOrderStatuses, isOrderPaid, isOrderRefundable, isOrderReservationExpired } from "../lib/order-status";
+
+// A pending order can only be paid or cancelled
+test("allows a pending order to be paid or cancelled", () => {
+  expect(getNextOrderStatuses("pending")).toEqual(["paid", "cancelled"]);
+  expect(canTransitionOrderStatus("pending", "shipped")).toBe(false);
+});
+
+// Paid orders follow the fulfilment flow
+test("allows a paid order to be fulfilled", () => {
+  expect(canTransitionOrderStatus("paid", "processing")).toBe(true);
+  expect(canTransitionOrderStatus("processing", "shipped")).toBe(true);
+  expect(canTransitionOrderStatus("shipped", "delivered")).toBe(true);
+  expect(canTransitionOrderStatus("delivered", "shipped")).toBe(false);
+});
+
+// Cancelled and refunded are final statuses
+test("rejects transitions out of final statuses", () => {
+  expect(() => assertOrderStatusTransition("cancelled", "shipped")).toThrow("Order can't be changed from cancelled to shipped");
+  expect(() => assertOrderStatusTransition("refunded", "delivered")).toThrow();
+  expect(() => assertOrderStatusTransition("paid", "lost")).toThrow('Invalid order status "lost"');
+});
+
+// A payment received after the order was cancelled can still pay it
+test("allows a cancelled order to be paid late", () => {
+  expect(getNextOrderStatuses("cancelled")).toEqual(["paid"]);
+  expect(isOrderRefundable("cancelled")).toBe(false);
+});
+
+// Only statuses after payment and before a refund count as paid
+test("reports whether the order is paid", () => {
+  expect(isOrderPaid("pending")).toBe(false);
+  expect(isOrderPaid("shipped")).toBe(true);
+  expect(isOrderPaid("partially_refunded")).toBe(true);
+  expect(isOrderPaid("refunded")).toBe(false);
+});
+
+// Partial refunds can be followed by more refunds until the order is fully refunded
+test("allows refunds of paid and partially refunded orders", () => {
+  expect(canTransitionOrderStatus("delivered", "partially_refunded")).toBe(true);
+  expect(canTransitionOrderStatus("partially_refunded", "partially_refunded")).toBe(true);
+  expect(isOrderRefundable("partially_refunded")).toBe(true);
+  expect(isOrderRefundable("pending")).toBe(false);
+  expect(isOrderRefundable("refunded")).toBe(false);
+});
+
+// Refunding part of an order doesn't stop its fulfilment
+test("allows a partially refunded order to be fulfilled", () => {
+  expect(canTransitionOrderStatus("partially_refunded", "processing")).toBe(true);
+  expect(canTransitionOrderStatus("partially_refunded", "shipped")).toBe(true);
+  expect(canTransitionOrderStatus("partially_refunded", "delivered")).toBe(true);
+  expect(canTransitionOrderStatus("partially_refunded", "cancelled")).toBe(false);
+});
+
+// A paid order is cancelled by refunding it, so its payment can't be left captured on a cancelled order
+test("cancels paid orders through a refund", () => {
+  expect(canTransitionOrderStatus("pending", "cancelled")).toBe(true);
+  expect(canTransitionOrderStatus("paid", "cancelled")).toBe(false);
+  expect(canTransitionOrderStatus("processing", "cancelled")).toBe(false);
+  expect(isOrderRefundable("processing")).toBe(true);
+});
+
+// A dispute can be opened on a paid order and resolved by fulfilling or refunding it
+test("allows disputes of paid orders", () => {
+  expect(canTransitionOrderStatus("delivered", "disputed")).toBe(true);
+  expect(canTransitionOrderStatus("pending", "disputed")).toBe(false);
+  expect(canTransitionOrderStatus("disputed", "delivered")).toBe(true);
+  expect(isOrderRefundable("disputed")).toBe(true);
+});
+
+// Unpaid orders can't be paid once their stock reservation expired
+test("reports whether the stock reservation of an unpaid order expired", () => {
+  const now = new Date("2025-10-19T12:00:00Z");
+  expect(isOrderReservationExpired({ status: "pending", reservationExpiresAt: new Date("2025-10-19T11:59:00Z") }, now)).toBe(true);
+  expect(isOrderReservationExpired({ status: "pending", reservationExpiresAt: new Date("2025-10-19T12:01:00Z") }, now)).toBe(false);
+  expect(isOrderReservationExpired({ status: "pending", reservationExpiresAt: null }, now)).toBe(false);
+  expect(isOrderReservationExpired({ status: "paid", reservationExpiresAt: new Date("2025-10-19T11:59:00Z") }, now)).toBe(false);
+});
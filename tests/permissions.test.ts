@@ -0,0 +1,52 @@
+import { assertCanAssignRole, assertCanEditRole, assertValidRole, getAdminPages, hasAdminAccess, hasPermission, PERMISSION_LIST, resolveRolePermissions } from "../lib/permissions";
+
+// The admin role keeps every permission whatever is saved, other roles only keep the known ones
+test("resolves the permissions of a role", () => {
+  expect(resolveRolePermissions("admin", { permissions: [] })).toEqual(PERMISSION_LIST);
+  expect(resolveRolePermissions("warehouse", { permissions: ["orders:fulfil", "orders:view", "legacy:perm"] })).toEqual(["orders:view", "orders:fulfil"]);
+  expect(resolveRolePermissions("missing", null)).toEqual([]);
+});
+
+test("checks the permissions", () => {
+  const permissions = ["orders:view", "orders:fulfil"];
+
+  expect(hasPermission(permissions, "orders:fulfil")).toBe(true);
+  expect(hasPermission(permissions, "users:manage")).toBe(false);
+  expect(hasPermission(permissions, ["users:manage", "orders:view"])).toBe(true);
+  expect(hasAdminAccess(permissions)).toBe(true);
+  expect(hasAdminAccess([])).toBe(false);
+});
+
+// The navigation only shows the pages the permissions open
+test("filters the admin pages", () => {
+  expect(getAdminPages(["orders:view", "orders:fulfil"]).map(x => x.href)).toEqual(["/admin/orders"]);
+  expect(getAdminPages(["promotions:write"]).map(x => x.title)).toEqual(["Coupons", "Sales"]);
+});
+
+test("validates a role", () => {
+  expect(() => assertValidRole({ name: "warehouse", permissions: ["orders:fulfil"] })).not.toThrow();
+  expect(() => assertValidRole({ name: "Warehouse Staff", permissions: [] })).toThrow("Role name can only contain");
+  expect(() => assertValidRole({ name: "warehouse", permissions: ["orders:ship"] })).toThrow("Invalid permission");
+  expect(() => assertValidRole({ name: "owner", permissions: [] }, "admin")).toThrow("Built-in roles can't be renamed");
+  expect(() => assertValidRole({ name: "user", permissions: ["orders:view"] }, "user")).toThrow("The customer role can't have permissions");
+});
+
+// Managing users only hands out the permissions of the caller
+test("checks who can give a role", () => {
+  const manager = ["users:manage", "orders:view"];
+
+  expect(() => assertCanAssignRole(manager, { from: [], to: ["orders:view"] })).not.toThrow();
+  expect(() => assertCanAssignRole(manager, { from: [], to: PERMISSION_LIST })).toThrow("You can't give a role with permissions you don't have");
+  expect(() => assertCanAssignRole(manager, { from: PERMISSION_LIST, to: [] })).toThrow("You can't change the role of a user with permissions you don't have");
+  expect(() => assertCanAssignRole(PERMISSION_LIST, { from: [], to: PERMISSION_LIST })).not.toThrow();
+});
+
+// Managing roles only hands out the permissions of the caller
+test("checks who can edit a role", () => {
+  const manager = ["roles:manage", "orders:view"];
+
+  expect(() => assertCanEditRole(manager, { from: [], to: ["orders:view"] })).not.toThrow();
+  expect(() => assertCanEditRole(manager, { from: manager, to: [...manager, "users:manage"] })).toThrow("You can't give a role permissions you don't have");
+  expect(() => assertCanEditRole(manager, { from: PERMISSION_LIST, to: ["orders:view"] })).toThrow("You can't edit a role with permissions you don't have");
+  expect(() => assertCanEditRole(PERMISSION_LIST, { from: PERMISSION_LIST, to: PERMISSION_LIST })).not.toThrow();
+});
@@ -0,0 +1,38 @@
+import { getSalePrice, isSaleRunning, SaleRecord } from "../lib/sale";
+
+const now = new Date("2025-10-19T12:00:00Z");
+const day = (offset: number) => new Date(now.getTime() + offset * 24 * 60 * 60 * 1000);
+
+const product = { price: "99.00", salePrice: "79.00", saleStartsAt: day(-1), saleEndsAt: day(1) };
+const sale = (discountPercent: number, categoryIds: string[] = [], startsAt = day(-1), endsAt = day(2)): SaleRecord => ({ id: `${discountPercent}`, discountPercent, categoryIds, startsAt, endsAt, isActive: true });
+
+// The start is included, the end is not, and missing dates are open
+test("checks whether a sale is running", () => {
+  expect(isSaleRunning({ startsAt: now, endsAt: day(1) }, now)).toBe(true);
+  expect(isSaleRunning({ startsAt: day(-1), endsAt: now }, now)).toBe(false);
+  expect(isSaleRunning({ startsAt: day(1), endsAt: null }, now)).toBe(false);
+  expect(isSaleRunning({ startsAt: null, endsAt: null }, now)).toBe(true);
+});
+
+// The sale price of the product only applies between its dates
+test("prices a product on sale while its sale runs", () => {
+  expect(getSalePrice(product, { now })).toEqual({ price: 79, compareAtPrice: 99, endsAt: day(1) });
+  expect(getSalePrice(product, { now: day(1) })).toEqual({ price: 99, compareAtPrice: null, endsAt: null });
+  expect(getSalePrice({ ...product, salePrice: "120.00" }, { now })).toEqual({ price: 99, compareAtPrice: null, endsAt: null });
+});
+
+// Category sales include subcategories through the category path, and the lowest price wins
+test("applies the best running category or storewide sale", () => {
+  const regular = { ...product, salePrice: null };
+
+  expect(getSalePrice(regular, { sales: [sale(10, ["men"])], categoryIds: ["men", "shirts"], now })).toEqual({ price: 89.1, compareAtPrice: 99, endsAt: day(2) });
+  expect(getSalePrice(regular, { sales: [sale(10, ["women"])], categoryIds: ["men", "shirts"], now }).compareAtPrice).toBeNull();
+  expect(getSalePrice(product, { sales: [sale(10), sale(50, [], day(1))], now })).toEqual({ price: 79, compareAtPrice: 99, endsAt: day(1) });
+  expect(getSalePrice(product, { sales: [{ ...sale(50), isActive: false }], now }).price).toBe(79);
+});
+
+// Variants with their own price only get the sales in percent
+test("prices variants with their own price", () => {
+  expect(getSalePrice(product, { variantPrice: "109.00", now })).toEqual({ price: 109, compareAtPrice: null, endsAt: null });
+  expect(getSalePrice(product, { variantPrice: "109.00", sales: [sale(20)], now })).toEqual({ price: 87.2, compareAtPrice: 109, endsAt: day(2) });
+});
@@ -0,0 +1,45 @@
+import { HIGHLIGHT_START as S, HIGHLIGHT_STOP as E, hasHighlight, normalizeSuggestionQuery, sortByRank, splitHighlights, toPrefixQuery, toSuggestionItems } from "../lib/search";
+
+// Higher ranks come first, unranked matches keep their order at the end
+test("orders products by relevance", () => {
+  const ranks = new Map([
+    ["b", 0.2],
+    ["c", 0.6]
+  ]);
+  expect(sortByRank(["a", "b", "c", "d"], ranks)).toEqual(["c", "b", "a", "d"]);
+});
+
+// Matched terms are split out of the text returned by ts_headline
+test("splits highlighted text into segments", () => {
+  expect(splitHighlights(`${S}Wireless${E} headphones with ${S}wireless${E} charging`)).toEqual([
+    { text: "Wireless", match: true },
+    { text: " headphones with ", match: false },
+    { text: "wireless", match: true },
+    { text: " charging", match: false }
+  ]);
+  expect(splitHighlights("No match")).toEqual([{ text: "No match", match: false }]);
+  expect(hasHighlight("No match")).toBe(false);
+});
+
+// Every typed word becomes a prefix match, and tsquery syntax is dropped
+test("turns typed text into a prefix query", () => {
+  expect(toPrefixQuery("Wirel head")).toBe("wirel:* & head:*");
+  expect(toPrefixQuery("men's & (shirts")).toBe("men:* & s:* & shirts:*");
+  expect(toPrefixQuery(" !? ")).toBeNull();
+  expect(normalizeSuggestionQuery("  Polo   Shirt ")).toBe("polo shirt");
+});
+
+// Suggestions are listed products first, each with the page it leads to
+test("lists suggestions in dropdown order", () => {
+  const items = toSuggestionItems({
+    products: [{ id: "1", name: "Polo Shirt", slug: "polo-shirt", image: "/p.jpg", price: "59.99" }],
+    categories: [{ name: "Men's Shirts", slug: "mens-shirts" }],
+    brands: ["Polo"]
+  });
+
+  expect(items.map(x => [x.type, x.href])).toEqual([
+    ["product", "/product/polo-shirt"],
+    ["category", "/search?category=mens-shirts"],
+    ["brand", "/search?q=Polo"]
+  ]);
+});
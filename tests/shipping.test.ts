@@ -0,0 +1,58 @@
+import { calcShippingRate, findShippingZone, formatDeliveryDays, getShippingOptions, selectShippingOption, ShippingRateRules, ShippingZoneRules } from "../lib/shipping";
+
+const rate = (fields: Partial<ShippingRateRules>): ShippingRateRules => ({ id: "rate", name: "Standard", type: "flat", price: "0", tiers: [], minDays: null, maxDays: null, isActive: true, ...fields });
+
+const zones: ShippingZoneRules[] = [
+  {
+    id: "europe",
+    name: "Europe",
+    countries: ["France", "Germany"],
+    rates: [
+      rate({ id: "eu-standard", name: "Standard", type: "weight", tiers: [{ from: 0, price: 5 }, { from: 2, price: 12 }] }),
+      rate({ id: "eu-express", name: "Express", price: "25.00", minDays: 1, maxDays: 2 }),
+      rate({ id: "eu-pickup", name: "Pickup", price: "0.00", isActive: false })
+    ]
+  },
+  {
+    id: "world",
+    name: "Rest of world",
+    countries: [],
+    rates: [rate({ id: "world-standard", type: "price", tiers: [{ from: 0, price: 10 }, { from: 100.01, price: 0 }] })]
+  }
+];
+
+// The zone listing the country wins, other countries use the zone without countries
+test("finds the zone of a country", () => {
+  expect(findShippingZone(zones, "germany")?.id).toBe("europe");
+  expect(findShippingZone(zones, "Japan")?.id).toBe("world");
+  expect(findShippingZone(zones, null)?.id).toBe("world");
+  expect(findShippingZone(zones.slice(0, 1), "Japan")).toBeNull();
+});
+
+// Weight and price rates use the highest tier reached by the cart
+test("calculates flat, weight and price rates", () => {
+  expect(calcShippingRate(zones[0].rates[1], { itemsPrice: 50, weight: 1 })).toBe(25);
+  expect(calcShippingRate(zones[0].rates[0], { itemsPrice: 50, weight: 1.5 })).toBe(5);
+  expect(calcShippingRate(zones[0].rates[0], { itemsPrice: 50, weight: 2 })).toBe(12);
+  expect(calcShippingRate(zones[1].rates[0], { itemsPrice: 100, weight: 0 })).toBe(10);
+  expect(calcShippingRate(zones[1].rates[0], { itemsPrice: 120, weight: 0 })).toBe(0);
+});
+
+// Inactive rates are not offered and the cheapest option comes first
+test("lists the shipping options of a cart", () => {
+  const options = getShippingOptions(zones, { country: "France", itemsPrice: 50, weight: 3 });
+
+  expect(options.map(x => [x.name, x.price])).toEqual([
+    ["Standard", 12],
+    ["Express", 25]
+  ]);
+  expect(selectShippingOption(options, "eu-express")?.name).toBe("Express");
+  expect(selectShippingOption(options, "world-standard")?.name).toBe("Standard");
+  expect(selectShippingOption([], null)).toBeNull();
+});
+
+test("formats the delivery time", () => {
+  expect(formatDeliveryDays({ minDays: 3, maxDays: 7 })).toBe("3-7 days");
+  expect(formatDeliveryDays({ minDays: 2, maxDays: 2 })).toBe("2 days");
+  expect(formatDeliveryDays({ minDays: null, maxDays: null })).toBe("");
+});
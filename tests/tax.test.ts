@@ -0,0 +1,52 @@
+import { calcLineTaxes, findTaxRate, TaxRateRules } from "../lib/tax";
+
+const rates: TaxRateRules[] = [
+  { country: "United States", region: null, category: "standard", rate: "0.00" },
+  { country: "United States", region: "California", category: "standard", rate: "7.25" },
+  { country: "Germany", region: null, category: "standard", rate: "19.00" },
+  { country: "Germany", region: null, category: "reduced", rate: "7.00" }
+];
+
+// A regional rate wins over the country rate, unknown addresses use the default rate
+test("finds the rate of an address and category", () => {
+  expect(findTaxRate(rates, { country: "united states", region: "california", category: "standard" }, 15)).toBe(7.25);
+  expect(findTaxRate(rates, { country: "United States", region: "Oregon", category: "standard" }, 15)).toBe(0);
+  expect(findTaxRate(rates, { country: "Germany", category: "reduced" }, 15)).toBe(7);
+  expect(findTaxRate(rates, { country: "Japan", category: "standard" }, 15)).toBe(15);
+  expect(findTaxRate(rates, { country: null, category: "standard" }, 15)).toBe(15);
+});
+
+// Tax is added on top of prices that exclude it, per category
+test("adds tax to prices that exclude it", () => {
+  const taxes = calcLineTaxes(
+    [
+      { total: 100, category: "standard" },
+      { total: 50, category: "reduced" }
+    ],
+    { rates, country: "Germany", pricesIncludeTax: false, defaultRate: 15 }
+  );
+
+  expect(taxes).toEqual([
+    { rate: 19, amount: 19 },
+    { rate: 7, amount: 3.5 }
+  ]);
+});
+
+// The part of an inclusive price above its net price is tax
+test("extracts tax from prices that include it", () => {
+  const [tax] = calcLineTaxes([{ total: 119, category: "standard" }], { rates, country: "Germany", pricesIncludeTax: true, defaultRate: 15 });
+  expect(tax).toEqual({ rate: 19, amount: 19 });
+});
+
+// The coupon discount is shared between the lines before tax
+test("takes the discount off before tax", () => {
+  const taxes = calcLineTaxes(
+    [
+      { total: 150, category: "standard" },
+      { total: 50, category: "reduced" }
+    ],
+    { rates, country: "Germany", discountPrice: 20, pricesIncludeTax: false, defaultRate: 15 }
+  );
+
+  expect(taxes.map(x => x.amount)).toEqual([25.65, 3.15]);
+});
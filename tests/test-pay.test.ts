@@ -0,0 +1,20 @@
+import { testPayProvider } from "../lib/payments/test-pay";
+
+const order = { id: "order-1", totalPrice: "42.50", paymentResult: null };
+
+// TestPay completes every payment for the order total without calling any external service
+test("captures the order total", async () => {
+  const intent = await testPayProvider.createIntent!(order);
+  const paymentResult = await testPayProvider.capture!(order, { intentId: intent.id });
+
+  expect(paymentResult).toEqual({ id: intent.id, status: "COMPLETED", email_address: "", pricePaid: "42.50" });
+});
+
+// Each refund gets its own id, so refunds are recorded once each
+test("refunds with a unique id", async () => {
+  const first = await testPayProvider.refund!(order, 10);
+  const second = await testPayProvider.refund!(order, 10);
+
+  expect(first.providerRefundId).toMatch(/^testpay_refund_/);
+  expect(first.providerRefundId).not.toBe(second.providerRefundId);
+});
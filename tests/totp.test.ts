@@ -0,0 +1,55 @@
+import { base32Decode, base32Encode, generateRecoveryCodes, getTotpCode, getTotpStep, hashRecoveryCode, verifyTotpCode } from "../lib/totp";
+
+// The test vectors of RFC 6238 (Appendix B): 8 digits, 30 second steps
+const vectors: [number, string, string, string][] = [
+  [59, "94287082", "46119246", "90693936"],
+  [1111111109, "07081804", "68084774", "25091201"],
+  [1111111111, "14050471", "67062674", "99943326"],
+  [1234567890, "89005924", "91819424", "93441116"],
+  [2000000000, "69279037", "90698825", "38618901"],
+  [20000000000, "65353130", "77737706", "47863826"]
+];
+
+const sha1Key = Buffer.from("12345678901234567890");
+const sha256Key = Buffer.from("12345678901234567890123456789012");
+const sha512Key = Buffer.from("1234567890123456789012345678901234567890123456789012345678901234");
+
+test("matches the RFC 6238 test vectors", () => {
+  for (const [seconds, sha1, sha256, sha512] of vectors) {
+    const counter = getTotpStep(new Date(seconds * 1000));
+
+    expect(getTotpCode(sha1Key, counter, { digits: 8 })).toBe(sha1);
+    expect(getTotpCode(sha256Key, counter, { digits: 8, algorithm: "sha256" })).toBe(sha256);
+    expect(getTotpCode(sha512Key, counter, { digits: 8, algorithm: "sha512" })).toBe(sha512);
+  }
+});
+
+// The secrets shown to users are base32
+test("encodes and decodes base32 secrets", () => {
+  expect(base32Encode(sha1Key)).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  expect(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq")).toEqual(sha1Key);
+  expect(() => base32Decode("GEZ1")).toThrow("Invalid base32 secret");
+});
+
+// Codes of the adjacent steps are accepted, but not the ones already used
+test("verifies a code within the window once", () => {
+  const secret = base32Encode(sha1Key);
+  const now = new Date(59 * 1000);
+  const code = getTotpCode(sha1Key, getTotpStep(now));
+
+  expect(verifyTotpCode(secret, code, { now })).toBe(1);
+  expect(verifyTotpCode(secret, code.replace(/^(\d{3})/, "$1 "), { now: new Date(89 * 1000) })).toBe(1);
+  expect(verifyTotpCode(secret, code, { now: new Date(119 * 1000) })).toBeNull();
+  expect(verifyTotpCode(secret, code, { now, lastStep: 1 })).toBeNull();
+  expect(verifyTotpCode(secret, "12345", { now })).toBeNull();
+});
+
+// Recovery codes are hashed ignoring how they are typed
+test("generates and hashes recovery codes", () => {
+  const codes = generateRecoveryCodes();
+
+  expect(codes).toHaveLength(10);
+  expect(new Set(codes).size).toBe(10);
+  expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+  expect(hashRecoveryCode(" ABCDE-12345 ")).toBe(hashRecoveryCode("abcde12345"));
+});
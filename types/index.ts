@@ -4,7 +4,8 @@
  */
 
 import { z } from "zod"; // Imports Zod library for schema validation.
-import { cartItemSchema, insertCartSchema, insertProductSchema, shippingAddressSchema, insertOrderItemSchema, insertOrderSchema, paymentResultSchema, insertReviewSchema } from "@/lib/validator";
+import { SalePricing } from "@/lib/sale";
+import { cartItemSchema, insertCartSchema, insertProductSchema, productVariantSchema, shippingAddressSchema, insertOrderItemSchema, insertOrderSchema, paymentResultSchema, insertReviewSchema, insertCouponSchema, insertSaleSchema, insertHomepageSectionSchema, insertShippingZoneSchema, insertTaxRateSchema, insertCategorySchema, insertRoleSchema } from "@/lib/validator";
 
 // Defines the TypeScript type for a product by inferring from the insertProductSchema and extending it with additional properties.
 export type Product = z.infer<typeof insertProductSchema> & {
@@ -12,8 +13,19 @@ export type Product = z.infer<typeof insertProductSchema> & {
   createdAt: Date; // Adds a `createdAt` property of type Date.
   rating: string; // Adds a `rating` property of type string.
   numReviews: number; // Adds a `numReviews` property of type number.
+  category?: { name: string; slug: string }; // Adds an optional `category` property holding the name and slug of the product's category, when it is loaded.
+  pricing?: SalePricing; // Adds an optional `pricing` property holding the price the product sells at with the running sales, when it is priced.
 };
 
+// Defines the TypeScript type for a category by inferring from the insertCategorySchema and extending it with additional properties.
+export type Category = z.infer<typeof insertCategorySchema> & {
+  id: string; // Adds an `id` property of type string.
+  createdAt: Date; // Adds a `createdAt` property of type Date.
+};
+
+// Defines the TypeScript type for a product variant by inferring from the productVariantSchema.
+export type ProductVariant = z.infer<typeof productVariantSchema>;
+
 // Defines the TypeScript type for a cart by inferring from the insertCartSchema.
 export type Cart = z.infer<typeof insertCartSchema>;
 
@@ -32,13 +44,75 @@ export type OrderItem = z.infer<typeof insertOrderItemSchema>;
 export type Order = z.infer<typeof insertOrderSchema> & {
   id: string; // Adds an 'id' field of type string to the Order type.
   createdAt: Date; // Adds a 'createdAt' field of type Date to the Order type.
-  isPaid: boolean; // Adds an 'isPaid' field of type boolean to the Order type.
+  status: string; // Adds a 'status' field holding the status of the order in its lifecycle (see lib/order-status.ts).
   paidAt: Date | null; // Adds a 'paidAt' field of type Date or null to the Order type.
-  isDelivered: boolean; // Adds an 'isDelivered' field of type boolean to the Order type.
   deliveredAt: Date | null; // Adds a 'deliveredAt' field of type Date or null to the Order type.
+  reservationExpiresAt: Date | null; // Adds a 'reservationExpiresAt' field holding when the unpaid order is cancelled and its stock released.
+  pricesIncludeTax: boolean; // Adds a 'pricesIncludeTax' field indicating whether the tax price is part of the items price rather than added to the total.
   orderitems: OrderItem[]; // Adds an 'orderitems' field which is an array of OrderItem type to the Order type.
   user: { name: string; email: string }; // Adds a 'user' field which is an object containing 'name' and 'email' fields of type string to the Order type.
   paymentResult: PaymentResult;
+  statusHistory?: OrderStatusHistory[]; // Adds an optional 'statusHistory' field holding the status timeline of the order.
+  refunds?: Refund[]; // Adds an optional 'refunds' field holding the refunds issued for the order.
+};
+
+// Defines a TypeScript type for a refund of an order.
+export type Refund = {
+  id: string;
+  amount: string; // The refunded amount.
+  provider: string; // "Stripe", "PayPal" or "manual".
+  reason: string | null; // An optional reason for the refund.
+  restocked: boolean; // Whether the items were put back in stock with this refund.
+  createdAt: Date; // When the refund was recorded.
+};
+
+// Defines a TypeScript type for an entry of the status timeline of an order.
+export type OrderStatusHistory = {
+  id: string;
+  fromStatus: string | null; // The status before the change. Null for the entry recorded when the order was created.
+  toStatus: string; // The status after the change.
+  note: string | null; // An optional note explaining the change.
+  createdAt: Date; // When the status changed.
+  changedBy: { name: string } | null; // The user who changed the status. Null when it was changed by the system.
+};
+
+// Defines the TypeScript type for a coupon by inferring from the insertCouponSchema and extending it with additional properties.
+export type Coupon = z.infer<typeof insertCouponSchema> & {
+  id: string; // Adds an `id` property of type string.
+  createdAt: Date; // Adds a `createdAt` property of type Date.
+};
+
+// Defines the TypeScript type for a sale by inferring from the insertSaleSchema and extending it with additional properties.
+export type Sale = z.infer<typeof insertSaleSchema> & {
+  id: string; // Adds an `id` property of type string.
+  createdAt: Date; // Adds a `createdAt` property of type Date.
+};
+
+// Defines the TypeScript type for a role by inferring from the insertRoleSchema and extending it with additional properties.
+export type Role = z.infer<typeof insertRoleSchema> & {
+  id: string; // Adds an `id` property of type string.
+  isSystem: boolean; // Adds an `isSystem` property indicating whether it is a built-in role, which can't be renamed or deleted.
+  createdAt: Date; // Adds a `createdAt` property of type Date.
+};
+
+// Defines the TypeScript type for a homepage section by inferring from the insertHomepageSectionSchema and extending it with additional properties.
+export type HomepageSection = z.infer<typeof insertHomepageSectionSchema> & {
+  id: string; // Adds an `id` property of type string.
+  position: number; // Adds a `position` property holding the order of the section on the homepage.
+  createdAt: Date; // Adds a `createdAt` property of type Date.
+  updatedAt: Date; // Adds an `updatedAt` property of type Date.
+};
+
+// Defines the TypeScript type for a shipping zone, with its rates, by inferring from the insertShippingZoneSchema.
+export type ShippingZone = z.infer<typeof insertShippingZoneSchema> & {
+  id: string; // Adds an `id` property of type string.
+  createdAt: Date; // Adds a `createdAt` property of type Date.
+};
+
+// Defines the TypeScript type for a tax rate by inferring from the insertTaxRateSchema and extending it with additional properties.
+export type TaxRate = z.infer<typeof insertTaxRateSchema> & {
+  id: string; // Adds an `id` property of type string.
+  createdAt: Date; // Adds a `createdAt` property of type Date.
 };
 
 // Defines a TypeScript type 'PaymentResult' based on the Zod schema 'paymentResultSchema'.